@@ -0,0 +1,233 @@
+import express, { Request, Response } from "express";
+import cors from "cors";
+import bodyParser from "body-parser";
+import type { Server } from "node:http";
+import { v4 as uuidv4 } from "uuid";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./mcp-server.js";
+import { PortalRegistry } from "./services/portal-registry.js";
+import { logger } from "./utils/logger.js";
+
+/**
+ * Options of the HTTP transport mode
+ */
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  // Allowed CORS origins, "*" allows any origin
+  corsOrigins?: string[];
+}
+
+/**
+ * MCP session served over HTTP, with its own server instance
+ */
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+/**
+ * Send a JSON-RPC error response outside of an MCP session
+ */
+const sendJsonRpcError = (res: Response, status: number, message: string) => {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+};
+
+/**
+ * Create the Express app serving MCP over Streamable HTTP at /mcp, with the
+ * older HTTP+SSE transport at /sse and /messages for clients that do not
+ * support it yet. Each session gets its own McpServer from createServer.
+ * @param portals Optional portal registry shared by all sessions, or base
+ * URL of a single eRegulations API
+ * @param corsOrigins Allowed CORS origins
+ * @returns The app and a function closing all open sessions
+ */
+export const createHttpApp = (
+  portals?: string | PortalRegistry,
+  corsOrigins = ["*"]
+) => {
+  const sessions = new Map<string, HttpSession>();
+  const app = express();
+
+  app.use(
+    cors({
+      origin: corsOrigins.includes("*") ? "*" : corsOrigins,
+      // Clients need to read the session ID assigned on initialization
+      exposedHeaders: ["mcp-session-id"],
+    })
+  );
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+      logger.log(`Closed MCP session ${sessionId}`);
+    } catch (error) {
+      logger.error(`Error closing MCP session ${sessionId}:`, error);
+    }
+  };
+
+  const getStreamableTransport = (req: Request) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const session =
+      typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    return session?.transport instanceof StreamableHTTPServerTransport
+      ? session.transport
+      : undefined;
+  };
+
+  app.get("/health", (req, res) => {
+    res.json({ status: "ok", sessions: sessions.size });
+  });
+
+  // Streamable HTTP: client messages, opening a session on initialization
+  app.post("/mcp", bodyParser.json(), async (req, res) => {
+    try {
+      const existingTransport = getStreamableTransport(req);
+      if (existingTransport) {
+        await existingTransport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (req.headers["mcp-session-id"]) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+        return;
+      }
+
+      const { server } = createServer(portals);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => uuidv4(),
+        onsessioninitialized: (sessionId) => {
+          logger.log(`Opened MCP session ${sessionId} (Streamable HTTP)`);
+          sessions.set(sessionId, { server, transport });
+        },
+      });
+      await server.connect(transport);
+      // Ends the session when the client deletes it
+      const onclose = server.server.onclose;
+      server.server.onclose = () => {
+        onclose?.();
+        if (transport.sessionId) {
+          closeSession(transport.sessionId);
+        }
+      };
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  // Streamable HTTP: server notification stream (GET) and session end (DELETE)
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const transport = getStreamableTransport(req);
+    if (!transport) {
+      sendJsonRpcError(res, 400, "Bad Request: Invalid or missing session ID");
+      return;
+    }
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      logger.error("Error handling MCP session request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // HTTP+SSE fallback: the event stream opens the session
+  app.get("/sse", async (req, res) => {
+    const { server } = createServer(portals);
+    const transport = new SSEServerTransport("/messages", res);
+    sessions.set(transport.sessionId, { server, transport });
+    logger.log(`Opened MCP session ${transport.sessionId} (SSE)`);
+
+    res.on("close", () => {
+      closeSession(transport.sessionId);
+    });
+
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      logger.error("Error opening SSE session:", error);
+      await closeSession(transport.sessionId);
+    }
+  });
+
+  // HTTP+SSE fallback: client messages of a session
+  app.post("/messages", bodyParser.json(), async (req, res) => {
+    const sessionId = req.query.sessionId;
+    const session =
+      typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    try {
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      logger.error("Error handling SSE message:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  const closeAllSessions = async () => {
+    await Promise.all([...sessions.keys()].map(closeSession));
+  };
+
+  return { app, closeAllSessions };
+};
+
+/**
+ * Start serving MCP over HTTP
+ * @param portals Optional portal registry, or base URL of a single
+ * eRegulations API
+ * @param options Port, host and CORS origins to serve with
+ * @returns The HTTP server and a function shutting it down gracefully
+ */
+export const startHttpServer = async (
+  portals: string | PortalRegistry | undefined,
+  options: HttpServerOptions
+) => {
+  const { app, closeAllSessions } = createHttpApp(portals, options.corsOrigins);
+
+  const httpServer = await new Promise<Server>((resolve, reject) => {
+    const server = app.listen(options.port, options.host || "127.0.0.1", () =>
+      resolve(server)
+    );
+    server.on("error", reject);
+  });
+
+  // Stop accepting connections, then end the open sessions so that their
+  // streams finish and the server can close
+  const close = async () => {
+    const closed = new Promise<void>((resolve, reject) => {
+      httpServer.close((error) => (error ? reject(error) : resolve()));
+    });
+    await closeAllSessions();
+    await closed;
+  };
+
+  return { httpServer, close };
+};
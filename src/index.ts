@@ -5,16 +5,29 @@ import { logger } from "./utils/logger.js";
 import events from "events";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
+import { join } from "node:path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ERegulationsApi } from "./services/eregulations-api.js";
+import { HttpServerOptions, startHttpServer } from "./http-server.js";
+import {
+  createPortalRegistry,
+  PortalRegistry,
+} from "./services/portal-registry.js";
+import {
+  assertSnapshotTarget,
+  createSnapshotRegistry,
+  exportSnapshot,
+} from "./services/portal-snapshot.js";
+import { createEmbeddingProvider } from "./services/embeddings.js";
+import { configureSemanticSearch } from "./services/semantic-search.js";
 
 // Increase default max listeners to prevent memory leak warnings
 events.setMaxListeners(20);
 
-export async function main(apiUrl?: string) {
+export async function main(portals?: string | PortalRegistry) {
   logger.info("Starting MCP server (Standard SDK Mode)...");
 
-  const { server } = createServer(apiUrl);
+  const { server } = createServer(portals);
   const transport = new StdioServerTransport();
 
   logger.info("Attempting to connect server to stdio transport...");
@@ -54,25 +67,203 @@ export async function main(apiUrl?: string) {
   logger.info("MCP server ready via standard SDK stdio transport.");
 }
 
+export async function mainHttp(
+  portals: string | PortalRegistry | undefined,
+  options: HttpServerOptions
+) {
+  logger.info("Starting MCP server (HTTP Mode)...");
+
+  const { httpServer, close } = await startHttpServer(portals, options);
+  const address = httpServer.address();
+  const location =
+    address && typeof address === "object"
+      ? `${address.address}:${address.port}`
+      : String(address);
+
+  ["SIGINT", "SIGTERM", "SIGQUIT"].forEach((signal) => {
+    process.on(signal, () => {
+      console.error(`Received ${signal}, attempting graceful shutdown...`);
+      close()
+        .then(() => {
+          console.error("HTTP server closed gracefully on signal.");
+          process.exit(0);
+        })
+        .catch((e) => {
+          console.error("Error closing HTTP server on signal:", e);
+          process.exit(1);
+        });
+    });
+  });
+
+  logger.info(
+    `MCP server ready via Streamable HTTP at http://${location}/mcp (SSE fallback at /sse).`
+  );
+}
+
 // In ES modules, we can use import.meta.url to detect if this is the main module
 // This is equivalent to require.main === module in CommonJS
 const isMainModule = import.meta.url.endsWith(process.argv[1]);
 
 if (isMainModule) {
   const argv = yargs(hideBin(process.argv))
+    .command(
+      "snapshot <path>",
+      "Save the procedures of the portals to a snapshot directory, to serve them later with --snapshot",
+      (command) =>
+        command.positional("path", {
+          type: "string",
+          description: "Empty directory to save the snapshot to",
+          demandOption: true,
+        })
+    )
     .option("api-url", {
+      type: "string",
+      array: true,
+      description:
+        "eRegulations API URL (overrides EREGULATIONS_API_URL environment variable). Repeat as name=url to serve several portals",
+      default: process.env.EREGULATIONS_API_URL
+        ? [process.env.EREGULATIONS_API_URL]
+        : undefined,
+    })
+    .option("portals-config", {
+      type: "string",
+      description:
+        "JSON file mapping portal names to eRegulations API URLs, with an optional default portal",
+      default: process.env.EREGULATIONS_PORTALS_CONFIG,
+    })
+    .option("cache-dir", {
+      type: "string",
+      description:
+        "Directory persisting the API responses across restarts, with a subdirectory per portal",
+      default: process.env.EREGULATIONS_CACHE_DIR,
+    })
+    .option("cache-ttl", {
+      type: "number",
+      description:
+        "Seconds API responses stay fresh in the cache. Portal settings and reference lists are kept for a day",
+      default: process.env.EREGULATIONS_CACHE_TTL
+        ? Number(process.env.EREGULATIONS_CACHE_TTL)
+        : undefined,
+    })
+    .option("offline", {
+      type: "boolean",
+      description:
+        "Serve only cached API responses from the cache directory, without calling the API",
+      default: process.env.EREGULATIONS_OFFLINE === "true",
+    })
+    .option("snapshot", {
+      type: "string",
+      description:
+        "Serve the portals of a snapshot directory without calling their APIs",
+      default: process.env.EREGULATIONS_SNAPSHOT,
+    })
+    .option("embeddings-url", {
       type: "string",
       description:
-        "eRegulations API URL (overrides EREGULATIONS_API_URL environment variable)",
-      default: process.env.EREGULATIONS_API_URL,
+        "Base URL of an OpenAI-compatible embeddings API for semanticSearchProcedures, e.g. a local Ollama at http://localhost:11434/v1. Defaults to a built-in model",
+      default: process.env.EREGULATIONS_EMBEDDINGS_URL,
+    })
+    .option("embeddings-model", {
+      type: "string",
+      description: "Embedding model to request from --embeddings-url",
+      default: process.env.EREGULATIONS_EMBEDDINGS_MODEL,
+    })
+    .option("transport", {
+      type: "string",
+      choices: ["stdio", "http"],
+      description:
+        "Transport to serve MCP over: stdio for a single client, http for Streamable HTTP with an SSE fallback",
+      default: "stdio",
+    })
+    .option("port", {
+      type: "number",
+      description: "Port to listen on in http mode",
+      default: process.env.PORT ? Number(process.env.PORT) : 3000,
+    })
+    .option("host", {
+      type: "string",
+      description: "Host to listen on in http mode",
+      default: "127.0.0.1",
+    })
+    .option("cors-origin", {
+      type: "string",
+      array: true,
+      description: "Origins allowed to call the server in http mode",
+      default: ["*"],
+    })
+    .check((args) => {
+      if (args.offline && !args["cache-dir"]) {
+        throw new Error("--offline requires --cache-dir");
+      }
+      if (args["embeddings-url"] && !args["embeddings-model"]) {
+        throw new Error("--embeddings-url requires --embeddings-model");
+      }
+      return true;
     })
     .help()
     .parseSync();
 
-  main(argv["api-url"]).catch((error) => {
-    console.error("Server error:", error);
-    process.exit(1);
-  });
+  if (argv._[0] === "snapshot") {
+    const path = argv.path as string;
+    assertSnapshotTarget(path);
+    // The crawl caches every response in the snapshot directory
+    const portals = createPortalRegistry({
+      apiUrls: argv["api-url"],
+      configFile: argv["portals-config"],
+      cache: { directory: path },
+    });
+
+    exportSnapshot(portals, path, (message) => console.error(message))
+      .then(() => {
+        console.error(`Snapshot saved to ${path}`);
+        process.exit(0);
+      })
+      .catch((error) => {
+        console.error("Snapshot error:", error);
+        process.exit(1);
+      });
+  } else {
+    const portals = argv.snapshot
+      ? createSnapshotRegistry(argv.snapshot)
+      : createPortalRegistry({
+          apiUrls: argv["api-url"],
+          configFile: argv["portals-config"],
+          cache: {
+            directory: argv["cache-dir"],
+            offline: argv.offline,
+            ...(argv["cache-ttl"] !== undefined
+              ? { defaultTtl: argv["cache-ttl"] * 1000 }
+              : {}),
+          },
+        });
+
+    // Vectors are kept next to the cached responses, as computing them
+    // with an embedding service is slow
+    configureSemanticSearch({
+      provider: createEmbeddingProvider({
+        url: argv["embeddings-url"],
+        model: argv["embeddings-model"],
+        apiKey: process.env.EREGULATIONS_EMBEDDINGS_API_KEY,
+      }),
+      ...(argv["cache-dir"] && !argv.snapshot
+        ? { directory: join(argv["cache-dir"], "embeddings") }
+        : {}),
+    });
+
+    const run =
+      argv.transport === "http"
+        ? mainHttp(portals, {
+            port: argv.port,
+            host: argv.host,
+            corsOrigins: argv["cors-origin"],
+          })
+        : main(portals);
+
+    run.catch((error) => {
+      console.error("Server error:", error);
+      process.exit(1);
+    });
+  }
 }
 // When imported as a module (for testing), don't automatically run main()
 // This allows test code to call main() with specific parameters
@@ -0,0 +1,29 @@
+import { PROMPT_TEMPLATES, PromptName } from "./templates.js";
+import { WORKFLOW_PROMPTS } from "./workflows.js";
+import type { PromptHandler } from "./types.js";
+
+/**
+ * Creates the prompts of the server: a guide to each main tool, without
+ * arguments, and the workflow prompts orchestrating the tools for a task
+ * @returns An array of PromptHandler objects
+ */
+export function createPromptHandlers(): PromptHandler[] {
+  const templates = Object.values(PromptName).map(
+    (name): PromptHandler => ({
+      name,
+      // The line under the title of the template
+      description: PROMPT_TEMPLATES[name].split("\n")[1],
+      getMessages: () => [
+        {
+          role: "user",
+          content: { type: "text", text: PROMPT_TEMPLATES[name] },
+        },
+      ],
+    })
+  );
+  return [...templates, ...WORKFLOW_PROMPTS];
+}
+
+export { PromptName, PROMPT_TEMPLATES } from "./templates.js";
+export { WorkflowPromptName } from "./workflows.js";
+export type { PromptHandler } from "./types.js";
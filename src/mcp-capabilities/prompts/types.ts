@@ -0,0 +1,18 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// Prompt arguments are always strings
+export type PromptArgsShape = Record<
+  string,
+  z.ZodType<string> | z.ZodOptional<z.ZodType<string>>
+>;
+
+export interface PromptHandler {
+  name: string;
+  description: string;
+  // Only for the prompts taking arguments
+  argsSchema?: PromptArgsShape;
+  getMessages: (
+    args: Record<string, string | undefined>
+  ) => GetPromptResult["messages"];
+}
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import type { PromptHandler } from "./types.js";
+
+export enum WorkflowPromptName {
+  PLAN_EXPORT = "planExport",
+  EXPLAIN_PROCEDURE_COSTS = "explainProcedureCosts",
+  STEP_CHECKLIST = "stepChecklist",
+}
+
+const PortalPromptArgument = z
+  .string()
+  .optional()
+  .describe(
+    "Name of the eRegulations portal to query (from listPortals). Defaults to the default portal"
+  );
+
+const IdPromptArgument = (description: string) =>
+  z.string().regex(/^\d+$/, "Expected a numeric ID").describe(description);
+
+/**
+ * Tell the model which portal to pass to the tools
+ */
+function getPortalInstruction(portal?: string): string {
+  return portal
+    ? `Query the "${portal}" portal: pass \`portal: "${portal}"\` to every tool.`
+    : `Query the default portal, unless I name another one (see \`listPortals\`).`;
+}
+
+function userMessage(text: string): ReturnType<PromptHandler["getMessages"]> {
+  return [{ role: "user", content: { type: "text", text } }];
+}
+
+const planExport: PromptHandler = {
+  name: WorkflowPromptName.PLAN_EXPORT,
+  description:
+    "Plan the export of a commodity: find the procedures involved and sum up their steps, documents, time and costs",
+  argsSchema: {
+    commodity: z
+      .string()
+      .min(1)
+      .describe("The commodity to export, e.g. cloves or fish"),
+    portal: PortalPromptArgument,
+  },
+  getMessages: ({ commodity, portal }) =>
+    userMessage(`I want to export ${commodity}. Help me plan the export with the eRegulations tools.
+
+${getPortalInstruction(portal)}
+
+1. Find the export procedures for ${commodity}: open the export objectives with \`browseObjectives\` (e.g. EXPORT → Commodities), and call \`semanticSearchProcedures\` with a query such as "export ${commodity}". If nothing relevant comes up, call \`searchProcedures\` with a single keyword.
+2. Call \`getProcedureSummary\` on each relevant procedure for its number of steps, total time and total cost, passing the \`menuId\` it was listed under, if any.
+3. Call \`getProcedureDetails\` on the procedures I need, and \`getProcedureStep\` on the steps whose requirements or costs are unclear.
+
+Then give me a plan: the procedures in the order I must complete them, with for each one the institutions involved, the documents to prepare, the time and the cost, followed by the total time and cost of the export. Cite the procedure and step IDs, and say what the portal does not document instead of guessing.`),
+};
+
+const explainProcedureCosts: PromptHandler = {
+  name: WorkflowPromptName.EXPLAIN_PROCEDURE_COSTS,
+  description:
+    "Explain what a procedure costs: official fees per step, how variable fees are computed and the administrative burden",
+  argsSchema: {
+    procedureId: IdPromptArgument("ID of the procedure"),
+    portal: PortalPromptArgument,
+  },
+  getMessages: ({ procedureId, portal }) =>
+    userMessage(`Explain the costs of procedure ${procedureId} with the eRegulations tools.
+
+${getPortalInstruction(portal)}
+
+1. Call \`getProcedureSummary\` with procedureId ${procedureId} for the official total costs.
+2. Call \`getProcedureDetails\` with procedureId ${procedureId} for its steps, then \`getProcedureStep\` on each step with costs, to see what each cost is for, how it is computed (fixed amount, percentage of a value or per unit) and how it is paid.
+3. Call \`getDocumentCost\` on the required documents that must be bought.
+4. Call \`getProcedureAdministrativeBurden\` with procedureId ${procedureId} for the time and money applicants spend beyond the official fees.
+
+Then explain the costs step by step, and give the totals by currency. For variable costs, say which values (e.g. shipment value or quantity) I need to compute them. Keep the official fees apart from the administrative burden, and cite the step IDs.`),
+};
+
+const stepChecklist: PromptHandler = {
+  name: WorkflowPromptName.STEP_CHECKLIST,
+  description:
+    "Make a checklist for a step of a procedure: documents to bring, forms to fill in, fees to pay, and where and when to go",
+  argsSchema: {
+    procedureId: IdPromptArgument("ID of the procedure"),
+    stepId: IdPromptArgument("ID of the step within the procedure"),
+    portal: PortalPromptArgument,
+  },
+  getMessages: ({ procedureId, stepId, portal }) =>
+    userMessage(`Make me a checklist for step ${stepId} of procedure ${procedureId} with the eRegulations tools.
+
+${getPortalInstruction(portal)}
+
+1. Call \`getProcedureStep\` with procedureId ${procedureId} and stepId ${stepId}.
+2. Call \`getForm\` on each required document that is a form, for its download link and cost.
+3. Call \`getInstitution\` on the institution in charge of the step, for its address and opening hours.
+
+Then give me a checklist I can tick off: the documents to bring with their number of originals and copies, the forms to fill in and where to download them, the fees to pay and how, where and when to go, how long it takes and what I get at the end. Say what the portal does not document instead of guessing.`),
+};
+
+export const WORKFLOW_PROMPTS: PromptHandler[] = [
+  planExport,
+  explainProcedureCosts,
+  stepChecklist,
+];
@@ -0,0 +1,24 @@
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { createProcedureResource } from "./procedure.js";
+import { createStepResource } from "./step.js";
+import { createObjectiveResource } from "./objective.js";
+import type { ResourceHandler } from "./types.js";
+
+/**
+ * Creates the resources of every portal of the registry
+ * @param registry The registry of the portals being served
+ * @returns An array of ResourceHandler objects
+ */
+export function createResourceHandlers(
+  registry: PortalRegistry
+): ResourceHandler[] {
+  return [
+    createProcedureResource(registry),
+    createStepResource(registry),
+    createObjectiveResource(registry),
+  ];
+}
+
+export { watchResourceChanges } from "./subscriptions.js";
+export { getResourceUri, RESOURCE_SCHEME } from "./utils.js";
+export type { ResourceHandler } from "./types.js";
@@ -0,0 +1,51 @@
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../tools/formatters/index.js";
+import { logger } from "../../utils/logger.js";
+import type { ResourceHandler } from "./types.js";
+import {
+  getIdVariable,
+  getResourceUri,
+  listPortalResources,
+  OBJECTIVES_PATH,
+  readPortalResource,
+  RESOURCE_SCHEME,
+} from "./utils.js";
+
+/**
+ * Creates the resources of the objectives and menus of every portal, listing
+ * the top-level objectives
+ * @param registry The portals to serve
+ */
+export function createObjectiveResource(
+  registry: PortalRegistry
+): ResourceHandler {
+  const mimeType = "text/plain";
+  return {
+    name: "objective",
+    uriTemplate: `${RESOURCE_SCHEME}://{portal}/objectives/{objectiveId}`,
+    title: "Objective",
+    description:
+      "An objective or menu of a portal with its sub-menus and procedures, as returned by the browseObjectives tool.",
+    mimeType,
+    list: () =>
+      listPortalResources(registry, async (api, portal) => {
+        const level = await api.getObjectiveLevel();
+        return level.children
+          .filter((child) => !child.isProcedure)
+          .map((child) => ({
+            uri: getResourceUri(portal, `/objectives/${child.id}`),
+            name: child.name,
+            mimeType,
+          }));
+      }),
+    read: (uri, variables) =>
+      readPortalResource(registry, uri, variables, mimeType, async (api) => {
+        const objectiveId = getIdVariable(variables, "objectiveId");
+        logger.log(`Reading objective resource ${uri.href}`);
+
+        const level = await api.getObjectiveLevel(objectiveId);
+        return formatters.objectiveLevel.format(level).text;
+      }),
+    dependsOn: (_variables, path) => path === OBJECTIVES_PATH,
+  };
+}
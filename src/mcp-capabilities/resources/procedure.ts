@@ -0,0 +1,67 @@
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../tools/formatters/index.js";
+import { logger } from "../../utils/logger.js";
+import type { ResourceHandler } from "./types.js";
+import {
+  getIdVariable,
+  getResourceUri,
+  listPortalResources,
+  readPortalResource,
+  RESOURCE_SCHEME,
+} from "./utils.js";
+
+/**
+ * Creates the resources of the procedures of every portal
+ * @param registry The portals to serve
+ */
+export function createProcedureResource(
+  registry: PortalRegistry
+): ResourceHandler {
+  const mimeType = "text/plain";
+  return {
+    name: "procedure",
+    uriTemplate: `${RESOURCE_SCHEME}://{portal}/procedures/{procedureId}`,
+    title: "Procedure",
+    description:
+      "A procedure with its steps, entities in charge, requirements, costs and timeframe, as returned by the getProcedureDetails tool.",
+    mimeType,
+    list: () =>
+      listPortalResources(registry, async (api, portal) => {
+        const procedures = await api.getProceduresList();
+        // Procedures listed under several menus are listed once, and the
+        // objectives and menus of the tree are left out
+        const seen = new Set<number>();
+        return procedures
+          .filter((procedure) => procedure.isProcedure)
+          .filter((procedure) => {
+            if (seen.has(procedure.id)) {
+              return false;
+            }
+            seen.add(procedure.id);
+            return true;
+          })
+          .map((procedure) => ({
+            uri: getResourceUri(portal, `/procedures/${procedure.id}`),
+            name: procedure.fullName || procedure.name,
+            mimeType,
+          }));
+      }),
+    read: (uri, variables) =>
+      readPortalResource(registry, uri, variables, mimeType, async (api) => {
+        const procedureId = getIdVariable(variables, "procedureId");
+        logger.log(`Reading procedure resource ${uri.href}`);
+
+        // Official totals are optional, as in getProcedureDetails
+        const [procedure, totals] = await Promise.all([
+          api.getProcedureById(procedureId),
+          api.getProcedureTotals(procedureId).catch(() => null),
+        ]);
+        return formatters.procedure.format(
+          totals ? { ...procedure, totals } : procedure
+        ).text;
+      }),
+    dependsOn: (variables, path) =>
+      path === `/Procedures/${variables.procedureId}` ||
+      path === `/Procedures/${variables.procedureId}/Totals`,
+  };
+}
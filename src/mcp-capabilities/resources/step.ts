@@ -0,0 +1,33 @@
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../tools/formatters/index.js";
+import { logger } from "../../utils/logger.js";
+import type { ResourceHandler } from "./types.js";
+import { getIdVariable, readPortalResource, RESOURCE_SCHEME } from "./utils.js";
+
+/**
+ * Creates the resources of the steps of the procedures of every portal.
+ * Steps are not listed: they are found in the procedure resources.
+ * @param registry The portals to serve
+ */
+export function createStepResource(registry: PortalRegistry): ResourceHandler {
+  const mimeType = "text/plain";
+  return {
+    name: "step",
+    uriTemplate: `${RESOURCE_SCHEME}://{portal}/procedures/{procedureId}/steps/{stepId}`,
+    title: "Procedure step",
+    description:
+      "A step of a procedure with its contacts, requirements, costs, timeframe and legal references, as returned by the getProcedureStep tool.",
+    mimeType,
+    read: (uri, variables) =>
+      readPortalResource(registry, uri, variables, mimeType, async (api) => {
+        const procedureId = getIdVariable(variables, "procedureId");
+        const stepId = getIdVariable(variables, "stepId");
+        logger.log(`Reading step resource ${uri.href}`);
+
+        const step = await api.getProcedureStep(procedureId, stepId);
+        return formatters.step.format(step).text;
+      }),
+    dependsOn: (variables, path) =>
+      path === `/Procedures/${variables.procedureId}/Steps/${variables.stepId}`,
+  };
+}
@@ -0,0 +1,81 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { logger } from "../../utils/logger.js";
+import type { ResourceHandler } from "./types.js";
+import { OBJECTIVES_PATH } from "./utils.js";
+
+/**
+ * Let the clients of a server subscribe to resources, and notify them when
+ * the cached API responses a subscribed resource is built from change. The
+ * resource list is announced as changed when the objective tree changes.
+ * Listeners are removed when the server closes.
+ * @param server The server exposing the resources, not connected yet
+ * @param registry The portals whose API responses are watched
+ * @param handlers The resources exposed by the server
+ */
+export function watchResourceChanges(
+  server: McpServer,
+  registry: PortalRegistry,
+  handlers: ResourceHandler[]
+): void {
+  const subscriptions = new Set<string>();
+  const templates = handlers.map((handler) => ({
+    handler,
+    uriTemplate: new UriTemplate(handler.uriTemplate),
+  }));
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Whether a subscribed resource is built from a response of a portal
+  const dependsOn = (uri: string, portal: string, path: string) =>
+    templates.some(({ handler, uriTemplate }) => {
+      const variables = uriTemplate.match(uri);
+      if (!variables) {
+        return false;
+      }
+      try {
+        return (
+          registry.resolvePortal(String(variables.portal)) === portal &&
+          handler.dependsOn(variables, path)
+        );
+      } catch (error) {
+        // Unknown portal
+        return false;
+      }
+    });
+
+  const removeListeners = registry.getPortals().map(({ name }) =>
+    registry.getApi(name).onResponseChange((path) => {
+      if (path === OBJECTIVES_PATH) {
+        server.sendResourceListChanged();
+      }
+      subscriptions.forEach((uri) => {
+        if (dependsOn(uri, name, path)) {
+          logger.log(`Resource ${uri} changed, notifying the client`);
+          server.server.sendResourceUpdated({ uri }).catch((error) => {
+            logger.warn(`Could not notify the update of ${uri}:`, error);
+          });
+        }
+      });
+    })
+  );
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    removeListeners.forEach((removeListener) => removeListener());
+    onclose?.();
+  };
+}
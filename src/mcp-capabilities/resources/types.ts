@@ -0,0 +1,19 @@
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import type {
+  ReadResourceResult,
+  Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export interface ResourceHandler {
+  name: string;
+  uriTemplate: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  // Only for the resources that can be enumerated
+  list?: () => Promise<{ resources: Resource[] }>;
+  read: (uri: URL, variables: Variables) => Promise<ReadResourceResult>;
+  // Whether a resource is built from the API response at a path relative to
+  // the base URL of its portal, to notify subscribers when it changes
+  dependsOn: (variables: Variables, path: string) => boolean;
+}
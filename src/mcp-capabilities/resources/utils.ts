@@ -0,0 +1,87 @@
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import type {
+  ReadResourceResult,
+  Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { withFormattingLocale } from "../tools/formatters/locale.js";
+import { logger } from "../../utils/logger.js";
+
+export const RESOURCE_SCHEME = "eregulations";
+
+// Path of the objective tree, which the procedure list is built from
+export const OBJECTIVES_PATH = "/Objectives";
+
+/**
+ * Build the URI of a resource of a portal
+ * @param portal The portal name
+ * @param path The path of the resource, e.g. /procedures/725
+ */
+export function getResourceUri(portal: string, path: string): string {
+  return `${RESOURCE_SCHEME}://${portal}${path}`;
+}
+
+/**
+ * Get an ID from the variables of a resource URI
+ * @throws Error if the variable is not a positive integer
+ */
+export function getIdVariable(variables: Variables, name: string): number {
+  const id = Number(variables[name]);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(
+      `Invalid ${name} "${variables[name]}": expected a positive integer`
+    );
+  }
+  return id;
+}
+
+/**
+ * Read a resource from the portal named in its URI, formatted with the
+ * currency and locale of that portal
+ * @param read Function formatting the resource as text
+ * @throws Error if the portal is unknown or the resource cannot be read
+ */
+export async function readPortalResource(
+  registry: PortalRegistry,
+  uri: URL,
+  variables: Variables,
+  mimeType: string,
+  read: (api: ERegulationsApi) => Promise<string>
+): Promise<ReadResourceResult> {
+  const portal = registry.resolvePortal(String(variables.portal));
+  const locale = await registry.getLocale(portal);
+  const text = await withFormattingLocale(locale, () =>
+    read(registry.getApi(portal))
+  );
+  return { contents: [{ uri: uri.href, mimeType, text }] };
+}
+
+/**
+ * List the resources of every portal, leaving out the portals whose API
+ * cannot be reached
+ * @param list Function listing the resources of a portal
+ */
+export async function listPortalResources(
+  registry: PortalRegistry,
+  list: (api: ERegulationsApi, portal: string) => Promise<Resource[]>
+): Promise<{ resources: Resource[] }> {
+  const portals = registry.getPortals().map((portal) => portal.name);
+  const results = await Promise.allSettled(
+    portals.map((portal) => list(registry.getApi(portal), portal))
+  );
+  return {
+    resources: results.flatMap((result, index) => {
+      if (result.status === "rejected") {
+        logger.warn(
+          `Could not list the resources of portal ${portals[index]}:`,
+          result.reason instanceof Error
+            ? result.reason.message
+            : String(result.reason)
+        );
+        return [];
+      }
+      return result.value;
+    }),
+  };
+}
@@ -0,0 +1,281 @@
+import type {
+  AdminBurdenInPersonModel,
+  InPersonCostModel,
+  PreparationCostModel,
+} from "../../../services/eregulations-api.js";
+import {
+  AdministrativeBurdenData,
+  DataFormatter,
+  FormattedProcedureDetails,
+} from "./types.js";
+import { formatAmount, formatNumber } from "./locale.js";
+
+/**
+ * Formats Activity-Based Costing (administrative burden) data for LLMs
+ */
+export class AdministrativeBurdenFormatter
+  implements DataFormatter<AdministrativeBurdenData, FormattedProcedureDetails>
+{
+  /**
+   * Format administrative burden data for LLM consumption
+   * @param burden The ABC data of a procedure or step
+   * @returns Formatted administrative burden text and essential data
+   */
+  public format(burden: AdministrativeBurdenData): FormattedProcedureDetails {
+    if (!burden || (!burden.abc && !burden.step)) {
+      return {
+        text: "No administrative burden data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(burden),
+      data: this.extractEssentialData(burden),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param burden The full ABC data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(burden: AdministrativeBurdenData): any {
+    const table = burden.step
+      ? burden.step.abc.adminBurdenTable
+      : burden.abc?.adminBurdenTable;
+
+    return {
+      procedureId: burden.procedureId,
+      ...(burden.step ? { stepId: burden.step.id } : {}),
+      total: table?.total ?? null,
+      numberOfUsers: table?.numberOfUsers ?? null,
+      inPersonCost: this.sumInPersonCosts(table as AdminBurdenInPersonModel),
+      preparationCost:
+        this.sumPreparationCost(table?.humanPreparationCost) +
+        this.sumPreparationCost(table?.otherPreparationCost),
+      staffLevels: (burden.abc?.steps || []).map((s) => ({
+        stepId: s.stepId,
+        level: s.staffLevel?.levelText ?? s.staffLevel?.level,
+        hourlyCost: s.staffLevel?.hourlyCost,
+      })),
+      zones: burden.step
+        ? burden.step.abc.zone
+          ? [{ zone: burden.step.abc.zone.name }]
+          : []
+        : (burden.abc?.institutions || []).map((i) => ({
+            contactId: i.contactId,
+            zone: i.zone?.name,
+          })),
+    };
+  }
+
+  /**
+   * Format ABC data as human-readable text
+   * @param burden The ABC data to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(burden: AdministrativeBurdenData): string {
+    const procedureName = burden.procedureName || "Procedure";
+    let result = `ADMINISTRATIVE BURDEN: ${procedureName} (ID:${burden.procedureId})\n`;
+
+    if (burden.step) {
+      const stepName = burden.step.name || "Step";
+      result += `STEP: ${stepName} (STEP ID:${burden.step.id})\n`;
+    }
+
+    const table = burden.step
+      ? burden.step.abc.adminBurdenTable
+      : burden.abc?.adminBurdenTable;
+
+    if (table) {
+      const inPersonTable = table as AdminBurdenInPersonModel;
+      if (table.numberOfUsers) {
+        result += `Users per year: ${this.formatNumber(table.numberOfUsers)}\n`;
+      }
+
+      // In-person costs only exist at procedure level
+      if (inPersonTable.humanInPersonCost || inPersonTable.otherInPersonCost) {
+        result += "\nIN-PERSON COST:\n";
+        result += this.formatInPersonLine(
+          "Human",
+          inPersonTable.humanInPersonCost
+        );
+        result += this.formatInPersonLine(
+          "Other",
+          inPersonTable.otherInPersonCost
+        );
+      }
+
+      if (table.humanPreparationCost || table.otherPreparationCost) {
+        result += "\nPREPARATION COST:\n";
+        result += this.formatPreparationLine(
+          "Human",
+          table.humanPreparationCost
+        );
+        result += this.formatPreparationLine(
+          "Other",
+          table.otherPreparationCost
+        );
+      }
+
+      const extras = [];
+      if (inPersonTable.onlineCost) {
+        extras.push(`Online: ${this.formatNumber(inPersonTable.onlineCost)}`);
+      }
+      if (table.printCost) {
+        extras.push(`Printing: ${this.formatNumber(table.printCost)}`);
+      }
+      if (extras.length > 0) {
+        result += `\nOTHER COSTS: ${extras.join(" | ")}\n`;
+      }
+
+      if (table.total !== undefined && table.total !== null) {
+        result += `\nTOTAL BURDEN: ${formatAmount(
+          Math.round(table.total * 100) / 100
+        )}\n`;
+      }
+    }
+
+    // Staff levels per step
+    const levels = burden.abc?.steps || [];
+    if (levels.length > 0) {
+      result += "\nSTAFF LEVELS:\n";
+      levels.forEach((level) => {
+        const stepName = burden.stepNames?.[level.stepId];
+        const staff = level.staffLevel;
+        result += `- ${stepName ? `${stepName} ` : ""}(STEP ID:${
+          level.stepId
+        }): `;
+        if (staff) {
+          result += staff.levelText || `Level ${staff.level ?? "?"}`;
+          if (staff.hourlyCost) {
+            result += `, ${this.formatNumber(staff.hourlyCost)}/hour`;
+          }
+        } else {
+          result += "Not specified";
+        }
+        result += "\n";
+      });
+    }
+
+    // Institution zones (procedure) or the zone of the step institution
+    const zones = burden.step
+      ? burden.step.abc.zone
+        ? [{ contactId: undefined, zone: burden.step.abc.zone }]
+        : []
+      : burden.abc?.institutions || [];
+    if (zones.length > 0) {
+      result += "\nINSTITUTION ZONES:\n";
+      zones.forEach(({ contactId, zone }) => {
+        const institution =
+          contactId !== undefined
+            ? `${
+                burden.institutionNames?.[contactId] || "Institution"
+              } (ID:${contactId}): `
+            : "";
+        result += `- ${institution}${zone?.name || "Unknown zone"}`;
+        const details = [];
+        if (zone?.time && (zone.time.hour || zone.time.minute)) {
+          details.push(
+            `${zone.time.hour || 0}h${String(zone.time.minute || 0).padStart(
+              2,
+              "0"
+            )} to reach`
+          );
+        }
+        if (zone?.price) {
+          details.push(`${this.formatNumber(zone.price)} travel cost`);
+        }
+        if (details.length > 0) {
+          result += ` (${details.join(", ")})`;
+        }
+        result += "\n";
+      });
+    }
+
+    // Requirement costs
+    const requirements = burden.step
+      ? burden.step.abc.requirements || []
+      : burden.abc?.requirements || [];
+    if (requirements.length > 0) {
+      result += "\nREQUIREMENT COSTS:";
+      requirements.forEach((req) => {
+        result += ` Document ${req.documentId}: ${this.formatNumber(
+          req.total || 0
+        )};`;
+      });
+      result += "\n";
+    }
+
+    return result;
+  }
+
+  /**
+   * Format one line of in-person costs
+   */
+  private formatInPersonLine(label: string, cost?: InPersonCostModel): string {
+    if (!cost) {
+      return "";
+    }
+    return `${label}: reach office ${this.formatNumber(
+      cost.reachOffice || 0
+    )} | waiting ${this.formatNumber(
+      cost.waitingInLine || 0
+    )} | at counter ${this.formatNumber(
+      cost.spentTimeAtCounter || 0
+    )} | return ${this.formatNumber(cost.returnFromOffice || 0)}\n`;
+  }
+
+  /**
+   * Format one line of preparation costs
+   */
+  private formatPreparationLine(
+    label: string,
+    cost?: PreparationCostModel
+  ): string {
+    if (!cost) {
+      return "";
+    }
+    return `${label}: understand ${this.formatNumber(
+      cost.understand || 0
+    )} | gather info ${this.formatNumber(
+      cost.gatherInfo || 0
+    )} | fill forms ${this.formatNumber(cost.fillForm || 0)}\n`;
+  }
+
+  /**
+   * Sum the human and other in-person costs of a burden table
+   */
+  private sumInPersonCosts(table?: AdminBurdenInPersonModel): number {
+    if (!table) {
+      return 0;
+    }
+    return [table.humanInPersonCost, table.otherInPersonCost].reduce(
+      (sum, cost) =>
+        sum +
+        (cost?.reachOffice || 0) +
+        (cost?.waitingInLine || 0) +
+        (cost?.spentTimeAtCounter || 0) +
+        (cost?.returnFromOffice || 0),
+      0
+    );
+  }
+
+  /**
+   * Sum the components of a preparation cost
+   */
+  private sumPreparationCost(cost?: PreparationCostModel): number {
+    return (
+      (cost?.understand || 0) + (cost?.gatherInfo || 0) + (cost?.fillForm || 0)
+    );
+  }
+
+  /**
+   * Format a cost or count for display
+   */
+  private formatNumber(value: number): string {
+    // Round to 2 decimals to keep the output compact
+    return formatNumber(value, 2);
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  DataFormatter,
+  DocumentCostData,
+  FormattedProcedureDetails,
+} from "./types.js";
+
+// Fields that carry no cost information
+const IGNORED_FIELDS = ["id", "links", "_links"];
+
+/**
+ * Formats the cost of obtaining a document for LLMs
+ */
+export class DocumentCostFormatter
+  implements DataFormatter<DocumentCostData, FormattedProcedureDetails>
+{
+  /**
+   * Format document cost data for LLM consumption
+   * @param documentCost The cost payload and the ID of its document
+   * @returns Formatted document cost text and essential data
+   */
+  public format(documentCost: DocumentCostData): FormattedProcedureDetails {
+    if (!documentCost || !this.hasCostFields(documentCost.cost)) {
+      return {
+        text: `No cost data available for document ${
+          documentCost?.documentId ?? "?"
+        }`,
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(documentCost),
+      data: this.extractEssentialData(documentCost),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param documentCost The full document cost data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(documentCost: DocumentCostData): any {
+    return {
+      documentId: documentCost.documentId,
+      ...Object.fromEntries(this.getCostLines(documentCost.cost)),
+    };
+  }
+
+  /**
+   * Format the document cost as human-readable text
+   * @param documentCost The document cost to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(documentCost: DocumentCostData): string {
+    let result = `DOCUMENT COST (DOC ID:${documentCost.documentId}):\n`;
+    this.getCostLines(documentCost.cost).forEach(([label, value]) => {
+      result += `- ${label}: ${value}\n`;
+    });
+    return result;
+  }
+
+  /**
+   * Check whether a cost payload contains anything worth displaying
+   */
+  private hasCostFields(cost?: Record<string, unknown> | null): boolean {
+    return !!cost && this.getCostLines(cost).length > 0;
+  }
+
+  /**
+   * Flatten the (undocumented) cost payload into label/value pairs,
+   * using dotted labels for nested objects
+   */
+  private getCostLines(
+    cost: Record<string, unknown>,
+    prefix = ""
+  ): [string, string | number | boolean][] {
+    return Object.entries(cost || {}).flatMap(([key, value]) => {
+      if (IGNORED_FIELDS.includes(key) || value === null || value === "") {
+        return [];
+      }
+      const label = prefix ? `${prefix}.${key}` : key;
+      if (Array.isArray(value)) {
+        return value.length > 0
+          ? [[label, value.map((item) => JSON.stringify(item)).join(", ")]]
+          : [];
+      }
+      if (typeof value === "object") {
+        return this.getCostLines(value as Record<string, unknown>, label);
+      }
+      if (
+        typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean"
+      ) {
+        return [[label, value]];
+      }
+      return [];
+    });
+  }
+}
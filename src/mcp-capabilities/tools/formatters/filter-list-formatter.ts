@@ -0,0 +1,79 @@
+import { DataFormatter, FilterData, FormattedProcedureList } from "./types.js";
+
+/**
+ * Formats the list of available filters and their options for LLMs
+ */
+export class FilterListFormatter
+  implements DataFormatter<FilterData[], FormattedProcedureList>
+{
+  /**
+   * Format filter data for LLM consumption
+   * @param filters The filters (with options) to format
+   * @returns Formatted filter list text and essential data
+   */
+  public format(filters: FilterData[]): FormattedProcedureList {
+    if (!filters || !Array.isArray(filters) || filters.length === 0) {
+      return {
+        text: "No filters available",
+        data: [],
+      };
+    }
+
+    // Keep the portal's display order
+    const sortedFilters = [...filters].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0)
+    );
+
+    return {
+      text: this.formatText(sortedFilters),
+      data: this.extractEssentialData(sortedFilters),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param filters The full filter data
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(filters: FilterData[]): any[] {
+    return filters.map((filter) => ({
+      id: filter.id,
+      name: filter.label || filter.name,
+      options: (filter.options || []).map((opt) => ({
+        id: opt.id,
+        name: opt.name,
+      })),
+    }));
+  }
+
+  /**
+   * Format filters as human-readable text
+   * @param filters The filters to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(filters: FilterData[]): string {
+    let result = `Found ${filters.length} filter${
+      filters.length !== 1 ? "s" : ""
+    }:\n\n`;
+
+    filters.forEach((filter, index) => {
+      const name = filter.label || filter.name || "Unknown";
+      result += `${index + 1}. ${name} (FILTER ID:${filter.id})\n`;
+
+      if (filter.options && filter.options.length > 0) {
+        // Inline format for options to save space
+        result += "   Options:";
+        filter.options.forEach((opt) => {
+          result += ` ${opt.name} (ID:${opt.id});`;
+        });
+        result += "\n";
+      } else {
+        result += "   Options: none\n";
+      }
+    });
+
+    result += `\nTo find matching procedures, use the searchProceduresByFilters tool with filterId/optionId pairs.`;
+
+    return result;
+  }
+}
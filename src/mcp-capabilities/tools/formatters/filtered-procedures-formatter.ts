@@ -0,0 +1,125 @@
+import {
+  DataFormatter,
+  DrillObjectiveData,
+  FilteredProcedureData,
+  FormattedProcedureList,
+} from "./types.js";
+
+/**
+ * Formats the result trees of a filter-based procedure search for LLMs
+ */
+export class FilteredProceduresFormatter
+  implements DataFormatter<DrillObjectiveData[], FormattedProcedureList>
+{
+  /**
+   * Format filter search results for LLM consumption
+   * @param results The search result trees returned by the API
+   * @returns Formatted procedure list text and essential data
+   */
+  public format(results: DrillObjectiveData[]): FormattedProcedureList {
+    const procedures = this.collectProcedures(results);
+
+    if (procedures.length === 0) {
+      return {
+        text: "No procedures match the applied filters",
+        data: [],
+      };
+    }
+
+    return {
+      text: this.formatText(procedures),
+      data: this.extractEssentialData(procedures),
+    };
+  }
+
+  /**
+   * Walk the result trees and collect unique procedures with their path
+   * @param results The search result trees
+   * @returns A flat list of procedures with their full name
+   */
+  private collectProcedures(
+    results: DrillObjectiveData[]
+  ): (FilteredProcedureData & { fullName: string })[] {
+    const seen = new Map<
+      number,
+      FilteredProcedureData & { fullName: string }
+    >();
+
+    if (!results || !Array.isArray(results)) {
+      return [];
+    }
+
+    const visitProcedure = (
+      proc: FilteredProcedureData,
+      parentName?: string
+    ): void => {
+      if (!proc || typeof proc !== "object") {
+        return;
+      }
+      const fullName = parentName ? `${parentName} > ${proc.name}` : proc.name;
+
+      if (proc.isProcedure && proc.id && !seen.has(proc.id)) {
+        seen.set(proc.id, { ...proc, fullName });
+      }
+
+      proc.childs?.forEach((child) => visitProcedure(child, fullName));
+    };
+
+    const visitObjective = (objective: DrillObjectiveData): void => {
+      if (!objective || typeof objective !== "object") {
+        return;
+      }
+      objective.procedures?.forEach((proc) => visitProcedure(proc));
+      objective.filteredObjectives?.forEach((filtered) =>
+        filtered.values?.forEach((entry) => visitObjective(entry.value))
+      );
+    };
+
+    results.forEach(visitObjective);
+
+    return Array.from(seen.values()).sort((a, b) =>
+      a.fullName.localeCompare(b.fullName)
+    );
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param procedures The flattened procedures
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(
+    procedures: (FilteredProcedureData & { fullName: string })[]
+  ): any[] {
+    return procedures.map((proc) => ({
+      id: proc.id,
+      name: proc.fullName,
+      ...(proc.explanatoryText ? { description: proc.explanatoryText } : {}),
+    }));
+  }
+
+  /**
+   * Format the matching procedures as human-readable text
+   * @param procedures The flattened procedures
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(
+    procedures: (FilteredProcedureData & { fullName: string })[]
+  ): string {
+    let result = `Found ${procedures.length} procedure${
+      procedures.length !== 1 ? "s" : ""
+    } matching the applied filters:\n\n`;
+
+    procedures.forEach((proc, index) => {
+      const description = proc.explanatoryText
+        ? `\n   ${proc.explanatoryText}`
+        : "";
+      result += `${index + 1}. ${proc.fullName} (ID:${
+        proc.id
+      })${description}\n`;
+    });
+
+    result += `\nTo get details about a specific procedure, use the getProcedureDetails tool with the procedure ID.`;
+
+    return result;
+  }
+}
@@ -0,0 +1,100 @@
+import { DocumentCostFormatter } from "./document-cost-formatter.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  FormDetailsData,
+} from "./types.js";
+import { getProcedureIdFromLinks } from "./utils.js";
+
+/**
+ * Formats a single form, with the steps requiring it and its cost, for LLMs
+ */
+export class FormFormatter
+  implements DataFormatter<FormDetailsData, FormattedProcedureDetails>
+{
+  private documentCostFormatter = new DocumentCostFormatter();
+
+  /**
+   * Format form data for LLM consumption
+   * @param form The form to format
+   * @returns Formatted form text and essential data
+   */
+  public format(form: FormDetailsData): FormattedProcedureDetails {
+    if (!form) {
+      return {
+        text: "No form data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(form),
+      data: this.extractEssentialData(form),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param form The full form data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(form: FormDetailsData): any {
+    return {
+      id: form.id,
+      name: form.name,
+      ...(form.type ? { type: form.type } : {}),
+      ...(form.url ? { url: form.url } : {}),
+      steps: (form.steps || []).map((step) => ({
+        id: step.id,
+        name: step.name,
+        ...(getProcedureIdFromLinks(step.links)
+          ? { procedureId: getProcedureIdFromLinks(step.links) }
+          : {}),
+      })),
+      ...(form.cost
+        ? {
+            cost: this.documentCostFormatter.format({
+              documentId: form.id,
+              cost: form.cost,
+            }).data,
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Format the form as human-readable text
+   * @param form The form to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(form: FormDetailsData): string {
+    let result = `FORM: ${form.name || "Unknown"} (FORM ID:${form.id})\n`;
+    if (form.type) {
+      result += `Type: ${form.type}\n`;
+    }
+    result += form.url
+      ? `Download: ${form.url}\n`
+      : "Download: not available\n";
+
+    if (form.steps?.length) {
+      result += "REQUIRED BY STEPS:\n";
+      form.steps.forEach((step) => {
+        const procedureId = getProcedureIdFromLinks(step.links);
+        result += `- ${step.name} (STEP ID:${step.id}${
+          procedureId ? `, PROCEDURE ID:${procedureId}` : ""
+        })\n`;
+      });
+    }
+
+    if (form.cost) {
+      result += `\n${
+        this.documentCostFormatter.format({
+          documentId: form.id,
+          cost: form.cost,
+        }).text
+      }`;
+    }
+
+    return result;
+  }
+}
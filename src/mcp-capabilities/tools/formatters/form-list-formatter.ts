@@ -0,0 +1,73 @@
+import { DataFormatter, FormData, FormattedProcedureList } from "./types.js";
+
+/**
+ * Formats the catalog of forms for LLMs
+ */
+export class FormListFormatter
+  implements DataFormatter<FormData[], FormattedProcedureList>
+{
+  /**
+   * Format form list data for LLM consumption
+   * @param forms The forms to format
+   * @param keyword Optional keyword the list was filtered with
+   * @returns Formatted form list text and essential data
+   */
+  public format(forms: FormData[], keyword?: string): FormattedProcedureList {
+    if (!forms || !Array.isArray(forms) || forms.length === 0) {
+      return {
+        text: keyword
+          ? `No forms found matching "${keyword}"`
+          : "No forms available",
+        data: [],
+      };
+    }
+
+    const sortedForms = [...forms].sort((a, b) =>
+      (a.name || "").localeCompare(b.name || "")
+    );
+
+    return {
+      text: this.formatText(sortedForms, keyword),
+      data: this.extractEssentialData(sortedForms),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param forms The full form data
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(forms: FormData[]): any[] {
+    return forms.map((form) => ({
+      id: form.id,
+      name: form.name,
+      ...(form.type ? { type: form.type } : {}),
+      ...(form.url ? { url: form.url } : {}),
+    }));
+  }
+
+  /**
+   * Format forms as human-readable text
+   * @param forms The forms to format
+   * @param keyword Optional keyword the list was filtered with
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(forms: FormData[], keyword?: string): string {
+    const searchTerm = keyword ? ` matching "${keyword}"` : "";
+    let result = `Found ${forms.length} form${
+      forms.length !== 1 ? "s" : ""
+    }${searchTerm}:\n\n`;
+
+    forms.forEach((form, index) => {
+      result += `${index + 1}. ${form.name || "Unknown"} (FORM ID:${form.id})`;
+      if (form.type) {
+        result += ` [${form.type}]`;
+      }
+      result += "\n";
+    });
+
+    result += `\nTo get the download link and the steps requiring a form, use the getForm tool with the form ID.`;
+
+    return result;
+  }
+}
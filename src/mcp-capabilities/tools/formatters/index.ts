@@ -2,15 +2,76 @@ import { ProcedureFormatter } from "./procedure-formatter.js";
 import { ProcedureListFormatter } from "./procedure-list-formatter.js";
 import { StepFormatter } from "./step-formatter.js";
 import { SearchProceduresFormatter } from "./search-procedures-formatter.js";
+import { FilterListFormatter } from "./filter-list-formatter.js";
+import { FilteredProceduresFormatter } from "./filtered-procedures-formatter.js";
+import { AdministrativeBurdenFormatter } from "./administrative-burden-formatter.js";
+import { ProcedureSummaryFormatter } from "./procedure-summary-formatter.js";
+import { LawListFormatter } from "./law-list-formatter.js";
+import { LawFormatter } from "./law-formatter.js";
+import { FormListFormatter } from "./form-list-formatter.js";
+import { FormFormatter } from "./form-formatter.js";
+import { DocumentCostFormatter } from "./document-cost-formatter.js";
+import { InstitutionListFormatter } from "./institution-list-formatter.js";
+import { InstitutionFormatter } from "./institution-formatter.js";
+import { UnitFormatter } from "./unit-formatter.js";
+import { PersonFormatter } from "./person-formatter.js";
+import { PortalInfoFormatter } from "./portal-info-formatter.js";
+import { ProcedureProgressFormatter } from "./procedure-progress-formatter.js";
+import { ObjectiveLevelFormatter } from "./objective-level-formatter.js";
+import { PortalListFormatter } from "./portal-list-formatter.js";
+import { ProcedureComparisonFormatter } from "./procedure-comparison-formatter.js";
+import { ProcedureSearchResultsFormatter } from "./procedure-search-results-formatter.js";
+import { SemanticSearchResultsFormatter } from "./semantic-search-results-formatter.js";
+import { RequirementsChecklistFormatter } from "./requirements-checklist-formatter.js";
+import { PrerequisiteProceduresFormatter } from "./prerequisite-procedures-formatter.js";
+import { ProcedureTimelineFormatter } from "./procedure-timeline-formatter.js";
+import { ProcedureCostFormatter } from "./procedure-cost-formatter.js";
 
 // Export necessary types
 export * from "./types.js";
+export {
+  setFormattingLocale,
+  getFormattingLocale,
+  withFormattingLocale,
+} from "./locale.js";
+export type { FormattingLocale } from "./locale.js";
+export {
+  label,
+  getLabelLanguage,
+  resolveLanguage,
+  LABEL_LANGUAGES,
+} from "./labels.js";
+export type { LabelKey, LabelLanguage } from "./labels.js";
 
 // Create instances of formatters
 const procedure = new ProcedureFormatter();
 const procedureList = new ProcedureListFormatter();
 const step = new StepFormatter();
 const searchProcedures = new SearchProceduresFormatter();
+const filterList = new FilterListFormatter();
+const filteredProcedures = new FilteredProceduresFormatter();
+const administrativeBurden = new AdministrativeBurdenFormatter();
+const procedureSummary = new ProcedureSummaryFormatter();
+const lawList = new LawListFormatter();
+const law = new LawFormatter();
+const formList = new FormListFormatter();
+const form = new FormFormatter();
+const documentCost = new DocumentCostFormatter();
+const institutionList = new InstitutionListFormatter();
+const institution = new InstitutionFormatter();
+const unit = new UnitFormatter();
+const person = new PersonFormatter();
+const portalInfo = new PortalInfoFormatter();
+const procedureProgress = new ProcedureProgressFormatter();
+const objectiveLevel = new ObjectiveLevelFormatter();
+const portalList = new PortalListFormatter();
+const procedureComparison = new ProcedureComparisonFormatter();
+const procedureSearchResults = new ProcedureSearchResultsFormatter();
+const semanticSearchResults = new SemanticSearchResultsFormatter();
+const requirementsChecklist = new RequirementsChecklistFormatter();
+const prerequisiteProcedures = new PrerequisiteProceduresFormatter();
+const procedureTimeline = new ProcedureTimelineFormatter();
+const procedureCost = new ProcedureCostFormatter();
 
 /**
  * Export a central object containing all formatters
@@ -20,4 +81,28 @@ export const formatters = {
   procedureList,
   step,
   searchProcedures,
+  filterList,
+  filteredProcedures,
+  administrativeBurden,
+  procedureSummary,
+  lawList,
+  law,
+  formList,
+  form,
+  documentCost,
+  institutionList,
+  institution,
+  unit,
+  person,
+  portalInfo,
+  procedureProgress,
+  objectiveLevel,
+  portalList,
+  procedureComparison,
+  procedureSearchResults,
+  semanticSearchResults,
+  requirementsChecklist,
+  prerequisiteProcedures,
+  procedureTimeline,
+  procedureCost,
 };
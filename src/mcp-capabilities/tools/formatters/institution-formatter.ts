@@ -0,0 +1,150 @@
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  InstitutionDetailsData,
+} from "./types.js";
+import { formatSchedule, groupStepsByProcedure } from "./utils.js";
+
+/**
+ * Formats a single institution (entity in charge) for LLMs
+ */
+export class InstitutionFormatter
+  implements DataFormatter<InstitutionDetailsData, FormattedProcedureDetails>
+{
+  /**
+   * Format institution data for LLM consumption
+   * @param institution The institution to format
+   * @returns Formatted institution text and essential data
+   */
+  public format(
+    institution: InstitutionDetailsData
+  ): FormattedProcedureDetails {
+    if (!institution) {
+      return {
+        text: "No institution data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(institution),
+      data: this.extractEssentialData(institution),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param institution The full institution data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(institution: InstitutionDetailsData): any {
+    return {
+      id: institution.id,
+      name: institution.name,
+      address: this.getAddress(institution),
+      phones: [institution.firstPhone, institution.secondPhone].filter(Boolean),
+      emails: [institution.firstEmail, institution.secondEmail].filter(Boolean),
+      websites: [institution.firstWebsite, institution.secondWebsite].filter(
+        Boolean
+      ),
+      openingHours: formatSchedule(institution.schedule),
+      units: (institution.units || []).map((unit) => ({
+        id: unit.id,
+        name: unit.name,
+      })),
+      procedures: groupStepsByProcedure(institution.steps).map((group) => ({
+        procedureId: group.procedureId,
+        ...(group.procedureId && institution.procedureNames?.[group.procedureId]
+          ? { name: institution.procedureNames[group.procedureId] }
+          : {}),
+        stepIds: group.steps.map((step) => step.id),
+      })),
+    };
+  }
+
+  /**
+   * Format the institution as human-readable text
+   * @param institution The institution to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(institution: InstitutionDetailsData): string {
+    let result = `INSTITUTION: ${
+      institution.name || "Unknown"
+    } (INSTITUTION ID:${institution.id})\n`;
+
+    // Contact details in compact format
+    const address = this.getAddress(institution);
+    if (address) {
+      result += `Address: ${address}\n`;
+    }
+    if (institution.googleMapsUrl) {
+      result += `Map: ${institution.googleMapsUrl}\n`;
+    }
+    const contactDetails = [];
+    const phones = [institution.firstPhone, institution.secondPhone].filter(
+      Boolean
+    );
+    const emails = [institution.firstEmail, institution.secondEmail].filter(
+      Boolean
+    );
+    const websites = [
+      institution.firstWebsite,
+      institution.secondWebsite,
+    ].filter(Boolean);
+    if (phones.length) contactDetails.push(`Phone: ${phones.join(", ")}`);
+    if (emails.length) contactDetails.push(`Email: ${emails.join(", ")}`);
+    if (websites.length) contactDetails.push(`Web: ${websites.join(", ")}`);
+    if (contactDetails.length > 0) {
+      result += `${contactDetails.join(" | ")}\n`;
+    }
+
+    // Opening hours
+    const openingHours = formatSchedule(institution.schedule);
+    if (openingHours.length > 0 || institution.scheduleComments) {
+      result += "OPENING HOURS:\n";
+      openingHours.forEach((line) => {
+        result += `- ${line}\n`;
+      });
+      if (institution.scheduleComments) {
+        result += `Note: ${institution.scheduleComments}\n`;
+      }
+    }
+
+    if (institution.units?.length) {
+      result += "UNITS:\n";
+      institution.units.forEach((unit) => {
+        result += `- ${unit.name} (UNIT ID:${unit.id})\n`;
+      });
+    }
+
+    // Procedures the institution takes part in, with the steps it handles
+    const procedures = groupStepsByProcedure(institution.steps);
+    if (procedures.length > 0) {
+      result += "PROCEDURES:\n";
+      procedures.forEach((group) => {
+        const name = group.procedureId
+          ? institution.procedureNames?.[group.procedureId]
+          : undefined;
+        result += group.procedureId
+          ? `- ${name ? `${name} ` : ""}(PROCEDURE ID:${group.procedureId})\n`
+          : "- Other steps\n";
+        group.steps.forEach((step) => {
+          result += `  - ${step.name} (STEP ID:${step.id})\n`;
+        });
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Combine the address fields into a single line
+   */
+  private getAddress(institution: InstitutionDetailsData): string | undefined {
+    const cityLine = [institution.zipCode, institution.city]
+      .filter(Boolean)
+      .join(" ");
+    const parts = [institution.address, cityLine].filter(Boolean);
+    return parts.length > 0 ? parts.join(", ") : undefined;
+  }
+}
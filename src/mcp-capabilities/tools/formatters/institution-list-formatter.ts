@@ -0,0 +1,88 @@
+import {
+  DataFormatter,
+  FormattedProcedureList,
+  InstitutionData,
+} from "./types.js";
+
+/**
+ * Formats the directory of institutions for LLMs
+ */
+export class InstitutionListFormatter
+  implements DataFormatter<InstitutionData[], FormattedProcedureList>
+{
+  /**
+   * Format institution list data for LLM consumption
+   * @param institutions The institutions to format
+   * @param keyword Optional keyword the list was filtered with
+   * @returns Formatted institution list text and essential data
+   */
+  public format(
+    institutions: InstitutionData[],
+    keyword?: string
+  ): FormattedProcedureList {
+    if (
+      !institutions ||
+      !Array.isArray(institutions) ||
+      institutions.length === 0
+    ) {
+      return {
+        text: keyword
+          ? `No institutions found matching "${keyword}"`
+          : "No institutions available",
+        data: [],
+      };
+    }
+
+    const sortedInstitutions = [...institutions].sort((a, b) =>
+      (a.name || "").localeCompare(b.name || "")
+    );
+
+    return {
+      text: this.formatText(sortedInstitutions, keyword),
+      data: this.extractEssentialData(sortedInstitutions),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param institutions The full institution data
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(institutions: InstitutionData[]): any[] {
+    return institutions.map((institution) => ({
+      id: institution.id,
+      name: institution.name,
+      ...(institution.city ? { city: institution.city } : {}),
+    }));
+  }
+
+  /**
+   * Format institutions as human-readable text
+   * @param institutions The institutions to format
+   * @param keyword Optional keyword the list was filtered with
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(
+    institutions: InstitutionData[],
+    keyword?: string
+  ): string {
+    const searchTerm = keyword ? ` matching "${keyword}"` : "";
+    let result = `Found ${institutions.length} institution${
+      institutions.length !== 1 ? "s" : ""
+    }${searchTerm}:\n\n`;
+
+    institutions.forEach((institution, index) => {
+      result += `${index + 1}. ${
+        institution.name || "Unknown"
+      } (INSTITUTION ID:${institution.id})`;
+      if (institution.city) {
+        result += ` - ${institution.city}`;
+      }
+      result += "\n";
+    });
+
+    result += `\nTo get the contact details, opening hours and procedures of an institution, use the getInstitution tool with the institution ID.`;
+
+    return result;
+  }
+}
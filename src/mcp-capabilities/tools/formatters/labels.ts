@@ -0,0 +1,300 @@
+import { getFormattingLocale } from "./locale.js";
+
+/**
+ * English labels of the formatted texts. Placeholders such as {count} are
+ * replaced by the values passed to label(). IDs and tool hints stay in
+ * English, as they are meant for the assistant rather than the user.
+ */
+const EN_LABELS = {
+  // Procedures
+  noProcedureData: "No procedure data available",
+  procedure: "PROCEDURE",
+  description: "DESC",
+  info: "INFO",
+  steps: "STEPS",
+  online: "ONLINE",
+  entity: "Entity",
+  requirements: "Requirements",
+  time: "Time",
+  days: "days",
+  cost: "Cost",
+  fee: "Fee",
+  finalDocuments: "FINAL DOCUMENTS",
+  summary: "SUMMARY",
+  stepCount: "Steps",
+  institutions: "Institutions",
+  totalTime: "Total time",
+  estimatedTime: "Est. time",
+  counterMinutes: "includes {minutes} minutes at counters",
+  totalCosts: "Total costs",
+  fixedCosts: "Fixed costs",
+  variableCosts: "Variable costs",
+  unknown: "Unknown",
+
+  // Steps
+  noStepData: "No step data available",
+  step: "STEP",
+  unnamed: "Unnamed",
+  yes: "Yes",
+  status: "STATUS",
+  optional: "Optional",
+  certified: "Certified",
+  parallel: "Parallel",
+  contact: "CONTACT",
+  phone: "Phone",
+  email: "Email",
+  web: "Web",
+  address: "Address",
+  unit: "Unit",
+  contactPerson: "Contact",
+  requirementList: "REQUIREMENTS",
+  originals: "orig",
+  copies: "copy",
+  authenticatedCopies: "auth",
+  form: "Form",
+  note: "Note",
+  outputs: "OUTPUTS",
+  final: "FINAL",
+  timeframe: "TIMEFRAME",
+  minutesAtCounter: "{minutes}min at counter",
+  minutesWaiting: "{minutes}min wait",
+  processingDays: "{days} days processing",
+  notSpecified: "Not specified",
+  costs: "COSTS",
+  legalReferences: "LEGAL REFS",
+
+  // Search results
+  foundProcedure: "Found 1 procedure",
+  foundProcedures: "Found {count} procedures",
+  forKeyword: 'for "{keyword}"',
+  noProceduresMatching: 'No procedures found matching "{keyword}"',
+  searchTerm: "search term",
+  noProceduresFound: "No procedures found.",
+};
+
+export type LabelKey = keyof typeof EN_LABELS;
+
+const LABELS = {
+  en: EN_LABELS,
+  fr: {
+    noProcedureData: "Aucune donnée disponible pour cette démarche",
+    procedure: "DÉMARCHE",
+    description: "DESCRIPTION",
+    info: "INFO",
+    steps: "ÉTAPES",
+    online: "EN LIGNE",
+    entity: "Entité",
+    requirements: "Pièces requises",
+    time: "Délai",
+    days: "jours",
+    cost: "Coût",
+    fee: "Frais",
+    finalDocuments: "DOCUMENTS FINAUX",
+    summary: "RÉSUMÉ",
+    stepCount: "Étapes",
+    institutions: "Institutions",
+    totalTime: "Durée totale",
+    estimatedTime: "Durée estimée",
+    counterMinutes: "dont {minutes} minutes aux guichets",
+    totalCosts: "Coûts totaux",
+    fixedCosts: "Coûts fixes",
+    variableCosts: "Coûts variables",
+    unknown: "Inconnu",
+    noStepData: "Aucune donnée disponible pour cette étape",
+    step: "ÉTAPE",
+    unnamed: "Sans nom",
+    yes: "Oui",
+    status: "STATUT",
+    optional: "Facultative",
+    certified: "Certifiée",
+    parallel: "Parallèle",
+    contact: "CONTACT",
+    phone: "Tél.",
+    email: "Courriel",
+    web: "Web",
+    address: "Adresse",
+    unit: "Service",
+    contactPerson: "Interlocuteur",
+    requirementList: "PIÈCES REQUISES",
+    originals: "orig.",
+    copies: "copie",
+    authenticatedCopies: "cert.",
+    form: "Formulaire",
+    note: "Note",
+    outputs: "RÉSULTATS",
+    final: "FINAL",
+    timeframe: "DÉLAIS",
+    minutesAtCounter: "{minutes} min au guichet",
+    minutesWaiting: "{minutes} min d'attente",
+    processingDays: "{days} jours de traitement",
+    notSpecified: "Non précisé",
+    costs: "COÛTS",
+    legalReferences: "RÉF. JURIDIQUES",
+    foundProcedure: "1 démarche trouvée",
+    foundProcedures: "{count} démarches trouvées",
+    forKeyword: 'pour "{keyword}"',
+    noProceduresMatching: 'Aucune démarche trouvée pour "{keyword}"',
+    searchTerm: "terme recherché",
+    noProceduresFound: "Aucune démarche trouvée.",
+  },
+  es: {
+    noProcedureData: "No hay datos disponibles del trámite",
+    procedure: "TRÁMITE",
+    description: "DESCRIPCIÓN",
+    info: "INFO",
+    steps: "PASOS",
+    online: "EN LÍNEA",
+    entity: "Entidad",
+    requirements: "Requisitos",
+    time: "Plazo",
+    days: "días",
+    cost: "Costo",
+    fee: "Tasa",
+    finalDocuments: "DOCUMENTOS FINALES",
+    summary: "RESUMEN",
+    stepCount: "Pasos",
+    institutions: "Instituciones",
+    totalTime: "Tiempo total",
+    estimatedTime: "Tiempo estimado",
+    counterMinutes: "incluye {minutes} minutos en ventanilla",
+    totalCosts: "Costos totales",
+    fixedCosts: "Costos fijos",
+    variableCosts: "Costos variables",
+    unknown: "Desconocido",
+    noStepData: "No hay datos disponibles del paso",
+    step: "PASO",
+    unnamed: "Sin nombre",
+    yes: "Sí",
+    status: "ESTADO",
+    optional: "Opcional",
+    certified: "Certificado",
+    parallel: "Paralelo",
+    contact: "CONTACTO",
+    phone: "Tel.",
+    email: "Correo",
+    web: "Web",
+    address: "Dirección",
+    unit: "Unidad",
+    contactPerson: "Contacto",
+    requirementList: "REQUISITOS",
+    originals: "orig.",
+    copies: "copia",
+    authenticatedCopies: "aut.",
+    form: "Formulario",
+    note: "Nota",
+    outputs: "RESULTADOS",
+    final: "FINAL",
+    timeframe: "PLAZOS",
+    minutesAtCounter: "{minutes} min en ventanilla",
+    minutesWaiting: "{minutes} min de espera",
+    processingDays: "{days} días de trámite",
+    notSpecified: "No especificado",
+    costs: "COSTOS",
+    legalReferences: "REF. LEGALES",
+    foundProcedure: "Se encontró 1 trámite",
+    foundProcedures: "Se encontraron {count} trámites",
+    forKeyword: 'para "{keyword}"',
+    noProceduresMatching: 'No se encontraron trámites para "{keyword}"',
+    searchTerm: "término buscado",
+    noProceduresFound: "No se encontraron trámites.",
+  },
+  pt: {
+    noProcedureData: "Não há dados disponíveis do procedimento",
+    procedure: "PROCEDIMENTO",
+    description: "DESCRIÇÃO",
+    info: "INFO",
+    steps: "ETAPAS",
+    online: "ONLINE",
+    entity: "Entidade",
+    requirements: "Requisitos",
+    time: "Prazo",
+    days: "dias",
+    cost: "Custo",
+    fee: "Taxa",
+    finalDocuments: "DOCUMENTOS FINAIS",
+    summary: "RESUMO",
+    stepCount: "Etapas",
+    institutions: "Instituições",
+    totalTime: "Tempo total",
+    estimatedTime: "Tempo estimado",
+    counterMinutes: "inclui {minutes} minutos no balcão",
+    totalCosts: "Custos totais",
+    fixedCosts: "Custos fixos",
+    variableCosts: "Custos variáveis",
+    unknown: "Desconhecido",
+    noStepData: "Não há dados disponíveis da etapa",
+    step: "ETAPA",
+    unnamed: "Sem nome",
+    yes: "Sim",
+    status: "ESTADO",
+    optional: "Opcional",
+    certified: "Certificada",
+    parallel: "Paralela",
+    contact: "CONTACTO",
+    phone: "Tel.",
+    email: "Email",
+    web: "Web",
+    address: "Endereço",
+    unit: "Unidade",
+    contactPerson: "Contacto",
+    requirementList: "REQUISITOS",
+    originals: "orig.",
+    copies: "cópia",
+    authenticatedCopies: "aut.",
+    form: "Formulário",
+    note: "Nota",
+    outputs: "RESULTADOS",
+    final: "FINAL",
+    timeframe: "PRAZOS",
+    minutesAtCounter: "{minutes} min no balcão",
+    minutesWaiting: "{minutes} min de espera",
+    processingDays: "{days} dias de processamento",
+    notSpecified: "Não especificado",
+    costs: "CUSTOS",
+    legalReferences: "REF. LEGAIS",
+    foundProcedure: "1 procedimento encontrado",
+    foundProcedures: "{count} procedimentos encontrados",
+    forKeyword: 'para "{keyword}"',
+    noProceduresMatching: 'Nenhum procedimento encontrado para "{keyword}"',
+    searchTerm: "termo pesquisado",
+    noProceduresFound: "Nenhum procedimento encontrado.",
+  },
+} satisfies Record<string, Record<LabelKey, string>>;
+
+export type LabelLanguage = keyof typeof LABELS;
+
+// Languages of the labels, for the language argument of the tools
+export const LABEL_LANGUAGES = Object.keys(LABELS) as LabelLanguage[];
+
+/**
+ * Get the supported language of a language tag, e.g. "fr" for "fr-BJ"
+ * @param tag A BCP 47 language tag
+ * @returns The language, or "en" when it has no labels
+ */
+export function resolveLanguage(tag?: string): LabelLanguage {
+  const language = (tag || "").split(/[-_]/)[0].toLowerCase();
+  return language in LABELS ? (language as LabelLanguage) : "en";
+}
+
+/**
+ * Get the language of the labels: the language requested for the tool
+ * call, or else the language of the portal
+ */
+export function getLabelLanguage(): LabelLanguage {
+  const { language, locale } = getFormattingLocale();
+  return resolveLanguage(language || locale);
+}
+
+/**
+ * Get a label in the language of the labels
+ * @param key The label to get
+ * @param values Values of the placeholders of the label
+ */
+export function label(
+  key: LabelKey,
+  values: Record<string, string | number> = {}
+): string {
+  return LABELS[getLabelLanguage()][key].replace(/\{(\w+)\}/g, (match, name) =>
+    name in values ? String(values[name]) : match
+  );
+}
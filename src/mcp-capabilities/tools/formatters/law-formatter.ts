@@ -0,0 +1,86 @@
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  LawDetailsData,
+} from "./types.js";
+import { getProcedureIdFromLinks } from "./utils.js";
+
+/**
+ * Formats a single law or regulation for LLMs
+ */
+export class LawFormatter
+  implements DataFormatter<LawDetailsData, FormattedProcedureDetails>
+{
+  /**
+   * Format law data for LLM consumption
+   * @param law The legal document to format
+   * @returns Formatted law text and essential data
+   */
+  public format(law: LawDetailsData): FormattedProcedureDetails {
+    if (!law) {
+      return {
+        text: "No law data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(law),
+      data: this.extractEssentialData(law),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param law The full law data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(law: LawDetailsData): any {
+    return {
+      id: law.id,
+      name: law.name,
+      documents: (law.attachments || []).map((file) => ({
+        name: file.name || file.filename,
+        url: file.url,
+      })),
+      steps: (law.steps || []).map((step) => ({
+        id: step.id,
+        name: step.name,
+        ...(getProcedureIdFromLinks(step.links)
+          ? { procedureId: getProcedureIdFromLinks(step.links) }
+          : {}),
+      })),
+    };
+  }
+
+  /**
+   * Format the law as human-readable text
+   * @param law The law to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(law: LawDetailsData): string {
+    let result = `LAW: ${law.name || "Unknown"} (LAW ID:${law.id})\n`;
+
+    if (law.attachments?.length) {
+      result += "DOCUMENTS:\n";
+      law.attachments.forEach((file) => {
+        const name = file.name || file.filename || "Document";
+        result += `- ${name}${file.url ? `: ${file.url}` : ""}\n`;
+      });
+    } else {
+      result += "DOCUMENTS: none available\n";
+    }
+
+    if (law.steps?.length) {
+      result += "REFERENCED BY STEPS:\n";
+      law.steps.forEach((step) => {
+        const procedureId = getProcedureIdFromLinks(step.links);
+        result += `- ${step.name} (STEP ID:${step.id}${
+          procedureId ? `, PROCEDURE ID:${procedureId}` : ""
+        })\n`;
+      });
+    }
+
+    return result;
+  }
+}
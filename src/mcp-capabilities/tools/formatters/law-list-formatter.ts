@@ -0,0 +1,78 @@
+import { DataFormatter, FormattedProcedureList, LawData } from "./types.js";
+
+/**
+ * Formats the list of laws and regulations for LLMs
+ */
+export class LawListFormatter
+  implements DataFormatter<LawData[], FormattedProcedureList>
+{
+  /**
+   * Format law list data for LLM consumption
+   * @param laws The legal documents to format
+   * @param keyword Optional keyword the list was filtered with
+   * @returns Formatted law list text and essential data
+   */
+  public format(laws: LawData[], keyword?: string): FormattedProcedureList {
+    if (!laws || !Array.isArray(laws) || laws.length === 0) {
+      return {
+        text: keyword
+          ? `No laws found matching "${keyword}"`
+          : "No laws available",
+        data: [],
+      };
+    }
+
+    // Keep the portal's display order
+    const sortedLaws = [...laws].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0)
+    );
+
+    return {
+      text: this.formatText(sortedLaws, keyword),
+      data: this.extractEssentialData(sortedLaws),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param laws The full law data
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(laws: LawData[]): any[] {
+    return laws.map((law) => ({
+      id: law.id,
+      name: law.name,
+      documents: (law.attachments || [])
+        .map((file) => file.url)
+        .filter((url): url is string => !!url),
+    }));
+  }
+
+  /**
+   * Format laws as human-readable text
+   * @param laws The laws to format
+   * @param keyword Optional keyword the list was filtered with
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(laws: LawData[], keyword?: string): string {
+    const searchTerm = keyword ? ` matching "${keyword}"` : "";
+    let result = `Found ${laws.length} law${
+      laws.length !== 1 ? "s" : ""
+    }${searchTerm}:\n\n`;
+
+    laws.forEach((law, index) => {
+      result += `${index + 1}. ${law.name || "Unknown"} (LAW ID:${law.id})`;
+      const documentCount = law.attachments?.length || 0;
+      if (documentCount > 0) {
+        result += ` [${documentCount} document${
+          documentCount !== 1 ? "s" : ""
+        }]`;
+      }
+      result += "\n";
+    });
+
+    result += `\nTo get the documents and the steps referencing a law, use the getLaw tool with the law ID.`;
+
+    return result;
+  }
+}
@@ -0,0 +1,72 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { PortalLocale } from "../../../services/eregulations-api.js";
+
+/**
+ * Currency and locale of a portal, with the language of the labels when a
+ * tool call asks for another language than the portal's
+ */
+export interface FormattingLocale extends PortalLocale {
+  language?: string;
+}
+
+// Currency and locale of the portal being served. Empty until the portal
+// settings are loaded, in which case the runtime defaults are used.
+let currentLocale: FormattingLocale = {};
+
+// Locale of the portal a tool call is served for, when several portals are
+// served concurrently
+const scopedLocale = new AsyncLocalStorage<FormattingLocale>();
+
+/**
+ * Set the currency and number locale used by all formatters
+ */
+export function setFormattingLocale(locale: FormattingLocale): void {
+  currentLocale = { ...locale };
+}
+
+/**
+ * Run a function with the currency and number locale of a portal, without
+ * affecting concurrent calls
+ * @param locale The locale to format with
+ * @param fn The function to run
+ * @returns The result of the function
+ */
+export function withFormattingLocale<T>(
+  locale: FormattingLocale,
+  fn: () => T
+): T {
+  return scopedLocale.run({ ...locale }, fn);
+}
+
+/**
+ * Get the currency and number locale used by all formatters
+ */
+export function getFormattingLocale(): FormattingLocale {
+  return scopedLocale.getStore() ?? currentLocale;
+}
+
+/**
+ * Format a number with the portal's locale
+ * @param value The number to format
+ * @param maximumFractionDigits Optional number of decimals to round to
+ */
+export function formatNumber(
+  value: number,
+  maximumFractionDigits?: number
+): string {
+  return value.toLocaleString(
+    getFormattingLocale().locale,
+    maximumFractionDigits !== undefined ? { maximumFractionDigits } : undefined
+  );
+}
+
+/**
+ * Format an amount with its unit, falling back to the portal's currency
+ * @param value The amount to format
+ * @param unit The unit returned by the API, if any
+ */
+export function formatAmount(value: number, unit?: string): string {
+  return `${formatNumber(value)} ${
+    unit || getFormattingLocale().currency || ""
+  }`.trim();
+}
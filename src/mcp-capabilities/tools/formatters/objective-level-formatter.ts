@@ -0,0 +1,119 @@
+import type { ObjectiveNodeSummary } from "../../../services/eregulations-api.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  ObjectiveLevelData,
+} from "./types.js";
+
+/**
+ * Formats one level of the objective hierarchy for LLMs
+ */
+export class ObjectiveLevelFormatter
+  implements DataFormatter<ObjectiveLevelData, FormattedProcedureDetails>
+{
+  /**
+   * Format an objective level for LLM consumption
+   * @param level The objective or menu with its children, or the top level
+   * @returns Formatted hierarchy level text and essential data
+   */
+  public format(level: ObjectiveLevelData): FormattedProcedureDetails {
+    if (!level) {
+      return {
+        text: "No objective data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(level),
+      data: this.extractEssentialData(level),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param level The full objective level data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(level: ObjectiveLevelData): any {
+    return {
+      ...(level.id ? { id: level.id, name: level.name } : {}),
+      children: (level.children || []).map((child) => ({
+        id: child.id,
+        name: child.name,
+        isProcedure: child.isProcedure,
+        // Procedures are fetched through the menu they are listed under
+        ...(child.isProcedure && level.id ? { menuId: level.id } : {}),
+        childCount: child.childCount,
+        procedureCount: child.procedureCount,
+      })),
+    };
+  }
+
+  /**
+   * Format the objective level as human-readable text
+   * @param level The objective level to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(level: ObjectiveLevelData): string {
+    const children = level.children || [];
+    let result = "";
+
+    if (level.id) {
+      result += `OBJECTIVE: ${level.name || "Unknown"} (ID:${level.id})\n`;
+      if (level.description) {
+        result += `DESC: ${level.description}\n`;
+      }
+      result += "\n";
+    }
+
+    if (children.length === 0) {
+      result += level.id
+        ? "No objectives or procedures found under this objective."
+        : "No objectives available.";
+      return result;
+    }
+
+    result += level.id
+      ? `CONTAINS ${children.length} item${children.length !== 1 ? "s" : ""}:\n`
+      : `TOP-LEVEL OBJECTIVES (${children.length}):\n`;
+
+    children.forEach((child, index) => {
+      const marker = child.isProcedure ? " [PROCEDURE]" : "";
+      const menu = child.isProcedure && level.id ? `, MENU ID:${level.id}` : "";
+      result += `${index + 1}. ${child.name}${marker} (ID:${child.id}${menu})`;
+      const counts = this.formatCounts(child);
+      if (counts) {
+        result += ` - ${counts}`;
+      }
+      result += "\n";
+      if (child.description) {
+        result += `   ${child.description}\n`;
+      }
+    });
+
+    result += `\nTo open an objective or menu, use the browseObjectives tool with its ID. To get a procedure, use the getProcedureDetails tool with its ID and MENU ID.`;
+
+    return result;
+  }
+
+  /**
+   * Format the number of items and procedures below a node
+   */
+  private formatCounts(child: ObjectiveNodeSummary): string {
+    const counts = [];
+    if (child.childCount > 0) {
+      counts.push(
+        `${child.childCount} item${child.childCount !== 1 ? "s" : ""}`
+      );
+    }
+    if (child.procedureCount > 0) {
+      counts.push(
+        `${child.procedureCount} procedure${
+          child.procedureCount !== 1 ? "s" : ""
+        }`
+      );
+    }
+    return counts.join(", ");
+  }
+}
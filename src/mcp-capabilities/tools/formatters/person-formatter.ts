@@ -0,0 +1,89 @@
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  PersonData,
+} from "./types.js";
+import { getProcedureIdFromLinks } from "./utils.js";
+
+/**
+ * Formats a person in charge for LLMs
+ */
+export class PersonFormatter
+  implements DataFormatter<PersonData, FormattedProcedureDetails>
+{
+  /**
+   * Format person data for LLM consumption
+   * @param person The person to format
+   * @returns Formatted person text and essential data
+   */
+  public format(person: PersonData): FormattedProcedureDetails {
+    if (!person) {
+      return {
+        text: "No person data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(person),
+      data: this.extractEssentialData(person),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param person The full person data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(person: PersonData): any {
+    return {
+      id: person.id,
+      name: person.name,
+      ...(person.profession ? { profession: person.profession } : {}),
+      phones: [person.firstPhone, person.secondPhone].filter(Boolean),
+      emails: [person.firstEmail, person.secondEmail].filter(Boolean),
+      steps: (person.steps || []).map((step) => ({
+        id: step.id,
+        name: step.name,
+        ...(getProcedureIdFromLinks(step.links)
+          ? { procedureId: getProcedureIdFromLinks(step.links) }
+          : {}),
+      })),
+    };
+  }
+
+  /**
+   * Format the person as human-readable text
+   * @param person The person to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(person: PersonData): string {
+    let result = `PERSON: ${person.name || "Unknown"} (PERSON ID:${
+      person.id
+    })\n`;
+    if (person.profession) {
+      result += `Profession: ${person.profession}\n`;
+    }
+
+    const contactDetails = [];
+    const phones = [person.firstPhone, person.secondPhone].filter(Boolean);
+    const emails = [person.firstEmail, person.secondEmail].filter(Boolean);
+    if (phones.length) contactDetails.push(`Phone: ${phones.join(", ")}`);
+    if (emails.length) contactDetails.push(`Email: ${emails.join(", ")}`);
+    if (contactDetails.length > 0) {
+      result += `${contactDetails.join(" | ")}\n`;
+    }
+
+    if (person.steps?.length) {
+      result += "IN CHARGE OF STEPS:\n";
+      person.steps.forEach((step) => {
+        const procedureId = getProcedureIdFromLinks(step.links);
+        result += `- ${step.name} (STEP ID:${step.id}${
+          procedureId ? `, PROCEDURE ID:${procedureId}` : ""
+        })\n`;
+      });
+    }
+
+    return result;
+  }
+}
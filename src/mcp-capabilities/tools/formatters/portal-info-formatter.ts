@@ -0,0 +1,131 @@
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  PortalInfoData,
+} from "./types.js";
+import { formatNumber } from "./locale.js";
+
+// Labels of the portal statistics, in display order
+const STATISTIC_LABELS: [
+  keyof NonNullable<PortalInfoData["statistics"]>,
+  string
+][] = [
+  ["procedures", "Procedures"],
+  ["publishedProcedures", "Published procedures"],
+  ["certifiedProcedures", "Certified procedures"],
+  ["steps", "Steps"],
+  ["documents", "Documents"],
+  ["laws", "Laws"],
+  ["people", "People in charge"],
+];
+
+/**
+ * Formats the country profile and metadata of the portal for LLMs
+ */
+export class PortalInfoFormatter
+  implements DataFormatter<PortalInfoData, FormattedProcedureDetails>
+{
+  /**
+   * Format portal information for LLM consumption
+   * @param portal The combined country data of the portal
+   * @returns Formatted portal text and essential data
+   */
+  public format(portal: PortalInfoData): FormattedProcedureDetails {
+    if (!portal || !portal.details) {
+      return {
+        text: "No portal information available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(portal),
+      data: this.extractEssentialData(portal),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param portal The full portal data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(portal: PortalInfoData): any {
+    return {
+      country: portal.details.name,
+      currency: portal.details.currency,
+      languages: portal.details.availableLangs || [],
+      ...(portal.contact ? { contact: portal.contact } : {}),
+      ...(portal.statistics ? { statistics: portal.statistics } : {}),
+      ...(portal.parameters ? { parameters: portal.parameters } : {}),
+    };
+  }
+
+  /**
+   * Format the portal information as human-readable text
+   * @param portal The portal data to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(portal: PortalInfoData): string {
+    const { details, about, contact, statistics } = portal;
+
+    let result = `PORTAL: eRegulations ${details.name || "Unknown country"}\n`;
+    if (details.currency) {
+      result += `Currency: ${details.currency}\n`;
+    }
+    if (details.availableLangs?.length) {
+      result += `Languages: ${details.availableLangs.join(", ")}\n`;
+    }
+
+    const contactDetails = [];
+    if (contact?.phone) contactDetails.push(`Phone: ${contact.phone}`);
+    if (contact?.email) contactDetails.push(`Email: ${contact.email}`);
+    if (contactDetails.length > 0 || contact?.address) {
+      result += "\nCONTACT:\n";
+      if (contactDetails.length > 0) {
+        result += `${contactDetails.join(" | ")}\n`;
+      }
+      if (contact?.address) {
+        result += `Address: ${contact.address}\n`;
+      }
+    }
+
+    const stats = STATISTIC_LABELS.filter(
+      ([key]) => typeof statistics?.[key] === "number"
+    );
+    if (stats.length > 0) {
+      result += "\nSTATISTICS:\n";
+      stats.forEach(([key, label]) => {
+        result += `- ${label}: ${formatNumber(statistics![key] as number)}\n`;
+      });
+    }
+
+    if (about?.description) {
+      // Descriptions are authored as HTML in the portal back office
+      result += `\nABOUT:\n${this.stripHtml(about.description)}\n`;
+    }
+    if (about?.members?.length) {
+      result += "TEAM:\n";
+      [...about.members]
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+        .forEach((member) => {
+          const role = member.title || member.profession;
+          result += `- ${member.name || "Unknown"}${
+            role ? ` (${role})` : ""
+          }\n`;
+        });
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove HTML tags and collapse whitespace
+   */
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
@@ -0,0 +1,75 @@
+import { DataFormatter, FormattedProcedureList, PortalData } from "./types.js";
+
+/**
+ * Formats the portals served by the MCP server for LLMs
+ */
+export class PortalListFormatter
+  implements DataFormatter<PortalData[], FormattedProcedureList>
+{
+  /**
+   * Format portal list data for LLM consumption
+   * @param portals The portals to format
+   * @returns Formatted portal list text and essential data
+   */
+  public format(portals: PortalData[]): FormattedProcedureList {
+    if (!portals || !Array.isArray(portals) || portals.length === 0) {
+      return {
+        text: "No portals available",
+        data: [],
+      };
+    }
+
+    return {
+      text: this.formatText(portals),
+      data: this.extractEssentialData(portals),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param portals The full portal data
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(portals: PortalData[]): any[] {
+    return portals.map((portal) => ({
+      name: portal.name,
+      isDefault: portal.isDefault,
+      ...(portal.currency ? { currency: portal.currency } : {}),
+    }));
+  }
+
+  /**
+   * Format portals as human-readable text
+   * @param portals The portals to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(portals: PortalData[]): string {
+    let result = `Found ${portals.length} portal${
+      portals.length !== 1 ? "s" : ""
+    }:\n\n`;
+
+    portals.forEach((portal, index) => {
+      result += `${index + 1}. ${portal.name}${
+        portal.isDefault ? " [DEFAULT]" : ""
+      }`;
+      if (portal.url) {
+        result += ` - ${portal.url}`;
+      }
+      const settings = [];
+      if (portal.currency) {
+        settings.push(`currency ${portal.currency}`);
+      }
+      if (portal.locale) {
+        settings.push(`locale ${portal.locale}`);
+      }
+      if (settings.length > 0) {
+        result += ` (${settings.join(", ")})`;
+      }
+      result += "\n";
+    });
+
+    result += `\nTo query a portal, pass its name as the portal argument of any other tool. Tools called without a portal use the default portal.`;
+
+    return result;
+  }
+}
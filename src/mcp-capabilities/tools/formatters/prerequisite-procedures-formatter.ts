@@ -0,0 +1,151 @@
+import type { DocumentLink } from "../../../services/procedure-graph.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  PrerequisiteProceduresData,
+} from "./types.js";
+
+/**
+ * Formats the procedures to complete before a procedure for LLMs
+ */
+export class PrerequisiteProceduresFormatter
+  implements
+    DataFormatter<PrerequisiteProceduresData, FormattedProcedureDetails>
+{
+  /**
+   * Format the prerequisites of a procedure for LLM consumption
+   * @param prerequisites The ordered prerequisites of the procedure
+   * @returns Formatted path and essential data
+   */
+  public format(
+    prerequisites: PrerequisiteProceduresData
+  ): FormattedProcedureDetails {
+    if (!prerequisites) {
+      return {
+        text: "No prerequisite data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(prerequisites),
+      data: this.extractEssentialData(prerequisites),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   */
+  private extractEssentialData(prerequisites: PrerequisiteProceduresData): any {
+    const { procedure } = prerequisites;
+    return {
+      procedureId: procedure.id,
+      procedureName: procedure.fullName || procedure.name,
+      prerequisites: prerequisites.path.map((prerequisite, index) => ({
+        id: prerequisite.id,
+        name: prerequisite.fullName || prerequisite.name,
+        ...(prerequisite.menuId ? { menuId: prerequisite.menuId } : {}),
+        order: index + 1,
+        depth: prerequisite.depth,
+        provides: prerequisite.provides.map((link) => ({
+          requirement: link.requirement.name,
+          result: link.result.name,
+          procedureId: link.procedureId,
+          stepId: link.requirement.stepId,
+          producedAtStepId: link.result.stepId,
+          similarity: Math.round(link.similarity * 100) / 100,
+        })),
+      })),
+      alternatives: prerequisites.alternatives.map((alternative) => ({
+        requirement: alternative.requirement,
+        procedureId: alternative.procedureId,
+        procedures: alternative.procedures.map((other) => ({
+          id: other.id,
+          name: other.fullName || other.name,
+        })),
+      })),
+      unmatchedRequirements: prerequisites.unmatchedRequirements,
+      indexedCount: prerequisites.indexedCount,
+    };
+  }
+
+  /**
+   * Format the prerequisites as an ordered path
+   */
+  private formatText(prerequisites: PrerequisiteProceduresData): string {
+    const { procedure, path } = prerequisites;
+    const names = new Map<number, string>([
+      [procedure.id, procedure.fullName || procedure.name],
+      ...path.map((prerequisite): [number, string] => [
+        prerequisite.id,
+        prerequisite.fullName || prerequisite.name,
+      ]),
+    ]);
+
+    let result = `PREREQUISITES OF: ${names.get(procedure.id)} (ID:${
+      procedure.id
+    })\n`;
+
+    if (path.length === 0) {
+      result += `No prerequisite procedure found: none of the ${prerequisites.indexedCount} procedures of the portal produces a document required by this procedure.\n`;
+    } else {
+      result += `Complete ${
+        path.length === 1 ? "this procedure" : `these ${path.length} procedures`
+      } first, in this order:\n`;
+      path.forEach((prerequisite, index) => {
+        result += `${index + 1}. ${names.get(prerequisite.id)} (ID:${
+          prerequisite.id
+        }${prerequisite.menuId ? `, MENU ID:${prerequisite.menuId}` : ""})\n`;
+        prerequisite.provides.forEach((link) => {
+          result += `   ${this.formatLink(link, procedure.id, names)}\n`;
+        });
+      });
+    }
+
+    if (prerequisites.alternatives.length > 0) {
+      result += `\nALTERNATIVES:\n`;
+      prerequisites.alternatives.forEach((alternative) => {
+        result += `- "${alternative.requirement}" (for ID:${
+          alternative.procedureId
+        }) is also produced by: ${alternative.procedures
+          .map((other) => `${other.fullName || other.name} (ID:${other.id})`)
+          .join("; ")}\n`;
+      });
+    }
+
+    if (prerequisites.unmatchedRequirements.length > 0) {
+      result += `\nREQUIREMENTS NOT PRODUCED BY ANY PROCEDURE: ${prerequisites.unmatchedRequirements.join(
+        "; "
+      )}\n`;
+    }
+
+    result += `\nBased on the documents of ${prerequisites.indexedCount} procedures. Documents are matched by name, so check approximate matches with getProcedureDetails.\n`;
+
+    return result;
+  }
+
+  /**
+   * Format a document provided by a prerequisite to the procedure needing it
+   */
+  private formatLink(
+    link: DocumentLink,
+    targetId: number,
+    names: Map<number, string>
+  ): string {
+    const consumer =
+      link.procedureId === targetId
+        ? "this procedure"
+        : `"${names.get(link.procedureId)}" (ID:${link.procedureId})`;
+    const result = `Provides "${link.result.name}" (STEP ID:${
+      link.result.stepId
+    }), needed by ${consumer} at step "${
+      link.requirement.stepName || link.requirement.stepId
+    }"`;
+    if (link.similarity < 1) {
+      return `${result} as "${link.requirement.name}" [~${Math.round(
+        link.similarity * 100
+      )}% name match]`;
+    }
+    return result;
+  }
+}
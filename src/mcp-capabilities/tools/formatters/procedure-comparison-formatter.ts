@@ -0,0 +1,272 @@
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  ProcedureComparisonData,
+  ProcedureData,
+} from "./types.js";
+import { formatNumber } from "./locale.js";
+
+type ComparisonEntry = ProcedureComparisonData["entries"][number];
+
+/**
+ * Total cost of a procedure in the target currency, with the costs that
+ * could not be converted kept in their own currency
+ */
+interface NormalizedCost {
+  total: number;
+  unconverted: Map<string, number>;
+}
+
+/**
+ * Formats a side-by-side comparison of procedures of several portals for LLMs
+ */
+export class ProcedureComparisonFormatter
+  implements DataFormatter<ProcedureComparisonData, FormattedProcedureDetails>
+{
+  /**
+   * Format a procedure comparison for LLM consumption
+   * @param comparison The procedures to compare and the exchange rates to use
+   * @returns Formatted comparison table and essential data
+   */
+  public format(
+    comparison: ProcedureComparisonData
+  ): FormattedProcedureDetails {
+    if (!comparison || !comparison.entries || comparison.entries.length === 0) {
+      return {
+        text: "No procedures to compare",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(comparison),
+      data: this.extractEssentialData(comparison),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param comparison The full comparison data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(comparison: ProcedureComparisonData): any {
+    return {
+      targetCurrency: comparison.targetCurrency,
+      procedures: comparison.entries.map((entry) => {
+        if (!entry.procedure) {
+          return {
+            portal: entry.portal,
+            procedureId: entry.procedureId,
+            error: entry.error,
+          };
+        }
+        const cost = this.normalizeCost(entry, comparison);
+        return {
+          portal: entry.portal,
+          procedureId: entry.procedureId,
+          name: entry.procedure.fullName || entry.procedure.name,
+          steps: this.countSteps(entry.procedure),
+          institutions: entry.procedure.totals?.institutionCount ?? null,
+          requirements: entry.procedure.totals?.requirementCount ?? null,
+          time: entry.procedure.totals?.timeframe ?? null,
+          cost: cost ? Math.round(cost.total * 100) / 100 : null,
+          unconvertedCosts: cost
+            ? Object.fromEntries(cost.unconverted.entries())
+            : {},
+        };
+      }),
+    };
+  }
+
+  /**
+   * Format the comparison as a table with one column per procedure
+   * @param comparison The comparison data to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(comparison: ProcedureComparisonData): string {
+    const compared = comparison.entries.filter((entry) => entry.procedure);
+    const failed = comparison.entries.filter((entry) => !entry.procedure);
+    const { targetCurrency } = comparison;
+
+    let result = `PROCEDURE COMPARISON: ${compared.length} procedure${
+      compared.length !== 1 ? "s" : ""
+    } (costs in ${targetCurrency})\n\n`;
+
+    if (compared.length > 0) {
+      const rows: [string, (entry: ComparisonEntry) => string][] = [
+        ["Steps", (entry) => String(this.countSteps(entry.procedure!))],
+        [
+          "Institutions",
+          (entry) =>
+            this.formatCount(entry.procedure!.totals?.institutionCount),
+        ],
+        [
+          "Requirements",
+          (entry) =>
+            this.formatCount(entry.procedure!.totals?.requirementCount),
+        ],
+        [
+          "Total time",
+          (entry) => {
+            const timeframe = entry.procedure!.totals?.timeframe;
+            return timeframe
+              ? `${formatNumber(timeframe.cost, 2)} ${timeframe.unit || "days"}`
+              : "N/A";
+          },
+        ],
+        ["Total cost", (entry) => this.formatCost(entry, comparison)],
+      ];
+
+      result += `| | ${compared
+        .map(
+          (entry) =>
+            `${entry.country || entry.portal}: ${
+              entry.procedure!.fullName || entry.procedure!.name
+            } (ID:${entry.procedureId})`
+        )
+        .join(" | ")} |\n`;
+      result += `|---|${compared.map(() => "---").join("|")}|\n`;
+      rows.forEach(([label, getValue]) => {
+        result += `| ${label} | ${compared.map(getValue).join(" | ")} |\n`;
+      });
+    } else {
+      result += "Could not fetch any of the procedures.\n";
+    }
+
+    const notes = this.getCurrencyNotes(compared, comparison);
+    if (notes.length > 0) {
+      result += `\nCURRENCIES:\n${notes
+        .map((note) => `- ${note}`)
+        .join("\n")}\n`;
+    }
+
+    if (failed.length > 0) {
+      result += "\nNOT COMPARED:\n";
+      failed.forEach((entry) => {
+        result += `- ${entry.portal} procedure ${entry.procedureId}: ${
+          entry.error || "Unknown error"
+        }\n`;
+      });
+    }
+
+    result += `\nTo see the steps of a compared procedure, use the getProcedureDetails tool with its ID and portal.`;
+
+    return result;
+  }
+
+  /**
+   * Count the steps of a procedure, preferring the official totals
+   */
+  private countSteps(procedure: ProcedureData): number {
+    if (procedure.totals?.steps) {
+      return procedure.totals.steps.length;
+    }
+    return (procedure.data?.blocks || []).reduce(
+      (count, block) => count + (block.steps?.length || 0),
+      0
+    );
+  }
+
+  private formatCount(count?: number): string {
+    return count !== undefined && count !== null ? String(count) : "N/A";
+  }
+
+  /**
+   * Sum the official total costs of a procedure in the target currency.
+   * Costs without a unit are in the currency of the portal.
+   * @returns The normalized cost, or null if the totals are unknown
+   */
+  private normalizeCost(
+    entry: ComparisonEntry,
+    comparison: ProcedureComparisonData
+  ): NormalizedCost | null {
+    const costs = entry.procedure?.totals?.costs;
+    if (!costs) {
+      return null;
+    }
+
+    return costs.reduce<NormalizedCost>(
+      (normalized, cost) => {
+        const unit = (cost.unit || entry.currency || "").toUpperCase();
+        const rate = this.getRate(unit, comparison);
+        if (rate !== undefined) {
+          normalized.total += cost.cost * rate;
+        } else if (cost.cost) {
+          normalized.unconverted.set(
+            unit || "?",
+            (normalized.unconverted.get(unit || "?") || 0) + cost.cost
+          );
+        }
+        return normalized;
+      },
+      { total: 0, unconverted: new Map() }
+    );
+  }
+
+  private getRate(
+    unit: string,
+    comparison: ProcedureComparisonData
+  ): number | undefined {
+    return unit === comparison.targetCurrency
+      ? 1
+      : comparison.exchangeRates[unit];
+  }
+
+  /**
+   * Format the total cost of a procedure in the target currency
+   */
+  private formatCost(
+    entry: ComparisonEntry,
+    comparison: ProcedureComparisonData
+  ): string {
+    const cost = this.normalizeCost(entry, comparison);
+    if (!cost) {
+      return "N/A";
+    }
+    const parts = [];
+    if (cost.total > 0 || cost.unconverted.size === 0) {
+      parts.push(`${formatNumber(cost.total, 2)} ${comparison.targetCurrency}`);
+    }
+    cost.unconverted.forEach((amount, unit) => {
+      parts.push(`${formatNumber(amount, 2)} ${unit} (not converted)`);
+    });
+    return parts.join(" + ");
+  }
+
+  /**
+   * Describe the exchange rates used, and the currencies that had none
+   */
+  private getCurrencyNotes(
+    compared: ComparisonEntry[],
+    comparison: ProcedureComparisonData
+  ): string[] {
+    const currencies = new Set<string>();
+    compared.forEach((entry) => {
+      (entry.procedure?.totals?.costs || []).forEach((cost) => {
+        const unit = (cost.unit || entry.currency || "").toUpperCase();
+        if (unit && unit !== comparison.targetCurrency) {
+          currencies.add(unit);
+        }
+      });
+    });
+
+    const notes: string[] = [];
+    const missing: string[] = [];
+    currencies.forEach((currency) => {
+      const rate = this.getRate(currency, comparison);
+      if (rate !== undefined) {
+        notes.push(`1 ${currency} = ${rate} ${comparison.targetCurrency}`);
+      } else {
+        missing.push(currency);
+      }
+    });
+    if (missing.length > 0) {
+      notes.push(
+        `No exchange rate for ${missing.join(
+          ", "
+        )}: pass exchangeRates to convert these costs`
+      );
+    }
+    return notes;
+  }
+}
@@ -0,0 +1,188 @@
+import type { BillItem } from "../../../services/procedure-cost.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  ProcedureCostData,
+} from "./types.js";
+import { formatAmount, formatNumber } from "./locale.js";
+
+/**
+ * Formats the itemized bill of a procedure for LLMs
+ */
+export class ProcedureCostFormatter
+  implements DataFormatter<ProcedureCostData, FormattedProcedureDetails>
+{
+  /**
+   * Format the bill of a procedure for LLM consumption
+   * @param cost The bill of the procedure, with its parameters
+   * @returns Formatted bill and essential data
+   */
+  public format(cost: ProcedureCostData): FormattedProcedureDetails {
+    if (!cost?.bill) {
+      return {
+        text: "No cost data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(cost),
+      data: this.extractEssentialData(cost),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   */
+  private extractEssentialData(cost: ProcedureCostData): any {
+    const { bill } = cost;
+    return {
+      procedureId: cost.procedureId,
+      ...(cost.procedureName ? { procedureName: cost.procedureName } : {}),
+      ...(cost.menuId ? { menuId: cost.menuId } : {}),
+      parameters: cost.parameters,
+      items: bill.items.map((item) => ({
+        ...item,
+        amount: round(item.amount!),
+      })),
+      groups: bill.groups.map((group) => ({
+        ...group,
+        amount: round(group.amount),
+      })),
+      totals: bill.totals.map((total) => ({
+        ...total,
+        amount: round(total.amount),
+      })),
+      unresolved: bill.unresolved,
+      unusedParameters: bill.unusedParameters,
+      incompleteStepIds: cost.incompleteStepIds || [],
+    };
+  }
+
+  /**
+   * Format the bill with its fees by step, followed by the amounts to pay
+   * together and the totals by currency
+   */
+  private formatText(cost: ProcedureCostData): string {
+    const { bill } = cost;
+    let result = `COST OF: ${cost.procedureName || "Unknown procedure"} (ID:${
+      cost.procedureId
+    }${cost.menuId ? `, MENU ID:${cost.menuId}` : ""})\n`;
+
+    const parameters = Object.entries(cost.parameters);
+    if (parameters.length > 0) {
+      result += `Parameters: ${parameters
+        .map(([name, value]) => `${name} = ${formatNumber(value)}`)
+        .join("; ")}\n`;
+    }
+
+    if (bill.items.length === 0 && bill.unresolved.length === 0) {
+      result += `\nNo costs found for this procedure: its steps are free, or their costs are not published.\n`;
+    }
+
+    if (bill.items.length > 0) {
+      result += `\nITEMIZED BILL:\n`;
+      let stepNumber: number | undefined;
+      bill.items.forEach((item) => {
+        if (item.stepNumber !== stepNumber) {
+          stepNumber = item.stepNumber;
+          result += `${this.formatStep(item)}\n`;
+        }
+        result += `   - ${item.description || "Fee"}: ${this.formatCalculation(
+          item
+        )}\n`;
+        if (item.paymentDetails) {
+          result += `     Payment: ${item.paymentDetails}\n`;
+        }
+      });
+
+      result += `\nTO PAY:\n`;
+      bill.groups.forEach((group) => {
+        result += `- ${formatAmount(group.amount, group.currency)}: ${
+          group.paymentDetails || "payment details not specified"
+        } (${group.itemCount} ${group.itemCount === 1 ? "fee" : "fees"})\n`;
+      });
+
+      result += `\nTOTAL: ${bill.totals
+        .map((total) => formatAmount(total.amount, total.currency))
+        .join("; ")}\n`;
+    }
+
+    if (bill.unresolved.length > 0) {
+      result += `\nNOT CALCULATED, missing parameters:\n`;
+      bill.unresolved.forEach((item) => {
+        result += `- ${item.description || "Fee"} (step ${
+          item.stepNumber
+        }): ${this.formatRate(item)}. Give a value for "${
+          getParameterName(item) || "quantity"
+        }" in parameters.\n`;
+      });
+    }
+
+    if (bill.unusedParameters.length > 0) {
+      result += `\nParameters not used by any fee: ${bill.unusedParameters.join(
+        "; "
+      )}\n`;
+    }
+
+    if (cost.incompleteStepIds && cost.incompleteStepIds.length > 0) {
+      result += `\nNOTE: The details of steps ${cost.incompleteStepIds.join(
+        ", "
+      )} could not be retrieved, so they are billed from the procedure only.\n`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Format the step charging a fee
+   */
+  private formatStep(item: BillItem): string {
+    return `${item.stepNumber}. ${item.stepName || "Unnamed step"}${
+      item.stepId !== undefined ? ` (STEP ID:${item.stepId})` : ""
+    }`;
+  }
+
+  /**
+   * Format how a fee is charged, before it is evaluated
+   */
+  private formatRate(item: BillItem): string {
+    if (item.kind === "percentage") {
+      return `${item.rate}% ${
+        item.parameter?.replace(/^%\s*/, "") || ""
+      }`.trim();
+    }
+    if (item.kind === "perUnit") {
+      return `${formatAmount(item.rate, item.currency)} ${
+        item.parameter || "per unit"
+      }`;
+    }
+    return `${formatAmount(item.rate, item.currency)}${
+      item.parameter ? ` ${item.parameter}` : ""
+    }`;
+  }
+
+  /**
+   * Format how the amount of a fee was evaluated
+   */
+  private formatCalculation(item: BillItem): string {
+    if (item.kind === "fixed") {
+      return this.formatRate(item);
+    }
+    return `${this.formatRate(item)}, ${item.parameterName} ${formatNumber(
+      item.parameterValue!
+    )} = ${formatAmount(item.amount!, item.currency)}`;
+  }
+}
+
+/**
+ * Name of the parameter of a fee, without the "% of" or "per" some portals
+ * start it with
+ */
+function getParameterName(item: BillItem): string {
+  return (item.parameter || "").replace(/^(%\s*)?(of\s+|per\s+)?/i, "");
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
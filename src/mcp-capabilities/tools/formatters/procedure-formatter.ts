@@ -1,8 +1,11 @@
+import { buildProcedureTimeline } from "../../../services/procedure-timeline.js";
 import {
   DataFormatter,
   FormattedProcedureDetails,
   ProcedureData,
 } from "./types.js";
+import { formatAmount, getFormattingLocale } from "./locale.js";
+import { label } from "./labels.js";
 
 /**
  * Formats procedure data in a way optimized for LLMs with context length constraints
@@ -18,7 +21,7 @@ export class ProcedureFormatter
   public format(procedure: ProcedureData): FormattedProcedureDetails {
     if (!procedure) {
       return {
-        text: "No procedure data available",
+        text: label("noProcedureData"),
         data: {},
       };
     }
@@ -43,6 +46,7 @@ export class ProcedureFormatter
   private extractEssentialData(procedure: ProcedureData): any {
     return {
       id: procedure.id,
+      ...(procedure.menuId ? { menuId: procedure.menuId } : {}),
       name: procedure.fullName || procedure.name,
       isOnline: procedure.isOnline || false,
       description:
@@ -67,10 +71,8 @@ export class ProcedureFormatter
     // Sets for tracking unique entities to avoid repetition
     const institutions = new Set<string>();
     const requirements = new Set<string>();
-    let totalTimeAtCounter = 0;
-    let totalWaitingTime = 0;
-    let totalProcessingDays = 0;
-    let totalCost = 0;
+    // Fixed costs summed per unit, as steps may charge in several currencies
+    const fixedCosts = new Map<string, number>();
     let percentageCosts: { name: string; value: number; unit: string }[] = [];
 
     // Get name and ID from full procedure data structure
@@ -78,11 +80,13 @@ export class ProcedureFormatter
       procedure.fullName ||
       procedure.name ||
       (procedure.data && procedure.data.name) ||
-      "Unknown";
-    const id = procedure.data?.id || procedure.id || "Unknown";
+      label("unknown");
+    const id = procedure.data?.id || procedure.id || label("unknown");
 
     // Start with compact header
-    let result = `PROCEDURE: ${name} (ID:${id})\n`;
+    let result = `${label("procedure")}: ${name} (ID:${id}${
+      procedure.menuId ? `, MENU ID:${procedure.menuId}` : ""
+    })\n`;
 
     // Add URL only if available (save context space)
     if (procedure.data?.url) {
@@ -94,16 +98,16 @@ export class ProcedureFormatter
     if (description) {
       // Always use the full description
       const descriptionText = description;
-      result += `DESC: ${descriptionText}\n`;
+      result += `${label("description")}: ${descriptionText}\n`;
     }
 
     // Add additionalInfo if available
     const additionalInfoText = procedure.data?.additionalInfo;
     if (additionalInfoText) {
-      result += `INFO: ${additionalInfoText}\n`;
+      result += `${label("info")}: ${additionalInfoText}\n`;
     }
 
-    result += "\nSTEPS:\n";
+    result += `\n${label("steps")}:\n`;
     let stepNumber = 1;
 
     // Handle blocks section which contains the steps
@@ -116,7 +120,7 @@ export class ProcedureFormatter
 
             // Add online indicator with minimal text
             if (step.online?.url || step.isOnline) {
-              result += " [ONLINE]";
+              result += ` [${label("online")}]`;
               // Only add URL if it's specifically provided
               if (step.online?.url) {
                 result += ` ${step.online.url}`;
@@ -128,12 +132,12 @@ export class ProcedureFormatter
             if (step.contact?.entityInCharge) {
               const entity = step.contact.entityInCharge;
               institutions.add(entity.name);
-              result += `   Entity: ${entity.name}\n`;
+              result += `   ${label("entity")}: ${entity.name}\n`;
             }
 
             // Add requirements with minimal formatting
             if (step.requirements && step.requirements.length > 0) {
-              result += "   Requirements:";
+              result += `   ${label("requirements")}:`;
               // Use inline format for requirements to save space
               step.requirements.forEach((req: any) => {
                 if (!requirements.has(req.name)) {
@@ -145,40 +149,31 @@ export class ProcedureFormatter
             }
 
             // Add timeframes in compact format
-            if (step.timeframe) {
-              const tf = step.timeframe;
-              if (tf.waitingTimeUntilNextStep?.days?.max) {
-                const days = tf.waitingTimeUntilNextStep.days.max;
-                result += `   Time: ~${days} days\n`;
-                totalProcessingDays += days;
-              }
-
-              // Accumulate counter time without adding to output
-              if (tf.timeSpentAtTheCounter?.minutes?.max) {
-                totalTimeAtCounter += tf.timeSpentAtTheCounter.minutes.max;
-              }
-              if (tf.waitingTimeInLine?.minutes?.max) {
-                totalWaitingTime += tf.waitingTimeInLine.minutes.max;
-              }
+            const days = step.timeframe?.waitingTimeUntilNextStep?.days?.max;
+            if (days) {
+              result += `   ${label("time")}: ~${days} ${label("days")}\n`;
             }
 
             // Add costs in compact format
             if (step.costs && step.costs.length > 0) {
-              result += "   Cost:";
+              result += `   ${label("cost")}:`;
               step.costs.forEach((cost: any) => {
                 if (cost.value) {
                   if (cost.operator === "percentage") {
                     result += ` ${cost.value}% ${cost.parameter || ""};`;
                     percentageCosts.push({
-                      name: cost.comments || "Fee",
+                      name: cost.comments || label("fee"),
                       value: cost.value,
                       unit: cost.unit || "",
                     });
                   } else {
-                    result += ` ${cost.value} ${cost.unit};`;
-                    //if (cost.unit === 'TZS') {
-                    totalCost += parseFloat(cost.value);
-                    //}
+                    const unit =
+                      cost.unit || getFormattingLocale().currency || "";
+                    result += ` ${cost.value} ${unit};`;
+                    fixedCosts.set(
+                      unit,
+                      (fixedCosts.get(unit) || 0) + parseFloat(cost.value)
+                    );
                   }
                 }
               });
@@ -199,39 +194,62 @@ export class ProcedureFormatter
       ) || [];
 
     if (finalResults.length > 0) {
-      result += "\nFINAL DOCUMENTS:";
+      result += `\n${label("finalDocuments")}:`;
       finalResults.forEach((doc: any) => {
         result += ` ${doc.name};`;
       });
       result += "\n";
     }
 
+    // Prefer the official totals computed by the API when they were fetched
+    const totals = procedure.totals;
+
     // Add summary section with totals in compact format
-    result += "\nSUMMARY:\n";
-    result += `Steps: ${stepNumber - 1} | Institutions: ${
-      institutions.size
-    } | Requirements: ${requirements.size}\n`;
-
-    // Calculate overall totals
-    const totalMinutes = totalTimeAtCounter + totalWaitingTime;
-    const totalTime = totalProcessingDays + totalMinutes / (60 * 24); // Convert minutes to days
-
-    if (totalTime > 0) {
-      // Round to 1 decimal place for cleaner output
-      result += `Est. time: ${totalTime.toFixed(1)} days`;
-      if (totalMinutes > 0) {
-        result += ` (includes ${totalMinutes} minutes at counters)`;
+    result += `\n${label("summary")}:\n`;
+    result += `${label("stepCount")}: ${stepNumber - 1} | ${label(
+      "institutions"
+    )}: ${totals?.institutionCount ?? institutions.size} | ${label(
+      "requirements"
+    )}: ${totals?.requirementCount ?? requirements.size}\n`;
+
+    if (totals?.timeframe?.cost) {
+      result += `${label("totalTime")}: ${totals.timeframe.cost} ${
+        totals.timeframe.unit || label("days")
+      }\n`;
+    } else {
+      // Parallel steps run at the same time, so the estimate is the
+      // duration of the critical path
+      const timeline = buildProcedureTimeline(procedure.data?.blocks);
+      const totalMinutes = timeline.criticalPathMinutes;
+      const totalTime = timeline.criticalPathDays;
+
+      if (totalTime > 0) {
+        // Round to 1 decimal place for cleaner output
+        result += `${label("estimatedTime")}: ${totalTime.toFixed(1)} ${label(
+          "days"
+        )}`;
+        if (totalMinutes > 0) {
+          result += ` (${label("counterMinutes", { minutes: totalMinutes })})`;
+        }
+        result += "\n";
       }
-      result += "\n";
     }
 
-    if (totalCost > 0) {
+    const officialCosts = totals?.costs?.filter((cost) => cost.cost > 0) || [];
+    if (officialCosts.length > 0) {
+      result += `${label("totalCosts")}: ${officialCosts
+        .map((cost) => formatAmount(cost.cost, cost.unit))
+        .join("; ")}\n`;
+    } else if (Array.from(fixedCosts.values()).some((total) => total > 0)) {
       // Use compact number formatting
-      result += `Fixed costs: ${totalCost.toLocaleString()} TZS\n`;
+      result += `${label("fixedCosts")}: ${Array.from(fixedCosts)
+        .filter(([, total]) => total > 0)
+        .map(([unit, total]) => formatAmount(total, unit))
+        .join("; ")}\n`;
     }
 
     if (percentageCosts.length > 0) {
-      result += "Variable costs:";
+      result += `${label("variableCosts")}:`;
       percentageCosts.forEach((cost) => {
         result += ` ${cost.name}: ${cost.value}%${
           cost.unit ? " " + cost.unit : ""
@@ -52,6 +52,7 @@ export class ProcedureListFormatter
       name: proc.fullName || proc.name,
       isOnline: proc.isOnline || false,
       ...(proc.parentName ? { parentName: proc.parentName } : {}),
+      ...(proc.menuId ? { menuId: proc.menuId } : {}),
     }));
   }
 
@@ -70,6 +71,8 @@ export class ProcedureListFormatter
 
       shownProcedures.forEach((proc, index) => {
         const id = proc.id || "N/A";
+        // Keep the menu so the exact variant can be fetched later
+        const menu = proc.menuId ? `, MENU ID:${proc.menuId}` : "";
         const name = proc.fullName || proc.name || "Unknown";
         // Use online indicator instead of text to save space
         const online = proc.isOnline ? " [ONLINE]" : "";
@@ -83,7 +86,7 @@ export class ProcedureListFormatter
 
         proceduresSummary += `${
           index + 1
-        }. ${name}${online} (ID:${id})${description}\n`;
+        }. ${name}${online} (ID:${id}${menu})${description}\n`;
       });
     } else {
       proceduresSummary += "No procedures found.";
@@ -0,0 +1,178 @@
+import type { CountryProgressItemModel } from "../../../services/eregulations-api.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  ProcedureProgressData,
+} from "./types.js";
+import { formatNumber } from "./locale.js";
+
+// Number of least documented procedures listed in portal-wide mode
+const LEAST_DOCUMENTED_LIMIT = 10;
+
+/**
+ * Formats documentation and certification progress for LLMs
+ */
+export class ProcedureProgressFormatter
+  implements DataFormatter<ProcedureProgressData, FormattedProcedureDetails>
+{
+  /**
+   * Format progress data for LLM consumption
+   * @param progressData The progress of a procedure or of the whole portal
+   * @returns Formatted progress text and essential data
+   */
+  public format(
+    progressData: ProcedureProgressData
+  ): FormattedProcedureDetails {
+    if (!progressData || !progressData.progress) {
+      return {
+        text: "No progress data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(progressData),
+      data: this.extractEssentialData(progressData),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param progressData The full progress data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(progressData: ProcedureProgressData): any {
+    return {
+      ...(progressData.procedureId
+        ? { procedureId: progressData.procedureId }
+        : {}),
+      ...progressData.progress,
+      certificationRate: this.getCertificationRate(progressData.progress),
+      ...(progressData.procedures
+        ? {
+            procedureCount: progressData.procedures.length,
+            fullyCertifiedCount: progressData.procedures.filter((p) =>
+              this.isFullyCertified(p.progress)
+            ).length,
+            leastDocumented: this.getLeastDocumented(progressData).map((p) => ({
+              id: p.id,
+              certificationRate: this.getCertificationRate(p.progress),
+            })),
+            failedProcedureIds: progressData.failedProcedureIds || [],
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Format progress as human-readable text
+   * @param progressData The progress data to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(progressData: ProcedureProgressData): string {
+    const { progress, procedures } = progressData;
+    let result = procedures
+      ? `PORTAL PROGRESS: ${procedures.length} procedure${
+          procedures.length !== 1 ? "s" : ""
+        }\n`
+      : `PROCEDURE PROGRESS: ${progressData.procedureName || "Procedure"} (ID:${
+          progressData.procedureId
+        })\n`;
+
+    if (procedures) {
+      const fullyCertified = procedures.filter((p) =>
+        this.isFullyCertified(p.progress)
+      ).length;
+      result += `Fully certified procedures: ${formatNumber(
+        fullyCertified
+      )}/${formatNumber(procedures.length)}\n`;
+    }
+
+    result += `Certified steps: ${this.formatCertification(progress)}\n`;
+
+    const statuses = (["A", "B", "C", "D"] as const)
+      .map((status) => {
+        const count = progress[`status${status}`];
+        return count ? `${status}: ${formatNumber(count)}` : null;
+      })
+      .filter(Boolean);
+    if (statuses.length > 0) {
+      result += `Step statuses: ${statuses.join(" | ")}\n`;
+    }
+
+    if (progress.openedTickets || progress.archivedTickets) {
+      result += `Tickets: ${formatNumber(
+        progress.openedTickets || 0
+      )} open, ${formatNumber(progress.archivedTickets || 0)} archived\n`;
+    }
+
+    if (procedures) {
+      const leastDocumented = this.getLeastDocumented(progressData);
+      if (leastDocumented.length > 0) {
+        result += "\nLEAST DOCUMENTED PROCEDURES:\n";
+        leastDocumented.forEach((p) => {
+          result += `- ${p.name} (ID:${p.id}): ${this.formatCertification(
+            p.progress
+          )}${
+            p.progress.openedTickets
+              ? `, ${formatNumber(p.progress.openedTickets)} open tickets`
+              : ""
+          }\n`;
+        });
+      }
+      if (progressData.failedProcedureIds?.length) {
+        result += `\nProgress unavailable for procedure IDs: ${progressData.failedProcedureIds.join(
+          ", "
+        )}\n`;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Format certified steps as "certified/total (rate%)"
+   */
+  private formatCertification(progress: CountryProgressItemModel): string {
+    const rate = this.getCertificationRate(progress);
+    return `${formatNumber(progress.certifiedSteps || 0)}/${formatNumber(
+      progress.steps || 0
+    )}${rate !== null ? ` (${rate}%)` : ""}`;
+  }
+
+  /**
+   * Percentage of certified steps, or null when there are no steps
+   */
+  private getCertificationRate(
+    progress: CountryProgressItemModel
+  ): number | null {
+    if (!progress.steps) {
+      return null;
+    }
+    return Math.round(((progress.certifiedSteps || 0) / progress.steps) * 100);
+  }
+
+  /**
+   * Whether every step of a procedure is certified
+   */
+  private isFullyCertified(progress: CountryProgressItemModel): boolean {
+    return !!progress.steps && (progress.certifiedSteps || 0) >= progress.steps;
+  }
+
+  /**
+   * Procedures with steps that are not all certified, lowest rate first
+   */
+  private getLeastDocumented(
+    progressData: ProcedureProgressData
+  ): NonNullable<ProcedureProgressData["procedures"]> {
+    return (progressData.procedures || [])
+      .filter((p) => p.progress.steps && !this.isFullyCertified(p.progress))
+      .sort(
+        (a, b) =>
+          (this.getCertificationRate(a.progress) ?? 0) -
+            (this.getCertificationRate(b.progress) ?? 0) ||
+          (b.progress.openedTickets || 0) - (a.progress.openedTickets || 0)
+      )
+      .slice(0, LEAST_DOCUMENTED_LIMIT);
+  }
+}
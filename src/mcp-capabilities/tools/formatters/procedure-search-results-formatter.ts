@@ -0,0 +1,100 @@
+import {
+  DataFormatter,
+  FormattedProcedureList,
+  ProcedureSearchData,
+} from "./types.js";
+
+/**
+ * Formats the ranked results of a local procedure search for LLMs
+ */
+export class ProcedureSearchResultsFormatter
+  implements DataFormatter<ProcedureSearchData, FormattedProcedureList>
+{
+  /**
+   * Format local search results for LLM consumption
+   * @param results The ranked search results
+   * @returns Formatted results with their highlighted matches
+   */
+  public format(results: ProcedureSearchData): FormattedProcedureList {
+    if (!results || !results.hits || results.hits.length === 0) {
+      return {
+        text: this.formatNoResults(results),
+        data: [],
+      };
+    }
+
+    return {
+      text: this.formatText(results),
+      data: this.extractEssentialData(results),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param results The full search results
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(results: ProcedureSearchData): any[] {
+    return results.hits.map((hit) => ({
+      id: hit.id,
+      name: hit.name,
+      ...(hit.menuId ? { menuId: hit.menuId } : {}),
+      score: hit.score,
+    }));
+  }
+
+  private formatNoResults(results?: ProcedureSearchData): string {
+    if (!results) {
+      return "No procedures found";
+    }
+    return `No procedures found matching "${results.query}" among ${
+      results.indexedCount
+    } indexed procedures.${this.formatCorrections(
+      results
+    )}\n\nAll words must match in local mode: try fewer or more general words, or the default API search mode.`;
+  }
+
+  /**
+   * Format the results as a ranked list with highlighted snippets
+   * @param results The search results to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(results: ProcedureSearchData): string {
+    const { hits, total } = results;
+    let result = `Found ${total} procedure${total !== 1 ? "s" : ""} for "${
+      results.query
+    }", ranked by relevance${
+      hits.length < total ? ` (showing the top ${hits.length})` : ""
+    }:${this.formatCorrections(results)}\n\n`;
+
+    hits.forEach((hit, index) => {
+      result += `${index + 1}. ${hit.name} (ID:${hit.id}${
+        hit.menuId ? `, MENU ID:${hit.menuId}` : ""
+      }) - score ${hit.score}\n`;
+      if (hit.fullName && hit.fullName !== hit.name) {
+        result += `   Path: ${hit.fullName}\n`;
+      }
+      hit.snippets.forEach((snippet) => {
+        result += `   ${this.formatField(snippet.field)}: ${snippet.text}\n`;
+      });
+    });
+
+    result += `\nTo get details about a specific procedure, use the getProcedureDetails tool with the procedure ID.`;
+
+    return result;
+  }
+
+  private formatCorrections(results: ProcedureSearchData): string {
+    const corrections = Object.entries(results.corrections || {});
+    if (corrections.length === 0) {
+      return "";
+    }
+    return `\nTypos tolerated: ${corrections
+      .map(([word, matches]) => `"${word}" matched ${matches.join(", ")}`)
+      .join("; ")}`;
+  }
+
+  private formatField(field: string): string {
+    return field.charAt(0).toUpperCase() + field.slice(1);
+  }
+}
@@ -0,0 +1,196 @@
+import type {
+  ResumeTimeframeModel,
+  TimeRangeModel,
+  TotalCostModel,
+} from "../../../services/eregulations-api.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  ProcedureSummaryData,
+} from "./types.js";
+import { formatAmount } from "./locale.js";
+
+/**
+ * Formats the official summary (resume and totals) of a procedure for LLMs
+ */
+export class ProcedureSummaryFormatter
+  implements DataFormatter<ProcedureSummaryData, FormattedProcedureDetails>
+{
+  /**
+   * Format procedure summary data for LLM consumption
+   * @param summary The resume and totals of the procedure
+   * @returns Formatted summary text and essential data
+   */
+  public format(summary: ProcedureSummaryData): FormattedProcedureDetails {
+    if (!summary || (!summary.resume && !summary.totals)) {
+      return {
+        text: "No procedure summary available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(summary),
+      data: this.extractEssentialData(summary),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param summary The full summary data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(summary: ProcedureSummaryData): any {
+    const { resume, totals } = summary;
+    return {
+      id: resume?.id || summary.procedureId,
+      name: resume?.name,
+      steps: resume?.steps ?? totals?.steps?.length,
+      institutions: resume?.institutions ?? totals?.institutionCount,
+      requirements: resume?.requirements ?? totals?.requirementCount,
+      results: resume?.results,
+      laws: resume?.laws,
+      costs: this.getCosts(summary),
+      ...(totals?.timeframe ? { totalTime: totals.timeframe } : {}),
+      ...(totals?.abcCosts ? { abcCost: totals.abcCosts } : {}),
+    };
+  }
+
+  /**
+   * Format the summary as human-readable text
+   * @param summary The summary data to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(summary: ProcedureSummaryData): string {
+    const { resume, totals } = summary;
+    const id = resume?.id || summary.procedureId;
+
+    let result = `PROCEDURE SUMMARY: ${
+      resume?.name || "Procedure"
+    } (ID:${id})\n`;
+
+    // The API sends null for the counts it does not know
+    const counts = [];
+    const steps = resume?.steps ?? totals?.steps?.length;
+    if (steps !== undefined && steps !== null) counts.push(`Steps: ${steps}`);
+    const institutions = resume?.institutions ?? totals?.institutionCount;
+    if (institutions !== undefined && institutions !== null) {
+      counts.push(`Institutions: ${institutions}`);
+    }
+    const requirements = resume?.requirements ?? totals?.requirementCount;
+    if (requirements !== undefined && requirements !== null) {
+      counts.push(`Requirements: ${requirements}`);
+    }
+    if (resume?.results !== undefined && resume?.results !== null)
+      counts.push(`Results: ${resume.results}`);
+    if (resume?.laws !== undefined && resume?.laws !== null)
+      counts.push(`Laws: ${resume.laws}`);
+    if (counts.length > 0) {
+      result += `${counts.join(" | ")}\n`;
+    }
+
+    const onlineSteps = totals?.steps?.filter((s) => s.isOnline).length;
+    if (onlineSteps) {
+      result += `Online steps: ${onlineSteps}\n`;
+    }
+
+    // Timeframe: prefer the detailed resume breakdown, fall back to totals
+    const timeframe = this.formatTimeframe(resume?.timeframe);
+    if (timeframe) {
+      result += timeframe;
+    } else if (totals?.timeframe?.cost) {
+      result += `Total time: ${totals.timeframe.cost} ${
+        totals.timeframe.unit || "days"
+      }\n`;
+    }
+
+    const costs = this.getCosts(summary);
+    if (costs.length > 0) {
+      result += `Total costs: ${costs
+        .map((cost) => formatAmount(cost.cost, cost.unit))
+        .join("; ")}\n`;
+    } else {
+      result += "Total costs: none recorded\n";
+    }
+
+    if (totals?.abcCosts?.cost) {
+      result += `Administrative burden (ABC): ${formatAmount(
+        totals.abcCosts.cost,
+        totals.abcCosts.unit
+      )}\n`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the non-zero official costs, from the resume or the totals
+   */
+  private getCosts(summary: ProcedureSummaryData): TotalCostModel[] {
+    const costs = summary.resume?.costs?.length
+      ? summary.resume.costs
+      : summary.totals?.costs || [];
+    return costs.filter((cost) => cost && cost.cost > 0);
+  }
+
+  /**
+   * Format the aggregated timeframe of a procedure
+   */
+  private formatTimeframe(timeframe?: ResumeTimeframeModel): string {
+    if (!timeframe) {
+      return "";
+    }
+
+    let result = "";
+    if (timeframe.total && (timeframe.total.min || timeframe.total.max)) {
+      result += `Total time: ${this.formatRange(
+        timeframe.total.min,
+        timeframe.total.max
+      )} ${timeframe.total.unit || "days"}\n`;
+    }
+
+    const details = [];
+    const counter = this.formatTimeRange(timeframe.timeSpentAtTheCounter);
+    if (counter) details.push(`${counter} at counter`);
+    const line = this.formatTimeRange(timeframe.waitingTimeInLine);
+    if (line) details.push(`${line} waiting in line`);
+    const days = timeframe.waitingTimeUntilNextStep?.days;
+    if (days && (days.min || days.max)) {
+      details.push(`${this.formatRange(days.min, days.max)} days processing`);
+    }
+    if (details.length > 0) {
+      result += `Breakdown: ${details.join(" + ")}\n`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Format an hours/minutes range as compact text
+   */
+  private formatTimeRange(range?: TimeRangeModel): string {
+    if (!range) {
+      return "";
+    }
+    const parts = [];
+    if (range.hours && (range.hours.min || range.hours.max)) {
+      parts.push(`${this.formatRange(range.hours.min, range.hours.max)}h`);
+    }
+    if (range.minutes && (range.minutes.min || range.minutes.max)) {
+      parts.push(
+        `${this.formatRange(range.minutes.min, range.minutes.max)}min`
+      );
+    }
+    return parts.join(" ");
+  }
+
+  /**
+   * Format a min/max range, collapsing it when both ends are equal
+   */
+  private formatRange(min?: number, max?: number): string {
+    if (min && max && min !== max) {
+      return `${min}-${max}`;
+    }
+    return String(max || min || 0);
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  ProcedureTimeline,
+  TimelineStep,
+  buildProcedureTimeline,
+} from "../../../services/procedure-timeline.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  ProcedureTimelineData,
+} from "./types.js";
+
+// Columns of the bars of the chart, for the whole critical path
+const CHART_WIDTH = 40;
+// Step names are cut to keep the bars aligned
+const MAX_NAME_LENGTH = 32;
+
+/**
+ * Formats the schedule of the steps of a procedure for LLMs
+ */
+export class ProcedureTimelineFormatter
+  implements DataFormatter<ProcedureTimelineData, FormattedProcedureDetails>
+{
+  /**
+   * Format the timeline of a procedure for LLM consumption
+   * @param timeline The blocks of steps of the procedure
+   * @returns Formatted chart and essential data
+   */
+  public format(timeline: ProcedureTimelineData): FormattedProcedureDetails {
+    const schedule = timeline && buildProcedureTimeline(timeline.blocks);
+    if (!schedule || schedule.steps.length === 0) {
+      return {
+        text: "No steps found for this procedure",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(timeline, schedule),
+      data: this.extractEssentialData(timeline, schedule),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   */
+  private extractEssentialData(
+    timeline: ProcedureTimelineData,
+    schedule: ProcedureTimeline
+  ): any {
+    return {
+      procedureId: timeline.procedureId,
+      ...(timeline.procedureName
+        ? { procedureName: timeline.procedureName }
+        : {}),
+      ...(timeline.menuId ? { menuId: timeline.menuId } : {}),
+      minimumDays: round(schedule.minimumDays),
+      maximumDays: round(schedule.maximumDays),
+      criticalPathDays: round(schedule.criticalPathDays),
+      steps: schedule.steps.map((step) => ({
+        ...(step.id !== undefined ? { stepId: step.id } : {}),
+        stepNumber: step.stepNumber,
+        ...(step.name ? { stepName: step.name } : {}),
+        isOptional: step.isOptional,
+        isParallel: step.isParallel,
+        isCritical: step.isCritical,
+        start: round(step.start),
+        end: round(step.end),
+        minutes: step.minutes,
+        days: step.days,
+      })),
+      criticalPathStepIds: schedule.criticalPathStepIds,
+      stepsWithoutTimeframe: schedule.stepsWithoutTimeframe,
+      incompleteStepIds: timeline.incompleteStepIds || [],
+    };
+  }
+
+  /**
+   * Format the durations of the procedure, followed by a Gantt chart of
+   * its steps
+   */
+  private formatText(
+    timeline: ProcedureTimelineData,
+    schedule: ProcedureTimeline
+  ): string {
+    let result = `TIMELINE: ${
+      timeline.procedureName || "Unknown procedure"
+    } (ID:${timeline.procedureId}${
+      timeline.menuId ? `, MENU ID:${timeline.menuId}` : ""
+    })\n`;
+
+    result += `Critical path: ${formatDays(schedule.criticalPathDays)}`;
+    if (schedule.criticalPathMinutes > 0) {
+      result += ` (includes ${schedule.criticalPathMinutes} minutes at counters)`;
+    }
+    result += "\n";
+    result += `Minimum: ${formatDays(
+      schedule.minimumDays
+    )}, without the optional steps\n`;
+    result += `Maximum: ${formatDays(
+      schedule.maximumDays
+    )}, with every step one after the other\n`;
+
+    result += `\n${this.formatChart(
+      schedule.steps,
+      schedule.criticalPathDays
+    )}`;
+    result += `\n# critical path, = other steps. Parallel steps start along with the step before them.\n`;
+
+    if (schedule.stepsWithoutTimeframe.length > 0) {
+      result += `\nNOTE: Steps ${schedule.stepsWithoutTimeframe.join(
+        ", "
+      )} have no timeframe and are counted as taking no time.\n`;
+    }
+    if (timeline.incompleteStepIds && timeline.incompleteStepIds.length > 0) {
+      result += `\nNOTE: The details of steps ${timeline.incompleteStepIds.join(
+        ", "
+      )} could not be retrieved, so they are scheduled from the procedure only.\n`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Draw each step as a bar from its start to its end, scaled to the
+   * critical path
+   */
+  private formatChart(steps: TimelineStep[], totalDays: number): string {
+    const names = steps.map((step) => {
+      const name = `${step.stepNumber}. ${step.name || `Step ${step.id}`}`;
+      return name.length > MAX_NAME_LENGTH
+        ? `${name.slice(0, MAX_NAME_LENGTH - 3)}...`
+        : name;
+    });
+    const nameWidth = Math.max(...names.map((name) => name.length));
+    const scale = totalDays > 0 ? CHART_WIDTH / totalDays : 0;
+
+    return steps
+      .map((step, index) => {
+        // Steps taking no time still show as a mark
+        const start = Math.min(Math.round(step.start * scale), CHART_WIDTH - 1);
+        const end = Math.max(start + 1, Math.round(step.end * scale));
+        const bar =
+          " ".repeat(start) +
+          (step.isCritical ? "#" : "=").repeat(end - start) +
+          " ".repeat(CHART_WIDTH - end);
+
+        const flags = [
+          step.isParallel ? "parallel" : "",
+          step.isOptional ? "optional" : "",
+          step.hasTimeframe ? "" : "no timeframe",
+        ].filter(Boolean);
+
+        return `${names[index].padEnd(nameWidth)} |${bar}| day ${formatDay(
+          step.start
+        )}-${formatDay(step.end)}${
+          flags.length > 0 ? ` [${flags.join(", ")}]` : ""
+        }\n`;
+      })
+      .join("");
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDay(value: number): string {
+  return value.toFixed(1);
+}
+
+function formatDays(value: number): string {
+  return `${value.toFixed(1)} days`;
+}
@@ -0,0 +1,360 @@
+import { removeAccents } from "../../../services/search-index.js";
+import {
+  DataFormatter,
+  FormattedProcedureDetails,
+  RequirementsChecklistData,
+  StepData,
+} from "./types.js";
+
+interface CopyCounts {
+  originals?: number;
+  copies?: number;
+  authenticated?: number;
+}
+
+interface ChecklistStep {
+  stepId: number;
+  stepNumber: number;
+  stepName?: string;
+  institution?: string;
+}
+
+interface ChecklistDocument extends CopyCounts {
+  name: string;
+  documentId?: number;
+  url?: string;
+  isFinalResult: boolean;
+  neededAt: (ChecklistStep & CopyCounts & { comments?: string })[];
+  producedBy: ChecklistStep[];
+}
+
+/**
+ * Consolidates the requirements of the steps of a procedure into a checklist
+ * of documents, with the steps needing and producing each one
+ */
+export class RequirementsChecklistFormatter
+  implements
+    DataFormatter<RequirementsChecklistData, FormattedProcedureDetails>
+{
+  /**
+   * Format the documents of a procedure as a checklist
+   * @param checklist The steps of the procedure with their documents
+   * @returns Formatted checklist text and essential data
+   */
+  public format(
+    checklist: RequirementsChecklistData
+  ): FormattedProcedureDetails {
+    if (!checklist || !checklist.steps?.length) {
+      return {
+        text: "No steps found for this procedure",
+        data: {},
+      };
+    }
+
+    const documents = this.collectDocuments(checklist.steps);
+
+    return {
+      text: this.formatText(checklist, documents),
+      data: this.extractEssentialData(checklist, documents),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   */
+  private extractEssentialData(
+    checklist: RequirementsChecklistData,
+    documents: ChecklistDocument[]
+  ): any {
+    return {
+      procedureId: checklist.procedureId,
+      procedureName: checklist.procedureName,
+      ...(checklist.menuId ? { menuId: checklist.menuId } : {}),
+      documents,
+      incompleteStepIds: checklist.incompleteStepIds || [],
+    };
+  }
+
+  /**
+   * Merge the requirements and results of the steps into one entry per
+   * document. A document is matched across steps by its ID, or else by its
+   * name without case and accents. The same originals are shown at every
+   * step, so the largest number is kept, while copies are left at each step
+   * and added up.
+   */
+  private collectDocuments(steps: StepData[]): ChecklistDocument[] {
+    const documents: ChecklistDocument[] = [];
+    const byKey = new Map<string, ChecklistDocument>();
+
+    const getDocument = (document: {
+      id?: number;
+      name: string;
+      url?: string;
+    }) => {
+      const nameKey = `name:${this.normalizeName(document.name)}`;
+      const idKey = document.id ? `id:${document.id}` : undefined;
+      let entry = (idKey && byKey.get(idKey)) || byKey.get(nameKey);
+      if (!entry) {
+        entry = {
+          name: document.name,
+          isFinalResult: false,
+          neededAt: [],
+          producedBy: [],
+        };
+        documents.push(entry);
+      }
+      if (!entry.documentId && document.id) {
+        entry.documentId = document.id;
+      }
+      if (!entry.url && document.url) {
+        entry.url = document.url;
+      }
+      byKey.set(nameKey, entry);
+      if (idKey) {
+        byKey.set(idKey, entry);
+      }
+      return entry;
+    };
+
+    steps.forEach((step, index) => {
+      if (!step.id) {
+        return;
+      }
+      const checklistStep: ChecklistStep = {
+        stepId: step.id,
+        stepNumber: index + 1,
+        stepName: step.name,
+        institution: step.contact?.entityInCharge?.name,
+      };
+
+      step.requirements?.forEach((requirement) => {
+        if (!requirement?.name) {
+          return;
+        }
+        const entry = getDocument(requirement);
+        const counts: CopyCounts = {
+          originals: requirement.nbOriginal,
+          copies: requirement.nbCopy,
+          authenticated: requirement.nbAuthenticated,
+        };
+        entry.neededAt.push({
+          ...checklistStep,
+          ...counts,
+          ...(requirement.comments ? { comments: requirement.comments } : {}),
+        });
+        entry.originals = this.combine(
+          entry.originals,
+          counts.originals,
+          Math.max
+        );
+        entry.copies = this.combine(entry.copies, counts.copies, this.add);
+        entry.authenticated = this.combine(
+          entry.authenticated,
+          counts.authenticated,
+          this.add
+        );
+      });
+
+      step.results?.forEach((result) => {
+        if (!result?.name) {
+          return;
+        }
+        const entry = getDocument(result);
+        entry.producedBy.push(checklistStep);
+        entry.isFinalResult = entry.isFinalResult || !!result.isFinalResult;
+      });
+    });
+
+    return documents;
+  }
+
+  /**
+   * Format the checklist as human-readable text
+   */
+  private formatText(
+    checklist: RequirementsChecklistData,
+    documents: ChecklistDocument[]
+  ): string {
+    let result = `REQUIREMENTS CHECKLIST: ${
+      checklist.procedureName || "Procedure"
+    } (ID:${checklist.procedureId}${
+      checklist.menuId ? `, MENU ID:${checklist.menuId}` : ""
+    })\n`;
+
+    // Documents needed before they are produced by a step must be obtained
+    // beforehand, the others are obtained during the procedure
+    const toBring = documents.filter(
+      (document) =>
+        document.neededAt.length > 0 &&
+        !document.producedBy.some(
+          (step) => step.stepNumber < document.neededAt[0].stepNumber
+        )
+    );
+    const obtained = documents.filter(
+      (document) => document.neededAt.length > 0 && !toBring.includes(document)
+    );
+    const received = documents.filter(
+      (document) => document.neededAt.length === 0
+    );
+
+    result += `${toBring.length} documents to bring, ${obtained.length} obtained during the procedure, ${received.length} received\n`;
+
+    if (toBring.length > 0) {
+      result += `\nDOCUMENTS TO BRING:\n`;
+      toBring.forEach((document) => {
+        result += this.formatDocument(document);
+      });
+    }
+
+    if (obtained.length > 0) {
+      result += `\nDOCUMENTS OBTAINED DURING THE PROCEDURE:\n`;
+      obtained.forEach((document) => {
+        result += this.formatDocument(document);
+      });
+    }
+
+    const institutions = this.groupByInstitution(documents);
+    if (institutions.size > 0) {
+      result += `\nDOCUMENTS BY INSTITUTION:\n`;
+      institutions.forEach((names, institution) => {
+        result += `- ${institution}: ${names.join("; ")}\n`;
+      });
+    }
+
+    if (received.length > 0) {
+      result += `\nDOCUMENTS RECEIVED:\n`;
+      received.forEach((document) => {
+        result += `- ${document.name}${
+          document.isFinalResult ? " [final]" : ""
+        } (from ${document.producedBy
+          .map((step) => this.formatStep(step))
+          .join(", ")})\n`;
+      });
+    }
+
+    if (checklist.incompleteStepIds?.length) {
+      result += `\nNOTE: The details of steps ${checklist.incompleteStepIds.join(
+        ", "
+      )} could not be retrieved, so the number of copies of their documents may be missing.\n`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Format a document to bring or obtain, with the steps needing it
+   */
+  private formatDocument(document: ChecklistDocument): string {
+    let result = `[ ] ${document.name}${
+      document.documentId ? ` (DOCUMENT ID:${document.documentId})` : ""
+    }: ${this.formatCounts(document)}\n`;
+    if (document.producedBy.length > 0) {
+      result += `    Produced by: ${document.producedBy
+        .map((step) => this.formatStep(step))
+        .join(", ")}\n`;
+    }
+    result += `    Needed at: ${document.neededAt
+      .map((step) => {
+        const counts =
+          document.neededAt.length > 1 && this.hasCounts(step)
+            ? ` - ${this.formatCounts(step)}`
+            : "";
+        return `${this.formatStep(step)}${counts}`;
+      })
+      .join(", ")}\n`;
+    document.neededAt
+      .filter((step) => step.comments)
+      .forEach((step) => {
+        result += `    Note (step ${step.stepNumber}): ${step.comments}\n`;
+      });
+    if (document.url) {
+      result += `    Download: ${document.url}\n`;
+    }
+    return result;
+  }
+
+  /**
+   * Group the names of the documents needed by the institutions in charge of
+   * the steps needing them
+   */
+  private groupByInstitution(
+    documents: ChecklistDocument[]
+  ): Map<string, string[]> {
+    const institutions = new Map<string, string[]>();
+    documents.forEach((document) => {
+      document.neededAt.forEach((step) => {
+        if (!step.institution) {
+          return;
+        }
+        const names = institutions.get(step.institution) || [];
+        if (!names.includes(document.name)) {
+          names.push(document.name);
+        }
+        institutions.set(step.institution, names);
+      });
+    });
+    return institutions;
+  }
+
+  private formatStep(step: ChecklistStep): string {
+    return `${step.stepNumber}. ${step.stepName || "Step"} (STEP ID:${
+      step.stepId
+    }${step.institution ? `, ${step.institution}` : ""})`;
+  }
+
+  private hasCounts(counts: CopyCounts): boolean {
+    return !!(counts.originals || counts.copies || counts.authenticated);
+  }
+
+  /**
+   * Format the number of originals and copies of a document
+   */
+  private formatCounts(counts: CopyCounts): string {
+    if (!this.hasCounts(counts)) {
+      return "number of copies not specified";
+    }
+    const parts = [];
+    if (counts.originals) {
+      parts.push(
+        `${counts.originals} original${counts.originals > 1 ? "s" : ""}`
+      );
+    }
+    if (counts.copies) {
+      parts.push(`${counts.copies} cop${counts.copies > 1 ? "ies" : "y"}`);
+    }
+    if (counts.authenticated) {
+      parts.push(
+        `${counts.authenticated} authenticated cop${
+          counts.authenticated > 1 ? "ies" : "y"
+        }`
+      );
+    }
+    return parts.join(", ");
+  }
+
+  /**
+   * Combine the counts of a document at two steps, keeping unknown counts
+   * unknown
+   */
+  private combine(
+    total: number | undefined,
+    count: number | undefined,
+    operation: (a: number, b: number) => number
+  ): number | undefined {
+    if (count === undefined || count === null) {
+      return total;
+    }
+    return total === undefined ? count : operation(total, count);
+  }
+
+  private add(a: number, b: number): number {
+    return a + b;
+  }
+
+  /**
+   * Normalize a document name to match it across steps
+   */
+  private normalizeName(name: string): string {
+    return removeAccents(name.toLowerCase()).replace(/\s+/g, " ").trim();
+  }
+}
@@ -3,6 +3,7 @@ import {
   FormattedProcedureList,
   ObjectiveData,
 } from "./types.js"; // Use ObjectiveData input, FormattedProcedureList output
+import { label } from "./labels.js";
 
 /**
  * Formats procedure search results optimized for LLMs.
@@ -25,7 +26,9 @@ export class SearchProceduresFormatter
     // Renamed variable
     if (!results || !Array.isArray(results) || results.length === 0) {
       return {
-        text: `No procedures found matching "${keyword || "search term"}"`,
+        text: label("noProceduresMatching", {
+          keyword: keyword || label("searchTerm"),
+        }),
         data: [],
       };
     }
@@ -59,11 +62,13 @@ export class SearchProceduresFormatter
    * @returns Formatted text optimized for LLM context.
    */
   private formatText(results: ObjectiveData[], keyword?: string): string {
-    const searchTerm = keyword ? ` for "${keyword}"` : "";
+    const searchTerm = keyword ? ` ${label("forKeyword", { keyword })}` : "";
     const resultCount = results.length;
 
-    let header = `Found ${resultCount} procedure${
-      resultCount !== 1 ? "s" : ""
+    let header = `${
+      resultCount !== 1
+        ? label("foundProcedures", { count: resultCount })
+        : label("foundProcedure")
     }${searchTerm}:\n\n`; // Use "procedure" in text
 
     const shownResults = results; // Always show all results now
@@ -71,7 +76,7 @@ export class SearchProceduresFormatter
     if (shownResults.length > 0) {
       shownResults.forEach((res, index) => {
         const id = res.id || "N/A";
-        const name = res.name || "Unknown";
+        const name = res.name || label("unknown");
 
         let description = "";
         if (res.description) {
@@ -83,7 +88,7 @@ export class SearchProceduresFormatter
 
       header += `\n\nTo get details about a specific procedure, use the getProcedureDetails tool with the procedure ID.`; // Keep instruction
     } else {
-      header += "No procedures found.";
+      header += label("noProceduresFound");
     }
 
     return header;
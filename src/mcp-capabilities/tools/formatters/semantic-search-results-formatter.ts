@@ -0,0 +1,117 @@
+import {
+  DataFormatter,
+  FormattedProcedureList,
+  SemanticSearchData,
+} from "./types.js";
+
+/**
+ * Formats the procedures related to a semantic query for LLMs
+ */
+export class SemanticSearchResultsFormatter
+  implements DataFormatter<SemanticSearchData, FormattedProcedureList>
+{
+  /**
+   * Format semantic search results for LLM consumption
+   * @param results The ranked search results
+   * @returns Formatted results with how each procedure was found
+   */
+  public format(results: SemanticSearchData): FormattedProcedureList {
+    if (!results || !results.hits || results.hits.length === 0) {
+      return {
+        text: this.formatNoResults(results),
+        data: [],
+      };
+    }
+
+    return {
+      text: this.formatText(results),
+      data: this.extractEssentialData(results),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param results The full search results
+   * @returns A simplified array with essential fields
+   */
+  private extractEssentialData(results: SemanticSearchData): any[] {
+    return results.hits.map((hit) => ({
+      id: hit.id,
+      name: hit.name,
+      ...(hit.menuId ? { menuId: hit.menuId } : {}),
+      ...(hit.similarity !== undefined ? { similarity: hit.similarity } : {}),
+      source: hit.source,
+    }));
+  }
+
+  private formatNoResults(results?: SemanticSearchData): string {
+    if (!results) {
+      return "No procedures found";
+    }
+    return `No procedures found related to "${
+      results.query
+    }".${this.formatFallback(results)}${this.formatLexical(
+      results
+    )}\n\nTry describing the goal differently, or use the searchProcedures tool with a specific keyword.`;
+  }
+
+  /**
+   * Format the results as a ranked list with how each one matched
+   * @param results The search results to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(results: SemanticSearchData): string {
+    const { hits } = results;
+    let result = results.fallbackReason
+      ? `Found ${hits.length} procedure${hits.length !== 1 ? "s" : ""} for "${
+          results.query
+        }" with the portal keyword search only.`
+      : `Found ${hits.length} procedure${
+          hits.length !== 1 ? "s" : ""
+        } related to "${results.query}", most related first (${
+          results.lexical ? "lexical" : "semantic"
+        } search over ${results.indexedCount} procedures with ${
+          results.model
+        }):`;
+    result += `${this.formatFallback(results)}${this.formatLexical(
+      results
+    )}\n\n`;
+
+    hits.forEach((hit, index) => {
+      result += `${index + 1}. ${hit.name} (ID:${hit.id}${
+        hit.menuId ? `, MENU ID:${hit.menuId}` : ""
+      })${this.formatMatch(hit)}\n`;
+      if (hit.fullName && hit.fullName !== hit.name) {
+        result += `   Path: ${hit.fullName}\n`;
+      }
+      if (hit.matchedStep) {
+        result += `   Matching step: ${hit.matchedStep}\n`;
+      }
+    });
+
+    result += `\nSemantic matches can be loose: check the procedure details before relying on them. To get details about a specific procedure, use the getProcedureDetails tool with the procedure ID.`;
+
+    return result;
+  }
+
+  private formatMatch(hit: SemanticSearchData["hits"][number]): string {
+    if (hit.similarity === undefined) {
+      return hit.source === "keyword" ? " - keyword match" : "";
+    }
+    return ` - similarity ${hit.similarity}${
+      hit.source === "both" ? ", also a keyword match" : ""
+    }`;
+  }
+
+  private formatLexical(results: SemanticSearchData): string {
+    return results.lexical
+      ? `\nNo embedding service is configured, so procedures are matched by their words, not their meaning: synonyms do not match ("selling abroad" does not find "export"). If the results are poor, search again with the words the portal would use.`
+      : "";
+  }
+
+  private formatFallback(results: SemanticSearchData): string {
+    return results.fallbackReason
+      ? `\nSemantic search unavailable: ${results.fallbackReason}`
+      : "";
+  }
+}
@@ -1,4 +1,6 @@
 import { DataFormatter, FormattedProcedureStep, StepData } from './types.js';
+import { getFormattingLocale } from './locale.js';
+import { label } from './labels.js';
 
 /**
  * Formats step data in a way optimized for LLMs with context length constraints
@@ -12,7 +14,7 @@ export class StepFormatter implements DataFormatter<StepData, FormattedProcedure
   public format(step: StepData): FormattedProcedureStep {
     if (!step) {
       return {
-        text: "No step data available",
+        text: label("noStepData"),
         data: {}
       };
     }
@@ -47,6 +49,11 @@ export class StepFormatter implements DataFormatter<StepData, FormattedProcedure
         requirementCount: step.requirements.length,
         requirements: step.requirements.map(r => r.name)
       } : {}),
+      ...(step.requirements?.some(r => r.id || r.url) ? {
+        requirementDocuments: step.requirements
+          .filter(r => r.id || r.url)
+          .map(r => ({ id: r.id, name: r.name, url: r.url }))
+      } : {}),
       ...(step.costs ? {
         costCount: step.costs.length,
         hasCosts: step.costs.length > 0
@@ -61,14 +68,14 @@ export class StepFormatter implements DataFormatter<StepData, FormattedProcedure
    */
   private formatText(step: StepData): string {
     // Start with compact header
-    let result = `STEP: ${step.name || 'Unnamed'} (ID:${step.id || 'Unknown'})\n`;
+    let result = `${label('step')}: ${step.name || label('unnamed')} (ID:${step.id || label('unknown')})\n`;
     if (step.procedureName) {
-      result += `PROCEDURE: ${step.procedureName} (ID:${step.procedureId})\n`;
+      result += `${label('procedure')}: ${step.procedureName} (ID:${step.procedureId}${step.menuId ? `, MENU ID:${step.menuId}` : ''})\n`;
     }
     
     // Online completion indicator
     if (step.online?.url || step.isOnline) {
-      result += "ONLINE: Yes";
+      result += `${label('online')}: ${label('yes')}`;
       if (step.online?.url) {
         result += ` (${step.online.url})`;
       }
@@ -77,25 +84,25 @@ export class StepFormatter implements DataFormatter<StepData, FormattedProcedure
     
     // Step metadata in compact format
     const metadata = [];
-    if (step.isOptional) metadata.push("Optional");
-    if (step.isCertified) metadata.push("Certified");
-    if (step.isParallel) metadata.push("Parallel");
+    if (step.isOptional) metadata.push(label('optional'));
+    if (step.isCertified) metadata.push(label('certified'));
+    if (step.isParallel) metadata.push(label('parallel'));
     if (metadata.length > 0) {
-      result += `STATUS: ${metadata.join(', ')}\n`;
+      result += `${label('status')}: ${metadata.join(', ')}\n`;
     }
     
     // Contact information in compact format
     if (step.contact) {
-      result += "CONTACT:\n";
+      result += `${label('contact')}:\n`;
       if (step.contact.entityInCharge) {
         const entity = step.contact.entityInCharge;
-        result += `Entity: ${entity.name}\n`;
+        result += `${label('entity')}: ${entity.name}${entity.id ? ` (INSTITUTION ID:${entity.id})` : ''}\n`;
         
         // Combine contact details to save space
         const contactDetails = [];
-        if (entity.firstPhone) contactDetails.push(`Phone: ${entity.firstPhone}`);
-        if (entity.firstEmail) contactDetails.push(`Email: ${entity.firstEmail}`);
-        if (entity.firstWebsite) contactDetails.push(`Web: ${entity.firstWebsite}`);
+        if (entity.firstPhone) contactDetails.push(`${label('phone')}: ${entity.firstPhone}`);
+        if (entity.firstEmail) contactDetails.push(`${label('email')}: ${entity.firstEmail}`);
+        if (entity.firstWebsite) contactDetails.push(`${label('web')}: ${entity.firstWebsite}`);
         
         if (contactDetails.length > 0) {
           result += `${contactDetails.join(' | ')}\n`;
@@ -103,87 +110,97 @@ export class StepFormatter implements DataFormatter<StepData, FormattedProcedure
         
         // Only include address if available
         if (entity.address) {
-          result += `Address: ${entity.address}\n`;
+          result += `${label('address')}: ${entity.address}\n`;
         }
       }
       
       // Add unit/person info only if name is provided (save space)
       if (step.contact.unitInCharge?.name) {
-        result += `Unit: ${step.contact.unitInCharge.name}\n`;
+        const unit = step.contact.unitInCharge;
+        result += `${label('unit')}: ${unit.name}${unit.id ? ` (UNIT ID:${unit.id})` : ''}\n`;
       }
       if (step.contact.personInCharge?.name) {
-        result += `Contact: ${step.contact.personInCharge.name}`;
+        result += `${label('contactPerson')}: ${step.contact.personInCharge.name}`;
         if (step.contact.personInCharge.profession) {
           result += ` (${step.contact.personInCharge.profession})`;
         }
+        if (step.contact.personInCharge.id) {
+          result += ` (PERSON ID:${step.contact.personInCharge.id})`;
+        }
         result += '\n';
       }
     }
     
     // Requirements in compact format
     if (step.requirements?.length) {
-      result += "REQUIREMENTS:\n";
+      result += `${label('requirementList')}:\n`;
       step.requirements.forEach((req: any) => {
         // Combine all requirement details in one line
         let reqLine = `- ${req.name}`;
+        if (req.id) reqLine += ` (DOC ID:${req.id})`;
         
         if (req.nbOriginal || req.nbCopy || req.nbAuthenticated) {
           const copies = [];
-          if (req.nbOriginal) copies.push(`${req.nbOriginal} orig`);
-          if (req.nbCopy) copies.push(`${req.nbCopy} copy`);
-          if (req.nbAuthenticated) copies.push(`${req.nbAuthenticated} auth`);
+          if (req.nbOriginal) copies.push(`${req.nbOriginal} ${label('originals')}`);
+          if (req.nbCopy) copies.push(`${req.nbCopy} ${label('copies')}`);
+          if (req.nbAuthenticated) copies.push(`${req.nbAuthenticated} ${label('authenticatedCopies')}`);
           reqLine += ` (${copies.join(', ')})`;
         }
         
         result += reqLine + '\n';
         
+        // Link to the form so it can be downloaded directly
+        if (req.url) {
+          result += `  ${label('form')}: ${req.url}\n`;
+        }
+        
         // Only add comments if they provide valuable information
         if (req.comments) {
-          result += `  Note: ${req.comments}\n`;
+          result += `  ${label('note')}: ${req.comments}\n`;
         }
       });
     }
     
     // Results/outputs in compact format
     if (step.results?.length) {
-      result += "OUTPUTS:\n";
+      result += `${label('outputs')}:\n`;
       step.results.forEach((res: any) => {
-        result += `- ${res.name}${res.isFinalResult ? " [FINAL]" : ""}\n`;
+        result += `- ${res.name}${res.isFinalResult ? ` [${label('final')}]` : ""}\n`;
       });
     }
     
     // Timeframes in compact format
     if (step.timeframe) {
-      result += "TIMEFRAME: ";
+      result += `${label('timeframe')}: `;
       const tf = step.timeframe;
       const times = [];
       
       if (tf.timeSpentAtTheCounter?.minutes?.max) {
-        times.push(`${tf.timeSpentAtTheCounter.minutes.max}min at counter`);
+        times.push(label('minutesAtCounter', { minutes: tf.timeSpentAtTheCounter.minutes.max }));
       }
       if (tf.waitingTimeInLine?.minutes?.max) {
-        times.push(`${tf.waitingTimeInLine.minutes.max}min wait`);
+        times.push(label('minutesWaiting', { minutes: tf.waitingTimeInLine.minutes.max }));
       }
       if (tf.waitingTimeUntilNextStep?.days?.max) {
-        times.push(`${tf.waitingTimeUntilNextStep.days.max} days processing`);
+        times.push(label('processingDays', { days: tf.waitingTimeUntilNextStep.days.max }));
       }
       
       if (times.length > 0) {
         result += times.join(' + ') + '\n';
       } else {
-        result += "Not specified\n";
+        result += `${label('notSpecified')}\n`;
       }
     }
     
     // Costs in compact format
     if (step.costs?.length) {
-      result += "COSTS:\n";
+      result += `${label('costs')}:\n`;
       step.costs.forEach((cost: any) => {
         if (cost.value) {
           if (cost.operator === 'percentage') {
             result += `- ${cost.value}% ${cost.parameter || ''}`;
           } else {
-            result += `- ${cost.value} ${cost.unit}`;
+            result += `- ${cost.value} ${cost.unit || getFormattingLocale().currency || ''}`.trimEnd();
           }
           
           if (cost.comments) {
@@ -196,8 +213,10 @@ export class StepFormatter implements DataFormatter<StepData, FormattedProcedure
     
     // Only include legal references if present
     if (step.laws?.length) {
-      result += "LEGAL REFS: ";
-      result += step.laws.map((law: any) => law.name).join(' | ') + '\n';
+      result += `${label('legalReferences')}: `;
+      result += step.laws
+        .map((law: any) => (law.id ? `${law.name} (LAW ID:${law.id})` : law.name))
+        .join(' | ') + '\n';
     }
     
     return result;
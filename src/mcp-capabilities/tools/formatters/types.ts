@@ -1,4 +1,29 @@
-import type { ERegulationsApi } from "../../../services/eregulations-api.js";
+import type {
+  ERegulationsApi,
+  AbcDetailedModel,
+  StepAbcDetailedModel,
+  ResumeModel,
+  ResumeTotalModel,
+  GenericDocumentBaseModel,
+  GenericDocumentModel,
+  RequirementBaseModel,
+  RequirementModel,
+  DocumentCostModel,
+  ContactBaseModel,
+  DetailedContactModel,
+  DetailedUnitModel,
+  DetailedPersonModel,
+  CountryModel,
+  TeamModel,
+  SiteContactInformation,
+  CountryDataItemModel,
+  CountryProgressItemModel,
+  ObjectiveLevelModel,
+} from "../../../services/eregulations-api.js";
+import type { ProcedureSearchResults } from "../../../services/procedure-search.js";
+import type { SemanticSearchResults } from "../../../services/semantic-search.js";
+import type { PrerequisitePath } from "../../../services/procedure-graph.js";
+import type { ProcedureBill } from "../../../services/procedure-cost.js";
 
 /**
  * Base interface for data formatters
@@ -19,6 +44,7 @@ export interface ProcedureData {
   explanatoryText?: string;
   isOnline?: boolean;
   parentName?: string | null; // Updated to allow null
+  menuId?: number;
   data?: {
     id?: number;
     name?: string;
@@ -29,8 +55,8 @@ export interface ProcedureData {
       steps?: StepData[];
     }[];
   };
-  resume?: any;
-  totals?: any;
+  resume?: ResumeModel;
+  totals?: ResumeTotalModel;
   [key: string]: any;
 }
 
@@ -43,6 +69,7 @@ export interface StepData {
   name?: string;
   procedureId?: number;
   procedureName?: string;
+  menuId?: number;
   isOptional?: boolean;
   isCertified?: boolean;
   isParallel?: boolean;
@@ -52,6 +79,7 @@ export interface StepData {
   };
   contact?: {
     entityInCharge?: {
+      id?: number;
       name: string;
       firstPhone?: string;
       secondPhone?: string;
@@ -63,24 +91,34 @@ export interface StepData {
       scheduleComments?: string;
     };
     unitInCharge?: {
+      id?: number;
       name: string;
     };
     personInCharge?: {
+      id?: number;
       name: string;
       profession?: string;
     };
   };
   requirements?: {
+    id?: number;
     name: string;
     comments?: string;
     nbOriginal?: number;
     nbCopy?: number;
     nbAuthenticated?: number;
+    type?: string;
+    filename?: string;
+    url?: string;
   }[];
   results?: {
+    id?: number;
     name: string;
     comments?: string;
     isFinalResult?: boolean;
+    type?: string;
+    filename?: string;
+    url?: string;
   }[];
   timeframe?: {
     timeSpentAtTheCounter?: {
@@ -112,6 +150,7 @@ export interface StepData {
     text: string;
   };
   laws?: {
+    id?: number;
     name: string;
   }[];
   [key: string]: any;
@@ -127,6 +166,220 @@ export interface ObjectiveData {
   links?: (ApiLink | null)[]; // Add optional links array, allowing nulls
 }
 
+/**
+ * Filter data interface (based on FilterModel), with its options attached
+ */
+export interface FilterData {
+  id: number;
+  name: string;
+  label?: string;
+  order?: number;
+  isInclusive?: boolean;
+  options?: { id: number; name: string }[];
+}
+
+/**
+ * Procedure node in a filter search result tree (based on the Procedure model)
+ */
+export interface FilteredProcedureData {
+  id: number;
+  name: string;
+  explanatoryText?: string;
+  isProcedure?: boolean;
+  childs?: FilteredProcedureData[];
+}
+
+/**
+ * Filter search result tree (based on DrillObjective)
+ */
+export interface DrillObjectiveData {
+  procedures?: FilteredProcedureData[];
+  filteredObjectives?: {
+    filterId: number;
+    values?: { key: number; value: DrillObjectiveData }[];
+  }[];
+}
+
+/**
+ * Administrative burden (ABC) data for a procedure or one of its steps.
+ * Step and institution names are resolved from the procedure when available.
+ */
+export interface AdministrativeBurdenData {
+  procedureId: number;
+  procedureName?: string;
+  stepNames?: Record<number, string>;
+  institutionNames?: Record<number, string>;
+  abc?: AbcDetailedModel;
+  step?: {
+    id: number;
+    name?: string;
+    abc: StepAbcDetailedModel;
+  };
+}
+
+/**
+ * Procedure summary data combining the official resume and totals
+ */
+export interface ProcedureSummaryData {
+  procedureId: number;
+  resume?: ResumeModel | null;
+  totals?: ResumeTotalModel | null;
+}
+
+/**
+ * Law data interfaces (based on GenericDocumentBaseModel / GenericDocumentModel)
+ */
+export type LawData = GenericDocumentBaseModel;
+export type LawDetailsData = GenericDocumentModel;
+
+/**
+ * Form data interfaces (based on RequirementBaseModel / RequirementModel)
+ */
+export type FormData = RequirementBaseModel;
+export interface FormDetailsData extends RequirementModel {
+  cost?: DocumentCostModel | null;
+}
+
+/**
+ * Document cost data, with the ID of the document it belongs to
+ */
+export interface DocumentCostData {
+  documentId: number;
+  cost: DocumentCostModel;
+}
+
+/**
+ * Institution, unit and person data interfaces (based on the /Contacts,
+ * /Units and /People models)
+ */
+export type InstitutionData = ContactBaseModel;
+export interface InstitutionDetailsData extends DetailedContactModel {
+  // Names of the procedures the institution's steps belong to, by procedure ID
+  procedureNames?: Record<number, string>;
+}
+export type UnitData = DetailedUnitModel;
+export type PersonData = DetailedPersonModel;
+
+/**
+ * Portal information data interface, combining the /Country endpoints.
+ * Only the country details are required, the other parts are optional.
+ */
+export interface PortalInfoData {
+  details: CountryModel;
+  about?: TeamModel | null;
+  contact?: SiteContactInformation | null;
+  statistics?: CountryDataItemModel | null;
+  parameters?: Record<string, unknown> | null;
+}
+
+/**
+ * Documentation progress data, either of a single procedure or
+ * aggregated over all the procedures of the portal
+ */
+export interface ProcedureProgressData {
+  procedureId?: number;
+  procedureName?: string;
+  progress: CountryProgressItemModel;
+  // Portal-wide mode only: progress of each procedure and failed lookups
+  procedures?: {
+    id: number;
+    name: string;
+    progress: CountryProgressItemModel;
+  }[];
+  failedProcedureIds?: number[];
+}
+
+/**
+ * One level of the objective hierarchy (based on ObjectiveLevelModel)
+ */
+export type ObjectiveLevelData = ObjectiveLevelModel;
+
+/**
+ * Portal served by the MCP server, with its currency settings when loaded
+ */
+export interface PortalData {
+  name: string;
+  url?: string;
+  isDefault: boolean;
+  currency?: string;
+  locale?: string;
+}
+
+/**
+ * Ranked results of a search of the local procedure index
+ */
+export type ProcedureSearchData = ProcedureSearchResults;
+
+/**
+ * Procedures related to a semantic query, merged with the keyword search
+ */
+export type SemanticSearchData = SemanticSearchResults;
+
+/**
+ * Procedures to complete before a procedure, from the dependency graph
+ */
+export type PrerequisiteProceduresData = PrerequisitePath;
+
+/**
+ * Procedures of several portals to compare side by side, with the exchange
+ * rates used to normalize their costs
+ */
+export interface ProcedureComparisonData {
+  targetCurrency: string;
+  // Value of one unit of each currency in the target currency
+  exchangeRates: Record<string, number>;
+  entries: {
+    // Portal name, or API host for portals that are not configured
+    portal: string;
+    country?: string;
+    currency?: string;
+    procedureId: number;
+    procedure?: ProcedureData;
+    error?: string;
+  }[];
+}
+
+/**
+ * Steps of a procedure with their requirements and results, to consolidate
+ * into a checklist of the documents of the procedure
+ */
+export interface RequirementsChecklistData {
+  procedureId: number;
+  procedureName?: string;
+  menuId?: number;
+  // Steps in procedure order, completed with their step page when fetched
+  steps: StepData[];
+  // Steps whose page could not be fetched, listed from the procedure only
+  incompleteStepIds?: number[];
+}
+
+/**
+ * Blocks of steps of a procedure, to schedule on a timeline
+ */
+export interface ProcedureTimelineData {
+  procedureId: number;
+  procedureName?: string;
+  menuId?: number;
+  // Blocks in procedure order, their steps completed with their step page
+  // when fetched
+  blocks: { isOptional?: boolean; steps?: StepData[] }[];
+  // Steps whose page could not be fetched, scheduled from the procedure only
+  incompleteStepIds?: number[];
+}
+
+/**
+ * Itemized bill of a procedure, with the parameters it was evaluated with
+ */
+export interface ProcedureCostData {
+  procedureId: number;
+  procedureName?: string;
+  menuId?: number;
+  parameters: Record<string, number>;
+  bill: ProcedureBill;
+  // Steps whose page could not be fetched, billed from the procedure only
+  incompleteStepIds?: number[];
+}
+
 /**
  * Interface for formatted procedure list response
  */
@@ -0,0 +1,101 @@
+import { DataFormatter, FormattedProcedureDetails, UnitData } from "./types.js";
+import { formatSchedule, groupStepsByProcedure } from "./utils.js";
+
+/**
+ * Formats a unit of an institution for LLMs
+ */
+export class UnitFormatter
+  implements DataFormatter<UnitData, FormattedProcedureDetails>
+{
+  /**
+   * Format unit data for LLM consumption
+   * @param unit The unit to format
+   * @returns Formatted unit text and essential data
+   */
+  public format(unit: UnitData): FormattedProcedureDetails {
+    if (!unit) {
+      return {
+        text: "No unit data available",
+        data: {},
+      };
+    }
+
+    return {
+      text: this.formatText(unit),
+      data: this.extractEssentialData(unit),
+    };
+  }
+
+  /**
+   * Extract only the essential data needed for LLM reasoning
+   * @param unit The full unit data
+   * @returns A simplified object with essential fields
+   */
+  private extractEssentialData(unit: UnitData): any {
+    return {
+      id: unit.id,
+      name: unit.name,
+      openingHours: formatSchedule(unit.schedule),
+      people: (unit.people || []).map((person) => ({
+        id: person.id,
+        name: person.name,
+        ...(person.profession ? { profession: person.profession } : {}),
+      })),
+      procedures: groupStepsByProcedure(unit.steps).map((group) => ({
+        procedureId: group.procedureId,
+        stepIds: group.steps.map((step) => step.id),
+      })),
+    };
+  }
+
+  /**
+   * Format the unit as human-readable text
+   * @param unit The unit to format
+   * @returns Formatted text optimized for LLM context window
+   */
+  private formatText(unit: UnitData): string {
+    let result = `UNIT: ${unit.name || "Unknown"} (UNIT ID:${unit.id})\n`;
+
+    const openingHours = formatSchedule(unit.schedule);
+    if (openingHours.length > 0 || unit.scheduleComments) {
+      result += "OPENING HOURS:\n";
+      openingHours.forEach((line) => {
+        result += `- ${line}\n`;
+      });
+      if (unit.scheduleComments) {
+        result += `Note: ${unit.scheduleComments}\n`;
+      }
+    }
+
+    if (unit.people?.length) {
+      result += "PEOPLE:\n";
+      unit.people.forEach((person) => {
+        result += `- ${person.name}${
+          person.profession ? ` (${person.profession})` : ""
+        } (PERSON ID:${person.id})\n`;
+      });
+    }
+
+    result += this.formatSteps(unit);
+
+    return result;
+  }
+
+  /**
+   * Format the steps handled by the unit, grouped by procedure
+   */
+  private formatSteps(unit: UnitData): string {
+    if (!unit.steps?.length) {
+      return "";
+    }
+    let result = "STEPS:\n";
+    groupStepsByProcedure(unit.steps).forEach((group) => {
+      group.steps.forEach((step) => {
+        result += `- ${step.name} (STEP ID:${step.id}${
+          group.procedureId ? `, PROCEDURE ID:${group.procedureId}` : ""
+        })\n`;
+      });
+    });
+    return result;
+  }
+}
@@ -0,0 +1,78 @@
+import type {
+  BaseLinkableModel,
+  ScheduleDayModel,
+  ScheduleModel,
+} from "../../../services/eregulations-api.js";
+
+type Link = { href: string; rel: string };
+
+const WEEK_DAYS: [keyof ScheduleModel, string][] = [
+  ["day1", "Mon"],
+  ["day2", "Tue"],
+  ["day3", "Wed"],
+  ["day4", "Thu"],
+  ["day5", "Fri"],
+  ["day6", "Sat"],
+  ["day7", "Sun"],
+];
+
+/**
+ * Extract the procedure ID from a step's links (e.g. /Procedures/725/Steps/2791)
+ */
+export function getProcedureIdFromLinks(links?: Link[]): number | undefined {
+  const match = links
+    ?.map((link) => link?.href?.match(/Procedures\/(\d+)/i))
+    .find((m) => m);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Group linked steps by the procedure they belong to, keeping the
+ * order in which procedures first appear
+ */
+export function groupStepsByProcedure(
+  steps: BaseLinkableModel[] | null = []
+): { procedureId?: number; steps: BaseLinkableModel[] }[] {
+  const groups = new Map<number | undefined, BaseLinkableModel[]>();
+  (steps || []).forEach((step) => {
+    const procedureId = getProcedureIdFromLinks(step.links);
+    groups.set(procedureId, [...(groups.get(procedureId) || []), step]);
+  });
+  return Array.from(groups, ([procedureId, groupSteps]) => ({
+    procedureId,
+    steps: groupSteps,
+  }));
+}
+
+/**
+ * Format weekly opening hours as one compact line per day,
+ * e.g. "Mon: 08:00-12:00, 14:00-17:00"
+ */
+export function formatSchedule(schedule?: ScheduleModel): string[] {
+  if (!schedule) {
+    return [];
+  }
+  return WEEK_DAYS.flatMap(([key, label]) => {
+    const hours = formatScheduleDay(schedule[key]);
+    return hours ? [`${label}: ${hours}`] : [];
+  });
+}
+
+/**
+ * Format the opening hours of a single day
+ */
+function formatScheduleDay(day?: ScheduleDayModel): string | undefined {
+  if (!day || day.isNotAvailable) {
+    return undefined;
+  }
+  if (day.isClosed) {
+    return "closed";
+  }
+  const ranges = [
+    [day.morningStart, day.morningEnd],
+    [day.eveningStart, day.eveningEnd],
+  ]
+    .filter(([start, end]) => start && end)
+    .map(([start, end]) => `${start}-${end}`);
+  return ranges.length > 0 ? ranges.join(", ") : undefined;
+}
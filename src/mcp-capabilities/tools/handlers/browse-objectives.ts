@@ -0,0 +1,70 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { BrowseObjectivesSchema, ToolName } from "../schemas.js";
+import { BrowseObjectivesOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type BrowseObjectivesArgs = z.infer<typeof BrowseObjectivesSchema>;
+
+export function createBrowseObjectivesHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.BROWSE_OBJECTIVES,
+    description: `Browse the objective hierarchy of the portal one level at a time. Without an objective ID, lists the top-level objectives; with one, lists the menus and procedures it contains, with their IDs, descriptions and counts. Prefer this over listProcedures on large portals.`,
+    inputSchema: zodToJsonSchema(BrowseObjectivesSchema),
+    inputSchemaDefinition: BrowseObjectivesSchema,
+    outputSchema: zodToJsonSchema(BrowseObjectivesOutputSchema),
+    outputSchemaDefinition: BrowseObjectivesOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { objectiveId } = (args || {}) as BrowseObjectivesArgs;
+
+        logger.log(
+          `Handling BROWSE_OBJECTIVES request${
+            objectiveId ? ` for ID ${objectiveId}` : ""
+          }`
+        );
+
+        const level = await api.getObjectiveLevel(objectiveId);
+
+        const formattedResult = formatters.objectiveLevel.format(level);
+
+        logger.log(
+          `BROWSE_OBJECTIVES returning ${level.children.length} items`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in BROWSE_OBJECTIVES handler for ID ${args?.objectiveId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error browsing objectives: ${errorMessage}\n\nValid objective IDs can be found by using the browseObjectives tool without an objective ID.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
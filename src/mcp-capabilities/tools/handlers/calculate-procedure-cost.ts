@@ -0,0 +1,100 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { calculateProcedureCost } from "../../../services/procedure-cost.js";
+import { completeProcedureSteps } from "../../../services/procedure-steps.js";
+import { formatters } from "../formatters/index.js";
+import { getFormattingLocale } from "../formatters/locale.js";
+import { resolveLanguage } from "../formatters/labels.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { CalculateProcedureCostSchema, ToolName } from "../schemas.js";
+import { CalculateProcedureCostOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type CalculateProcedureCostArgs = z.infer<typeof CalculateProcedureCostSchema>;
+
+export function createCalculateProcedureCostHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.CALCULATE_PROCEDURE_COST,
+    description: `Calculate what a procedure costs as an itemized bill of the fees of its steps. Fixed fees are charged as they are; percentage fees (e.g. "2% of FOB value") and per-unit fees are evaluated with the values given in parameters, such as the shipment value, the capital or the quantity. Fees are grouped by currency and payment details, with totals by currency. Fees whose parameter is not given are listed apart: call the tool first without parameters to see which ones are needed.`,
+    inputSchema: zodToJsonSchema(CalculateProcedureCostSchema),
+    inputSchemaDefinition: CalculateProcedureCostSchema,
+    outputSchema: zodToJsonSchema(CalculateProcedureCostOutputSchema),
+    outputSchemaDefinition: CalculateProcedureCostOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const {
+          procedureId,
+          menuId,
+          parameters = {},
+          currency,
+        } = args as CalculateProcedureCostArgs;
+
+        logger.log(
+          `Handling CALCULATE_PROCEDURE_COST request for ID ${procedureId}`
+        );
+
+        const procedure = await api.getProcedureById(procedureId, menuId);
+
+        // Steps listed without their costs are completed with their step page
+        const { blocks, incompleteStepIds } = await completeProcedureSteps(
+          api,
+          procedureId,
+          procedure,
+          (step) => !step.costs,
+          menuId
+        );
+
+        const locale = getFormattingLocale();
+        const bill = calculateProcedureCost(blocks, parameters, {
+          currency: locale.currency,
+          parameterCurrency: currency,
+          language: resolveLanguage(locale.locale),
+        });
+
+        const formattedResult = formatters.procedureCost.format({
+          procedureId,
+          procedureName: procedure.fullName || procedure.name,
+          menuId,
+          parameters,
+          bill,
+          incompleteStepIds,
+        });
+
+        logger.log(
+          `CALCULATE_PROCEDURE_COST returning ${bill.items.length} fees for ${procedureId}`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in CALCULATE_PROCEDURE_COST handler for ID ${args?.procedureId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error calculating procedure cost: ${errorMessage}\n\nValid procedure IDs can be found by using the listProcedures tool first.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
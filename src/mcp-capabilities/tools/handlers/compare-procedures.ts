@@ -0,0 +1,167 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { PortalRegistry } from "../../../services/portal-registry.js";
+import { formatters } from "../formatters/index.js";
+import type { ProcedureComparisonData } from "../formatters/types.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { CompareProceduresSchema, ToolName } from "../schemas.js";
+import { CompareProceduresOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type CompareProceduresArgs = z.infer<typeof CompareProceduresSchema>;
+type ProcedureToCompare = CompareProceduresArgs["procedures"][number];
+
+export function createCompareProceduresHandler(
+  registry: PortalRegistry
+): ToolHandler {
+  return {
+    name: ToolName.COMPARE_PROCEDURES,
+    description: `Compare equivalent procedures of several eRegulations portals side by side: number of steps, institutions and requirements, total time and total cost normalized to a common currency. Each procedure is identified by its ID and either the base URL of its portal API or a portal name from listPortals. Pass exchangeRates to convert costs across currencies.`,
+    inputSchema: zodToJsonSchema(CompareProceduresSchema),
+    inputSchemaDefinition: CompareProceduresSchema,
+    outputSchema: zodToJsonSchema(CompareProceduresOutputSchema),
+    outputSchemaDefinition: CompareProceduresOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { procedures, targetCurrency, exchangeRates } =
+          args as CompareProceduresArgs;
+
+        logger.log(
+          `Handling COMPARE_PROCEDURES request for ${procedures.length} procedures`
+        );
+
+        // Portals that are not configured get a client for this call only,
+        // shared by the procedures of the same API
+        const oneOffApis = new Map<string, ERegulationsApi>();
+        const getPortalApi = (item: ProcedureToCompare) => {
+          const configuredPortal = item.apiUrl
+            ? registry.findPortalByUrl(item.apiUrl)
+            : item.portal;
+          if (!item.apiUrl || configuredPortal) {
+            return {
+              portal: registry.resolvePortal(configuredPortal),
+              api: registry.getApi(configuredPortal),
+            };
+          }
+
+          let api = oneOffApis.get(item.apiUrl);
+          if (!api) {
+            api = new ERegulationsApi();
+            api.setBaseUrl(item.apiUrl);
+            oneOffApis.set(item.apiUrl, api);
+          }
+          return { portal: getHost(item.apiUrl), api };
+        };
+
+        const entries = await Promise.all(
+          procedures.map(async (item) => {
+            let portal = item.portal || item.apiUrl || "";
+            try {
+              const portalApi = getPortalApi(item);
+              portal = portalApi.portal;
+              const { api } = portalApi;
+
+              // Totals and country settings are optional: missing values
+              // are shown as N/A
+              const [procedure, totals, country] = await Promise.all([
+                api.getProcedureById(item.procedureId),
+                api.getProcedureTotals(item.procedureId).catch((error) => {
+                  logger.warn(
+                    `Could not fetch totals for procedure ${item.procedureId} of ${portal}:`,
+                    error
+                  );
+                  return null;
+                }),
+                api.getCountryDetails().catch((error) => {
+                  logger.warn(
+                    `Could not fetch country details of ${portal}:`,
+                    error
+                  );
+                  return null;
+                }),
+              ]);
+
+              return {
+                portal,
+                ...(country?.name ? { country: country.name } : {}),
+                ...(country?.currency ? { currency: country.currency } : {}),
+                procedureId: item.procedureId,
+                procedure: totals ? { ...procedure, totals } : procedure,
+              };
+            } catch (error) {
+              const errorMessage =
+                error instanceof Error ? error.message : String(error);
+              logger.warn(
+                `Could not fetch procedure ${item.procedureId} of ${portal}:`,
+                errorMessage
+              );
+              return {
+                portal,
+                procedureId: item.procedureId,
+                error: errorMessage,
+              };
+            }
+          })
+        );
+
+        const comparison: ProcedureComparisonData = {
+          targetCurrency: (targetCurrency || "USD").toUpperCase(),
+          exchangeRates: Object.fromEntries(
+            Object.entries(exchangeRates || {}).map(([currency, rate]) => [
+              currency.toUpperCase(),
+              rate,
+            ])
+          ),
+          entries,
+        };
+
+        const formattedResult =
+          formatters.procedureComparison.format(comparison);
+
+        logger.log(
+          `COMPARE_PROCEDURES returning ${
+            entries.filter((entry) => !entry.error).length
+          } of ${entries.length} procedures`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error) {
+        logger.error(`Error in COMPARE_PROCEDURES handler:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error comparing procedures: ${
+                error instanceof Error ? error.message : String(error)
+              }\n\nValid procedure IDs can be found by using the listProcedures or searchProcedures tool on each portal.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Label a portal that is not configured by the host of its API URL
+ */
+function getHost(apiUrl: string): string {
+  try {
+    return new URL(/^https?:\/\//.test(apiUrl) ? apiUrl : `https://${apiUrl}`)
+      .host;
+  } catch (error) {
+    return apiUrl;
+  }
+}
@@ -0,0 +1,71 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetDocumentCostSchema, ToolName } from "../schemas.js";
+import { GetDocumentCostOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetDocumentCostArgs = z.infer<typeof GetDocumentCostSchema>;
+
+export function createGetDocumentCostHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.GET_DOCUMENT_COST,
+    description: `Get the cost of obtaining a document, such as a form or another requirement of a procedure step.`,
+    inputSchema: zodToJsonSchema(GetDocumentCostSchema),
+    inputSchemaDefinition: GetDocumentCostSchema,
+    outputSchema: zodToJsonSchema(GetDocumentCostOutputSchema),
+    outputSchemaDefinition: GetDocumentCostOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { documentId } = args as GetDocumentCostArgs;
+
+        logger.log(`Handling GET_DOCUMENT_COST request for ID ${documentId}`);
+
+        const cost = await api.getDocumentCost(documentId);
+
+        const formattedResult = formatters.documentCost.format({
+          documentId,
+          cost,
+        });
+
+        logger.log(
+          `GET_DOCUMENT_COST returning cost of document ${documentId}`
+        );
+
+        // Return the text, with its data as structured content. The cost
+        // fields depend on the document, so they are nested under cost
+        const { documentId: _documentId, ...costFields } = formattedResult.data;
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { documentId, cost: costFields },
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_DOCUMENT_COST handler for ID ${args?.documentId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving document cost: ${errorMessage}\n\nDocument IDs can be found by using the listForms tool or in the requirements of a step.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
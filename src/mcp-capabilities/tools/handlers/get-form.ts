@@ -0,0 +1,72 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetFormSchema, ToolName } from "../schemas.js";
+import { GetFormOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetFormArgs = z.infer<typeof GetFormSchema>;
+
+export function createGetFormHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.GET_FORM,
+    description: `Get a form by ID, with its download link, the procedure steps that require it and the cost of obtaining it when known.`,
+    inputSchema: zodToJsonSchema(GetFormSchema),
+    inputSchemaDefinition: GetFormSchema,
+    outputSchema: zodToJsonSchema(GetFormOutputSchema),
+    outputSchemaDefinition: GetFormOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { formId } = args as GetFormArgs;
+
+        logger.log(`Handling GET_FORM request for ID ${formId}`);
+
+        // The cost is optional, so a failure there should not hide the form
+        const [form, cost] = await Promise.all([
+          api.getForm(formId),
+          api.getDocumentCost(formId).catch((error) => {
+            logger.warn(
+              `Could not fetch cost of form ${formId}:`,
+              error instanceof Error ? error.message : String(error)
+            );
+            return null;
+          }),
+        ]);
+
+        const formattedResult = formatters.form.format({ ...form, cost });
+
+        logger.log(`GET_FORM returning details for ${form.name}`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_FORM handler for ID ${args?.formId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving form: ${errorMessage}\n\nValid form IDs can be found by using the listForms tool or in the requirements of a step.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
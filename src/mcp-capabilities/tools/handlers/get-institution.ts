@@ -0,0 +1,81 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetInstitutionSchema, ToolName } from "../schemas.js";
+import { GetInstitutionOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetInstitutionArgs = z.infer<typeof GetInstitutionSchema>;
+
+export function createGetInstitutionHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.GET_INSTITUTION,
+    description: `Get an institution by ID, with its address, phone numbers, emails, opening hours, units and every procedure it takes part in.`,
+    inputSchema: zodToJsonSchema(GetInstitutionSchema),
+    inputSchemaDefinition: GetInstitutionSchema,
+    outputSchema: zodToJsonSchema(GetInstitutionOutputSchema),
+    outputSchemaDefinition: GetInstitutionOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { institutionId } = args as GetInstitutionArgs;
+
+        logger.log(`Handling GET_INSTITUTION request for ID ${institutionId}`);
+
+        // Procedure names are only used for display, so a failure there
+        // should not hide the institution
+        const [institution, procedures] = await Promise.all([
+          api.getInstitution(institutionId),
+          api.getProceduresList().catch((error) => {
+            logger.warn(
+              `Could not fetch procedure names for institution ${institutionId}:`,
+              error instanceof Error ? error.message : String(error)
+            );
+            return [];
+          }),
+        ]);
+
+        const procedureNames: Record<number, string> = {};
+        procedures.forEach((procedure) => {
+          procedureNames[procedure.id] = procedure.fullName || procedure.name;
+        });
+
+        const formattedResult = formatters.institution.format({
+          ...institution,
+          procedureNames,
+        });
+
+        logger.log(`GET_INSTITUTION returning details for ${institution.name}`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_INSTITUTION handler for ID ${args?.institutionId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving institution: ${errorMessage}\n\nValid institution IDs can be found by using the listInstitutions tool or in the contact section of a step.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetLawSchema, ToolName } from "../schemas.js";
+import { GetLawOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetLawArgs = z.infer<typeof GetLawSchema>;
+
+export function createGetLawHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.GET_LAW,
+    description: `Get a law or regulation by ID, with links to its documents and the procedure steps that reference it.`,
+    inputSchema: zodToJsonSchema(GetLawSchema),
+    inputSchemaDefinition: GetLawSchema,
+    outputSchema: zodToJsonSchema(GetLawOutputSchema),
+    outputSchemaDefinition: GetLawOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { lawId } = args as GetLawArgs;
+
+        logger.log(`Handling GET_LAW request for ID ${lawId}`);
+
+        const law = await api.getLaw(lawId);
+
+        const formattedResult = formatters.law.format(law);
+
+        logger.log(`GET_LAW returning details for ${law.name}`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_LAW handler for ID ${args?.lawId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving law: ${errorMessage}\n\nValid law IDs can be found by using the listLaws tool or in the legal references of a step.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
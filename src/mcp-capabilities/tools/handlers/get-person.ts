@@ -0,0 +1,62 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetPersonSchema, ToolName } from "../schemas.js";
+import { GetPersonOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetPersonArgs = z.infer<typeof GetPersonSchema>;
+
+export function createGetPersonHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.GET_PERSON,
+    description: `Get a person in charge by ID, with their profession, phone numbers, emails and the procedure steps they handle.`,
+    inputSchema: zodToJsonSchema(GetPersonSchema),
+    inputSchemaDefinition: GetPersonSchema,
+    outputSchema: zodToJsonSchema(GetPersonOutputSchema),
+    outputSchemaDefinition: GetPersonOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { personId } = args as GetPersonArgs;
+
+        logger.log(`Handling GET_PERSON request for ID ${personId}`);
+
+        const person = await api.getPerson(personId);
+
+        const formattedResult = formatters.person.format(person);
+
+        logger.log(`GET_PERSON returning details for ${person.name}`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_PERSON handler for ID ${args?.personId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving person: ${errorMessage}\n\nValid person IDs can be found by using the getUnit tool or in the contact section of a step.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetPortalInfoSchema, ToolName } from "../schemas.js";
+import { GetPortalInfoOutputSchema } from "../output-schemas.js";
+
+export function createGetPortalInfoHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.GET_PORTAL_INFO,
+    description: `Get information about the eRegulations portal being served: country, currency, languages, contact details, team and statistics. Use it to know which country the procedures apply to.`,
+    inputSchema: zodToJsonSchema(GetPortalInfoSchema),
+    inputSchemaDefinition: GetPortalInfoSchema,
+    outputSchema: zodToJsonSchema(GetPortalInfoOutputSchema),
+    outputSchemaDefinition: GetPortalInfoOutputSchema,
+    handler: async () => {
+      try {
+        logger.log(`Handling GET_PORTAL_INFO request`);
+
+        // Only the country details are essential, the other parts are
+        // shown when the portal provides them
+        const optional = <T>(promise: Promise<T>, part: string) =>
+          promise.catch((error) => {
+            logger.warn(
+              `Could not fetch portal ${part}:`,
+              error instanceof Error ? error.message : String(error)
+            );
+            return null;
+          });
+
+        const [details, about, contact, statistics, parameters] =
+          await Promise.all([
+            api.getCountryDetails(),
+            optional(api.getCountryAbout(), "team description"),
+            optional(api.getCountryContact(), "contact information"),
+            optional(api.getCountryData(), "statistics"),
+            optional(api.getCountryParameters(), "parameters"),
+          ]);
+
+        const formattedResult = formatters.portalInfo.format({
+          details,
+          about,
+          contact,
+          statistics,
+          parameters,
+        });
+
+        logger.log(`GET_PORTAL_INFO returning details for ${details.name}`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error) {
+        logger.error(`Error in GET_PORTAL_INFO handler:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving portal information: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
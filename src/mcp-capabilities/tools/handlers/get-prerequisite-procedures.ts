@@ -0,0 +1,80 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { findPrerequisiteProcedures } from "../../../services/procedure-graph.js";
+import { formatters } from "../formatters/index.js";
+import { getFormattingLocale } from "../formatters/locale.js";
+import { resolveLanguage } from "../formatters/labels.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetPrerequisiteProceduresSchema, ToolName } from "../schemas.js";
+import { GetPrerequisiteProceduresOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetPrerequisiteProceduresArgs = z.infer<
+  typeof GetPrerequisiteProceduresSchema
+>;
+
+export function createGetPrerequisiteProceduresHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.GET_PREREQUISITE_PROCEDURES,
+    description: `Find the procedures to complete before a procedure, in order: the procedures whose results (e.g. a Tax Identification Number certificate) are requirements of the procedure, preceded by their own prerequisites. Documents are matched across all procedures of the portal by name, tolerating acronyms, word forms and typos. Answers "what must I do before procedure X?".`,
+    inputSchema: zodToJsonSchema(GetPrerequisiteProceduresSchema),
+    inputSchemaDefinition: GetPrerequisiteProceduresSchema,
+    outputSchema: zodToJsonSchema(GetPrerequisiteProceduresOutputSchema),
+    outputSchemaDefinition: GetPrerequisiteProceduresOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { procedureId } = args as GetPrerequisiteProceduresArgs;
+
+        logger.log(
+          `Handling GET_PREREQUISITE_PROCEDURES request for ID ${procedureId}`
+        );
+
+        // Document names are stemmed in the language of the portal,
+        // whatever the language of the labels
+        const prerequisites = await findPrerequisiteProcedures(
+          api,
+          procedureId,
+          resolveLanguage(getFormattingLocale().locale)
+        );
+
+        const formattedResult =
+          formatters.prerequisiteProcedures.format(prerequisites);
+
+        logger.log(
+          `GET_PREREQUISITE_PROCEDURES found ${prerequisites.path.length} prerequisites for ${procedureId}`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_PREREQUISITE_PROCEDURES handler for ID ${args?.procedureId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error finding prerequisite procedures: ${errorMessage}\n\nValid procedure IDs can be found by using the listProcedures tool first.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
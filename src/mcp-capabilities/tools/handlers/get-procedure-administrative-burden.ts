@@ -0,0 +1,139 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import {
+  formatters,
+  type AdministrativeBurdenData,
+} from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import {
+  GetProcedureAdministrativeBurdenSchema,
+  ToolName,
+} from "../schemas.js";
+import { GetProcedureAdministrativeBurdenOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetProcedureAdministrativeBurdenArgs = z.infer<
+  typeof GetProcedureAdministrativeBurdenSchema
+>;
+
+export function createGetProcedureAdministrativeBurdenHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.GET_PROCEDURE_ADMINISTRATIVE_BURDEN,
+    description: `Get the Activity-Based Costing (administrative burden) of a procedure or one of its steps: in-person and preparation costs, staff levels and institution zones.`,
+    inputSchema: zodToJsonSchema(GetProcedureAdministrativeBurdenSchema),
+    inputSchemaDefinition: GetProcedureAdministrativeBurdenSchema,
+    outputSchema: zodToJsonSchema(GetProcedureAdministrativeBurdenOutputSchema),
+    outputSchemaDefinition: GetProcedureAdministrativeBurdenOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { procedureId, stepId } =
+          args as GetProcedureAdministrativeBurdenArgs;
+
+        logger.log(
+          `Handling GET_PROCEDURE_ADMINISTRATIVE_BURDEN request for procedure ${procedureId}${
+            stepId ? `, step ${stepId}` : ""
+          }`
+        );
+
+        // The procedure is only used to resolve step and institution names,
+        // so a failure there should not prevent returning the costing
+        const procedurePromise = api
+          .getProcedureById(procedureId)
+          .catch((error) => {
+            logger.warn(
+              `Could not resolve names for procedure ${procedureId}:`,
+              error
+            );
+            return null;
+          });
+
+        let burden: AdministrativeBurdenData;
+
+        if (stepId) {
+          const [stepAbc, procedure] = await Promise.all([
+            api.getStepAbcFull(procedureId, stepId),
+            procedurePromise,
+          ]);
+          const names = collectNames(procedure);
+          burden = {
+            procedureId,
+            procedureName: procedure?.fullName || procedure?.name,
+            step: { id: stepId, name: names.steps[stepId], abc: stepAbc },
+          };
+        } else {
+          const [abc, procedure] = await Promise.all([
+            api.getProcedureAbcFull(procedureId),
+            procedurePromise,
+          ]);
+          const names = collectNames(procedure);
+          burden = {
+            procedureId,
+            procedureName: procedure?.fullName || procedure?.name,
+            stepNames: names.steps,
+            institutionNames: names.institutions,
+            abc,
+          };
+        }
+
+        const formattedResult = formatters.administrativeBurden.format(burden);
+
+        logger.log(
+          `GET_PROCEDURE_ADMINISTRATIVE_BURDEN returning costing for procedure ${procedureId}`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_PROCEDURE_ADMINISTRATIVE_BURDEN handler for ID ${args?.procedureId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving administrative burden: ${errorMessage}\n\nNot every procedure has Activity-Based Costing data. Valid procedure IDs can be found by using the listProcedures tool first.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Build step and institution name lookups from a procedure's blocks
+ */
+function collectNames(
+  procedure: Awaited<ReturnType<ERegulationsApi["getProcedureById"]>> | null
+): { steps: Record<number, string>; institutions: Record<number, string> } {
+  const steps: Record<number, string> = {};
+  const institutions: Record<number, string> = {};
+
+  procedure?.data?.blocks?.forEach((block) => {
+    block.steps?.forEach((step) => {
+      steps[step.id] = step.name;
+      const entity = step.contact?.entityInCharge;
+      if (entity?.id) {
+        institutions[entity.id] = entity.name;
+      }
+    });
+  });
+
+  return { steps, institutions };
+}
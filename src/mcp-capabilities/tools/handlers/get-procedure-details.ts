@@ -4,6 +4,7 @@ import { formatters } from "../formatters/index.js";
 import { logger } from "../../../utils/logger.js";
 import type { ToolHandler } from "./types.js";
 import { GetProcedureDetailsSchema, ToolName } from "../schemas.js";
+import { GetProcedureDetailsOutputSchema } from "../output-schemas.js";
 import { z } from "zod";
 
 // Define the specific type for args based on the schema
@@ -14,35 +15,53 @@ export function createGetProcedureDetailsHandler(
 ): ToolHandler {
   return {
     name: ToolName.GET_PROCEDURE_DETAILS,
-    description: `Get detailed information about a specific procedure by ID.`,
+    description: `Get detailed information about a specific procedure by ID. Pass the menu ID from listProcedures to get the variant of the procedure shown in that menu.`,
     inputSchema: zodToJsonSchema(GetProcedureDetailsSchema),
     inputSchemaDefinition: GetProcedureDetailsSchema,
+    outputSchema: zodToJsonSchema(GetProcedureDetailsOutputSchema),
+    outputSchemaDefinition: GetProcedureDetailsOutputSchema,
+    localized: true,
     handler: async (args: any) => {
       try {
         // Use the inferred type for args
-        const { procedureId } = args as GetProcedureDetailsArgs;
+        const { procedureId, menuId } = args as GetProcedureDetailsArgs;
 
         logger.log(
-          `Handling GET_PROCEDURE_DETAILS request for ID ${procedureId}`
+          `Handling GET_PROCEDURE_DETAILS request for ID ${procedureId}${
+            menuId ? ` in menu ${menuId}` : ""
+          }`
         );
 
-        const procedure = await api.getProcedureById(procedureId);
+        // Official totals are optional: the formatter falls back to summing the steps
+        const [procedure, totals] = await Promise.all([
+          api.getProcedureById(procedureId, menuId),
+          api.getProcedureTotals(procedureId).catch((error) => {
+            logger.warn(
+              `Could not fetch totals for procedure ${procedureId}:`,
+              error
+            );
+            return null;
+          }),
+        ]);
 
-        // Use the formatter - Get result (data part will be ignored)
-        const formattedResult = formatters.procedure.format(procedure);
+        // Use the formatter
+        const formattedResult = formatters.procedure.format(
+          totals ? { ...procedure, totals } : procedure
+        );
 
         logger.log(
           `GET_PROCEDURE_DETAILS returning details for ${procedure.name}`
         );
 
-        // Always return only text content
+        // Return the text, with its data as structured content
         return {
           content: [
             {
               type: "text",
-              text: formattedResult.text, // Data part of formattedResult is ignored
+              text: formattedResult.text,
             },
           ],
+          structuredContent: formattedResult.data,
         };
       } catch (error: any) {
         const errorMessage = error.message || String(error);
@@ -58,6 +77,7 @@ export function createGetProcedureDetailsHandler(
               text: `Error retrieving procedure details: ${errorMessage}\n\nValid procedure IDs can be found by using the listProcedures tool first.`,
             },
           ],
+          isError: true,
         };
       }
     },
@@ -0,0 +1,180 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  CountryProgressItemModel,
+  ERegulationsApi,
+} from "../../../services/eregulations-api.js";
+import { formatters, type ProcedureProgressData } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetProcedureProgressSchema, ToolName } from "../schemas.js";
+import { GetProcedureProgressOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetProcedureProgressArgs = z.infer<typeof GetProcedureProgressSchema>;
+
+// Number of progress requests sent at once in portal-wide mode,
+// to avoid flooding the API on portals with hundreds of procedures
+const PROGRESS_BATCH_SIZE = 5;
+
+const PROGRESS_FIELDS: (keyof CountryProgressItemModel)[] = [
+  "steps",
+  "certifiedSteps",
+  "statusA",
+  "statusB",
+  "statusC",
+  "statusD",
+  "openedTickets",
+  "archivedTickets",
+];
+
+export function createGetProcedureProgressHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.GET_PROCEDURE_PROGRESS,
+    description: `Get the documentation progress of a procedure: certified steps, step statuses and support tickets. Omit the procedure ID to aggregate the progress of all procedures of the portal and find the least documented ones.`,
+    inputSchema: zodToJsonSchema(GetProcedureProgressSchema),
+    inputSchemaDefinition: GetProcedureProgressSchema,
+    outputSchema: zodToJsonSchema(GetProcedureProgressOutputSchema),
+    outputSchemaDefinition: GetProcedureProgressOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { procedureId } = (args || {}) as GetProcedureProgressArgs;
+
+        logger.log(
+          `Handling GET_PROCEDURE_PROGRESS request${
+            procedureId ? ` for ID ${procedureId}` : " for the whole portal"
+          }`
+        );
+
+        const progressData = procedureId
+          ? await getSingleProgress(api, procedureId)
+          : await getPortalProgress(api);
+
+        const formattedResult =
+          formatters.procedureProgress.format(progressData);
+
+        logger.log(
+          `GET_PROCEDURE_PROGRESS returning progress${
+            procedureId
+              ? ` of procedure ${procedureId}`
+              : ` of ${progressData.procedures?.length || 0} procedures`
+          }`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_PROCEDURE_PROGRESS handler${
+            args?.procedureId ? ` for ID ${args.procedureId}` : ""
+          }:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving procedure progress: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Get the progress of a single procedure, with its name when available
+ */
+async function getSingleProgress(
+  api: ERegulationsApi,
+  procedureId: number
+): Promise<ProcedureProgressData> {
+  const [progress, procedure] = await Promise.all([
+    api.getProcedureProgress(procedureId),
+    // The name is only used for display
+    api.getProcedureById(procedureId).catch(() => null),
+  ]);
+  return {
+    procedureId,
+    procedureName: procedure?.fullName || procedure?.name,
+    progress,
+  };
+}
+
+/**
+ * Get and aggregate the progress of every procedure of the portal.
+ * Procedures whose progress cannot be fetched are reported, not fatal.
+ */
+async function getPortalProgress(
+  api: ERegulationsApi
+): Promise<ProcedureProgressData> {
+  const procedures = (await api.getProceduresList()).filter(
+    (procedure) => procedure.isProcedure
+  );
+
+  const results: ProcedureProgressData["procedures"] = [];
+  const failedProcedureIds: number[] = [];
+
+  for (let i = 0; i < procedures.length; i += PROGRESS_BATCH_SIZE) {
+    const batch = procedures.slice(i, i + PROGRESS_BATCH_SIZE);
+    const progresses = await Promise.all(
+      batch.map((procedure) =>
+        api.getProcedureProgress(procedure.id).catch((error) => {
+          logger.warn(
+            `Could not fetch progress of procedure ${procedure.id}:`,
+            error instanceof Error ? error.message : String(error)
+          );
+          return null;
+        })
+      )
+    );
+    batch.forEach((procedure, index) => {
+      const progress = progresses[index];
+      if (progress) {
+        results.push({
+          id: procedure.id,
+          name: procedure.fullName || procedure.name,
+          progress,
+        });
+      } else {
+        failedProcedureIds.push(procedure.id);
+      }
+    });
+  }
+
+  return {
+    progress: sumProgress(results.map((result) => result.progress)),
+    procedures: results,
+    failedProcedureIds,
+  };
+}
+
+/**
+ * Sum the progress counters of several procedures
+ */
+function sumProgress(
+  progresses: CountryProgressItemModel[]
+): CountryProgressItemModel {
+  const total: CountryProgressItemModel = {};
+  PROGRESS_FIELDS.forEach((field) => {
+    total[field] = progresses.reduce(
+      (sum, progress) => sum + (progress[field] || 0),
+      0
+    );
+  });
+  return total;
+}
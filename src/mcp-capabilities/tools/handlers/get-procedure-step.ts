@@ -3,6 +3,7 @@ import { ERegulationsApi } from "../../../services/eregulations-api.js";
 import { formatters } from "../formatters/index.js";
 import type { ToolHandler } from "./types.js";
 import { GetProcedureStepSchema, ToolName } from "../schemas.js";
+import { GetProcedureStepOutputSchema } from "../output-schemas.js";
 import { logger } from "../../../utils/logger.js";
 import { z } from "zod";
 
@@ -17,23 +18,28 @@ export function createGetProcedureStepHandler(
     description: `Get information about a specific step within a procedure.`,
     inputSchema: zodToJsonSchema(GetProcedureStepSchema),
     inputSchemaDefinition: GetProcedureStepSchema,
+    outputSchema: zodToJsonSchema(GetProcedureStepOutputSchema),
+    outputSchemaDefinition: GetProcedureStepOutputSchema,
+    localized: true,
     handler: async (args: any) => {
       try {
         // Use the inferred type for args
-        const { procedureId, stepId } = args as GetProcedureStepArgs;
+        const { procedureId, stepId, menuId } = args as GetProcedureStepArgs;
 
         logger.log(
-          `Handling GET_PROCEDURE_STEP request for procedure ${procedureId}, step ${stepId}`
+          `Handling GET_PROCEDURE_STEP request for procedure ${procedureId}, step ${stepId}${
+            menuId ? ` in menu ${menuId}` : ""
+          }`
         );
 
-        const step = await api.getProcedureStep(procedureId, stepId);
+        const step = await api.getProcedureStep(procedureId, stepId, menuId);
 
-        // Use the step formatter - get result (data part ignored)
+        // Use the step formatter
         const formattedResult = formatters.step.format(step);
 
         logger.log(`GET_PROCEDURE_STEP returning step ${step.name}`);
 
-        // Always return only text content
+        // Return the text, with its data as structured content
         return {
           content: [
             {
@@ -41,6 +47,7 @@ export function createGetProcedureStepHandler(
               text: formattedResult.text,
             },
           ],
+          structuredContent: formattedResult.data,
         };
       } catch (error) {
         return {
@@ -52,6 +59,7 @@ export function createGetProcedureStepHandler(
               }`,
             },
           ],
+          isError: true,
         };
       }
     },
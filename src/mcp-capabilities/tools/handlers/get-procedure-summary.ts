@@ -0,0 +1,75 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetProcedureSummarySchema, ToolName } from "../schemas.js";
+import { GetProcedureSummaryOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetProcedureSummaryArgs = z.infer<typeof GetProcedureSummarySchema>;
+
+export function createGetProcedureSummaryHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.GET_PROCEDURE_SUMMARY,
+    description: `Get the official summary of a procedure: number of steps, institutions, requirements, results and laws, with the total time and total costs computed by the eRegulations system.`,
+    inputSchema: zodToJsonSchema(GetProcedureSummarySchema),
+    inputSchemaDefinition: GetProcedureSummarySchema,
+    outputSchema: zodToJsonSchema(GetProcedureSummaryOutputSchema),
+    outputSchemaDefinition: GetProcedureSummaryOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { procedureId, menuId } = args as GetProcedureSummaryArgs;
+
+        logger.log(
+          `Handling GET_PROCEDURE_SUMMARY request for ID ${procedureId}`
+        );
+
+        const [resume, totals] = await Promise.all([
+          api.getProcedureResume(procedureId, menuId),
+          api.getProcedureTotals(procedureId),
+        ]);
+
+        const formattedResult = formatters.procedureSummary.format({
+          procedureId,
+          resume,
+          totals,
+        });
+
+        logger.log(
+          `GET_PROCEDURE_SUMMARY returning summary for ${procedureId}`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_PROCEDURE_SUMMARY handler for ID ${args?.procedureId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving procedure summary: ${errorMessage}\n\nValid procedure IDs can be found by using the listProcedures tool first.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { completeProcedureSteps } from "../../../services/procedure-steps.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetProcedureTimelineSchema, ToolName } from "../schemas.js";
+import { GetProcedureTimelineOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetProcedureTimelineArgs = z.infer<typeof GetProcedureTimelineSchema>;
+
+export function createGetProcedureTimelineHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.GET_PROCEDURE_TIMELINE,
+    description: `Get the timeline of a procedure as a Gantt chart of its steps: parallel steps run at the same time as the step before them, and optional steps may be skipped. Returns the critical-path duration, the minimum without optional steps and the maximum with every step one after the other. Use it to answer "how long will this take?".`,
+    inputSchema: zodToJsonSchema(GetProcedureTimelineSchema),
+    inputSchemaDefinition: GetProcedureTimelineSchema,
+    outputSchema: zodToJsonSchema(GetProcedureTimelineOutputSchema),
+    outputSchemaDefinition: GetProcedureTimelineOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { procedureId, menuId } = args as GetProcedureTimelineArgs;
+
+        logger.log(
+          `Handling GET_PROCEDURE_TIMELINE request for ID ${procedureId}`
+        );
+
+        const procedure = await api.getProcedureById(procedureId, menuId);
+
+        // Steps listed without their timeframe are completed with their
+        // step page
+        const { blocks, incompleteStepIds } = await completeProcedureSteps(
+          api,
+          procedureId,
+          procedure,
+          (step) => !step.timeframe,
+          menuId
+        );
+
+        const formattedResult = formatters.procedureTimeline.format({
+          procedureId,
+          procedureName: procedure.fullName || procedure.name,
+          menuId,
+          blocks,
+          incompleteStepIds,
+        });
+
+        logger.log(
+          `GET_PROCEDURE_TIMELINE returning timeline for ${procedureId}`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_PROCEDURE_TIMELINE handler for ID ${args?.procedureId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving procedure timeline: ${errorMessage}\n\nValid procedure IDs can be found by using the listProcedures tool first.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
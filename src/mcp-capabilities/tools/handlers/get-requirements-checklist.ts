@@ -0,0 +1,106 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { completeProcedureSteps } from "../../../services/procedure-steps.js";
+import { formatters, type StepData } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetRequirementsChecklistSchema, ToolName } from "../schemas.js";
+import { GetRequirementsChecklistOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetRequirementsChecklistArgs = z.infer<
+  typeof GetRequirementsChecklistSchema
+>;
+
+export function createGetRequirementsChecklistHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.GET_REQUIREMENTS_CHECKLIST,
+    description: `Get a checklist of the documents needed for a procedure, consolidated across its steps: the number of originals, copies and authenticated copies of each document, the steps and institutions needing it, and the step producing it when it is obtained during the procedure. Use it to answer "what papers do I need?".`,
+    inputSchema: zodToJsonSchema(GetRequirementsChecklistSchema),
+    inputSchemaDefinition: GetRequirementsChecklistSchema,
+    outputSchema: zodToJsonSchema(GetRequirementsChecklistOutputSchema),
+    outputSchemaDefinition: GetRequirementsChecklistOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { procedureId, menuId } = args as GetRequirementsChecklistArgs;
+
+        logger.log(
+          `Handling GET_REQUIREMENTS_CHECKLIST request for ID ${procedureId}`
+        );
+
+        const procedure = await api.getProcedureById(procedureId, menuId);
+
+        // The procedure lists the documents of its steps, but not always
+        // their number of copies or the documents they produce, which are
+        // then read from the page of the step
+        const { blocks, incompleteStepIds } = await completeProcedureSteps(
+          api,
+          procedureId,
+          procedure,
+          needsStepPage,
+          menuId
+        );
+        const steps = blocks.flatMap((block) => block.steps);
+
+        const formattedResult = formatters.requirementsChecklist.format({
+          procedureId,
+          procedureName: procedure.fullName || procedure.name,
+          menuId,
+          steps,
+          incompleteStepIds,
+        });
+
+        logger.log(
+          `GET_REQUIREMENTS_CHECKLIST returning checklist for ${procedureId}`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_REQUIREMENTS_CHECKLIST handler for ID ${args?.procedureId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving requirements checklist: ${errorMessage}\n\nValid procedure IDs can be found by using the listProcedures tool first.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Whether the procedure lacks the results of a step, or the number of
+ * copies of one of its requirements
+ */
+function needsStepPage(step: StepData): boolean {
+  return (
+    !step.requirements ||
+    !step.results ||
+    step.requirements.some(
+      (requirement) =>
+        requirement.nbOriginal === undefined &&
+        requirement.nbCopy === undefined &&
+        requirement.nbAuthenticated === undefined
+    )
+  );
+}
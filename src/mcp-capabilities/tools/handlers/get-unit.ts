@@ -0,0 +1,62 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { GetUnitSchema, ToolName } from "../schemas.js";
+import { GetUnitOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type GetUnitArgs = z.infer<typeof GetUnitSchema>;
+
+export function createGetUnitHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.GET_UNIT,
+    description: `Get a unit of an institution by ID, with its opening hours, the people working in it and the procedure steps it handles.`,
+    inputSchema: zodToJsonSchema(GetUnitSchema),
+    inputSchemaDefinition: GetUnitSchema,
+    outputSchema: zodToJsonSchema(GetUnitOutputSchema),
+    outputSchemaDefinition: GetUnitOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { unitId } = args as GetUnitArgs;
+
+        logger.log(`Handling GET_UNIT request for ID ${unitId}`);
+
+        const unit = await api.getUnit(unitId);
+
+        const formattedResult = formatters.unit.format(unit);
+
+        logger.log(`GET_UNIT returning details for ${unit.name}`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: formattedResult.data,
+        };
+      } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.error(
+          `Error in GET_UNIT handler for ID ${args?.unitId}:`,
+          errorMessage
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving unit: ${errorMessage}\n\nValid unit IDs can be found by using the getInstitution tool or in the contact section of a step.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
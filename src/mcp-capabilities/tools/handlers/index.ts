@@ -1,8 +1,32 @@
 import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { PortalRegistry } from "../../../services/portal-registry.js";
 import { createGetProcedureDetailsHandler } from "./get-procedure-details.js";
 import { createGetProcedureStepHandler } from "./get-procedure-step.js";
 import { createListProceduresHandler } from "./list-procedures.js";
 import { createSearchProceduresHandler } from "./search-procedures.js";
+import { createSemanticSearchProceduresHandler } from "./semantic-search-procedures.js";
+import { createListFiltersHandler } from "./list-filters.js";
+import { createSearchProceduresByFiltersHandler } from "./search-procedures-by-filters.js";
+import { createGetProcedureAdministrativeBurdenHandler } from "./get-procedure-administrative-burden.js";
+import { createGetProcedureSummaryHandler } from "./get-procedure-summary.js";
+import { createListLawsHandler } from "./list-laws.js";
+import { createGetLawHandler } from "./get-law.js";
+import { createListFormsHandler } from "./list-forms.js";
+import { createGetFormHandler } from "./get-form.js";
+import { createGetDocumentCostHandler } from "./get-document-cost.js";
+import { createListInstitutionsHandler } from "./list-institutions.js";
+import { createGetInstitutionHandler } from "./get-institution.js";
+import { createGetUnitHandler } from "./get-unit.js";
+import { createGetPersonHandler } from "./get-person.js";
+import { createGetPortalInfoHandler } from "./get-portal-info.js";
+import { createGetProcedureProgressHandler } from "./get-procedure-progress.js";
+import { createBrowseObjectivesHandler } from "./browse-objectives.js";
+import { createListPortalsHandler } from "./list-portals.js";
+import { createCompareProceduresHandler } from "./compare-procedures.js";
+import { createGetRequirementsChecklistHandler } from "./get-requirements-checklist.js";
+import { createGetPrerequisiteProceduresHandler } from "./get-prerequisite-procedures.js";
+import { createGetProcedureTimelineHandler } from "./get-procedure-timeline.js";
+import { createCalculateProcedureCostHandler } from "./calculate-procedure-cost.js";
 import type { ToolHandler } from "./types.js";
 
 /**
@@ -16,6 +40,39 @@ export function createHandlers(api: ERegulationsApi): ToolHandler[] {
     createGetProcedureDetailsHandler(api),
     createGetProcedureStepHandler(api),
     createSearchProceduresHandler(api),
+    createListFiltersHandler(api),
+    createSearchProceduresByFiltersHandler(api),
+    createGetProcedureAdministrativeBurdenHandler(api),
+    createGetProcedureSummaryHandler(api),
+    createListLawsHandler(api),
+    createGetLawHandler(api),
+    createListFormsHandler(api),
+    createGetFormHandler(api),
+    createGetDocumentCostHandler(api),
+    createListInstitutionsHandler(api),
+    createGetInstitutionHandler(api),
+    createGetUnitHandler(api),
+    createGetPersonHandler(api),
+    createGetPortalInfoHandler(api),
+    createGetProcedureProgressHandler(api),
+    createBrowseObjectivesHandler(api),
+    createSemanticSearchProceduresHandler(api),
+    createGetRequirementsChecklistHandler(api),
+    createGetPrerequisiteProceduresHandler(api),
+    createGetProcedureTimelineHandler(api),
+    createCalculateProcedureCostHandler(api),
+  ];
+}
+
+/**
+ * Creates the tool handlers working across the portals of the registry
+ * @param registry The registry of the portals being served
+ * @returns An array of ToolHandler objects
+ */
+export function createPortalHandlers(registry: PortalRegistry): ToolHandler[] {
+  return [
+    createListPortalsHandler(registry),
+    createCompareProceduresHandler(registry),
   ];
 }
 
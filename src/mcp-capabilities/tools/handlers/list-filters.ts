@@ -0,0 +1,62 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { ListFiltersSchema, ToolName } from "../schemas.js";
+import { ListFiltersOutputSchema } from "../output-schemas.js";
+
+export function createListFiltersHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.LIST_FILTERS,
+    description: `List the filters (e.g. operation, region, product) and their options that can be combined with searchProceduresByFilters to narrow down procedures.`,
+    inputSchema: zodToJsonSchema(ListFiltersSchema),
+    inputSchemaDefinition: ListFiltersSchema,
+    outputSchema: zodToJsonSchema(ListFiltersOutputSchema),
+    outputSchemaDefinition: ListFiltersOutputSchema,
+    handler: async () => {
+      try {
+        logger.log(`Handling LIST_FILTERS request`);
+
+        const filters = await api.getFilters();
+
+        // Fetch the options of every filter so the agent can build combinations
+        const filtersWithOptions = await Promise.all(
+          filters.map(async (filter) => ({
+            ...filter,
+            options: await api.getFilterOptions(filter.id),
+          }))
+        );
+
+        const formattedResult =
+          formatters.filterList.format(filtersWithOptions);
+
+        logger.log(`LIST_FILTERS returning ${filters.length} filters`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { filters: formattedResult.data },
+        };
+      } catch (error) {
+        logger.error(`Error in LIST_FILTERS handler:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving filters: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
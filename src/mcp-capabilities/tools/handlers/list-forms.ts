@@ -0,0 +1,71 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { ListFormsSchema, ToolName } from "../schemas.js";
+import { ListFormsOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type ListFormsArgs = z.infer<typeof ListFormsSchema>;
+
+export function createListFormsHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.LIST_FORMS,
+    description: `List the forms that applicants may have to fill in, optionally filtered by a keyword in their name.`,
+    inputSchema: zodToJsonSchema(ListFormsSchema),
+    inputSchemaDefinition: ListFormsSchema,
+    outputSchema: zodToJsonSchema(ListFormsOutputSchema),
+    outputSchemaDefinition: ListFormsOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { keyword } = (args || {}) as ListFormsArgs;
+
+        logger.log(
+          `Handling LIST_FORMS request${keyword ? ` for "${keyword}"` : ""}`
+        );
+
+        const forms = await api.getForms();
+
+        const normalizedKeyword = keyword?.trim().toLowerCase();
+        const matchingForms = normalizedKeyword
+          ? forms.filter((form) =>
+              form.name?.toLowerCase().includes(normalizedKeyword)
+            )
+          : forms;
+
+        const formattedResult = formatters.formList.format(
+          matchingForms,
+          keyword
+        );
+
+        logger.log(`LIST_FORMS returning ${matchingForms.length} forms`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { forms: formattedResult.data },
+        };
+      } catch (error) {
+        logger.error(`Error in LIST_FORMS handler:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving forms: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { ListInstitutionsSchema, ToolName } from "../schemas.js";
+import { ListInstitutionsOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type ListInstitutionsArgs = z.infer<typeof ListInstitutionsSchema>;
+
+export function createListInstitutionsHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.LIST_INSTITUTIONS,
+    description: `List the institutions (entities in charge of procedure steps), optionally filtered by a keyword in their name or city.`,
+    inputSchema: zodToJsonSchema(ListInstitutionsSchema),
+    inputSchemaDefinition: ListInstitutionsSchema,
+    outputSchema: zodToJsonSchema(ListInstitutionsOutputSchema),
+    outputSchemaDefinition: ListInstitutionsOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { keyword } = (args || {}) as ListInstitutionsArgs;
+
+        logger.log(
+          `Handling LIST_INSTITUTIONS request${
+            keyword ? ` for "${keyword}"` : ""
+          }`
+        );
+
+        const institutions = await api.getInstitutions();
+
+        const normalizedKeyword = keyword?.trim().toLowerCase();
+        const matchingInstitutions = normalizedKeyword
+          ? institutions.filter(
+              (institution) =>
+                institution.name?.toLowerCase().includes(normalizedKeyword) ||
+                institution.city?.toLowerCase().includes(normalizedKeyword)
+            )
+          : institutions;
+
+        const formattedResult = formatters.institutionList.format(
+          matchingInstitutions,
+          keyword
+        );
+
+        logger.log(
+          `LIST_INSTITUTIONS returning ${matchingInstitutions.length} institutions`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { institutions: formattedResult.data },
+        };
+      } catch (error) {
+        logger.error(`Error in LIST_INSTITUTIONS handler:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving institutions: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
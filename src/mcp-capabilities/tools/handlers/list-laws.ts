@@ -0,0 +1,71 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { ListLawsSchema, ToolName } from "../schemas.js";
+import { ListLawsOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type ListLawsArgs = z.infer<typeof ListLawsSchema>;
+
+export function createListLawsHandler(api: ERegulationsApi): ToolHandler {
+  return {
+    name: ToolName.LIST_LAWS,
+    description: `List the laws and regulations registered in the eRegulations system, optionally filtered by a keyword in their name.`,
+    inputSchema: zodToJsonSchema(ListLawsSchema),
+    inputSchemaDefinition: ListLawsSchema,
+    outputSchema: zodToJsonSchema(ListLawsOutputSchema),
+    outputSchemaDefinition: ListLawsOutputSchema,
+    handler: async (args: any) => {
+      try {
+        const { keyword } = (args || {}) as ListLawsArgs;
+
+        logger.log(
+          `Handling LIST_LAWS request${keyword ? ` for "${keyword}"` : ""}`
+        );
+
+        const laws = await api.getLaws();
+
+        const normalizedKeyword = keyword?.trim().toLowerCase();
+        const matchingLaws = normalizedKeyword
+          ? laws.filter((law) =>
+              law.name?.toLowerCase().includes(normalizedKeyword)
+            )
+          : laws;
+
+        const formattedResult = formatters.lawList.format(
+          matchingLaws,
+          keyword
+        );
+
+        logger.log(`LIST_LAWS returning ${matchingLaws.length} laws`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { laws: formattedResult.data },
+        };
+      } catch (error) {
+        logger.error(`Error in LIST_LAWS handler:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving laws: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { PortalRegistry } from "../../../services/portal-registry.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { ListPortalsSchema, ToolName } from "../schemas.js";
+import { ListPortalsOutputSchema } from "../output-schemas.js";
+
+export function createListPortalsHandler(
+  registry: PortalRegistry
+): ToolHandler {
+  return {
+    name: ToolName.LIST_PORTALS,
+    description: `List the eRegulations portals (countries) served by this server, with their API URL and currency. Pass a portal name as the portal argument of other tools to query that portal.`,
+    inputSchema: zodToJsonSchema(ListPortalsSchema),
+    inputSchemaDefinition: ListPortalsSchema,
+    outputSchema: zodToJsonSchema(ListPortalsOutputSchema),
+    outputSchemaDefinition: ListPortalsOutputSchema,
+    handler: async () => {
+      try {
+        logger.log(`Handling LIST_PORTALS request`);
+
+        const defaultPortal = registry.getDefaultPortal();
+        // Locales are loaded once per portal and never fail
+        const portals = await Promise.all(
+          registry.getPortals().map(async (portal) => ({
+            ...portal,
+            isDefault: portal.name === defaultPortal,
+            ...(await registry.getLocale(portal.name)),
+          }))
+        );
+
+        const formattedResult = formatters.portalList.format(portals);
+
+        logger.log(`LIST_PORTALS returning ${portals.length} portals`);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { portals: formattedResult.data },
+        };
+      } catch (error) {
+        logger.error(`Error in LIST_PORTALS handler:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving portals: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -4,6 +4,7 @@ import { formatters } from "../formatters/index.js";
 import { logger } from "../../../utils/logger.js";
 import type { ToolHandler } from "./types.js";
 import { ListProceduresSchema, ToolName } from "../schemas.js";
+import { ListProceduresOutputSchema } from "../output-schemas.js";
 import { z } from "zod";
 
 // Define the specific type for args based on the schema
@@ -15,6 +16,8 @@ export function createListProceduresHandler(api: ERegulationsApi): ToolHandler {
     description: `List all available procedures in the eRegulations system.`,
     inputSchema: zodToJsonSchema(ListProceduresSchema),
     inputSchemaDefinition: ListProceduresSchema,
+    outputSchema: zodToJsonSchema(ListProceduresOutputSchema),
+    outputSchemaDefinition: ListProceduresOutputSchema,
     handler: async (args: any) => {
       try {
         // Use the inferred type for args
@@ -34,7 +37,7 @@ export function createListProceduresHandler(api: ERegulationsApi): ToolHandler {
 
         logger.log(`LIST_PROCEDURES returning ${procedures.length} procedures`);
 
-        // Always return only text content
+        // Return the text, with its data as structured content
         return {
           content: [
             {
@@ -42,6 +45,7 @@ export function createListProceduresHandler(api: ERegulationsApi): ToolHandler {
               text: formattedResult.text,
             },
           ],
+          structuredContent: { procedures: formattedResult.data },
         };
       } catch (error) {
         logger.error(`Error in LIST_PROCEDURES handler:`, error);
@@ -54,6 +58,7 @@ export function createListProceduresHandler(api: ERegulationsApi): ToolHandler {
               }`,
             },
           ],
+          isError: true,
         };
       }
     },
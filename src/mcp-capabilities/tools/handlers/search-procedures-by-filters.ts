@@ -0,0 +1,74 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { formatters } from "../formatters/index.js";
+import { logger } from "../../../utils/logger.js";
+import type { ToolHandler } from "./types.js";
+import { SearchProceduresByFiltersSchema, ToolName } from "../schemas.js";
+import { SearchProceduresByFiltersOutputSchema } from "../output-schemas.js";
+import { z } from "zod";
+
+// Define the specific type for args based on the schema
+type SearchProceduresByFiltersArgs = z.infer<
+  typeof SearchProceduresByFiltersSchema
+>;
+
+/**
+ * Creates a handler for the searchProceduresByFilters tool
+ * @param api The eRegulations API instance to use
+ * @returns A handler for the searchProceduresByFilters tool
+ */
+export function createSearchProceduresByFiltersHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.SEARCH_PROCEDURES_BY_FILTERS,
+    description: `Find procedures matching a combination of filter options (AND logic). Use listFilters first to get valid filterId and optionId values.`,
+    inputSchema: zodToJsonSchema(SearchProceduresByFiltersSchema),
+    inputSchemaDefinition: SearchProceduresByFiltersSchema,
+    outputSchema: zodToJsonSchema(SearchProceduresByFiltersOutputSchema),
+    outputSchemaDefinition: SearchProceduresByFiltersOutputSchema,
+    handler: async (args) => {
+      // Use the inferred type for args
+      const { filters } = args as SearchProceduresByFiltersArgs;
+      logger.log(
+        `Handling searchProceduresByFilters with filters: ${JSON.stringify(
+          filters
+        )}`
+      );
+
+      try {
+        const results = await api.searchByFilters(filters);
+
+        const formattedResult = formatters.filteredProcedures.format(results);
+
+        logger.log(
+          `searchProceduresByFilters found ${formattedResult.data.length} procedures`
+        );
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { procedures: formattedResult.data },
+        };
+      } catch (error) {
+        logger.error(`Error searching procedures by filters:`, error);
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error searching for procedures by filters: ${errorMessage}\n\nValid filter and option IDs can be found by using the listFilters tool first.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
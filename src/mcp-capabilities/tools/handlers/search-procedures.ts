@@ -1,6 +1,11 @@
 import { SearchProceduresSchema, ToolName } from "../schemas.js";
+import { SearchProceduresOutputSchema } from "../output-schemas.js";
 import { formatters } from "../formatters/index.js";
+import { getFormattingLocale } from "../formatters/locale.js";
+import { resolveLanguage } from "../formatters/labels.js";
 import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { searchProceduresLocally } from "../../../services/procedure-search.js";
+import { removeAccents } from "../../../services/search-index.js";
 import { logger } from "../../../utils/logger.js";
 import { ToolHandler } from "./types.js";
 import { z } from "zod";
@@ -19,16 +24,62 @@ export function createSearchProceduresHandler(
 ): ToolHandler {
   return {
     name: ToolName.SEARCH_PROCEDURES,
-    description: `Search for procedures by keyword or phrase. The search uses OR logic between words in the keyword phrase. For best results, prefer using a single, specific keyword whenever possible.`,
+    description: `Search for procedures by keyword or phrase. The default API mode uses OR logic between words in the keyword phrase: prefer a single, specific keyword. The local mode searches a full-text index of procedure names, paths, descriptions, steps, requirements and institutions, ranks results by relevance with highlighted matches, requires all words to match, supports "quoted phrases" and tolerates typos. Both modes ignore accents.`,
     inputSchema: zodToJsonSchema(SearchProceduresSchema),
     inputSchemaDefinition: SearchProceduresSchema,
+    outputSchema: zodToJsonSchema(SearchProceduresOutputSchema),
+    outputSchemaDefinition: SearchProceduresOutputSchema,
+    localized: true,
     handler: async (args) => {
       // Use the inferred type for args
-      const { keyword } = args as SearchProceduresArgs;
-      logger.log(`Handling searchProcedures with keyword: ${keyword}`);
+      const { keyword, mode, limit } = args as SearchProceduresArgs;
+      logger.log(
+        `Handling searchProcedures with keyword: ${keyword}${
+          mode === "local" ? " (local index)" : ""
+        }`
+      );
 
       try {
-        const results = await api.searchProcedures(keyword);
+        if (mode === "local") {
+          // Words are stemmed in the language of the portal, whatever the
+          // language of the labels
+          const results = await searchProceduresLocally(
+            api,
+            keyword,
+            limit,
+            resolveLanguage(getFormattingLocale().locale)
+          );
+          logger.log(
+            `searchProcedures local index found ${results.total} results`
+          );
+          const formattedResult =
+            formatters.procedureSearchResults.format(results);
+          return {
+            content: [
+              {
+                type: "text",
+                text: formattedResult.text,
+              },
+            ],
+            structuredContent: { procedures: formattedResult.data },
+          };
+        }
+
+        // Procedure names are not always accented consistently, so a keyword
+        // with accents is also searched without them
+        const keywords = [...new Set([keyword, removeAccents(keyword)])];
+        const seen = new Set<number>();
+        const results = (
+          await Promise.all(keywords.map((term) => api.searchProcedures(term)))
+        )
+          .flat()
+          .filter((item) => {
+            if (seen.has(item.id)) {
+              return false;
+            }
+            seen.add(item.id);
+            return true;
+          });
 
         // Filter results to only include actual procedures based on links
         const filteredProcedures = results.filter(
@@ -52,7 +103,7 @@ export function createSearchProceduresHandler(
           `searchProcedures found ${filteredProcedures.length} results`
         );
 
-        // Always return only text content
+        // Return the text, with its data as structured content
         return {
           content: [
             {
@@ -60,6 +111,7 @@ export function createSearchProceduresHandler(
               text: formattedResult.text,
             },
           ],
+          structuredContent: { procedures: formattedResult.data },
         };
       } catch (error) {
         logger.error(
@@ -75,6 +127,7 @@ export function createSearchProceduresHandler(
               text: `Error searching for procedures: ${errorMessage}`,
             },
           ],
+          isError: true,
         };
       }
     },
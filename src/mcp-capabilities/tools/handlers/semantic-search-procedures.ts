@@ -0,0 +1,77 @@
+import { SemanticSearchProceduresSchema, ToolName } from "../schemas.js";
+import { SemanticSearchProceduresOutputSchema } from "../output-schemas.js";
+import { formatters } from "../formatters/index.js";
+import { ERegulationsApi } from "../../../services/eregulations-api.js";
+import { searchProceduresSemantically } from "../../../services/semantic-search.js";
+import { logger } from "../../../utils/logger.js";
+import { ToolHandler } from "./types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+// Define the specific type for args based on the schema
+type SemanticSearchProceduresArgs = z.infer<
+  typeof SemanticSearchProceduresSchema
+>;
+
+/**
+ * Creates a handler for the semanticSearchProcedures tool
+ * @param api The eRegulations API instance to use
+ * @returns A handler for the semanticSearchProcedures tool
+ */
+export function createSemanticSearchProceduresHandler(
+  api: ERegulationsApi
+): ToolHandler {
+  return {
+    name: ToolName.SEMANTIC_SEARCH_PROCEDURES,
+    description: `Find procedures from a question or goal in the user's own words, ranking them by similarity with the names, paths, descriptions and steps of all procedures, and merging the results with the portal keyword search. Unless the server is configured with an embedding service, the similarity is lexical: related word forms match ("fish" finds "fishery"), but synonyms do not ("selling abroad" does not find "export"), so rephrase the query with the words of the portal when results are poor. The first search of a portal builds the index, which may take a while. Use searchProcedures for exact keywords.`,
+    inputSchema: zodToJsonSchema(SemanticSearchProceduresSchema),
+    inputSchemaDefinition: SemanticSearchProceduresSchema,
+    outputSchema: zodToJsonSchema(SemanticSearchProceduresOutputSchema),
+    outputSchemaDefinition: SemanticSearchProceduresOutputSchema,
+    handler: async (args) => {
+      // Use the inferred type for args
+      const { query, limit } = args as SemanticSearchProceduresArgs;
+      logger.log(`Handling semanticSearchProcedures with query: ${query}`);
+
+      try {
+        const results = await searchProceduresSemantically(api, query, limit);
+
+        logger.log(
+          `semanticSearchProcedures found ${results.hits.length} results${
+            results.fallbackReason ? " (keyword search only)" : ""
+          }`
+        );
+
+        const formattedResult =
+          formatters.semanticSearchResults.format(results);
+
+        // Return the text, with its data as structured content
+        return {
+          content: [
+            {
+              type: "text",
+              text: formattedResult.text,
+            },
+          ],
+          structuredContent: { procedures: formattedResult.data },
+        };
+      } catch (error) {
+        logger.error(
+          `Error searching procedures semantically for "${query}":`,
+          error
+        );
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error searching for procedures: ${errorMessage}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    },
+  };
+}
@@ -11,8 +11,14 @@ export interface ToolHandler {
   description: string;
   inputSchema: any;
   inputSchemaDefinition: z.ZodTypeAny;
+  outputSchema: any;
+  outputSchemaDefinition: z.AnyZodObject;
+  // Whether the response is labelled in the language of the portal, or in
+  // the language asked for in the call
+  localized?: boolean;
   handler: (args: any) => Promise<{
     content: McpContent[]; // Use the broader McpContent type
+    structuredContent?: Record<string, unknown>; // Matches outputSchemaDefinition
     _meta?: Record<string, any>; // Optionally allow _meta
     isError?: boolean; // Optionally allow isError
   }>;
@@ -0,0 +1,492 @@
+import { z } from "zod";
+
+/**
+ * Schemas of the structured content returned by the tools, next to their
+ * text. They describe the `data` payload computed by the formatters, wrapped
+ * in an object for lists since MCP structured content is always an object.
+ * Fields the eRegulations API does not always fill are optional, so that an
+ * incomplete portal does not fail the validation of the result, and the
+ * numbers passed as returned by the API are nullable, since it sends null for
+ * the values it does not know. The details of a single item are partial
+ * since the formatters return an empty object when the portal has no data for
+ * it.
+ */
+
+const ReferenceSchema = z.object({
+  id: z.number(),
+  name: z.string().optional(),
+});
+
+const LinkedStepSchema = ReferenceSchema.extend({
+  procedureId: z.number().optional(),
+});
+
+const ProcedureStepsSchema = z.object({
+  procedureId: z.number().optional(),
+  stepIds: z.array(z.number()),
+});
+
+// Amounts are passed as returned by the API
+const AmountSchema = z
+  .object({
+    cost: z.number(),
+    unit: z.string(),
+  })
+  .passthrough();
+
+// Flattened document cost: dotted field names with their value
+const DocumentCostFieldsSchema = z.record(
+  z.union([z.string(), z.number(), z.boolean()])
+);
+
+const ProcedureHitSchema = ReferenceSchema.extend({
+  menuId: z.number().optional(),
+});
+
+export const ListProceduresOutputSchema = z.object({
+  procedures: z.array(
+    ProcedureHitSchema.extend({
+      isOnline: z.boolean(),
+      parentName: z.string().optional(),
+    })
+  ),
+});
+
+export const GetProcedureDetailsOutputSchema = z
+  .object({
+    id: z.number(),
+    menuId: z.number(),
+    name: z.string(),
+    isOnline: z.boolean(),
+    description: z.string().nullable(),
+    additionalInfo: z.unknown(),
+    steps: z.array(
+      ReferenceSchema.extend({
+        isOnline: z.boolean(),
+        entityName: z.string().optional(),
+      })
+    ),
+  })
+  .partial();
+
+export const GetProcedureStepOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    procedureId: z.number().nullable(),
+    isOnline: z.boolean(),
+    entityName: z.string(),
+    onlineUrl: z.string(),
+    requirementCount: z.number(),
+    requirements: z.array(z.string()),
+    requirementDocuments: z.array(
+      z.object({
+        id: z.number().optional(),
+        name: z.string().optional(),
+        url: z.string().optional(),
+      })
+    ),
+    costCount: z.number(),
+    hasCosts: z.boolean(),
+  })
+  .partial();
+
+// Both search modes: descriptions from the portal search, relevance scores
+// from the local index
+export const SearchProceduresOutputSchema = z.object({
+  procedures: z.array(
+    ProcedureHitSchema.extend({
+      description: z.string().optional(),
+      score: z.number().optional(),
+    })
+  ),
+});
+
+export const ListFiltersOutputSchema = z.object({
+  filters: z.array(
+    ReferenceSchema.extend({
+      options: z.array(ReferenceSchema),
+    })
+  ),
+});
+
+export const SearchProceduresByFiltersOutputSchema = z.object({
+  procedures: z.array(
+    ReferenceSchema.extend({
+      description: z.string().optional(),
+    })
+  ),
+});
+
+export const GetProcedureAdministrativeBurdenOutputSchema = z
+  .object({
+    procedureId: z.number(),
+    stepId: z.number(),
+    total: z.number().nullable(),
+    numberOfUsers: z.number().nullable(),
+    inPersonCost: z.number(),
+    preparationCost: z.number(),
+    staffLevels: z.array(
+      z.object({
+        stepId: z.number().nullable().optional(),
+        level: z.union([z.string(), z.number()]).nullable().optional(),
+        hourlyCost: z.number().nullable().optional(),
+      })
+    ),
+    zones: z.array(
+      z.object({
+        contactId: z.number().nullable().optional(),
+        zone: z.string().optional(),
+      })
+    ),
+  })
+  .partial();
+
+export const GetProcedureSummaryOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    steps: z.number().nullable(),
+    institutions: z.number().nullable(),
+    requirements: z.number().nullable(),
+    results: z.number().nullable(),
+    laws: z.number().nullable(),
+    costs: z.array(AmountSchema),
+    totalTime: AmountSchema,
+    abcCost: AmountSchema,
+  })
+  .partial();
+
+export const ListLawsOutputSchema = z.object({
+  laws: z.array(
+    ReferenceSchema.extend({
+      documents: z.array(z.string()),
+    })
+  ),
+});
+
+export const GetLawOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    documents: z.array(
+      z.object({
+        name: z.string().optional(),
+        url: z.string().optional(),
+      })
+    ),
+    steps: z.array(LinkedStepSchema),
+  })
+  .partial();
+
+export const ListFormsOutputSchema = z.object({
+  forms: z.array(
+    ReferenceSchema.extend({
+      type: z.string().optional(),
+      url: z.string().optional(),
+    })
+  ),
+});
+
+export const GetFormOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    type: z.string(),
+    url: z.string(),
+    steps: z.array(LinkedStepSchema),
+    cost: DocumentCostFieldsSchema,
+  })
+  .partial();
+
+export const GetDocumentCostOutputSchema = z
+  .object({
+    documentId: z.number(),
+    cost: DocumentCostFieldsSchema,
+  })
+  .partial();
+
+export const ListInstitutionsOutputSchema = z.object({
+  institutions: z.array(
+    ReferenceSchema.extend({
+      city: z.string().optional(),
+    })
+  ),
+});
+
+export const GetInstitutionOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    address: z.string(),
+    phones: z.array(z.string()),
+    emails: z.array(z.string()),
+    websites: z.array(z.string()),
+    openingHours: z.array(z.string()),
+    units: z.array(ReferenceSchema),
+    procedures: z.array(
+      ProcedureStepsSchema.extend({
+        name: z.string().optional(),
+      })
+    ),
+  })
+  .partial();
+
+export const GetUnitOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    openingHours: z.array(z.string()),
+    people: z.array(
+      ReferenceSchema.extend({
+        profession: z.string().optional(),
+      })
+    ),
+    procedures: z.array(ProcedureStepsSchema),
+  })
+  .partial();
+
+export const GetPersonOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    profession: z.string(),
+    phones: z.array(z.string()),
+    emails: z.array(z.string()),
+    steps: z.array(LinkedStepSchema),
+  })
+  .partial();
+
+export const GetPortalInfoOutputSchema = z
+  .object({
+    country: z.string(),
+    currency: z.string(),
+    languages: z.array(z.string()),
+    contact: z.record(z.unknown()),
+    statistics: z.record(z.unknown()),
+    parameters: z.record(z.unknown()),
+  })
+  .partial();
+
+export const GetProcedureProgressOutputSchema = z
+  .object({
+    procedureId: z.number(),
+    steps: z.number().nullable(),
+    certifiedSteps: z.number().nullable(),
+    statusA: z.number().nullable(),
+    statusB: z.number().nullable(),
+    statusC: z.number().nullable(),
+    statusD: z.number().nullable(),
+    openedTickets: z.number().nullable(),
+    archivedTickets: z.number().nullable(),
+    certificationRate: z.number().nullable(),
+    // Portal-wide mode only
+    procedureCount: z.number(),
+    fullyCertifiedCount: z.number(),
+    leastDocumented: z.array(
+      z.object({
+        id: z.number(),
+        certificationRate: z.number().nullable(),
+      })
+    ),
+    failedProcedureIds: z.array(z.number()),
+  })
+  .partial();
+
+export const BrowseObjectivesOutputSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    children: z.array(
+      ProcedureHitSchema.extend({
+        isProcedure: z.boolean().optional(),
+        childCount: z.number().optional(),
+        procedureCount: z.number().optional(),
+      })
+    ),
+  })
+  .partial();
+
+export const ListPortalsOutputSchema = z.object({
+  portals: z.array(
+    z.object({
+      name: z.string(),
+      isDefault: z.boolean(),
+      currency: z.string().optional(),
+    })
+  ),
+});
+
+export const CompareProceduresOutputSchema = z
+  .object({
+    targetCurrency: z.string(),
+    procedures: z.array(
+      z.object({
+        portal: z.string(),
+        procedureId: z.number(),
+        // Set when the procedure could not be retrieved from its portal
+        error: z.string().optional(),
+        name: z.string().optional(),
+        steps: z.number().optional(),
+        institutions: z.number().nullable().optional(),
+        requirements: z.number().nullable().optional(),
+        time: AmountSchema.nullable().optional(),
+        cost: z.number().nullable().optional(),
+        unconvertedCosts: z.record(z.number()).optional(),
+      })
+    ),
+  })
+  .partial();
+
+export const SemanticSearchProceduresOutputSchema = z.object({
+  procedures: z.array(
+    ProcedureHitSchema.extend({
+      similarity: z.number().optional(),
+      source: z.enum(["semantic", "keyword", "both"]),
+    })
+  ),
+});
+
+const ChecklistStepSchema = z.object({
+  stepId: z.number(),
+  // Position of the step in the procedure, from 1
+  stepNumber: z.number(),
+  stepName: z.string().optional(),
+  institution: z.string().optional(),
+});
+
+const CopyCountsSchema = z.object({
+  originals: z.number().nullable().optional(),
+  copies: z.number().nullable().optional(),
+  authenticated: z.number().nullable().optional(),
+});
+
+export const GetRequirementsChecklistOutputSchema = z
+  .object({
+    procedureId: z.number(),
+    procedureName: z.string(),
+    menuId: z.number(),
+    documents: z.array(
+      CopyCountsSchema.extend({
+        name: z.string(),
+        documentId: z.number().optional(),
+        url: z.string().optional(),
+        isFinalResult: z.boolean(),
+        neededAt: z.array(
+          ChecklistStepSchema.merge(CopyCountsSchema).extend({
+            comments: z.string().optional(),
+          })
+        ),
+        producedBy: z.array(ChecklistStepSchema),
+      })
+    ),
+    incompleteStepIds: z.array(z.number()),
+  })
+  .partial();
+
+const ProvidedDocumentSchema = z.object({
+  requirement: z.string(),
+  result: z.string(),
+  // Procedure requiring the document, and the step needing it
+  procedureId: z.number(),
+  stepId: z.number(),
+  // Step of the prerequisite producing the document
+  producedAtStepId: z.number(),
+  // 1 when the names are the same once normalized
+  similarity: z.number(),
+});
+
+export const GetPrerequisiteProceduresOutputSchema = z
+  .object({
+    procedureId: z.number(),
+    procedureName: z.string(),
+    prerequisites: z.array(
+      ProcedureHitSchema.extend({
+        order: z.number(),
+        depth: z.number(),
+        provides: z.array(ProvidedDocumentSchema),
+      })
+    ),
+    alternatives: z.array(
+      z.object({
+        requirement: z.string(),
+        procedureId: z.number(),
+        procedures: z.array(ProcedureHitSchema),
+      })
+    ),
+    unmatchedRequirements: z.array(z.string()),
+    indexedCount: z.number(),
+  })
+  .partial();
+
+export const GetProcedureTimelineOutputSchema = z
+  .object({
+    procedureId: z.number(),
+    procedureName: z.string(),
+    menuId: z.number(),
+    // Durations in days, counter and queue times included
+    minimumDays: z.number(),
+    maximumDays: z.number(),
+    criticalPathDays: z.number(),
+    steps: z.array(
+      z.object({
+        stepId: z.number().optional(),
+        // Position of the step in the procedure, from 1
+        stepNumber: z.number(),
+        stepName: z.string().optional(),
+        isOptional: z.boolean(),
+        isParallel: z.boolean(),
+        isCritical: z.boolean(),
+        // Days from the start of the procedure
+        start: z.number(),
+        end: z.number(),
+        minutes: z.number(),
+        days: z.number(),
+      })
+    ),
+    criticalPathStepIds: z.array(z.number()),
+    stepsWithoutTimeframe: z.array(z.number()),
+    incompleteStepIds: z.array(z.number()),
+  })
+  .partial();
+
+const BillItemSchema = z.object({
+  stepId: z.number().optional(),
+  // Position of the step in the procedure, from 1
+  stepNumber: z.number(),
+  stepName: z.string().optional(),
+  description: z.string().optional(),
+  kind: z.enum(["fixed", "percentage", "perUnit"]),
+  // Amount of a fixed fee, percentage or amount per unit
+  rate: z.number(),
+  parameter: z.string().optional(),
+  parameterName: z.string().optional(),
+  parameterValue: z.number().optional(),
+  amount: z.number().optional(),
+  currency: z.string().optional(),
+  paymentDetails: z.string().optional(),
+});
+
+export const CalculateProcedureCostOutputSchema = z
+  .object({
+    procedureId: z.number(),
+    procedureName: z.string(),
+    menuId: z.number(),
+    parameters: z.record(z.number()),
+    items: z.array(BillItemSchema),
+    groups: z.array(
+      z.object({
+        currency: z.string().optional(),
+        paymentDetails: z.string().optional(),
+        amount: z.number(),
+        itemCount: z.number(),
+      })
+    ),
+    totals: z.array(
+      z.object({ currency: z.string().optional(), amount: z.number() })
+    ),
+    unresolved: z.array(BillItemSchema),
+    unusedParameters: z.array(z.string()),
+    incompleteStepIds: z.array(z.number()),
+  })
+  .partial();
@@ -5,8 +5,48 @@ export enum ToolName {
   GET_PROCEDURE_DETAILS = "getProcedureDetails",
   GET_PROCEDURE_STEP = "getProcedureStep",
   SEARCH_PROCEDURES = "searchProcedures",
+  LIST_FILTERS = "listFilters",
+  SEARCH_PROCEDURES_BY_FILTERS = "searchProceduresByFilters",
+  GET_PROCEDURE_ADMINISTRATIVE_BURDEN = "getProcedureAdministrativeBurden",
+  GET_PROCEDURE_SUMMARY = "getProcedureSummary",
+  LIST_LAWS = "listLaws",
+  GET_LAW = "getLaw",
+  LIST_FORMS = "listForms",
+  GET_FORM = "getForm",
+  GET_DOCUMENT_COST = "getDocumentCost",
+  LIST_INSTITUTIONS = "listInstitutions",
+  GET_INSTITUTION = "getInstitution",
+  GET_UNIT = "getUnit",
+  GET_PERSON = "getPerson",
+  GET_PORTAL_INFO = "getPortalInfo",
+  GET_PROCEDURE_PROGRESS = "getProcedureProgress",
+  BROWSE_OBJECTIVES = "browseObjectives",
+  LIST_PORTALS = "listPortals",
+  COMPARE_PROCEDURES = "compareProcedures",
+  SEMANTIC_SEARCH_PROCEDURES = "semanticSearchProcedures",
+  GET_REQUIREMENTS_CHECKLIST = "getRequirementsChecklist",
+  GET_PREREQUISITE_PROCEDURES = "getPrerequisiteProcedures",
+  GET_PROCEDURE_TIMELINE = "getProcedureTimeline",
+  CALCULATE_PROCEDURE_COST = "calculateProcedureCost",
 }
 
+// Optional argument added to every tool that queries a single portal
+export const PortalArgumentSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Name of the eRegulations portal to query (from listPortals). Defaults to the default portal"
+  );
+
+// Optional argument added to the tools whose responses are labelled in the
+// language of the portal, to ask for the labels of another language
+export const LanguageArgumentSchema = z
+  .enum(["en", "fr", "es", "pt"])
+  .optional()
+  .describe(
+    "Language of the labels of the response: en, fr, es or pt. Defaults to the language of the portal, or English"
+  );
+
 export const ListProceduresSchema = z.object({
   // Remove max_items and max_length
 });
@@ -17,11 +57,27 @@ export const GetProcedureDetailsSchema = z.object({
     .int()
     .positive()
     .describe("ID of the procedure to retrieve"),
+  menuId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional ID of the menu the procedure was listed under (MENU ID in listProcedures), to get the variant shown in that menu"
+    ),
 });
 
 export const GetProcedureStepSchema = z.object({
   procedureId: z.number().describe("ID of the procedure"),
   stepId: z.number().describe("ID of the step within the procedure"),
+  menuId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional ID of the menu the procedure was opened from, to get the variant of the step shown in that menu"
+    ),
 });
 
 export const SearchProceduresSchema = z.object({
@@ -30,4 +86,296 @@ export const SearchProceduresSchema = z.object({
     .describe(
       "The keyword or phrase to search for procedures. This will be wrapped in a JSON object with a 'keyword' property when sent to the API."
     ),
+  mode: z
+    .enum(["api", "local"])
+    .optional()
+    .describe(
+      'Search engine: "api" (default) for the portal search, "local" for the ranked full-text index of procedures, steps, requirements and institutions, where all words must match, "quoted phrases" match as is and typos are tolerated'
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(50)
+    .optional()
+    .describe("Maximum number of results in local mode (default 10)"),
+});
+
+export const ListFiltersSchema = z.object({});
+
+export const SearchProceduresByFiltersSchema = z.object({
+  filters: z
+    .array(
+      z.object({
+        filterId: z
+          .number()
+          .int()
+          .positive()
+          .describe("ID of the filter (from listFilters)"),
+        optionId: z
+          .number()
+          .int()
+          .positive()
+          .describe("ID of the selected option of that filter"),
+      })
+    )
+    .min(1)
+    .describe(
+      "Filter/option combinations to apply. Procedures must match all of them."
+    ),
+});
+
+export const GetProcedureAdministrativeBurdenSchema = z.object({
+  procedureId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the procedure to analyse"),
+  stepId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional ID of a step within the procedure to restrict the analysis to that step"
+    ),
+});
+
+export const GetProcedureSummarySchema = z.object({
+  procedureId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the procedure to summarize"),
+  menuId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional ID of the menu the procedure was listed under, to summarize the variant shown in that menu"
+    ),
+});
+
+export const ListLawsSchema = z.object({
+  keyword: z
+    .string()
+    .optional()
+    .describe("Optional keyword to filter laws by name"),
+});
+
+export const GetLawSchema = z.object({
+  lawId: z
+    .number()
+    .int()
+    .positive()
+    .describe(
+      "ID of the law (from listLaws or the legal references of a step)"
+    ),
+});
+
+export const ListFormsSchema = z.object({
+  keyword: z
+    .string()
+    .optional()
+    .describe("Optional keyword to filter forms by name"),
+});
+
+export const GetFormSchema = z.object({
+  formId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the form (from listForms or the requirements of a step)"),
+});
+
+export const GetDocumentCostSchema = z.object({
+  documentId: z
+    .number()
+    .int()
+    .positive()
+    .describe(
+      "ID of the document (from listForms or the requirements of a step)"
+    ),
+});
+
+export const ListInstitutionsSchema = z.object({
+  keyword: z
+    .string()
+    .optional()
+    .describe("Optional keyword to filter institutions by name or city"),
+});
+
+export const GetInstitutionSchema = z.object({
+  institutionId: z
+    .number()
+    .int()
+    .positive()
+    .describe(
+      "ID of the institution (from listInstitutions or the contact of a step)"
+    ),
+});
+
+export const GetUnitSchema = z.object({
+  unitId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the unit (from getInstitution or the contact of a step)"),
+});
+
+export const GetPersonSchema = z.object({
+  personId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the person (from getUnit or the contact of a step)"),
+});
+
+export const GetPortalInfoSchema = z.object({});
+
+export const GetProcedureProgressSchema = z.object({
+  procedureId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "ID of the procedure to report on. Omit it to aggregate the progress of all procedures of the portal"
+    ),
+});
+
+export const BrowseObjectivesSchema = z.object({
+  objectiveId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "ID of the objective or menu to open (from a previous browseObjectives call). Omit it to list the top-level objectives"
+    ),
+});
+
+export const ListPortalsSchema = z.object({});
+
+export const CompareProceduresSchema = z.object({
+  procedures: z
+    .array(
+      z.object({
+        procedureId: z
+          .number()
+          .int()
+          .positive()
+          .describe("ID of the procedure on its portal"),
+        apiUrl: z
+          .string()
+          .optional()
+          .describe(
+            "Base URL of the eRegulations API of the procedure (e.g. https://api-tanzania.tradeportal.org)"
+          ),
+        portal: z
+          .string()
+          .optional()
+          .describe(
+            "Name of a portal from listPortals, instead of an API URL. Defaults to the default portal"
+          ),
+      })
+    )
+    .min(2)
+    .max(10)
+    .describe("Procedures to compare side by side, usually one per country"),
+  targetCurrency: z
+    .string()
+    .optional()
+    .describe("Currency to normalize total costs to. Defaults to USD"),
+  exchangeRates: z
+    .record(z.number().positive())
+    .optional()
+    .describe(
+      'Value of one unit of each currency in the target currency, e.g. { "TZS": 0.00039, "XOF": 0.0017 }. Costs in currencies without a rate are shown unconverted'
+    ),
+});
+
+export const SemanticSearchProceduresSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .describe(
+      'What the user wants to do, in their own words, e.g. "how do I start selling fish abroad?"'
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(50)
+    .optional()
+    .describe("Maximum number of results (default 10)"),
+});
+
+export const GetRequirementsChecklistSchema = z.object({
+  procedureId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the procedure to list the documents of"),
+  menuId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional ID of the menu the procedure was listed under (MENU ID in listProcedures), to get the documents of the variant shown in that menu"
+    ),
+});
+
+export const GetPrerequisiteProceduresSchema = z.object({
+  procedureId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the procedure to find the prerequisites of"),
+});
+
+export const GetProcedureTimelineSchema = z.object({
+  procedureId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the procedure to schedule the steps of"),
+  menuId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional ID of the menu the procedure was listed under (MENU ID in listProcedures), to get the steps of the variant shown in that menu"
+    ),
+});
+
+export const CalculateProcedureCostSchema = z.object({
+  procedureId: z
+    .number()
+    .int()
+    .positive()
+    .describe("ID of the procedure to calculate the cost of"),
+  menuId: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      "Optional ID of the menu the procedure was listed under (MENU ID in listProcedures), to get the costs of the variant shown in that menu"
+    ),
+  parameters: z
+    .record(z.number().nonnegative())
+    .optional()
+    .describe(
+      'Values that percentage and per-unit fees apply to, named as in the fees, e.g. { "FOB value": 10000, "capital": 5000000, "quantity": 3 }'
+    ),
+  currency: z
+    .string()
+    .optional()
+    .describe(
+      "Currency of the values in parameters, for the percentage fees that name none (default: the portal currency)"
+    ),
 });
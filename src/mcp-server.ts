@@ -1,4 +1,7 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod"; // Import Zod
 // Remove old schema imports
 // import {
@@ -8,30 +11,47 @@ import { z } from "zod"; // Import Zod
 //   ListToolsRequestSchema,
 //   Tool,
 // } from "@modelcontextprotocol/sdk/types.js";
-import { ERegulationsApi } from "./services/eregulations-api.js";
 import { logger } from "./utils/logger.js";
 // Keep handler imports for now, but comment out createHandlers call temporarily
 // import { createHandlers } from "./mcp-capabilities/tools/handlers/index.js";
-// import {
-//   PromptName,
-//   PROMPT_TEMPLATES,
-// } from "./mcp-capabilities/prompts/templates.js";
 // Import the function to create handlers
-import { createHandlers } from "./mcp-capabilities/tools/handlers/index.js";
+import {
+  createHandlers,
+  createPortalHandlers,
+  ToolHandler,
+} from "./mcp-capabilities/tools/handlers/index.js";
+import { withFormattingLocale } from "./mcp-capabilities/tools/formatters/index.js";
+import { createPromptHandlers } from "./mcp-capabilities/prompts/index.js";
+import {
+  createResourceHandlers,
+  watchResourceChanges,
+} from "./mcp-capabilities/resources/index.js";
+import {
+  LanguageArgumentSchema,
+  PortalArgumentSchema,
+} from "./mcp-capabilities/tools/schemas.js";
+import {
+  DEFAULT_PORTAL_NAME,
+  PortalRegistry,
+} from "./services/portal-registry.js";
 
 /**
  * Create a new MCP server instance with eRegulations API integration
- * @param baseUrl Optional base URL for the eRegulations API. If not provided, will use EREGULATIONS_API_URL environment variable.
+ * @param portals Optional portal registry, or base URL of a single eRegulations API. If not provided, will use EREGULATIONS_API_URL environment variable.
  * @returns An object containing the server instance
  */
-export const createServer = (baseUrl?: string) => {
-  // Create API instance with lazy-loading support
-  const api = new ERegulationsApi();
+export const createServer = (portals?: string | PortalRegistry) => {
+  // Create the registry with one API instance per portal, lazy-loading the
+  // URL of the default portal from env vars when none is provided
+  const registry =
+    portals instanceof PortalRegistry
+      ? portals
+      : new PortalRegistry(
+          portals ? [{ name: DEFAULT_PORTAL_NAME, url: portals }] : []
+        );
 
-  // Set the base URL if provided, otherwise it will be lazy-loaded from env vars when needed
-  if (baseUrl) {
-    logger.log(`Setting eRegulations API URL: ${baseUrl}`);
-    api.setBaseUrl(baseUrl);
+  if (typeof portals === "string") {
+    logger.log(`Setting eRegulations API URL: ${portals}`);
   }
 
   logger.log(`Creating eRegulations MCP server using McpServer`);
@@ -42,9 +62,17 @@ export const createServer = (baseUrl?: string) => {
     version: "1.0.0", // Consider using version from package.json later
   });
 
-  // Create handlers
-  // const { createHandlers } = await import("./mcp-capabilities/tools/handlers/index.js"); // REMOVE await import
-  const handlers = createHandlers(api);
+  // Create the handlers of each portal on first use
+  const portalHandlers = new Map<string, ToolHandler[]>();
+  const getPortalHandlers = (portal: string) => {
+    let handlers = portalHandlers.get(portal);
+    if (!handlers) {
+      handlers = createHandlers(registry.getApi(portal));
+      portalHandlers.set(portal, handlers);
+    }
+    return handlers;
+  };
+  const handlers = getPortalHandlers(registry.getDefaultPortal());
 
   // Add the example 'add' tool for testing - REMOVED
   /*
@@ -61,14 +89,51 @@ export const createServer = (baseUrl?: string) => {
   );
   */
 
-  // Register eRegulations tools
-  handlers.forEach((handler) => {
+  // Register eRegulations tools, run against the portal named in the call
+  // with the currency and locale of that portal. Tools with labelled
+  // responses also take the language of the labels
+  handlers.forEach((handler, index) => {
     const schemaDef = handler.inputSchemaDefinition;
     // Check if it's an instance of ZodObject
     if (schemaDef instanceof z.ZodObject) {
       // Now TypeScript knows schemaDef is a ZodObject and has .shape
       // Cast handler to 'any' to bypass strict type checking
-      server.tool(handler.name, schemaDef.shape, handler.handler as any);
+      server.registerTool(
+        handler.name,
+        {
+          description: handler.description,
+          inputSchema: {
+            ...schemaDef.shape,
+            portal: PortalArgumentSchema,
+            ...(handler.localized ? { language: LanguageArgumentSchema } : {}),
+          },
+          outputSchema: handler.outputSchemaDefinition.shape,
+        },
+        (async (args: any) => {
+          const { portal, language, ...toolArgs } = args || {};
+          let portalName: string;
+          try {
+            portalName = registry.resolvePortal(portal);
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error: ${
+                    error instanceof Error ? error.message : String(error)
+                  }\n\nValid portal names can be found by using the listPortals tool.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          const locale = await registry.getLocale(portalName);
+          return withFormattingLocale(
+            language ? { ...locale, language } : locale,
+            () => getPortalHandlers(portalName)[index].handler(toolArgs)
+          );
+        }) as any
+      );
       logger.info(`Registered tool '${handler.name}' with McpServer`);
     } else {
       // Handle non-object schemas or log warning
@@ -78,6 +143,56 @@ export const createServer = (baseUrl?: string) => {
     }
   });
 
+  // Register the tools working across portals
+  createPortalHandlers(registry).forEach((handler) => {
+    const schemaDef = handler.inputSchemaDefinition as z.AnyZodObject;
+    server.registerTool(
+      handler.name,
+      {
+        description: handler.description,
+        inputSchema: schemaDef.shape,
+        outputSchema: handler.outputSchemaDefinition.shape,
+      },
+      handler.handler as any
+    );
+    logger.info(`Registered tool '${handler.name}' with McpServer`);
+  });
+
+  // Expose procedures, steps and objectives as resources that clients can
+  // attach as context, and notify subscribers when they change
+  const resourceHandlers = createResourceHandlers(registry);
+  resourceHandlers.forEach((handler) => {
+    server.registerResource(
+      handler.name,
+      new ResourceTemplate(handler.uriTemplate, { list: handler.list }),
+      {
+        title: handler.title,
+        description: handler.description,
+        mimeType: handler.mimeType,
+      },
+      handler.read
+    );
+    logger.info(`Registered resource '${handler.name}' with McpServer`);
+  });
+  watchResourceChanges(server, registry, resourceHandlers);
+
+  // Register the tool guides and the workflow prompts
+  createPromptHandlers().forEach((prompt) => {
+    if (prompt.argsSchema) {
+      server.prompt(
+        prompt.name,
+        prompt.description,
+        prompt.argsSchema,
+        (args) => ({ messages: prompt.getMessages(args) })
+      );
+    } else {
+      server.prompt(prompt.name, prompt.description, () => ({
+        messages: prompt.getMessages({}),
+      }));
+    }
+    logger.info(`Registered prompt '${prompt.name}' with McpServer`);
+  });
+
   // Return only the server instance for now
   return { server };
   // Return server instance and an empty handlers array temporarily
@@ -0,0 +1,186 @@
+import axios from "axios";
+import { tokenize } from "./search-index.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Default embedding configuration
+ */
+const EMBEDDING_CONFIG = {
+  // Size of the vectors of the built-in model
+  HASHING_DIMENSIONS: 512,
+  // Weight of the character trigrams of a word, relative to the word
+  TRIGRAM_WEIGHT: 0.5,
+  // Texts sent in one request to an embedding service
+  BATCH_SIZE: 32,
+  TIMEOUT: 60000,
+};
+
+/**
+ * Model turning texts into vectors whose cosine similarity reflects how
+ * close their meanings are
+ */
+export interface EmbeddingProvider {
+  // Identifies the model, so that vectors of different models are not mixed
+  readonly id: string;
+  // Set when the model matches words rather than their meaning
+  readonly lexical?: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Options of the embedding service used for semantic search
+ */
+export interface EmbeddingProviderOptions {
+  // Base URL of an OpenAI-compatible embeddings API, e.g. Ollama's
+  // http://localhost:11434/v1. The built-in model is used without it.
+  url?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+/**
+ * Scale a vector to a length of 1, so that dot products are cosine
+ * similarities
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Cosine similarity of two vectors of the same size
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let lengthA = 0;
+  let lengthB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    lengthA += a[i] ** 2;
+    lengthB += b[i] ** 2;
+  }
+  return lengthA > 0 && lengthB > 0 ? dot / Math.sqrt(lengthA * lengthB) : 0;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Built-in model running on the CPU without any download: stemmed words and
+ * their character trigrams are hashed into a fixed-size vector. It matches
+ * related word forms ("fish" and "fishery") but not synonyms, for which an
+ * embedding service should be configured.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly lexical = true;
+  private dimensions: number;
+
+  constructor(dimensions = EMBEDDING_CONFIG.HASHING_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const addFeature = (feature: string, weight: number) => {
+      const value = hash(feature);
+      // The sign bit spreads out the collisions of the buckets
+      vector[value % this.dimensions] += value & 0x80000000 ? -weight : weight;
+    };
+
+    tokenize(text).forEach((term) => {
+      addFeature(`w:${term}`, 1);
+      const padded = `#${term}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(
+          `t:${padded.slice(i, i + 3)}`,
+          EMBEDDING_CONFIG.TRIGRAM_WEIGHT
+        );
+      }
+    });
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * Embedding model served by an OpenAI-compatible API, such as a local
+ * Ollama, llama.cpp or LocalAI server, or a hosted service
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private url: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(url: string, model: string, apiKey?: string) {
+    this.url = url.replace(/\/+$/, "");
+    this.model = model;
+    this.apiKey = apiKey;
+    this.id = `${model}@${this.url}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_CONFIG.BATCH_SIZE) {
+      const input = texts.slice(i, i + EMBEDDING_CONFIG.BATCH_SIZE);
+      const response = await axios.post<{
+        data: { index: number; embedding: number[] }[];
+      }>(
+        `${this.url}/embeddings`,
+        { model: this.model, input },
+        {
+          headers: {
+            "Content-Type": "application/json",
+            ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          },
+          timeout: EMBEDDING_CONFIG.TIMEOUT,
+        }
+      );
+      const data = response.data?.data;
+      if (!Array.isArray(data) || data.length !== input.length) {
+        throw new Error(
+          `Embedding service returned ${
+            Array.isArray(data) ? data.length : "no"
+          } vectors for ${input.length} texts`
+        );
+      }
+      // Vectors may come back in any order
+      [...data]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ embedding }) => vectors.push(normalizeVector(embedding)));
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Create the embedding provider of the semantic search
+ * @param options Embedding service to use, if any
+ * @returns The service's provider, or else the built-in model
+ */
+export function createEmbeddingProvider(
+  options: EmbeddingProviderOptions = {}
+): EmbeddingProvider {
+  if (!options.url) {
+    return new HashingEmbeddingProvider();
+  }
+  if (!options.model) {
+    throw new Error("An embedding model is required with an embedding URL");
+  }
+  logger.log(`Using embedding model ${options.model} from ${options.url}`);
+  return new HttpEmbeddingProvider(options.url, options.model, options.apiKey);
+}
@@ -5,6 +5,7 @@ import axios, {
   AxiosError,
 } from "axios";
 import { logger } from "../utils/logger.js";
+import type { ResponseCache } from "./response-cache.js";
 
 /**
  * Default request configuration
@@ -27,12 +28,24 @@ interface ApiLink {
 /**
  * Basic File model structure (assumed)
  */
-interface FileModel {
+export interface FileModel {
+  id?: number;
+  order?: number;
+  filename?: string;
   url?: string;
   name?: string;
   contentType?: string;
 }
 
+/**
+ * Reference to an entity with its API links (e.g. a step using a document)
+ */
+export interface BaseLinkableModel {
+  id: number;
+  name: string;
+  links?: ApiLink[];
+}
+
 /**
  * Base structure for Objective models
  */
@@ -59,6 +72,502 @@ interface ObjectiveWithDescriptionBaseModel extends ObjectiveBaseModel {
   description?: string;
 }
 
+/**
+ * Minimal id/name pair returned by several endpoints (e.g. filter options)
+ */
+interface BaseModel {
+  id: number;
+  name: string;
+}
+
+/**
+ * Filter definition as returned by /Filters
+ */
+interface FilterModel extends BaseModel {
+  order?: number;
+  label?: string;
+  isInclusive?: boolean;
+}
+
+/**
+ * A single filter/option pair applied to a search
+ */
+interface AppliedFilterOption {
+  filterId: number;
+  optionId: number;
+}
+
+/**
+ * Procedure node in the tree returned by /Objectives/SearchByFilters
+ */
+interface DrillProcedure extends BaseModel {
+  explanatoryText?: string;
+  isProcedure?: boolean;
+  childs?: DrillProcedure[];
+}
+
+/**
+ * Search result tree returned by /Objectives/SearchByFilters
+ */
+interface DrillObjective {
+  procedures?: DrillProcedure[];
+  filteredObjectives?: {
+    filterId: number;
+    values?: { key: number; value: DrillObjective }[];
+  }[];
+}
+
+/**
+ * Cost of reaching and being served at an office (ABC)
+ */
+export interface InPersonCostModel {
+  reachOffice?: number;
+  waitingInLine?: number;
+  spentTimeAtCounter?: number;
+  returnFromOffice?: number;
+}
+
+/**
+ * Cost of preparing a step or procedure (ABC)
+ */
+export interface PreparationCostModel {
+  understand?: number;
+  gatherInfo?: number;
+  fillForm?: number;
+}
+
+/**
+ * Administrative burden table of a step (ABC)
+ */
+export interface AdminBurdenModel {
+  humanPreparationCost?: PreparationCostModel;
+  otherPreparationCost?: PreparationCostModel;
+  numberOfUsers?: number;
+  printCost?: number;
+  total?: number;
+}
+
+/**
+ * Administrative burden table including in-person costs (ABC)
+ */
+export interface AdminBurdenInPersonModel extends AdminBurdenModel {
+  humanInPersonCost?: InPersonCostModel;
+  otherInPersonCost?: InPersonCostModel;
+  onlineCost?: number;
+}
+
+/**
+ * Staff level of the officials handling a step (ABC)
+ */
+export interface StaffLevelModel {
+  id: number;
+  level?: number;
+  levelText?: string;
+  description?: string;
+  hourlyCost?: number;
+}
+
+/**
+ * Staff level attached to a step (ABC)
+ */
+export interface StepWithLevelModel {
+  stepId: number;
+  staffLevel?: StaffLevelModel;
+}
+
+/**
+ * Geographic zone of an institution, with the time and price to reach it (ABC)
+ */
+export interface ZoneModel {
+  id: number;
+  name?: string;
+  description?: string;
+  time?: {
+    hour?: number;
+    minute?: number;
+  };
+  price?: number;
+}
+
+/**
+ * Zone attached to an institution (ABC)
+ */
+export interface InstitutionZoneModel {
+  contactId: number;
+  zone?: ZoneModel;
+}
+
+/**
+ * Total cost of obtaining a required document (ABC)
+ */
+export interface RequirementCostModel {
+  documentId: number;
+  total?: number;
+}
+
+/**
+ * Detailed Activity-Based Costing of a procedure
+ */
+export interface AbcDetailedModel {
+  steps?: StepWithLevelModel[];
+  institutions?: InstitutionZoneModel[];
+  requirements?: RequirementCostModel[];
+  adminBurdenTable?: AdminBurdenInPersonModel;
+}
+
+/**
+ * Detailed Activity-Based Costing of a single step
+ */
+export interface StepAbcDetailedModel {
+  zone?: ZoneModel;
+  requirements?: RequirementCostModel[];
+  adminBurdenTable?: AdminBurdenModel;
+}
+
+/**
+ * Minimum/maximum range of a duration
+ */
+export interface RangeModel {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Duration range expressed in hours and minutes
+ */
+export interface TimeRangeModel {
+  hours?: RangeModel;
+  minutes?: RangeModel;
+}
+
+/**
+ * Amount with its unit (currency for costs, time unit for durations)
+ */
+export interface TotalCostModel {
+  cost: number;
+  unit?: string;
+}
+
+/**
+ * Aggregated timeframe of a procedure
+ */
+export interface ResumeTimeframeModel {
+  total?: RangeModel & { unit?: string };
+  timeSpentAtTheCounter?: TimeRangeModel;
+  waitingTimeInLine?: TimeRangeModel;
+  waitingTimeUntilNextStep?: {
+    days?: RangeModel;
+  };
+}
+
+/**
+ * Procedure summary as returned by /Procedures/{id}/Resume
+ */
+export interface ResumeModel {
+  id: number;
+  name: string;
+  steps?: number;
+  institutions?: number;
+  results?: number;
+  requirements?: number;
+  laws?: number;
+  costs?: TotalCostModel[];
+  timeframe?: ResumeTimeframeModel;
+  links?: ApiLink[];
+}
+
+/**
+ * Detailed procedure summary as returned by /Procedures/{id}/ResumeDetail
+ */
+export interface ResumeDetailModel {
+  id: number;
+  name: string;
+  url?: string;
+  blocks?: {
+    id: number;
+    name?: string;
+    description?: string;
+    order?: number;
+    isOptional?: boolean;
+    steps?: {
+      id: number;
+      name: string;
+      order?: number;
+      isOnline?: boolean;
+      isOptional?: boolean;
+      isCertified?: boolean;
+    }[];
+  }[];
+  institutions?: { id: number; name: string; city?: string }[];
+  results?: { id: number; name: string; isFinalResult?: boolean }[];
+  requirements?: { id: number; name: string }[];
+  laws?: { id: number; name: string }[];
+  costs?: TotalCostModel[];
+  timeframe?: ResumeTimeframeModel;
+  links?: ApiLink[];
+}
+
+/**
+ * Procedure totals as returned by /Procedures/{id}/Totals
+ */
+export interface ResumeTotalModel {
+  steps?: { id: number; url?: string; isOnline?: boolean }[];
+  institutionCount?: number;
+  requirementCount?: number;
+  costs?: TotalCostModel[];
+  abcCosts?: TotalCostModel;
+  timeframe?: TotalCostModel;
+  links?: ApiLink[];
+}
+
+/**
+ * Legal document as returned by /Laws
+ */
+export interface GenericDocumentBaseModel {
+  id: number;
+  name: string;
+  order?: number;
+  attachments?: FileModel[];
+}
+
+/**
+ * Legal document with the steps referencing it, as returned by /Laws/{id}
+ */
+export interface GenericDocumentModel extends GenericDocumentBaseModel {
+  steps?: BaseLinkableModel[];
+}
+
+/**
+ * Form document as returned by /Forms
+ */
+export interface RequirementBaseModel {
+  id: number;
+  name: string;
+  type?: string;
+  filename?: string;
+  url?: string;
+}
+
+/**
+ * Form document with the steps requiring it, as returned by /Forms/{id}
+ */
+export interface RequirementModel extends RequirementBaseModel {
+  steps?: BaseLinkableModel[];
+}
+
+/**
+ * Cost of obtaining a document as returned by /DocumentCosts/{id}.
+ * The API does not document this payload, so its fields are kept open.
+ */
+export interface DocumentCostModel {
+  [key: string]: unknown;
+}
+
+/**
+ * Opening hours of one day of the week
+ */
+export interface ScheduleDayModel {
+  morningStart?: string;
+  morningEnd?: string;
+  eveningStart?: string;
+  eveningEnd?: string;
+  isClosed?: boolean;
+  isNotAvailable?: boolean;
+}
+
+/**
+ * Weekly opening hours, day1 being Monday
+ */
+export interface ScheduleModel {
+  day1?: ScheduleDayModel;
+  day2?: ScheduleDayModel;
+  day3?: ScheduleDayModel;
+  day4?: ScheduleDayModel;
+  day5?: ScheduleDayModel;
+  day6?: ScheduleDayModel;
+  day7?: ScheduleDayModel;
+}
+
+/**
+ * Institution (entity in charge) as returned by /Contacts
+ */
+export interface ContactBaseModel {
+  id: number;
+  name: string;
+  city?: string;
+  zipCode?: string;
+  pictureUrl?: string;
+}
+
+/**
+ * Unit reference within an institution
+ */
+export interface UnitLinkableModel {
+  id: number;
+  name: string;
+  pictureUrl?: string;
+  links?: { href: string; rel: string }[];
+}
+
+/**
+ * Person reference within a unit
+ */
+export interface PersonLinkableModel extends UnitLinkableModel {
+  profession?: string;
+}
+
+/**
+ * Institution with its contact details, units and steps, as returned by /Contacts/{id}
+ */
+export interface DetailedContactModel extends ContactBaseModel {
+  units?: UnitLinkableModel[];
+  steps?: BaseLinkableModel[] | null;
+  address?: string;
+  countryCode?: string;
+  googleMapsUrl?: string;
+  firstPhone?: string;
+  secondPhone?: string;
+  // Spelling as returned by the API
+  fisrtFax?: string;
+  secondFax?: string;
+  firstEmail?: string;
+  secondEmail?: string;
+  firstWebsite?: string;
+  secondWebsite?: string;
+  scheduleComments?: string;
+  schedule?: ScheduleModel;
+}
+
+/**
+ * Unit with its people and steps, as returned by /Units/{id}
+ */
+export interface DetailedUnitModel {
+  id: number;
+  name: string;
+  people?: PersonLinkableModel[];
+  steps?: BaseLinkableModel[] | null;
+  scheduleComments?: string;
+  schedule?: ScheduleModel;
+  pictureUrl?: string;
+}
+
+/**
+ * Person in charge with their steps, as returned by /People/{id}
+ */
+export interface DetailedPersonModel {
+  id: number;
+  name: string;
+  steps?: BaseLinkableModel[];
+  firstPhone?: string;
+  secondPhone?: string;
+  firstEmail?: string;
+  secondEmail?: string;
+  profession?: string;
+  pictureUrl?: string;
+}
+
+/**
+ * Country settings of the portal as returned by /Country/Details
+ */
+export interface CountryModel {
+  id?: number;
+  name?: string;
+  currency?: string;
+  availableLangs?: string[];
+  thirdPartyList?: string[];
+  links?: { href: string; rel: string }[];
+}
+
+/**
+ * Member of the team maintaining the portal
+ */
+export interface TeamMemberModel {
+  id?: number;
+  name?: string;
+  title?: string;
+  image?: string;
+  profession?: string;
+  order?: number;
+}
+
+/**
+ * Portal team description as returned by /Country/About
+ */
+export interface TeamModel {
+  description?: string;
+  images?: FileModel[];
+  members?: TeamMemberModel[];
+  authorities?: unknown[];
+}
+
+/**
+ * Portal contact information as returned by /Country/Contact
+ */
+export interface SiteContactInformation {
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+/**
+ * Portal statistics as returned by /Country/Data
+ */
+export interface CountryDataItemModel {
+  procedures?: number;
+  publishedProcedures?: number;
+  certifiedProcedures?: number;
+  steps?: number;
+  documents?: number;
+  people?: number;
+  laws?: number;
+}
+
+/**
+ * Documentation progress of a procedure as returned by /Country/Progress/{id}
+ */
+export interface CountryProgressItemModel {
+  steps?: number;
+  certifiedSteps?: number;
+  statusA?: number;
+  statusB?: number;
+  statusC?: number;
+  statusD?: number;
+  openedTickets?: number;
+  archivedTickets?: number;
+}
+
+/**
+ * Currency and number locale used to format the data of a portal
+ */
+export interface PortalLocale {
+  currency?: string;
+  locale?: string;
+}
+
+/**
+ * Child of an objective or menu, summarized for browsing the hierarchy.
+ * Counts only cover the nested nodes returned by the API.
+ */
+export interface ObjectiveNodeSummary {
+  id: number;
+  name: string;
+  description?: string;
+  isProcedure: boolean;
+  childCount: number;
+  procedureCount: number;
+}
+
+/**
+ * One level of the objective hierarchy: an objective or menu with its
+ * direct children, or the top-level objectives when id is undefined
+ */
+export interface ObjectiveLevelModel {
+  id?: number;
+  name?: string;
+  description?: string;
+  children: ObjectiveNodeSummary[];
+}
+
 /**
  * Procedure entity structure
  */
@@ -68,6 +577,8 @@ interface Procedure {
   description?: string;
   fullName?: string;
   parentName?: string | null;
+  // ID of the objective menu the procedure was listed or fetched under
+  menuId?: number;
   isProcedure?: boolean;
   explanatoryText?: string;
   isOnline?: boolean;
@@ -79,6 +590,7 @@ interface Procedure {
     name?: string;
     url?: string;
     blocks?: {
+      isOptional?: boolean;
       steps?: Step[];
     }[];
   };
@@ -93,6 +605,7 @@ interface Step {
   name: string;
   procedureId?: number;
   procedureName?: string;
+  menuId?: number;
   isOptional?: boolean;
   isCertified?: boolean;
   isParallel?: boolean;
@@ -102,6 +615,7 @@ interface Step {
   };
   contact?: {
     entityInCharge?: {
+      id?: number;
       name: string;
       firstPhone?: string;
       secondPhone?: string;
@@ -113,24 +627,34 @@ interface Step {
       scheduleComments?: string;
     };
     unitInCharge?: {
+      id?: number;
       name: string;
     };
     personInCharge?: {
+      id?: number;
       name: string;
       profession?: string;
     };
   };
   requirements?: {
+    id?: number;
     name: string;
     comments?: string;
     nbOriginal?: number;
     nbCopy?: number;
     nbAuthenticated?: number;
+    type?: string;
+    filename?: string;
+    url?: string;
   }[];
   results?: {
+    id?: number;
     name: string;
     comments?: string;
     isFinalResult?: boolean;
+    type?: string;
+    filename?: string;
+    url?: string;
   }[];
   timeframe?: {
     timeSpentAtTheCounter?: {
@@ -162,6 +686,7 @@ interface Step {
     text: string;
   };
   laws?: {
+    id?: number;
     name: string;
   }[];
   _links?: ApiLink[];
@@ -178,8 +703,13 @@ interface RequestConfig extends AxiosRequestConfig {
 export class ERegulationsApi {
   private baseUrl: string | null = null;
   private axiosInstance: AxiosInstance;
+  private cache: ResponseCache | null;
 
-  constructor() {
+  /**
+   * @param cache Optional cache of the API responses
+   */
+  constructor(cache?: ResponseCache) {
+    this.cache = cache || null;
     // Create a single axios instance to reuse
     this.axiosInstance = axios.create({
       timeout: REQUEST_CONFIG.TIMEOUT,
@@ -241,7 +771,7 @@ export class ERegulationsApi {
   }
 
   /**
-   * Helper function to make HTTP requests with retry logic
+   * Helper function to make HTTP requests through the response cache
    * @param url The URL to fetch
    * @param config Optional axios config
    * @returns The HTTP response
@@ -250,13 +780,65 @@ export class ERegulationsApi {
     url: string,
     config: RequestConfig = {}
   ): Promise<AxiosResponse<T>> {
-    // Validate that we have a URL to work with
-    if (!url) {
-      throw new Error("URL is required for API requests");
+    return this.withCache(url, () => this.requestWithRetries<T>(url, config));
+  }
+
+  /**
+   * Serve a request from the response cache when there is one. Cached
+   * responses only keep their data.
+   * @param key The request key, starting with its URL
+   * @param request Function sending the request to the API
+   */
+  private async withCache<T>(
+    key: string,
+    request: () => Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> {
+    if (!this.cache) {
+      return request();
     }
+    const data = await this.cache.get<T>(
+      key,
+      async () => (await request()).data
+    );
+    return { data } as AxiosResponse<T>;
+  }
 
-    // Ensure URL has protocol - only for absolute URLs, not for relative paths (which typically start with /)
-    if (
+  /**
+   * Listen to the cached responses whose data changed when refreshed, e.g.
+   * to tell clients that a procedure was updated on the portal
+   * @param listener Function called with the path of each changed response,
+   * relative to the base URL (e.g. /Procedures/725/Totals)
+   * @returns Function removing the listener
+   */
+  onResponseChange(listener: (path: string) => void): () => void {
+    if (!this.cache) {
+      return () => {};
+    }
+    return this.cache.onChange((key) => {
+      const baseUrl = this.baseUrl;
+      listener(
+        baseUrl && key.startsWith(baseUrl) ? key.slice(baseUrl.length) : key
+      );
+    });
+  }
+
+  /**
+   * Helper function to make HTTP requests with retry logic
+   * @param url The URL to fetch
+   * @param config Optional axios config
+   * @returns The HTTP response
+   */
+  private async requestWithRetries<T = unknown>(
+    url: string,
+    config: RequestConfig = {}
+  ): Promise<AxiosResponse<T>> {
+    // Validate that we have a URL to work with
+    if (!url) {
+      throw new Error("URL is required for API requests");
+    }
+
+    // Ensure URL has protocol - only for absolute URLs, not for relative paths (which typically start with /)
+    if (
       !url.startsWith("/") &&
       !url.startsWith("http://") &&
       !url.startsWith("https://")
@@ -374,6 +956,61 @@ export class ERegulationsApi {
     }
   }
 
+  /**
+   * Helper function to fetch a single resource relative to the base URL
+   * @param path The resource path (e.g. /Procedures/1/ABC)
+   * @returns The response data
+   * @throws Error if the API returned no data
+   */
+  private async fetchResource<T>(path: string): Promise<T> {
+    return this.fetchData<T>(async () => {
+      // Access baseUrl at execution time
+      const baseUrl = this.getBaseUrl();
+      const response = await this.makeRequest<T>(`${baseUrl}${path}`);
+      if (!response || response.data === null || response.data === undefined) {
+        throw new Error(`No data returned for ${path}`);
+      }
+      return response.data;
+    });
+  }
+
+  /**
+   * Check if a node of the objective tree is a procedure by looking at its links
+   */
+  private isProcedureNode(node: Procedure): boolean {
+    return (
+      Array.isArray(node.links) &&
+      node.links.some(
+        (link: ApiLink) =>
+          link && typeof link === "object" && link.rel === "procedure"
+      )
+    );
+  }
+
+  /**
+   * Get the child nodes of a node of the objective tree
+   * (some APIs use childs instead of subMenus)
+   */
+  private getChildNodes(node: Procedure): Procedure[] {
+    return [
+      ...(Array.isArray(node.subMenus) ? node.subMenus : []),
+      ...(Array.isArray(node.childs) ? node.childs : []),
+    ].filter((child) => child && typeof child === "object");
+  }
+
+  /**
+   * Count the procedures below a node of the objective tree
+   */
+  private countProcedures(node: Procedure): number {
+    return this.getChildNodes(node).reduce(
+      (count, child) =>
+        count +
+        (this.isProcedureNode(child) ? 1 : 0) +
+        this.countProcedures(child),
+      0
+    );
+  }
+
   /**
    * Helper function to extract all procedures recursively
    */
@@ -387,7 +1024,11 @@ export class ERegulationsApi {
       return [];
     }
 
-    const processProcedure = (proc: Procedure, parentName?: string): void => {
+    const processProcedure = (
+      proc: Procedure,
+      parentName?: string,
+      parentId?: number
+    ): void => {
       if (!proc || typeof proc !== "object") {
         logger.debug(`Invalid procedure object: ${proc}`);
         return;
@@ -402,13 +1043,7 @@ export class ERegulationsApi {
         const procId = typeof proc.id === "number" ? proc.id : undefined;
 
         // Check if this is a real procedure by looking at the links
-        const hasLinks = Array.isArray(proc.links);
-        const isProcedure =
-          hasLinks &&
-          proc.links?.some(
-            (link: ApiLink) =>
-              link && typeof link === "object" && link.rel === "procedure"
-          );
+        const isProcedure = this.isProcedureNode(proc);
 
         // Add parent context to the name if available
         const fullName = parentName ? `${parentName} > ${procName}` : procName;
@@ -421,27 +1056,17 @@ export class ERegulationsApi {
             id: procId,
             fullName,
             parentName: parentName || null,
+            // Keep the menu the procedure was found under, as the same
+            // procedure may appear in several menus with variants
+            ...(parentId ? { menuId: parentId } : {}),
             isProcedure: isProcedure || false,
           });
         }
 
-        // Process submenus recursively
-        if (Array.isArray(proc.subMenus)) {
-          proc.subMenus.forEach((submenu: Procedure) => {
-            if (submenu && typeof submenu === "object") {
-              processProcedure(submenu, fullName);
-            }
-          });
-        }
-
-        // Process children recursively (some APIs use childs instead of subMenus)
-        if (Array.isArray(proc.childs)) {
-          proc.childs.forEach((child: Procedure) => {
-            if (child && typeof child === "object") {
-              processProcedure(child, fullName);
-            }
-          });
-        }
+        // Process submenus and children recursively
+        this.getChildNodes(proc).forEach((child: Procedure) => {
+          processProcedure(child, fullName, procId);
+        });
       } catch (error) {
         logger.error(`Error processing procedure: ${error}`);
       }
@@ -475,95 +1100,164 @@ export class ERegulationsApi {
       const baseUrl = this.getBaseUrl();
 
       try {
-        // Use our robust request method instead of direct axios.get
-        const response = await this.makeRequest<unknown>(
-          `${baseUrl}/Objectives`
-        );
-        let procedures: Procedure[] = [];
+        const procedures = await this.fetchObjectiveTree(baseUrl);
 
-        // Handle response data safely
-        if (!response || !response.data) {
-          logger.warn("Empty response from API when fetching procedures");
-          return [];
-        }
+        // Process all procedures recursively
+        return this.extractAllProcedures(procedures);
+      } catch (error) {
+        logger.error("Error fetching procedures list:", error);
+        return [];
+      }
+    });
+  }
 
-        // Add debug logging for the raw response
-        if (typeof response.data === "object") {
-          try {
-            const preview = JSON.stringify(response.data).slice(0, 200);
-            logger.debug(`Raw API response preview: ${preview}...`);
-          } catch (error) {
-            logger.warn("Could not stringify API response for debugging");
-          }
-        }
+  /**
+   * Fetch the top-level nodes of the objective tree from /Objectives
+   * @param baseUrl The base URL of the API
+   * @returns The top-level objectives, with their nested menus and procedures
+   */
+  private async fetchObjectiveTree(baseUrl: string): Promise<Procedure[]> {
+    // Use our robust request method instead of direct axios.get
+    const response = await this.makeRequest<unknown>(`${baseUrl}/Objectives`);
+    let procedures: Procedure[] = [];
+
+    // Handle response data safely
+    if (!response || !response.data) {
+      logger.warn("Empty response from API when fetching procedures");
+      return [];
+    }
 
-        // Handle different response formats - ensure we always have an array to process
-        if (Array.isArray(response.data)) {
-          logger.log("API response is an array");
-          procedures = response.data as Procedure[];
-        } else if (response.data && typeof response.data === "object") {
-          logger.log("API response is an object, looking for array properties");
-
-          // If it's an object with items/results/data property that's an array
-          const possibleArrayProps = [
-            "items",
-            "results",
-            "data",
-            "procedures",
-            "objectives",
-          ];
-          const data = response.data as Record<string, unknown>;
-
-          let foundArrayProp = false;
-          for (const prop of possibleArrayProps) {
-            if (Array.isArray(data[prop])) {
-              procedures = data[prop] as Procedure[];
-              logger.log(`Found procedures array in response.${prop}`);
-              foundArrayProp = true;
-              break;
-            }
-          }
+    // Add debug logging for the raw response
+    if (typeof response.data === "object") {
+      try {
+        const preview = JSON.stringify(response.data).slice(0, 200);
+        logger.debug(`Raw API response preview: ${preview}...`);
+      } catch (error) {
+        logger.warn("Could not stringify API response for debugging");
+      }
+    }
 
-          // If it's an object but we can't find a property that's an array, wrap it in an array
-          if (!foundArrayProp) {
-            logger.log(
-              "No array property found, treating entire response as a single procedure"
-            );
-            procedures = [response.data as Procedure];
-          }
-        } else {
-          logger.warn(`Unexpected API response type: ${typeof response.data}`);
-          return [];
+    // Handle different response formats - ensure we always have an array to process
+    if (Array.isArray(response.data)) {
+      logger.log("API response is an array");
+      procedures = response.data as Procedure[];
+    } else if (response.data && typeof response.data === "object") {
+      logger.log("API response is an object, looking for array properties");
+
+      // If it's an object with items/results/data property that's an array
+      const possibleArrayProps = [
+        "items",
+        "results",
+        "data",
+        "procedures",
+        "objectives",
+      ];
+      const data = response.data as Record<string, unknown>;
+
+      let foundArrayProp = false;
+      for (const prop of possibleArrayProps) {
+        if (Array.isArray(data[prop])) {
+          procedures = data[prop] as Procedure[];
+          logger.log(`Found procedures array in response.${prop}`);
+          foundArrayProp = true;
+          break;
         }
+      }
 
+      // If it's an object but we can't find a property that's an array, wrap it in an array
+      if (!foundArrayProp) {
         logger.log(
-          `Found ${procedures.length} top-level items in API response`
+          "No array property found, treating entire response as a single procedure"
         );
+        procedures = [response.data as Procedure];
+      }
+    } else {
+      logger.warn(`Unexpected API response type: ${typeof response.data}`);
+      return [];
+    }
 
-        // Process all procedures recursively
-        return this.extractAllProcedures(procedures);
-      } catch (error) {
-        logger.error("Error fetching procedures list:", error);
-        return [];
+    logger.log(`Found ${procedures.length} top-level items in API response`);
+
+    return procedures;
+  }
+
+  /**
+   * Get one level of the objective hierarchy
+   * @param id Optional objective or menu ID; omit it for the top-level objectives
+   * @returns The objective or menu with a summary of each of its children
+   */
+  async getObjectiveLevel(id?: number): Promise<ObjectiveLevelModel> {
+    if (id === undefined) {
+      logger.log("Fetching top-level objectives...");
+      const objectives = await this.fetchData(() =>
+        this.fetchObjectiveTree(this.getBaseUrl())
+      );
+      return {
+        children: objectives.map((objective) =>
+          this.summarizeObjectiveNode(objective)
+        ),
+      };
+    }
+    if (id <= 0) {
+      throw new Error("Objective or menu ID is required");
+    }
+    logger.log(`Fetching objective or menu ${id}...`);
+
+    // Top-level objectives are served by /Objectives, nested menus by /Menus
+    const node = await this.fetchResource<Procedure>(`/Objectives/${id}`).catch(
+      (error) => {
+        logger.warn(`Objective ${id} not found, trying menu ${id}: ${error}`);
+        return this.fetchResource<Procedure>(`/Menus/${id}`);
       }
-    });
+    );
+
+    return {
+      id: node.id || id,
+      name: node.name,
+      ...(node.description ? { description: node.description } : {}),
+      children: this.getChildNodes(node).map((child) =>
+        this.summarizeObjectiveNode(child)
+      ),
+    };
+  }
+
+  /**
+   * Summarize a node of the objective tree with its child and procedure counts
+   */
+  private summarizeObjectiveNode(node: Procedure): ObjectiveNodeSummary {
+    const description = node.description || node.explanatoryText;
+    return {
+      id: node.id,
+      name: typeof node.name === "string" ? node.name : `Unnamed #${node.id}`,
+      ...(description ? { description } : {}),
+      isProcedure: this.isProcedureNode(node),
+      childCount: this.getChildNodes(node).length,
+      procedureCount: this.countProcedures(node),
+    };
   }
 
   /**
    * Get detailed information about a specific procedure
+   * @param id The procedure ID
+   * @param menuId Optional objective menu ID, to get the variant of the
+   * procedure shown under that menu
    */
-  async getProcedureById(id: number): Promise<Procedure> {
+  async getProcedureById(id: number, menuId?: number): Promise<Procedure> {
     if (!id || id <= 0) {
       throw new Error("Procedure ID is required");
     }
     return this.fetchData<Procedure>(async () => {
-      logger.log(`Fetching procedure details for ID ${id}...`);
+      logger.log(
+        `Fetching procedure details for ID ${id}${
+          menuId ? ` in menu ${menuId}` : ""
+        }...`
+      );
 
       // Get the base URL at execution time
       const baseUrl = this.getBaseUrl();
 
       // First try to get the correct URL from the procedure's links
-      const url = `${baseUrl}/Procedures/${id}`;
+      const url = `${baseUrl}/Procedures/${id}${menuId ? `/${menuId}` : ""}`;
       logger.log(`Making API request to: ${url}`);
 
       // Use our robust request method
@@ -587,11 +1281,13 @@ export class ERegulationsApi {
         id: Number(data.id) || id,
         name: String(data.name || `Procedure ${id}`),
         ...data,
+        ...(menuId ? { menuId } : {}),
         _links: {
           self: url,
           resume: `${url}/Resume`,
-          totals: `${url}/Totals`,
-          abc: `${url}/ABC`,
+          // Totals and ABC are not menu-specific
+          totals: `${baseUrl}/Procedures/${id}/Totals`,
+          abc: `${baseUrl}/Procedures/${id}/ABC`,
         },
       } as Procedure;
     });
@@ -599,17 +1295,27 @@ export class ERegulationsApi {
 
   /**
    * Get a summary of a procedure (number of steps, institutions, requirements)
+   * @param id The procedure ID
+   * @param menuId Optional objective menu ID, to summarize the variant of
+   * the procedure shown under that menu
    */
-  async getProcedureResume(id: number): Promise<unknown> {
+  async getProcedureResume(
+    id: number,
+    menuId?: number
+  ): Promise<ResumeModel | null> {
     if (!id || id <= 0) {
       throw new Error("Procedure ID is required");
     }
-    return this.fetchData<unknown>(async () => {
-      logger.log(`Fetching procedure resume for ID ${id}...`);
+    return this.fetchData<ResumeModel | null>(async () => {
+      logger.log(
+        `Fetching procedure resume for ID ${id}${
+          menuId ? ` in menu ${menuId}` : ""
+        }...`
+      );
       // Access baseUrl at execution time
       const baseUrl = this.getBaseUrl();
-      const response = await this.makeRequest<unknown>(
-        `${baseUrl}/Procedures/${id}/Resume`
+      const response = await this.makeRequest<ResumeModel>(
+        `${baseUrl}/Procedures/${id}${menuId ? `/${menuId}` : ""}/Resume`
       );
       if (!response) {
         return null;
@@ -621,14 +1327,16 @@ export class ERegulationsApi {
   /**
    * Get a detailed procedure resume
    */
-  async getProcedureDetailedResume(id: number): Promise<unknown> {
+  async getProcedureDetailedResume(
+    id: number
+  ): Promise<ResumeDetailModel | null> {
     if (!id || id <= 0) {
       throw new Error("Procedure ID is required");
     }
-    return this.fetchData<unknown>(async () => {
+    return this.fetchData<ResumeDetailModel | null>(async () => {
       // Access baseUrl at execution time
       const baseUrl = this.getBaseUrl();
-      const response = await this.makeRequest<unknown>(
+      const response = await this.makeRequest<ResumeDetailModel>(
         `${baseUrl}/Procedures/${id}/ResumeDetail`
       );
       if (!response) {
@@ -640,8 +1348,16 @@ export class ERegulationsApi {
 
   /**
    * Get information about a specific step within a procedure
+   * @param procedureId The procedure ID
+   * @param stepId The step ID
+   * @param menuId Optional objective menu ID, to get the variant of the
+   * step shown under that menu
    */
-  async getProcedureStep(procedureId: number, stepId: number): Promise<Step> {
+  async getProcedureStep(
+    procedureId: number,
+    stepId: number,
+    menuId?: number
+  ): Promise<Step> {
     if (!procedureId || procedureId <= 0) {
       throw new Error("Procedure ID is required");
     }
@@ -661,7 +1377,9 @@ export class ERegulationsApi {
       }
 
       const response = await this.makeRequest<StepResponse>(
-        `${baseUrl}/Procedures/${procedureId}/Steps/${stepId}`
+        `${baseUrl}/Procedures/${procedureId}${
+          menuId ? `/${menuId}` : ""
+        }/Steps/${stepId}`
       );
 
       if (!response || !response.data) {
@@ -673,27 +1391,46 @@ export class ERegulationsApi {
       const stepData = response.data;
 
       // Add additional context to the step data
-      return {
+      const step: Step = {
         id: stepId,
         name: "Unknown", // Default value if step data is incomplete
         ...(stepData.data || {}),
         procedureId,
+        ...(menuId ? { menuId } : {}),
         _links: stepData.links,
       };
+
+      // Resolve the download links of forms and produced documents
+      if (Array.isArray(step.requirements)) {
+        step.requirements = step.requirements.map((req) =>
+          req.filename && !req.url
+            ? { ...req, url: this.resolveDocumentUrl(req.filename) }
+            : req
+        );
+      }
+      if (Array.isArray(step.results)) {
+        step.results = step.results.map((res) =>
+          res.filename && !res.url
+            ? { ...res, url: this.resolveDocumentUrl(res.filename) }
+            : res
+        );
+      }
+
+      return step;
     });
   }
 
   /**
    * Get procedure totals (costs and time)
    */
-  async getProcedureTotals(id: number): Promise<unknown> {
+  async getProcedureTotals(id: number): Promise<ResumeTotalModel | null> {
     if (!id || id <= 0) {
       throw new Error("Procedure ID is required");
     }
-    return this.fetchData<unknown>(async () => {
+    return this.fetchData<ResumeTotalModel | null>(async () => {
       // Access baseUrl at execution time
       const baseUrl = this.getBaseUrl();
-      const response = await this.makeRequest<unknown>(
+      const response = await this.makeRequest<ResumeTotalModel>(
         `${baseUrl}/Procedures/${id}/Totals`
       );
       if (!response) {
@@ -728,15 +1465,20 @@ export class ERegulationsApi {
         // Create a specific axios instance for this POST request
         // Wrap keyword in an object as per the new API format
         const requestBody = { keyword };
-        const response = await this.axiosInstance.post<
-          ObjectiveWithDescriptionBaseModel[]
-        >(url, JSON.stringify(requestBody), {
-          headers: {
-            "Content-Type": "application/json",
-            Accept: "application/json",
-          },
-          timeout: REQUEST_CONFIG.TIMEOUT,
-        });
+        const body = JSON.stringify(requestBody);
+        const response = await this.withCache(`POST ${url} ${body}`, () =>
+          this.axiosInstance.post<ObjectiveWithDescriptionBaseModel[]>(
+            url,
+            body,
+            {
+              headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json",
+              },
+              timeout: REQUEST_CONFIG.TIMEOUT,
+            }
+          )
+        );
 
         if (!response || !response.data) {
           logger.warn(`No objectives found for search keyword "${keyword}"`);
@@ -758,6 +1500,10 @@ export class ERegulationsApi {
           return [];
         }
       } catch (error) {
+        // Offline, a search that was not saved is missing, not empty
+        if (this.cache?.isOffline()) {
+          throw error;
+        }
         logger.error(
           `Error searching objectives with keyword "${keyword}":`,
           error
@@ -767,4 +1513,503 @@ export class ERegulationsApi {
       }
     });
   }
+
+  /**
+   * Get the list of filters that can be used to narrow down procedures
+   * @returns An array of filters
+   */
+  async getFilters(): Promise<FilterModel[]> {
+    return this.fetchData<FilterModel[]>(async () => {
+      logger.log("Fetching filters...");
+      const baseUrl = this.getBaseUrl();
+      const response = await this.makeRequest<FilterModel[]>(
+        `${baseUrl}/Filters`
+      );
+      if (!response || !Array.isArray(response.data)) {
+        logger.warn("Unexpected response when fetching filters");
+        return [];
+      }
+      return response.data;
+    });
+  }
+
+  /**
+   * Get the options available for a specific filter
+   * @param filterId The ID of the filter
+   * @returns An array of filter options
+   */
+  async getFilterOptions(filterId: number): Promise<BaseModel[]> {
+    if (!filterId || filterId <= 0) {
+      throw new Error("Filter ID is required");
+    }
+    return this.fetchData<BaseModel[]>(async () => {
+      logger.log(`Fetching options for filter ${filterId}...`);
+      const baseUrl = this.getBaseUrl();
+      const response = await this.makeRequest<BaseModel[]>(
+        `${baseUrl}/Filters/${filterId}/Options`
+      );
+      if (!response || !Array.isArray(response.data)) {
+        logger.warn(`Unexpected response when fetching filter ${filterId}`);
+        return [];
+      }
+      return response.data;
+    });
+  }
+
+  /**
+   * Search for procedures matching a combination of filter options
+   * @param filters The filter/option pairs to apply
+   * @returns The search result trees returned by the API
+   */
+  async searchByFilters(
+    filters: AppliedFilterOption[]
+  ): Promise<DrillObjective[]> {
+    if (!Array.isArray(filters) || filters.length === 0) {
+      throw new Error("At least one filter is required");
+    }
+
+    return this.fetchData<DrillObjective[]>(async () => {
+      logger.log(
+        `Searching objectives by filters ${JSON.stringify(filters)}...`
+      );
+
+      const baseUrl = this.getBaseUrl();
+
+      try {
+        const url = `${baseUrl}/Objectives/SearchByFilters`;
+
+        // The API expects a list of KeyValuePair<filterId, optionId>
+        const requestBody = filters.map((f) => ({
+          key: f.filterId,
+          value: f.optionId,
+        }));
+        const body = JSON.stringify(requestBody);
+        const response = await this.withCache(`POST ${url} ${body}`, () =>
+          this.axiosInstance.post<DrillObjective[]>(url, body, {
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "application/json",
+            },
+            timeout: REQUEST_CONFIG.TIMEOUT,
+          })
+        );
+
+        if (!response || !response.data) {
+          logger.warn("No objectives found for the applied filters");
+          return [];
+        }
+
+        if (Array.isArray(response.data)) {
+          return response.data;
+        } else {
+          logger.warn(
+            `Unexpected filter search API response type: ${typeof response.data}. Expected Array.`
+          );
+          return [];
+        }
+      } catch (error) {
+        // The API answers 404 when no procedure matches the combination
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          logger.log("No objectives match the applied filters");
+          return [];
+        }
+        if (this.cache?.isOffline()) {
+          throw error;
+        }
+        logger.error("Error searching objectives by filters:", error);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Get the administrative burden (ABC) table of a procedure
+   * @param id The procedure ID
+   */
+  async getProcedureAbc(id: number): Promise<AdminBurdenInPersonModel> {
+    if (!id || id <= 0) {
+      throw new Error("Procedure ID is required");
+    }
+    logger.log(`Fetching ABC for procedure ${id}...`);
+    return this.fetchResource<AdminBurdenInPersonModel>(
+      `/Procedures/${id}/ABC`
+    );
+  }
+
+  /**
+   * Get the detailed ABC of a procedure (staff levels, zones, requirement costs and burden table)
+   * @param id The procedure ID
+   */
+  async getProcedureAbcFull(id: number): Promise<AbcDetailedModel> {
+    if (!id || id <= 0) {
+      throw new Error("Procedure ID is required");
+    }
+    logger.log(`Fetching detailed ABC for procedure ${id}...`);
+    return this.fetchResource<AbcDetailedModel>(`/Procedures/${id}/ABC/Full`);
+  }
+
+  /**
+   * Get the staff levels of the steps of a procedure
+   * @param id The procedure ID
+   */
+  async getProcedureAbcLevels(id: number): Promise<StepWithLevelModel[]> {
+    if (!id || id <= 0) {
+      throw new Error("Procedure ID is required");
+    }
+    return this.fetchResource<StepWithLevelModel[]>(
+      `/Procedures/${id}/ABC/Levels`
+    );
+  }
+
+  /**
+   * Get the zones of the institutions involved in a procedure
+   * @param id The procedure ID
+   */
+  async getProcedureAbcZones(id: number): Promise<InstitutionZoneModel[]> {
+    if (!id || id <= 0) {
+      throw new Error("Procedure ID is required");
+    }
+    return this.fetchResource<InstitutionZoneModel[]>(
+      `/Procedures/${id}/ABC/Zones`
+    );
+  }
+
+  /**
+   * Get the total costs of the requirements of a procedure
+   * @param id The procedure ID
+   */
+  async getProcedureAbcRequirements(
+    id: number
+  ): Promise<RequirementCostModel[]> {
+    if (!id || id <= 0) {
+      throw new Error("Procedure ID is required");
+    }
+    return this.fetchResource<RequirementCostModel[]>(
+      `/Procedures/${id}/ABC/Requirements`
+    );
+  }
+
+  /**
+   * Get the administrative burden (ABC) table of a step
+   * @param procedureId The procedure ID
+   * @param stepId The step ID
+   */
+  async getStepAbc(
+    procedureId: number,
+    stepId: number
+  ): Promise<AdminBurdenInPersonModel> {
+    this.validateStepIds(procedureId, stepId);
+    return this.fetchResource<AdminBurdenInPersonModel>(
+      `/Procedures/${procedureId}/Steps/${stepId}/ABC`
+    );
+  }
+
+  /**
+   * Get the zone of the institution in charge of a step
+   * @param procedureId The procedure ID
+   * @param stepId The step ID
+   */
+  async getStepAbcZone(
+    procedureId: number,
+    stepId: number
+  ): Promise<ZoneModel> {
+    this.validateStepIds(procedureId, stepId);
+    return this.fetchResource<ZoneModel>(
+      `/Procedures/${procedureId}/Steps/${stepId}/ABC/Zone`
+    );
+  }
+
+  /**
+   * Get the total costs of the requirements of a step
+   * @param procedureId The procedure ID
+   * @param stepId The step ID
+   */
+  async getStepAbcRequirements(
+    procedureId: number,
+    stepId: number
+  ): Promise<RequirementCostModel[]> {
+    this.validateStepIds(procedureId, stepId);
+    return this.fetchResource<RequirementCostModel[]>(
+      `/Procedures/${procedureId}/Steps/${stepId}/ABC/Requirements`
+    );
+  }
+
+  /**
+   * Get the detailed ABC of a step (zone, requirement costs and burden table)
+   * @param procedureId The procedure ID
+   * @param stepId The step ID
+   */
+  async getStepAbcFull(
+    procedureId: number,
+    stepId: number
+  ): Promise<StepAbcDetailedModel> {
+    this.validateStepIds(procedureId, stepId);
+    logger.log(
+      `Fetching detailed ABC for step ${stepId} of procedure ${procedureId}...`
+    );
+    return this.fetchResource<StepAbcDetailedModel>(
+      `/Procedures/${procedureId}/Steps/${stepId}/ABC/Full`
+    );
+  }
+
+  /**
+   * Validate the procedure and step IDs of step-level endpoints
+   */
+  private validateStepIds(procedureId: number, stepId: number): void {
+    if (!procedureId || procedureId <= 0) {
+      throw new Error("Procedure ID is required");
+    }
+    if (!stepId || stepId <= 0) {
+      throw new Error("Step ID is required");
+    }
+  }
+
+  /**
+   * Get the list of laws and regulations registered in the portal
+   * @returns An array of legal documents with resolved attachment URLs
+   */
+  async getLaws(): Promise<GenericDocumentBaseModel[]> {
+    logger.log("Fetching laws...");
+    const laws = await this.fetchResource<GenericDocumentBaseModel[]>("/Laws");
+    if (!Array.isArray(laws)) {
+      logger.warn("Unexpected response when fetching laws");
+      return [];
+    }
+    return laws.map((law) => this.resolveAttachments(law));
+  }
+
+  /**
+   * Get a law or regulation with the steps that reference it
+   * @param id The law ID
+   * @returns The legal document with resolved attachment URLs
+   */
+  async getLaw(id: number): Promise<GenericDocumentModel> {
+    if (!id || id <= 0) {
+      throw new Error("Law ID is required");
+    }
+    logger.log(`Fetching law ${id}...`);
+    const law = await this.fetchResource<GenericDocumentModel>(`/Laws/${id}`);
+    return this.resolveAttachments(law);
+  }
+
+  /**
+   * Add an absolute URL to each attachment of a document
+   */
+  private resolveAttachments<T extends { attachments?: FileModel[] }>(
+    document: T
+  ): T {
+    if (!document || !Array.isArray(document.attachments)) {
+      return document;
+    }
+    return {
+      ...document,
+      attachments: document.attachments.map((file) => ({
+        ...file,
+        url: file.url || this.resolveDocumentUrl(file.filename),
+      })),
+    };
+  }
+
+  /**
+   * Resolve a document file name returned by the API into an absolute URL.
+   * Relative names are resolved against the API base URL.
+   * @param filename The file name or path returned by the API
+   * @returns The absolute URL, or undefined when no file name is given
+   */
+  resolveDocumentUrl(filename?: string): string | undefined {
+    if (!filename) {
+      return undefined;
+    }
+    if (filename.startsWith("http://") || filename.startsWith("https://")) {
+      return filename;
+    }
+    try {
+      return new URL(filename, `${this.getBaseUrl()}/`).toString();
+    } catch (error) {
+      logger.warn(`Could not resolve document URL for ${filename}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the list of forms registered in the portal
+   * @returns An array of forms with resolved download URLs
+   */
+  async getForms(): Promise<RequirementBaseModel[]> {
+    logger.log("Fetching forms...");
+    const forms = await this.fetchResource<RequirementBaseModel[]>("/Forms");
+    if (!Array.isArray(forms)) {
+      logger.warn("Unexpected response when fetching forms");
+      return [];
+    }
+    return forms.map((form) => ({
+      ...form,
+      url: form.url || this.resolveDocumentUrl(form.filename),
+    }));
+  }
+
+  /**
+   * Get a form with the steps that require it
+   * @param id The form ID
+   * @returns The form with its resolved download URL
+   */
+  async getForm(id: number): Promise<RequirementModel> {
+    if (!id || id <= 0) {
+      throw new Error("Form ID is required");
+    }
+    logger.log(`Fetching form ${id}...`);
+    const form = await this.fetchResource<RequirementModel>(`/Forms/${id}`);
+    return {
+      ...form,
+      url: form.url || this.resolveDocumentUrl(form.filename),
+    };
+  }
+
+  /**
+   * Get the cost of obtaining a document
+   * @param id The document ID (e.g. the ID of a step requirement)
+   */
+  async getDocumentCost(id: number): Promise<DocumentCostModel> {
+    if (!id || id <= 0) {
+      throw new Error("Document ID is required");
+    }
+    logger.log(`Fetching cost of document ${id}...`);
+    return this.fetchResource<DocumentCostModel>(`/DocumentCosts/${id}`);
+  }
+
+  /**
+   * Get the list of institutions (entities in charge) registered in the portal
+   */
+  async getInstitutions(): Promise<ContactBaseModel[]> {
+    logger.log("Fetching institutions...");
+    const institutions = await this.fetchResource<ContactBaseModel[]>(
+      "/Contacts"
+    );
+    if (!Array.isArray(institutions)) {
+      logger.warn("Unexpected response when fetching institutions");
+      return [];
+    }
+    return institutions;
+  }
+
+  /**
+   * Get an institution with its contact details, opening hours, units and steps
+   * @param id The institution (contact) ID
+   */
+  async getInstitution(id: number): Promise<DetailedContactModel> {
+    if (!id || id <= 0) {
+      throw new Error("Institution ID is required");
+    }
+    logger.log(`Fetching institution ${id}...`);
+    return this.fetchResource<DetailedContactModel>(`/Contacts/${id}`);
+  }
+
+  /**
+   * Get a unit of an institution with its people and steps
+   * @param id The unit ID
+   */
+  async getUnit(id: number): Promise<DetailedUnitModel> {
+    if (!id || id <= 0) {
+      throw new Error("Unit ID is required");
+    }
+    logger.log(`Fetching unit ${id}...`);
+    return this.fetchResource<DetailedUnitModel>(`/Units/${id}`);
+  }
+
+  /**
+   * Get a person in charge with their contact details and steps
+   * @param id The person ID
+   */
+  async getPerson(id: number): Promise<DetailedPersonModel> {
+    if (!id || id <= 0) {
+      throw new Error("Person ID is required");
+    }
+    logger.log(`Fetching person ${id}...`);
+    return this.fetchResource<DetailedPersonModel>(`/People/${id}`);
+  }
+
+  /**
+   * Get the links to the country endpoints of the portal
+   */
+  async getCountryLinks(): Promise<BaseLinkableModel> {
+    logger.log("Fetching country links...");
+    return this.fetchResource<BaseLinkableModel>("/Country");
+  }
+
+  /**
+   * Get the country settings of the portal (name, currency, languages)
+   */
+  async getCountryDetails(): Promise<CountryModel> {
+    logger.log("Fetching country details...");
+    return this.fetchResource<CountryModel>("/Country/Details");
+  }
+
+  /**
+   * Get the description of the team maintaining the portal
+   */
+  async getCountryAbout(): Promise<TeamModel> {
+    logger.log("Fetching country team description...");
+    return this.fetchResource<TeamModel>("/Country/About");
+  }
+
+  /**
+   * Get the contact information of the portal
+   */
+  async getCountryContact(): Promise<SiteContactInformation> {
+    logger.log("Fetching country contact information...");
+    return this.fetchResource<SiteContactInformation>("/Country/Contact");
+  }
+
+  /**
+   * Get the statistics of the portal (number of procedures, steps, etc.)
+   */
+  async getCountryData(): Promise<CountryDataItemModel> {
+    logger.log("Fetching country statistics...");
+    return this.fetchResource<CountryDataItemModel>("/Country/Data");
+  }
+
+  /**
+   * Get the parameters configured for the portal instance.
+   * The API does not document this payload, so its fields are kept open.
+   */
+  async getCountryParameters(): Promise<Record<string, unknown>> {
+    logger.log("Fetching country parameters...");
+    return this.fetchResource<Record<string, unknown>>("/CountryParameters");
+  }
+
+  /**
+   * Get the documentation progress of a procedure (certified steps,
+   * step statuses and tickets)
+   * @param id The procedure ID
+   */
+  async getProcedureProgress(id: number): Promise<CountryProgressItemModel> {
+    if (!id || id <= 0) {
+      throw new Error("Procedure ID is required");
+    }
+    logger.log(`Fetching progress of procedure ${id}...`);
+    return this.fetchResource<CountryProgressItemModel>(
+      `/Country/Progress/${id}`
+    );
+  }
+
+  /**
+   * Get the currency and number locale of the portal, derived from its
+   * country settings. The locale is the first available language the
+   * runtime supports.
+   */
+  async getPortalLocale(): Promise<PortalLocale> {
+    const details = await this.getCountryDetails();
+    const locale = (details.availableLangs || []).find((lang) => {
+      try {
+        return Intl.NumberFormat.supportedLocalesOf(lang).length > 0;
+      } catch (error) {
+        // Invalid language tags throw a RangeError
+        return false;
+      }
+    });
+    return {
+      ...(details.currency ? { currency: details.currency } : {}),
+      ...(locale ? { locale } : {}),
+    };
+  }
 }
@@ -0,0 +1,58 @@
+import { ERegulationsApi } from "./eregulations-api.js";
+
+/**
+ * Value built from the API of a portal, such as a search index, shared by
+ * all sessions of the portal. It is built on first use, rebuilt once
+ * expired or asked for with another key, and built again on the next use
+ * after a failed build.
+ */
+export class PortalMemo<T, K = void> {
+  // One value per API client
+  private entries = new WeakMap<
+    ERegulationsApi,
+    { value: Promise<T>; builtAt: number; key: K }
+  >();
+
+  /**
+   * @param build Builds the value of a portal
+   * @param ttl Age after which the value is built again, in milliseconds
+   */
+  constructor(
+    private readonly build: (api: ERegulationsApi, key: K) => Promise<T>,
+    private readonly ttl: number
+  ) {}
+
+  /**
+   * Get the value of a portal, building it if needed
+   * @param api The API client of the portal
+   * @param key What the value is built for, such as the portal language
+   */
+  get(api: ERegulationsApi, key: K): Promise<T> {
+    const cached = this.entries.get(api);
+    if (
+      cached &&
+      cached.key === key &&
+      Date.now() - cached.builtAt <= this.ttl
+    ) {
+      return cached.value;
+    }
+
+    const value = this.build(api, key);
+    this.entries.set(api, { value, builtAt: Date.now(), key });
+    // Let the next call try again after a failed build
+    value.catch(() => {
+      // Unless a newer build replaced it meanwhile
+      if (this.entries.get(api)?.value === value) {
+        this.entries.delete(api);
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Drop the values of all portals
+   */
+  clear(): void {
+    this.entries = new WeakMap();
+  }
+}
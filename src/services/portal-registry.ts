@@ -0,0 +1,255 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ERegulationsApi, PortalLocale } from "./eregulations-api.js";
+import { ResponseCache, ResponseCacheOptions } from "./response-cache.js";
+import { logger } from "../utils/logger.js";
+
+// Name of the portal configured with a plain URL or EREGULATIONS_API_URL
+export const DEFAULT_PORTAL_NAME = "default";
+
+/**
+ * eRegulations portal served by the MCP server
+ */
+export interface PortalConfig {
+  name: string;
+  // Unset when the URL is read from EREGULATIONS_API_URL
+  url?: string;
+}
+
+/**
+ * Portal configuration file: portal names mapped to their API URLs
+ */
+interface PortalConfigFile {
+  default?: string;
+  portals: Record<string, string>;
+}
+
+/**
+ * Registry of the eRegulations portals served by the MCP server. Each
+ * portal has its own API client, response cache and currency settings.
+ */
+export class PortalRegistry {
+  private portals = new Map<string, PortalConfig>();
+  private apis = new Map<string, ERegulationsApi>();
+  private locales = new Map<string, Promise<PortalLocale>>();
+  private defaultPortal: string | null = null;
+  private cacheOptions: ResponseCacheOptions;
+
+  /**
+   * @param portals The portals to serve. Without any, a single default
+   * portal is served from EREGULATIONS_API_URL.
+   * @param defaultPortal Optional name of the portal used when a tool call
+   * does not name one. Defaults to the first portal.
+   * @param cacheOptions Options of the response caches. An on-disk cache
+   * directory gets a subdirectory per portal.
+   */
+  constructor(
+    portals: PortalConfig[] = [],
+    defaultPortal?: string,
+    cacheOptions: ResponseCacheOptions = {}
+  ) {
+    this.cacheOptions = cacheOptions;
+    if (portals.length === 0) {
+      this.addPortal({ name: DEFAULT_PORTAL_NAME });
+    }
+    portals.forEach((portal) => this.addPortal(portal));
+    if (defaultPortal) {
+      this.defaultPortal = this.resolvePortal(defaultPortal);
+    }
+  }
+
+  /**
+   * Register a portal, replacing any portal with the same name
+   */
+  addPortal(portal: PortalConfig): void {
+    const name = this.normalizeName(portal.name);
+    if (!name) {
+      throw new Error("Portal name cannot be empty");
+    }
+
+    const api = new ERegulationsApi(
+      new ResponseCache({
+        ...this.cacheOptions,
+        ...(this.cacheOptions.directory
+          ? { directory: join(this.cacheOptions.directory, name) }
+          : {}),
+      })
+    );
+    if (portal.url) {
+      api.setBaseUrl(portal.url);
+    }
+    this.portals.set(name, {
+      name,
+      ...(portal.url ? { url: portal.url } : {}),
+    });
+    this.apis.set(name, api);
+    this.locales.delete(name);
+    if (!this.defaultPortal) {
+      this.defaultPortal = name;
+    }
+    logger.log(
+      `Registered portal ${name}${portal.url ? ` (${portal.url})` : ""}`
+    );
+  }
+
+  /**
+   * Get the name of the portal used when a tool call does not name one
+   */
+  getDefaultPortal(): string {
+    return this.defaultPortal as string;
+  }
+
+  /**
+   * Get the configuration of all registered portals
+   */
+  getPortals(): PortalConfig[] {
+    return [...this.portals.values()];
+  }
+
+  /**
+   * Resolve a portal name, falling back to the default portal
+   * @param name Optional portal name, case-insensitive
+   * @returns The registered portal name
+   * @throws Error if no portal has this name
+   */
+  resolvePortal(name?: string): string {
+    if (!name) {
+      return this.getDefaultPortal();
+    }
+    const normalizedName = this.normalizeName(name);
+    if (!this.portals.has(normalizedName)) {
+      throw new Error(
+        `Unknown portal "${name}". Available portals: ${[
+          ...this.portals.keys(),
+        ].join(", ")}`
+      );
+    }
+    return normalizedName;
+  }
+
+  /**
+   * Find the configured portal serving an API URL
+   * @param url The API base URL, with or without protocol
+   * @returns The portal name, or undefined if no portal serves this URL
+   */
+  findPortalByUrl(url: string): string | undefined {
+    const normalizedUrl = this.normalizeUrl(url);
+    return this.getPortals().find(
+      (portal) => portal.url && this.normalizeUrl(portal.url) === normalizedUrl
+    )?.name;
+  }
+
+  /**
+   * Get the API client of a portal
+   * @param name Optional portal name, defaults to the default portal
+   */
+  getApi(name?: string): ERegulationsApi {
+    return this.apis.get(this.resolvePortal(name)) as ERegulationsApi;
+  }
+
+  /**
+   * Get the currency and number locale of a portal, loaded once. Falls back
+   * to the runtime defaults when the portal settings cannot be loaded, and
+   * tries loading them again on the next call.
+   * @param name Optional portal name, defaults to the default portal
+   */
+  getLocale(name?: string): Promise<PortalLocale> {
+    const portal = this.resolvePortal(name);
+    let locale = this.locales.get(portal);
+    if (!locale) {
+      locale = this.getApi(portal)
+        .getPortalLocale()
+        .then((portalLocale) => {
+          logger.log(
+            `Using currency ${portalLocale.currency || "(none)"} and locale ${
+              portalLocale.locale || "(default)"
+            } for portal ${portal}`
+          );
+          return portalLocale;
+        })
+        .catch((error) => {
+          logger.warn(
+            `Could not load the locale of portal ${portal}, using defaults:`,
+            error instanceof Error ? error.message : String(error)
+          );
+          if (this.locales.get(portal) === locale) {
+            this.locales.delete(portal);
+          }
+          return {};
+        });
+      this.locales.set(portal, locale);
+    }
+    return locale;
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  private normalizeUrl(url: string): string {
+    const trimmedUrl = url.trim().toLowerCase().replace(/\/+$/, "");
+    return /^https?:\/\//.test(trimmedUrl)
+      ? trimmedUrl
+      : `https://${trimmedUrl}`;
+  }
+}
+
+/**
+ * Parse a portal given on the command line, either as `name=url` or as a
+ * plain URL for the default portal
+ */
+export function parsePortalArg(value: string): PortalConfig {
+  const separator = value.indexOf("=");
+  // An "=" after the scheme belongs to the URL (e.g. a query string)
+  if (separator > 0 && !value.slice(0, separator).includes("://")) {
+    return {
+      name: value.slice(0, separator).trim(),
+      url: value.slice(separator + 1).trim(),
+    };
+  }
+  return { name: DEFAULT_PORTAL_NAME, url: value.trim() };
+}
+
+/**
+ * Load the portals of a configuration file such as
+ * `{ "default": "tanzania", "portals": { "tanzania": "https://..." } }`
+ * @param path Path of the JSON configuration file
+ * @throws Error if the file cannot be read or has no portals
+ */
+export function loadPortalConfig(path: string): {
+  portals: PortalConfig[];
+  defaultPortal?: string;
+} {
+  const config = JSON.parse(readFileSync(path, "utf8")) as PortalConfigFile;
+  if (!config || typeof config.portals !== "object" || !config.portals) {
+    throw new Error(`No portals defined in ${path}`);
+  }
+  return {
+    portals: Object.entries(config.portals).map(([name, url]) => ({
+      name,
+      url,
+    })),
+    ...(config.default ? { defaultPortal: config.default } : {}),
+  };
+}
+
+/**
+ * Create the portal registry from a configuration file and command-line
+ * portals, the latter taking precedence
+ * @param options API URLs (`name=url` or plain URL), configuration file
+ * and response cache options
+ */
+export function createPortalRegistry(options: {
+  apiUrls?: string[];
+  configFile?: string;
+  cache?: ResponseCacheOptions;
+}): PortalRegistry {
+  const config = options.configFile
+    ? loadPortalConfig(options.configFile)
+    : { portals: [] };
+  const portals = [
+    ...config.portals,
+    ...(options.apiUrls || []).filter(Boolean).map(parsePortalArg),
+  ];
+  return new PortalRegistry(portals, config.defaultPortal, options.cache);
+}
@@ -0,0 +1,352 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ERegulationsApi } from "./eregulations-api.js";
+import { PortalRegistry } from "./portal-registry.js";
+import { logger } from "../utils/logger.js";
+
+// Version of the snapshot layout, increased on incompatible changes
+export const SNAPSHOT_VERSION = 1;
+
+const MANIFEST_FILE = "snapshot.json";
+
+/**
+ * Default crawl configuration
+ */
+const SNAPSHOT_CONFIG = {
+  // Pages crawled at the same time, to go easy on slow portals
+  CONCURRENCY: 4,
+};
+
+/**
+ * Portal saved in a snapshot, with what was crawled
+ */
+export interface SnapshotPortal {
+  name: string;
+  url: string;
+  procedureCount: number;
+  stepCount: number;
+  // Requests that failed during the crawl
+  errors: string[];
+}
+
+/**
+ * Description of a snapshot, saved as snapshot.json next to the responses
+ * of each portal
+ */
+export interface SnapshotManifest {
+  version: number;
+  createdAt: string;
+  default?: string;
+  portals: SnapshotPortal[];
+}
+
+/**
+ * Crawl the portals of a registry into a snapshot. The registry must cache
+ * its responses in the snapshot directory.
+ * @param registry Registry of the portals to crawl
+ * @param path Snapshot directory, the cache directory of the registry
+ * @param onProgress Optional callback receiving progress messages
+ * @returns The manifest of the snapshot
+ */
+export async function exportSnapshot(
+  registry: PortalRegistry,
+  path: string,
+  onProgress: (message: string) => void = () => {}
+): Promise<SnapshotManifest> {
+  const portals: SnapshotPortal[] = [];
+  for (const portal of registry.getPortals()) {
+    if (!portal.url) {
+      throw new Error(
+        `Cannot snapshot portal ${portal.name} without an API URL`
+      );
+    }
+    onProgress(`Crawling portal ${portal.name} (${portal.url})...`);
+    const crawled = await crawlPortal(registry.getApi(portal.name), onProgress);
+    portals.push({ name: portal.name, url: portal.url, ...crawled });
+    onProgress(
+      `Saved ${crawled.procedureCount} procedures and ${crawled.stepCount} steps of portal ${portal.name} (${crawled.errors.length} errors)`
+    );
+  }
+
+  const manifest: SnapshotManifest = {
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    default: registry.getDefaultPortal(),
+    portals,
+  };
+  await mkdir(path, { recursive: true });
+  await writeFile(
+    join(path, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2),
+    "utf8"
+  );
+  return manifest;
+}
+
+/**
+ * Crawl items a few at a time
+ */
+async function crawlInBatches<T>(
+  items: T[],
+  crawl: (item: T) => Promise<unknown>
+): Promise<void> {
+  for (let i = 0; i < items.length; i += SNAPSHOT_CONFIG.CONCURRENCY) {
+    await Promise.all(
+      items.slice(i, i + SNAPSHOT_CONFIG.CONCURRENCY).map(crawl)
+    );
+  }
+}
+
+/**
+ * Fetch everything the tools need from a portal: its settings, objectives
+ * and reference lists with each of their items, and each procedure with its
+ * totals, resume, progress, administrative burden and steps. Only searches
+ * are left out, as their queries cannot be known in advance.
+ */
+async function crawlPortal(
+  api: ERegulationsApi,
+  onProgress: (message: string) => void
+): Promise<Omit<SnapshotPortal, "name" | "url">> {
+  const errors: string[] = [];
+  // Failures are recorded so that one broken page does not stop the crawl
+  const attempt = async <T>(
+    description: string,
+    request: () => Promise<T>
+  ): Promise<T | null> => {
+    try {
+      return await request();
+    } catch (error) {
+      const message = `${description}: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+      logger.warn(`Snapshot request failed for ${message}`);
+      errors.push(message);
+      return null;
+    }
+  };
+
+  await attempt("country details", () => api.getCountryDetails());
+  await attempt("country team", () => api.getCountryAbout());
+  await attempt("country contact", () => api.getCountryContact());
+  await attempt("country statistics", () => api.getCountryData());
+  await attempt("country parameters", () => api.getCountryParameters());
+
+  const filters = (await attempt("filters", () => api.getFilters())) || [];
+  await crawlInBatches(filters, (filter) =>
+    attempt(`options of filter ${filter.id}`, () =>
+      api.getFilterOptions(filter.id)
+    )
+  );
+
+  // Objectives and menus, level by level
+  const menus = new Set<number>();
+  let levels = [await attempt("objectives", () => api.getObjectiveLevel())];
+  while (levels.length > 0) {
+    const menuIds = levels.flatMap((level) =>
+      (level?.children || [])
+        .filter((child) => !child.isProcedure && !menus.has(child.id))
+        .map((child) => child.id)
+    );
+    menuIds.forEach((id) => menus.add(id));
+    levels = [];
+    await crawlInBatches(menuIds, async (id) => {
+      levels.push(
+        await attempt(`objective ${id}`, () => api.getObjectiveLevel(id))
+      );
+    });
+  }
+
+  const laws = (await attempt("laws", () => api.getLaws())) || [];
+  await crawlInBatches(laws, (law) =>
+    attempt(`law ${law.id}`, () => api.getLaw(law.id))
+  );
+
+  const procedures = (await api.getProceduresList()).filter(
+    (procedure) => procedure.isProcedure
+  );
+  if (procedures.length === 0) {
+    errors.push("procedure list: no procedures found");
+  }
+  // Tools may ask for a procedure with or without the menu it is listed under
+  const variants: { id: number; menuId?: number }[] = [
+    ...new Set(procedures.map((procedure) => procedure.id)),
+  ].map((id) => ({ id }));
+  procedures.forEach(({ id, menuId }) => {
+    if (menuId) {
+      variants.push({ id, menuId });
+    }
+  });
+
+  let procedureCount = 0;
+  let stepCount = 0;
+  // Documents and people of the steps, crawled after the procedures
+  const documentIds = new Set<number>();
+  const unitIds = new Set<number>();
+  const personIds = new Set<number>();
+  const crawlVariant = async ({
+    id,
+    menuId,
+  }: {
+    id: number;
+    menuId?: number;
+  }): Promise<void> => {
+    const label = `procedure ${id}${menuId ? ` in menu ${menuId}` : ""}`;
+    const details = await attempt(label, () =>
+      api.getProcedureById(id, menuId)
+    );
+    if (!details) {
+      return;
+    }
+    // Totals, progress and administrative burden are not menu-specific
+    let hasAbc = false;
+    if (!menuId) {
+      procedureCount++;
+      await attempt(`totals of ${label}`, () => api.getProcedureTotals(id));
+      await attempt(`progress of ${label}`, () => api.getProcedureProgress(id));
+      hasAbc = !!(await attempt(`administrative burden of ${label}`, () =>
+        api.getProcedureAbcFull(id)
+      ));
+    }
+    await attempt(`resume of ${label}`, () =>
+      api.getProcedureResume(id, menuId)
+    );
+
+    const steps = (details.data?.blocks || []).flatMap(
+      (block) => block.steps || []
+    );
+    for (const step of steps) {
+      const stepDetails = await attempt(`step ${step.id} of ${label}`, () =>
+        api.getProcedureStep(id, step.id, menuId)
+      );
+      if (!stepDetails || menuId) {
+        continue;
+      }
+      stepCount++;
+      // Portals without administrative burden would fail on every step
+      if (hasAbc) {
+        await attempt(
+          `administrative burden of step ${step.id} of ${label}`,
+          () => api.getStepAbcFull(id, step.id)
+        );
+      }
+      stepDetails.requirements?.forEach((requirement) => {
+        if (requirement?.id) {
+          documentIds.add(requirement.id);
+        }
+      });
+      if (stepDetails.contact?.unitInCharge?.id) {
+        unitIds.add(stepDetails.contact.unitInCharge.id);
+      }
+      if (stepDetails.contact?.personInCharge?.id) {
+        personIds.add(stepDetails.contact.personInCharge.id);
+      }
+    }
+  };
+
+  for (let i = 0; i < variants.length; i += SNAPSHOT_CONFIG.CONCURRENCY) {
+    await Promise.all(
+      variants.slice(i, i + SNAPSHOT_CONFIG.CONCURRENCY).map(crawlVariant)
+    );
+    onProgress(
+      `  ${Math.min(i + SNAPSHOT_CONFIG.CONCURRENCY, variants.length)}/${
+        variants.length
+      } procedure pages`
+    );
+  }
+
+  const forms = (await attempt("forms", () => api.getForms())) || [];
+  await crawlInBatches(forms, async (form) => {
+    await attempt(`form ${form.id}`, () => api.getForm(form.id));
+    documentIds.add(form.id);
+  });
+  await crawlInBatches([...documentIds], (id) =>
+    attempt(`cost of document ${id}`, () => api.getDocumentCost(id))
+  );
+
+  const institutions =
+    (await attempt("institutions", () => api.getInstitutions())) || [];
+  await crawlInBatches(institutions, async (institution) => {
+    const details = await attempt(`institution ${institution.id}`, () =>
+      api.getInstitution(institution.id)
+    );
+    details?.units?.forEach((unit) => {
+      if (unit?.id) {
+        unitIds.add(unit.id);
+      }
+    });
+  });
+  await crawlInBatches([...unitIds], async (id) => {
+    const unit = await attempt(`unit ${id}`, () => api.getUnit(id));
+    unit?.people?.forEach((person) => {
+      if (person?.id) {
+        personIds.add(person.id);
+      }
+    });
+  });
+  await crawlInBatches([...personIds], (id) =>
+    attempt(`person ${id}`, () => api.getPerson(id))
+  );
+
+  return { procedureCount, stepCount, errors };
+}
+
+/**
+ * Check that a directory can receive a new snapshot
+ * @throws Error if the directory already has files, as their cached
+ * responses would be kept instead of being fetched again
+ */
+export function assertSnapshotTarget(path: string): void {
+  if (existsSync(path) && readdirSync(path).length > 0) {
+    throw new Error(`Snapshot directory ${path} is not empty`);
+  }
+}
+
+/**
+ * Read the manifest of a snapshot
+ * @param path Snapshot directory
+ * @throws Error if the directory has no snapshot or a newer layout
+ */
+export function loadSnapshotManifest(path: string): SnapshotManifest {
+  const manifestPath = join(path, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    throw new Error(`No snapshot found in ${path}`);
+  }
+  const manifest = JSON.parse(
+    readFileSync(manifestPath, "utf8")
+  ) as SnapshotManifest;
+  if (
+    typeof manifest.version !== "number" ||
+    manifest.version > SNAPSHOT_VERSION
+  ) {
+    throw new Error(
+      `Unsupported snapshot version ${manifest.version} in ${path}, expected ${SNAPSHOT_VERSION} or lower`
+    );
+  }
+  if (!Array.isArray(manifest.portals) || manifest.portals.length === 0) {
+    throw new Error(`No portals in the snapshot of ${path}`);
+  }
+  return manifest;
+}
+
+/**
+ * Create a registry answering from a snapshot, without calling the APIs
+ * @param path Snapshot directory
+ */
+export function createSnapshotRegistry(path: string): PortalRegistry {
+  const manifest = loadSnapshotManifest(path);
+  logger.log(
+    `Serving snapshot of ${manifest.createdAt} from ${path} (${manifest.portals
+      .map((portal) => portal.name)
+      .join(", ")})`
+  );
+  return new PortalRegistry(
+    manifest.portals.map(({ name, url }) => ({ name, url })),
+    manifest.default,
+    {
+      directory: path,
+      offline: true,
+      offlineSource: `the snapshot of ${manifest.createdAt}`,
+    }
+  );
+}
@@ -0,0 +1,248 @@
+import { SearchLanguage, tokenize } from "./search-index.js";
+
+// Parameter multiplying the per-unit fees that name no other parameter
+const QUANTITY_PARAMETER = "quantity";
+// Operators of the fees charged for each unit of their parameter
+const PER_UNIT_OPERATORS = ["unit", "perunit", "per unit", "per_unit"];
+
+/**
+ * Cost of a step, as returned by getProcedureById
+ */
+export interface CostInput {
+  value?: number | string;
+  unit?: string;
+  operator?: string;
+  // What a percentage or per-unit fee applies to, e.g. "% of FOB value"
+  parameter?: string;
+  comments?: string;
+  paymentDetails?: string;
+}
+
+/**
+ * Step of a procedure block, with its costs
+ */
+export interface CostStepInput {
+  id?: number;
+  name?: string;
+  costs?: CostInput[];
+}
+
+export type CostKind = "fixed" | "percentage" | "perUnit";
+
+/**
+ * Fee of a step, evaluated with the parameters given by the user
+ */
+export interface BillItem {
+  stepId?: number;
+  // Position of the step in the procedure, from 1
+  stepNumber: number;
+  stepName?: string;
+  description?: string;
+  kind: CostKind;
+  // Amount of a fixed fee, percentage or amount per unit
+  rate: number;
+  parameter?: string;
+  // Parameter given by the user that the fee was evaluated with
+  parameterName?: string;
+  parameterValue?: number;
+  // Missing when the fee needs a parameter that was not given
+  amount?: number;
+  currency?: string;
+  paymentDetails?: string;
+}
+
+/**
+ * Itemized bill of a procedure, with its totals by currency
+ */
+export interface ProcedureBill {
+  items: BillItem[];
+  // Amounts to pay together: same currency and payment details
+  groups: {
+    currency?: string;
+    paymentDetails?: string;
+    amount: number;
+    itemCount: number;
+  }[];
+  totals: { currency?: string; amount: number }[];
+  // Fees needing a parameter that was not given, left out of the totals
+  unresolved: BillItem[];
+  // Parameters given by the user that no fee applies to
+  unusedParameters: string[];
+}
+
+/**
+ * Options of the evaluation of the costs of a procedure
+ */
+export interface CostOptions {
+  // Currency of the fees that name none: the portal currency
+  currency?: string;
+  // Currency of the values of the parameters, and so of the amounts of the
+  // percentage fees that name none, the portal currency by default
+  parameterCurrency?: string;
+  // Language of the parameters of the fees, to match them by word
+  language?: SearchLanguage;
+}
+
+/**
+ * Tell how a fee is charged from its operator and parameter
+ */
+export function getCostKind(cost: CostInput): CostKind {
+  const operator = (cost.operator || "").trim().toLowerCase();
+  if (operator === "percentage") {
+    return "percentage";
+  }
+  if (
+    PER_UNIT_OPERATORS.includes(operator) ||
+    (!operator && /^per\s/i.test((cost.parameter || "").trim()))
+  ) {
+    return "perUnit";
+  }
+  return "fixed";
+}
+
+/**
+ * Find the parameter given by the user that a fee applies to: the one whose
+ * words are all in the parameter of the fee, the most specific first
+ * @param parameter The parameter of the fee, e.g. "% of FOB value"
+ * @param names The names of the parameters given by the user
+ * @param language The language of the portal
+ */
+export function matchParameter(
+  parameter: string,
+  names: string[],
+  language: SearchLanguage = "en"
+): string | undefined {
+  const terms = new Set(tokenize(parameter, language));
+  let best: { name: string; termCount: number } | undefined;
+  names.forEach((name) => {
+    const nameTerms = tokenize(name, language);
+    if (
+      nameTerms.length > 0 &&
+      nameTerms.every((term) => terms.has(term)) &&
+      (!best || nameTerms.length > best.termCount)
+    ) {
+      best = { name, termCount: nameTerms.length };
+    }
+  });
+  return best?.name;
+}
+
+/**
+ * Evaluate the costs of the steps of a procedure into an itemized bill.
+ * Fixed fees are charged as they are, percentage fees on the value of
+ * their parameter, and per-unit fees for each unit of their parameter, or
+ * of the quantity when their parameter is not given.
+ * @param blocks The blocks of the procedure, with their steps
+ * @param parameters Values given by the user, e.g. { "FOB value": 10000 }
+ * @param options The currencies of the fees and of the parameters, and the
+ * language of the portal
+ */
+export function calculateProcedureCost(
+  blocks: { steps?: CostStepInput[] }[] = [],
+  parameters: Record<string, number> = {},
+  options: CostOptions = {}
+): ProcedureBill {
+  const names = Object.keys(parameters);
+  const used = new Set<string>();
+  const items: BillItem[] = [];
+  const unresolved: BillItem[] = [];
+
+  blocks
+    .flatMap((block) => block.steps || [])
+    .forEach((step, index) => {
+      (step.costs || []).forEach((cost) => {
+        const rate = Number(cost.value);
+        if (!rate) {
+          return;
+        }
+
+        const kind = getCostKind(cost);
+        const item: BillItem = {
+          ...(step.id !== undefined ? { stepId: step.id } : {}),
+          stepNumber: index + 1,
+          ...(step.name ? { stepName: step.name } : {}),
+          ...(cost.comments ? { description: cost.comments } : {}),
+          kind,
+          rate,
+          ...(cost.parameter ? { parameter: cost.parameter } : {}),
+          ...(cost.paymentDetails
+            ? { paymentDetails: cost.paymentDetails }
+            : {}),
+        };
+
+        if (kind === "fixed") {
+          const currency = cost.unit || options.currency;
+          items.push({
+            ...item,
+            amount: rate,
+            ...(currency ? { currency } : {}),
+          });
+          return;
+        }
+
+        const parameterName =
+          matchParameter(cost.parameter || "", names, options.language) ||
+          (kind === "perUnit"
+            ? names.find((name) => name.toLowerCase() === QUANTITY_PARAMETER)
+            : undefined);
+        // A percentage is not a currency: it is charged in the currency of
+        // its parameter
+        const currency =
+          kind === "percentage"
+            ? (cost.unit?.trim() === "%" ? undefined : cost.unit) ||
+              options.parameterCurrency ||
+              options.currency
+            : cost.unit || options.currency;
+        const evaluated: BillItem = {
+          ...item,
+          ...(currency ? { currency } : {}),
+        };
+        if (parameterName === undefined) {
+          unresolved.push(evaluated);
+          return;
+        }
+
+        used.add(parameterName);
+        const parameterValue = parameters[parameterName];
+        items.push({
+          ...evaluated,
+          parameterName,
+          parameterValue,
+          amount:
+            kind === "percentage"
+              ? (rate * parameterValue) / 100
+              : rate * parameterValue,
+        });
+      });
+    });
+
+  const groups = new Map<string, ProcedureBill["groups"][number]>();
+  const totals = new Map<string, ProcedureBill["totals"][number]>();
+  items.forEach((item) => {
+    const key = `${item.currency || ""}\n${item.paymentDetails || ""}`;
+    const group = groups.get(key) || {
+      ...(item.currency ? { currency: item.currency } : {}),
+      ...(item.paymentDetails ? { paymentDetails: item.paymentDetails } : {}),
+      amount: 0,
+      itemCount: 0,
+    };
+    group.amount += item.amount!;
+    group.itemCount++;
+    groups.set(key, group);
+
+    const total = totals.get(item.currency || "") || {
+      ...(item.currency ? { currency: item.currency } : {}),
+      amount: 0,
+    };
+    total.amount += item.amount!;
+    totals.set(item.currency || "", total);
+  });
+
+  return {
+    items,
+    groups: [...groups.values()],
+    totals: [...totals.values()],
+    unresolved,
+    unusedParameters: names.filter((name) => !used.has(name)),
+  };
+}
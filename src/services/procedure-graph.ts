@@ -0,0 +1,494 @@
+import { ERegulationsApi } from "./eregulations-api.js";
+import { PortalMemo } from "./portal-memo.js";
+import { IndexedProcedure, listPortalProcedures } from "./procedure-search.js";
+import {
+  SearchLanguage,
+  editDistance,
+  removeAccents,
+  tokenize,
+} from "./search-index.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Default procedure graph configuration
+ */
+const GRAPH_CONFIG = {
+  // Procedures fetched at the same time while building the graph
+  CONCURRENCY: 4,
+  // Age after which the graph is built again from the API
+  TTL: 60 * 60 * 1000,
+  // Share of the words of two document names that must match for them to
+  // be considered the same document
+  MIN_SIMILARITY: 0.75,
+  // Documents produced by more procedures, such as receipts, are too
+  // generic to tell which procedure comes first
+  MAX_PRODUCERS: 5,
+  // Levels of prerequisites followed from a procedure
+  MAX_DEPTH: 8,
+};
+
+/**
+ * Document required or produced by a step of a procedure
+ */
+export interface StepDocument {
+  name: string;
+  stepId: number;
+  stepName?: string;
+  isFinalResult?: boolean;
+}
+
+/**
+ * Documents required and produced by the steps of a procedure
+ */
+export interface ProcedureDocuments extends IndexedProcedure {
+  requirements: StepDocument[];
+  results: StepDocument[];
+}
+
+/**
+ * A requirement of a procedure fulfilled by a result of another one
+ */
+export interface DocumentLink {
+  requirement: StepDocument;
+  result: StepDocument;
+  // Procedure requiring the document
+  procedureId: number;
+  // 1 when the names are the same once normalized
+  similarity: number;
+}
+
+/**
+ * Procedure to complete before another one, with the documents it provides
+ */
+export interface PrerequisiteProcedure extends IndexedProcedure {
+  // Levels of prerequisites between it and the procedure asked for, from 1
+  depth: number;
+  provides: DocumentLink[];
+}
+
+/**
+ * Procedures to complete before a procedure, in the order to complete them
+ */
+export interface PrerequisitePath {
+  procedure: IndexedProcedure;
+  path: PrerequisiteProcedure[];
+  // Other procedures producing a document provided by the path
+  alternatives: {
+    requirement: string;
+    procedureId: number;
+    procedures: IndexedProcedure[];
+  }[];
+  // Requirements of the procedure that no other procedure produces
+  unmatchedRequirements: string[];
+  indexedCount: number;
+}
+
+/**
+ * Collect the acronyms defined in document names, such as TIN in
+ * "Tax Identification Number (TIN) certificate"
+ * @param names The document names of a portal
+ * @returns The words of each acronym, by acronym
+ */
+export function collectAcronyms(names: string[]): Map<string, string> {
+  const acronyms = new Map<string, string>();
+  names.forEach((name) => {
+    for (const match of name.matchAll(/\((\p{Lu}{2,6})\)/gu)) {
+      const acronym = match[1];
+      const words = name
+        .slice(0, match.index)
+        .trim()
+        .split(/\s+/)
+        .slice(-acronym.length);
+      if (
+        words.length === acronym.length &&
+        words.every(
+          (word, i) => removeAccents(word[0] || "").toUpperCase() === acronym[i]
+        )
+      ) {
+        acronyms.set(acronym, words.join(" "));
+      }
+    }
+  });
+  return acronyms;
+}
+
+/**
+ * Normalize a document name to compare it with others: acronyms are spelled
+ * out, and the words are normalized and stemmed without stop words
+ * @param name The document name
+ * @param acronyms The acronyms of the portal, from collectAcronyms
+ * @param language The language of the portal
+ */
+export function getDocumentTerms(
+  name: string,
+  acronyms: Map<string, string>,
+  language: SearchLanguage = "en"
+): string[] {
+  const spelledOut = name
+    .replace(/\((\p{Lu}{2,6})\)/gu, (match, acronym) =>
+      acronyms.has(acronym) ? "" : match
+    )
+    .replace(/\b\p{Lu}{2,6}\b/gu, (word) => acronyms.get(word) || word);
+  return [...new Set(tokenize(spelledOut, language))];
+}
+
+/**
+ * Similarity of two document names from their terms: the share of terms
+ * found in both, where terms of 5 letters or more may differ by one typo
+ * (Dice coefficient)
+ */
+export function getDocumentSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  const remaining = [...b];
+  let matched = 0;
+  a.forEach((term) => {
+    const index = remaining.findIndex(
+      (other) =>
+        other === term ||
+        (term.length >= 5 &&
+          other.length >= 5 &&
+          editDistance(term, other, 1) <= 1)
+    );
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      matched++;
+    }
+  });
+  return (2 * matched) / (a.length + b.length);
+}
+
+/**
+ * Graph from the documents produced by the procedures of a portal to the
+ * procedures requiring them
+ */
+export class ProcedureGraph {
+  private procedures = new Map<number, ProcedureDocuments>();
+  private acronyms: Map<string, string>;
+  // Results of every procedure, with their terms, by term
+  private resultsByTerm = new Map<
+    string,
+    { procedureId: number; result: StepDocument; terms: string[] }[]
+  >();
+
+  constructor(
+    procedures: ProcedureDocuments[],
+    private language: SearchLanguage = "en"
+  ) {
+    procedures.forEach((procedure) =>
+      this.procedures.set(procedure.id, procedure)
+    );
+    this.acronyms = collectAcronyms(
+      procedures.flatMap((procedure) =>
+        [...procedure.requirements, ...procedure.results].map(
+          (document) => document.name
+        )
+      )
+    );
+    procedures.forEach((procedure) =>
+      procedure.results.forEach((result) => {
+        const entry = {
+          procedureId: procedure.id,
+          result,
+          terms: this.getTerms(result.name),
+        };
+        entry.terms.forEach((term) => {
+          const entries = this.resultsByTerm.get(term) || [];
+          entries.push(entry);
+          this.resultsByTerm.set(term, entries);
+        });
+      })
+    );
+  }
+
+  get size(): number {
+    return this.procedures.size;
+  }
+
+  getProcedure(procedureId: number): ProcedureDocuments | undefined {
+    return this.procedures.get(procedureId);
+  }
+
+  /**
+   * Find the procedures producing a document required by a procedure, the
+   * best match first
+   * @param requirement The document required
+   * @param procedureId The procedure requiring it, left out of the producers
+   */
+  findProducers(
+    requirement: StepDocument,
+    procedureId: number
+  ): { procedureId: number; link: DocumentLink }[] {
+    const terms = this.getTerms(requirement.name);
+    const candidates = new Set(
+      terms.flatMap((term) => this.resultsByTerm.get(term) || [])
+    );
+
+    // Best result of each procedure
+    const producers = new Map<number, DocumentLink>();
+    candidates.forEach((candidate) => {
+      if (candidate.procedureId === procedureId) {
+        return;
+      }
+      const similarity = getDocumentSimilarity(terms, candidate.terms);
+      const best = producers.get(candidate.procedureId);
+      if (
+        similarity >= GRAPH_CONFIG.MIN_SIMILARITY &&
+        (!best || similarity > best.similarity)
+      ) {
+        producers.set(candidate.procedureId, {
+          requirement,
+          result: candidate.result,
+          procedureId,
+          similarity,
+        });
+      }
+    });
+
+    if (producers.size > GRAPH_CONFIG.MAX_PRODUCERS) {
+      return [];
+    }
+    return [...producers]
+      .map(([producerId, link]) => ({ procedureId: producerId, link }))
+      .sort(
+        (a, b) =>
+          b.link.similarity - a.link.similarity ||
+          Number(!!b.link.result.isFinalResult) -
+            Number(!!a.link.result.isFinalResult) ||
+          a.procedureId - b.procedureId
+      );
+  }
+
+  /**
+   * Find the procedures to complete before a procedure: the procedures
+   * producing its requirements, preceded by their own prerequisites. When
+   * several procedures produce a document, the best match is followed and
+   * the others are listed as alternatives. Cycles are broken by leaving out
+   * the procedures already being followed.
+   * @param target The procedure, with its documents
+   */
+  getPrerequisites(target: ProcedureDocuments): PrerequisitePath {
+    const path: PrerequisiteProcedure[] = [];
+    const byId = new Map<number, PrerequisiteProcedure>();
+    const alternatives: PrerequisitePath["alternatives"] = [];
+    const unmatchedRequirements: string[] = [];
+    const visiting = new Set<number>();
+
+    const visit = (procedure: ProcedureDocuments, depth: number) => {
+      visiting.add(procedure.id);
+      const seen = new Set<string>();
+      const ownResults = procedure.results.map((result) =>
+        this.getTerms(result.name)
+      );
+      procedure.requirements.forEach((requirement) => {
+        const terms = this.getTerms(requirement.name);
+        const key = terms.join(" ");
+        // Documents produced by another step of the procedure itself
+        if (
+          seen.has(key) ||
+          ownResults.some(
+            (resultTerms) =>
+              getDocumentSimilarity(terms, resultTerms) >=
+              GRAPH_CONFIG.MIN_SIMILARITY
+          )
+        ) {
+          return;
+        }
+        seen.add(key);
+
+        const producers = this.findProducers(requirement, procedure.id).filter(
+          (producer) => !visiting.has(producer.procedureId)
+        );
+        if (producers.length === 0) {
+          if (procedure.id === target.id) {
+            unmatchedRequirements.push(requirement.name);
+          }
+          return;
+        }
+
+        const [best, ...others] = producers;
+        if (others.length > 0) {
+          alternatives.push({
+            requirement: requirement.name,
+            procedureId: procedure.id,
+            procedures: others.map(({ procedureId }) =>
+              this.toIndexedProcedure(this.procedures.get(procedureId)!)
+            ),
+          });
+        }
+
+        let prerequisite = byId.get(best.procedureId);
+        if (!prerequisite) {
+          const producer = this.procedures.get(best.procedureId)!;
+          if (depth < GRAPH_CONFIG.MAX_DEPTH) {
+            visit(producer, depth + 1);
+          }
+          prerequisite = {
+            ...this.toIndexedProcedure(producer),
+            depth,
+            provides: [],
+          };
+          byId.set(producer.id, prerequisite);
+          // After its own prerequisites
+          path.push(prerequisite);
+        }
+        prerequisite.provides.push(best.link);
+      });
+      visiting.delete(procedure.id);
+    };
+
+    visit(target, 1);
+
+    return {
+      procedure: this.toIndexedProcedure(target),
+      path,
+      alternatives,
+      unmatchedRequirements,
+      indexedCount: this.procedures.size,
+    };
+  }
+
+  private getTerms(name: string): string[] {
+    return getDocumentTerms(name, this.acronyms, this.language);
+  }
+
+  private toIndexedProcedure({
+    requirements,
+    results,
+    ...procedure
+  }: ProcedureDocuments): IndexedProcedure {
+    return procedure;
+  }
+}
+
+// One graph per API client, shared by all sessions of a portal
+const graphs = new PortalMemo<ProcedureGraph, SearchLanguage>(
+  buildProcedureGraph,
+  GRAPH_CONFIG.TTL
+);
+
+/**
+ * Collect the documents required and produced by the steps of a procedure
+ * @param procedure The procedure, as returned by getProcedureById
+ */
+export function collectProcedureDocuments(
+  procedure: Awaited<ReturnType<ERegulationsApi["getProcedureById"]>>
+): Pick<ProcedureDocuments, "requirements" | "results"> {
+  const steps = (procedure.data?.blocks || []).flatMap(
+    (block) => block.steps || []
+  );
+  const toDocuments = (
+    step: (typeof steps)[number],
+    documents: { name: string; isFinalResult?: boolean }[] = []
+  ): StepDocument[] =>
+    documents
+      .filter((document) => document?.name)
+      .map((document) => ({
+        name: document.name,
+        stepId: step.id,
+        stepName: step.name,
+        ...(document.isFinalResult ? { isFinalResult: true } : {}),
+      }));
+
+  return {
+    requirements: steps.flatMap((step) => toDocuments(step, step.requirements)),
+    results: steps.flatMap((step) => toDocuments(step, step.results)),
+  };
+}
+
+/**
+ * Crawl the procedures of a portal and link their documents
+ */
+async function buildProcedureGraph(
+  api: ERegulationsApi,
+  language: SearchLanguage
+): Promise<ProcedureGraph> {
+  logger.log("Building the procedure dependency graph...");
+  const listed = await listPortalProcedures(api);
+
+  // A procedure listed under several menus is crawled once
+  const entries = new Map<number, IndexedProcedure>();
+  listed.forEach((procedure) => {
+    if (!entries.has(procedure.id)) {
+      entries.set(procedure.id, {
+        id: procedure.id,
+        name: procedure.name,
+        ...(procedure.fullName ? { fullName: procedure.fullName } : {}),
+        ...(procedure.menuId ? { menuId: procedure.menuId } : {}),
+      });
+    }
+  });
+
+  const procedures: ProcedureDocuments[] = [];
+  const queue = [...entries.values()];
+  for (let i = 0; i < queue.length; i += GRAPH_CONFIG.CONCURRENCY) {
+    const batch = await Promise.all(
+      queue.slice(i, i + GRAPH_CONFIG.CONCURRENCY).map(async (entry) => {
+        // Procedures whose details cannot be fetched are left out
+        try {
+          return {
+            ...entry,
+            ...collectProcedureDocuments(await api.getProcedureById(entry.id)),
+          };
+        } catch (error) {
+          logger.warn(
+            `Could not fetch procedure ${entry.id} for the dependency graph:`,
+            error
+          );
+          return null;
+        }
+      })
+    );
+    procedures.push(
+      ...batch.filter(
+        (procedure): procedure is ProcedureDocuments => !!procedure
+      )
+    );
+  }
+
+  const graph = new ProcedureGraph(procedures, language);
+  logger.log(`Linked the documents of ${graph.size} procedures`);
+  return graph;
+}
+
+/**
+ * Get the dependency graph of the procedures of a portal, built on first
+ * use and rebuilt once expired
+ * @param api The API client of the portal
+ * @param language The language of the procedures of the portal
+ */
+export function getProcedureGraph(
+  api: ERegulationsApi,
+  language: SearchLanguage = "en"
+): Promise<ProcedureGraph> {
+  return graphs.get(api, language);
+}
+
+/**
+ * Find the procedures to complete before a procedure of a portal, in order
+ * @param api The API client of the portal
+ * @param procedureId The procedure
+ * @param language The language of the procedures of the portal
+ */
+export async function findPrerequisiteProcedures(
+  api: ERegulationsApi,
+  procedureId: number,
+  language: SearchLanguage = "en"
+): Promise<PrerequisitePath> {
+  const graph = await getProcedureGraph(api, language);
+
+  // Procedures only reachable from a menu are not in the graph
+  let target = graph.getProcedure(procedureId);
+  if (!target) {
+    const procedure = await api.getProcedureById(procedureId);
+    target = {
+      id: procedureId,
+      name: procedure.name,
+      ...(procedure.fullName ? { fullName: procedure.fullName } : {}),
+      ...collectProcedureDocuments(procedure),
+    };
+  }
+
+  return graph.getPrerequisites(target);
+}
@@ -0,0 +1,269 @@
+import { ERegulationsApi } from "./eregulations-api.js";
+import { PortalMemo } from "./portal-memo.js";
+import { SearchIndex, SearchLanguage, SearchSnippet } from "./search-index.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Default procedure index configuration
+ */
+const INDEX_CONFIG = {
+  // Procedures fetched at the same time while building the index
+  CONCURRENCY: 4,
+  // Age after which the index is built again from the API
+  TTL: 60 * 60 * 1000,
+  FIELD_WEIGHTS: {
+    name: 3,
+    path: 1.5,
+    description: 1,
+    steps: 1,
+    requirements: 0.8,
+    institutions: 0.8,
+  },
+};
+
+/**
+ * Procedure of the search index, as listed by the portal
+ */
+export interface IndexedProcedure {
+  id: number;
+  name: string;
+  fullName?: string;
+  menuId?: number;
+}
+
+/**
+ * Texts of a procedure and of its steps, to index
+ */
+export interface ProcedureTexts extends IndexedProcedure {
+  // Objective paths of the menus listing the procedure
+  paths: string[];
+  descriptions: string[];
+  steps: string[];
+  requirements: string[];
+  institutions: string[];
+}
+
+/**
+ * Procedure matching a local search, with its relevance score and the
+ * highlighted texts it matched
+ */
+export interface ProcedureSearchHit extends IndexedProcedure {
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Ranked results of a local procedure search
+ */
+export interface ProcedureSearchResults {
+  query: string;
+  total: number;
+  indexedCount: number;
+  // Query words not found, mapped to the words matched instead
+  corrections: Record<string, string[]>;
+  hits: ProcedureSearchHit[];
+}
+
+/**
+ * Full-text index of the procedures of a portal
+ */
+interface ProcedureIndex {
+  index: SearchIndex;
+  procedures: Map<string, IndexedProcedure>;
+}
+
+// One index per API client, shared by all sessions of a portal
+const indexes = new PortalMemo<ProcedureIndex, SearchLanguage>(
+  buildProcedureIndex,
+  INDEX_CONFIG.TTL
+);
+
+/**
+ * List the procedures of a portal, without its menus
+ * @param api The API client of the portal
+ * @throws Error if no procedures are listed, as the list is empty when the
+ * portal cannot be reached
+ */
+export async function listPortalProcedures(
+  api: ERegulationsApi
+): Promise<Awaited<ReturnType<ERegulationsApi["getProceduresList"]>>> {
+  const listed = (await api.getProceduresList()).filter(
+    (procedure) => procedure.isProcedure
+  );
+  if (listed.length === 0) {
+    throw new Error("No procedures could be listed");
+  }
+  return listed;
+}
+
+/**
+ * Collect the texts describing the procedures of a portal: their names,
+ * objective paths and descriptions, and the names of their steps,
+ * requirements and institutions
+ * @param api The API client of the portal
+ * @returns One entry per procedure, even when listed under several menus
+ */
+export async function collectProcedureTexts(
+  api: ERegulationsApi
+): Promise<ProcedureTexts[]> {
+  const listed = await listPortalProcedures(api);
+
+  // A procedure listed under several menus is collected once, with all paths
+  const procedures = new Map<
+    string,
+    IndexedProcedure & { paths: string[]; description?: string }
+  >();
+  listed.forEach((procedure) => {
+    const key = String(procedure.id);
+    const existing = procedures.get(key);
+    if (existing) {
+      existing.paths.push(procedure.fullName || procedure.name);
+      return;
+    }
+    procedures.set(key, {
+      id: procedure.id,
+      name: procedure.name,
+      ...(procedure.fullName ? { fullName: procedure.fullName } : {}),
+      ...(procedure.menuId ? { menuId: procedure.menuId } : {}),
+      paths: [procedure.fullName || procedure.name],
+      ...(procedure.description ? { description: procedure.description } : {}),
+    });
+  });
+
+  const entries = [...procedures.values()];
+  const texts: ProcedureTexts[] = [];
+  for (let i = 0; i < entries.length; i += INDEX_CONFIG.CONCURRENCY) {
+    const batch = await Promise.all(
+      entries
+        .slice(i, i + INDEX_CONFIG.CONCURRENCY)
+        .map(async ({ description, ...entry }) => {
+          // Procedures whose details cannot be fetched are still found by name
+          const details = await api
+            .getProcedureById(entry.id)
+            .catch((error) => {
+              logger.warn(
+                `Could not fetch procedure ${entry.id} for the search index:`,
+                error
+              );
+              return null;
+            });
+          const steps = (details?.data?.blocks || []).flatMap(
+            (block) => block.steps || []
+          );
+          const unique = (values: (string | undefined)[]) =>
+            [...new Set(values)].filter((value): value is string => !!value);
+
+          return {
+            ...entry,
+            descriptions: unique([
+              description,
+              details?.description,
+              details?.explanatoryText,
+            ]),
+            steps: unique(steps.map((step) => step.name)),
+            requirements: unique(
+              steps.flatMap((step) =>
+                (step.requirements || []).map((requirement) => requirement.name)
+              )
+            ),
+            institutions: unique(
+              steps.flatMap((step) => [
+                step.contact?.entityInCharge?.name,
+                step.contact?.unitInCharge?.name,
+              ])
+            ),
+          };
+        })
+    );
+    texts.push(...batch);
+  }
+  return texts;
+}
+
+/**
+ * Index the texts of the procedures of a portal
+ */
+async function buildProcedureIndex(
+  api: ERegulationsApi,
+  language: SearchLanguage
+): Promise<ProcedureIndex> {
+  logger.log("Building the local procedure search index...");
+  const texts = await collectProcedureTexts(api);
+
+  const index = new SearchIndex({
+    fieldWeights: INDEX_CONFIG.FIELD_WEIGHTS,
+    titleFields: ["name"],
+    language,
+  });
+  texts.forEach((procedure) =>
+    index.add({
+      id: String(procedure.id),
+      fields: {
+        name: [procedure.name],
+        path: procedure.paths,
+        description: procedure.descriptions,
+        steps: procedure.steps,
+        requirements: procedure.requirements,
+        institutions: procedure.institutions,
+      },
+    })
+  );
+
+  logger.log(`Indexed ${index.size} procedures for local search`);
+  return {
+    index,
+    procedures: new Map(
+      texts.map(
+        ({
+          paths,
+          descriptions,
+          steps,
+          requirements,
+          institutions,
+          ...procedure
+        }) => [String(procedure.id), procedure]
+      )
+    ),
+  };
+}
+
+/**
+ * Get the search index of the procedures of a portal, built on first use
+ * and rebuilt once expired
+ * @param api The API client of the portal
+ * @param language The language of the procedures of the portal
+ */
+export function getProcedureIndex(
+  api: ERegulationsApi,
+  language: SearchLanguage = "en"
+): Promise<ProcedureIndex> {
+  return indexes.get(api, language);
+}
+
+/**
+ * Search the procedures of a portal with the local full-text index
+ * @param api The API client of the portal
+ * @param query Words, all required, and optional "quoted phrases"
+ * @param limit Maximum number of results
+ * @param language The language of the procedures of the portal
+ */
+export async function searchProceduresLocally(
+  api: ERegulationsApi,
+  query: string,
+  limit = 10,
+  language: SearchLanguage = "en"
+): Promise<ProcedureSearchResults> {
+  const { index, procedures } = await getProcedureIndex(api, language);
+  const results = index.search(query, limit);
+  return {
+    query,
+    total: results.total,
+    indexedCount: index.size,
+    corrections: results.corrections,
+    hits: results.matches.map((match) => ({
+      ...(procedures.get(match.id) as IndexedProcedure),
+      score: match.score,
+      snippets: match.snippets,
+    })),
+  };
+}
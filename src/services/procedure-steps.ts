@@ -0,0 +1,66 @@
+import { ERegulationsApi } from "./eregulations-api.js";
+import { logger } from "../utils/logger.js";
+
+type ProcedureDetails = Awaited<
+  ReturnType<ERegulationsApi["getProcedureById"]>
+>;
+type ProcedureBlock = NonNullable<
+  NonNullable<ProcedureDetails["data"]>["blocks"]
+>[number];
+type ProcedureStep = NonNullable<ProcedureBlock["steps"]>[number];
+
+/**
+ * Blocks of a procedure, their steps completed with their step page
+ */
+export interface CompletedProcedureBlocks {
+  blocks: (ProcedureBlock & { steps: ProcedureStep[] })[];
+  // Steps whose page could not be fetched, left as the procedure lists them
+  incompleteStepIds: number[];
+}
+
+/**
+ * Complete the steps of a procedure with their step page, as the procedure
+ * does not always list all their details, such as their costs or timeframe
+ * @param api The API client of the portal
+ * @param procedureId The procedure
+ * @param procedure The procedure, as returned by getProcedureById
+ * @param needsStepPage Whether a step lacks the details needed
+ * @param menuId The menu the procedure was fetched under
+ */
+export async function completeProcedureSteps(
+  api: ERegulationsApi,
+  procedureId: number,
+  procedure: ProcedureDetails,
+  needsStepPage: (step: ProcedureStep) => boolean,
+  menuId?: number
+): Promise<CompletedProcedureBlocks> {
+  const incompleteStepIds: number[] = [];
+  const blocks = await Promise.all(
+    (procedure.data?.blocks || []).map(async (block) => ({
+      ...block,
+      steps: await Promise.all(
+        (block.steps || []).map(async (step) => {
+          if (!step.id || !needsStepPage(step)) {
+            return step;
+          }
+          try {
+            const stepPage = await api.getProcedureStep(
+              procedureId,
+              step.id,
+              menuId
+            );
+            return { ...step, ...stepPage };
+          } catch (error) {
+            logger.warn(
+              `Could not fetch step ${step.id} of procedure ${procedureId}:`,
+              error
+            );
+            incompleteStepIds.push(step.id);
+            return step;
+          }
+        })
+      ),
+    }))
+  );
+  return { blocks, incompleteStepIds };
+}
@@ -0,0 +1,143 @@
+// Counter and queue times are added to the processing days
+const MINUTES_PER_DAY = 60 * 24;
+
+/**
+ * Step of a procedure block, as returned by getProcedureById
+ */
+export interface TimelineStepInput {
+  id?: number;
+  name?: string;
+  isOptional?: boolean;
+  isParallel?: boolean;
+  timeframe?: {
+    timeSpentAtTheCounter?: { minutes?: { max: number } };
+    waitingTimeInLine?: { minutes?: { max: number } };
+    waitingTimeUntilNextStep?: { days?: { max: number } };
+  };
+}
+
+/**
+ * Step scheduled on the timeline of a procedure, in days from its start
+ */
+export interface TimelineStep {
+  id?: number;
+  name?: string;
+  // Position of the step in the procedure, from 1
+  stepNumber: number;
+  blockIndex: number;
+  // Steps of the same group run at the same time
+  groupIndex: number;
+  isOptional: boolean;
+  isParallel: boolean;
+  // False when the step has no timeframe, and so takes no time
+  hasTimeframe: boolean;
+  // Time at the counter and waiting in line
+  minutes: number;
+  // Waiting time until the next step
+  days: number;
+  duration: number;
+  start: number;
+  end: number;
+  isCritical: boolean;
+}
+
+/**
+ * Schedule of the steps of a procedure
+ */
+export interface ProcedureTimeline {
+  steps: TimelineStep[];
+  // Without the optional steps, parallel steps at the same time
+  minimumDays: number;
+  // Every step one after the other
+  maximumDays: number;
+  // Every step, parallel steps at the same time
+  criticalPathDays: number;
+  criticalPathMinutes: number;
+  criticalPathStepIds: number[];
+  stepsWithoutTimeframe: number[];
+}
+
+/**
+ * Schedule the steps of a procedure. Blocks follow each other, and so do
+ * the steps of a block, except that a parallel step runs at the same time
+ * as the step before it: each group of steps ends with its longest step,
+ * which is on the critical path. The steps of an optional block are
+ * optional.
+ * @param blocks The blocks of the procedure, with their steps
+ * @returns The steps with their start and end, and the total durations
+ */
+export function buildProcedureTimeline(
+  blocks: { isOptional?: boolean; steps?: TimelineStepInput[] }[] = []
+): ProcedureTimeline {
+  const groups: TimelineStep[][] = [];
+  let stepNumber = 1;
+
+  blocks.forEach((block, blockIndex) => {
+    (block.steps || []).forEach((step, index) => {
+      const minutes =
+        (step.timeframe?.timeSpentAtTheCounter?.minutes?.max || 0) +
+        (step.timeframe?.waitingTimeInLine?.minutes?.max || 0);
+      const days = step.timeframe?.waitingTimeUntilNextStep?.days?.max || 0;
+      const scheduled: TimelineStep = {
+        id: step.id,
+        name: step.name,
+        stepNumber: stepNumber++,
+        blockIndex,
+        groupIndex: 0,
+        isOptional: !!(step.isOptional || block.isOptional),
+        isParallel: !!step.isParallel,
+        hasTimeframe: minutes > 0 || days > 0,
+        minutes,
+        days,
+        duration: days + minutes / MINUTES_PER_DAY,
+        start: 0,
+        end: 0,
+        isCritical: false,
+      };
+
+      // The first step of a block has no step to run along with
+      if (scheduled.isParallel && index > 0) {
+        groups[groups.length - 1].push(scheduled);
+      } else {
+        groups.push([scheduled]);
+      }
+    });
+  });
+
+  let criticalPathDays = 0;
+  let minimumDays = 0;
+  let criticalPathMinutes = 0;
+  groups.forEach((group, groupIndex) => {
+    let longest = group[0];
+    group.forEach((step) => {
+      step.groupIndex = groupIndex;
+      step.start = criticalPathDays;
+      step.end = criticalPathDays + step.duration;
+      if (step.duration > longest.duration) {
+        longest = step;
+      }
+    });
+    longest.isCritical = true;
+    criticalPathDays = longest.end;
+    criticalPathMinutes += longest.minutes;
+    minimumDays += Math.max(
+      0,
+      ...group.filter((step) => !step.isOptional).map((step) => step.duration)
+    );
+  });
+
+  const steps = groups.flat();
+  return {
+    steps,
+    minimumDays,
+    maximumDays: steps.reduce((total, step) => total + step.duration, 0),
+    criticalPathDays,
+    criticalPathMinutes,
+    criticalPathStepIds: steps
+      .filter((step) => step.isCritical && step.id !== undefined)
+      .map((step) => step.id!),
+    stepsWithoutTimeframe: steps
+      .filter((step) => !step.hasTimeframe && step.id !== undefined)
+      .map((step) => step.id!),
+  };
+}
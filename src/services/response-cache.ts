@@ -0,0 +1,312 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { logger } from "../utils/logger.js";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Default cache configuration
+ */
+const CACHE_CONFIG = {
+  MAX_ENTRIES: 500,
+  DEFAULT_TTL: HOUR,
+  // How long after expiring an entry is still served while it is refreshed
+  STALE_TTL: 7 * DAY,
+};
+
+/**
+ * Time-to-live of the responses of the endpoints matching a pattern
+ */
+export interface CacheTtlRule {
+  pattern: RegExp;
+  ttl: number;
+}
+
+/**
+ * Per-endpoint TTLs, the first matching rule applies. Portal settings and
+ * reference lists rarely change, search results are kept shorter.
+ */
+const DEFAULT_TTL_RULES: CacheTtlRule[] = [
+  { pattern: /\/Objectives\/Search/, ttl: 10 * MINUTE },
+  { pattern: /\/(Country|CountryParameters)(\/|$|\s)/, ttl: DAY },
+  { pattern: /\/(Filters|Laws|Forms|Contacts)(\/|$|\s)/, ttl: DAY },
+];
+
+/**
+ * Cached response data with the time it was fetched
+ */
+export interface CacheEntry {
+  data: unknown;
+  storedAt: number;
+}
+
+/**
+ * Storage backend of the response cache
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * Listener of the responses whose data changed when refreshed
+ */
+export type CacheChangeListener = (key: string) => void;
+
+/**
+ * Options of the response cache
+ */
+export interface ResponseCacheOptions {
+  // Maximum number of responses kept in memory
+  maxEntries?: number;
+  // Directory persisting the responses across restarts
+  directory?: string;
+  // TTL of the endpoints not matching any rule, in milliseconds
+  defaultTtl?: number;
+  // Rules checked before the default per-endpoint TTLs
+  ttlRules?: CacheTtlRule[];
+  // How long expired entries are served while refreshed, in milliseconds
+  staleTtl?: number;
+  // Serve only from the cache, never calling the API
+  offline?: boolean;
+  // Where the offline responses come from, e.g. "the snapshot of <date>",
+  // named in the errors of the responses it does not have
+  offlineSource?: string;
+}
+
+/**
+ * In-memory store evicting the least recently used entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries = CACHE_CONFIG.MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move the entry to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * On-disk store keeping one JSON file per response
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const file = JSON.parse(
+        await readFile(this.getPath(key), "utf8")
+      ) as CacheEntry & { key: string };
+      // Guard against hash collisions
+      return file.key === key
+        ? { data: file.data, storedAt: file.storedAt }
+        : undefined;
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        logger.warn(`Could not read cached response for ${key}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const path = this.getPath(key);
+    // Write to a temporary file first so that readers never see partial files
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(tempPath, JSON.stringify({ key, ...entry }), "utf8");
+    await rename(tempPath, path);
+  }
+
+  private getPath(key: string): string {
+    return join(
+      this.directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`
+    );
+  }
+}
+
+/**
+ * Cache of API responses, with an in-memory LRU in front of an optional
+ * on-disk store. Expired entries are served while being refreshed in the
+ * background (stale-while-revalidate), and in offline mode the API is
+ * never called. Listeners are told about the responses whose data changed
+ * when refreshed.
+ */
+export class ResponseCache {
+  private memory: MemoryCacheStore;
+  private disk: FileCacheStore | null;
+  private ttlRules: CacheTtlRule[];
+  private defaultTtl: number;
+  private staleTtl: number;
+  private offline: boolean;
+  private offlineSource?: string;
+  private pending = new Map<string, Promise<unknown>>();
+  private listeners = new Set<CacheChangeListener>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.memory = new MemoryCacheStore(options.maxEntries);
+    this.disk = options.directory
+      ? new FileCacheStore(options.directory)
+      : null;
+    this.ttlRules = [...(options.ttlRules || []), ...DEFAULT_TTL_RULES];
+    this.defaultTtl = options.defaultTtl ?? CACHE_CONFIG.DEFAULT_TTL;
+    this.staleTtl = options.staleTtl ?? CACHE_CONFIG.STALE_TTL;
+    this.offline = options.offline ?? false;
+    this.offlineSource = options.offlineSource;
+  }
+
+  /**
+   * Whether the cache only serves the responses it has, never calling the API
+   */
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Get the TTL of the responses of a request
+   * @param key The request key, starting with its URL
+   */
+  getTtl(key: string): number {
+    return (
+      this.ttlRules.find((rule) => rule.pattern.test(key))?.ttl ??
+      this.defaultTtl
+    );
+  }
+
+  /**
+   * Get a response from the cache, fetching it when missing or expired
+   * @param key The request key, starting with its URL
+   * @param fetcher Function fetching the response data from the API
+   * @returns The cached or fetched response data
+   * @throws Error in offline mode when the response is not cached
+   */
+  async get<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const entry = await this.read(key);
+
+    if (this.offline) {
+      if (!entry) {
+        throw new Error(
+          this.offlineSource
+            ? `Not in ${this.offlineSource}: no saved response for ${key}`
+            : `Offline mode: no cached response for ${key}`
+        );
+      }
+      return entry.data as T;
+    }
+
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      const ttl = this.getTtl(key);
+      if (age <= ttl) {
+        return entry.data as T;
+      }
+      if (age <= ttl + this.staleTtl) {
+        this.refresh(key, fetcher).catch((error) => {
+          logger.warn(`Could not refresh cached response for ${key}:`, error);
+        });
+        return entry.data as T;
+      }
+    }
+
+    try {
+      return await this.refresh(key, fetcher);
+    } catch (error) {
+      if (!entry) {
+        throw error;
+      }
+      // Too old to be served normally, but better than nothing
+      logger.warn(`Serving expired cached response for ${key}:`, error);
+      return entry.data as T;
+    }
+  }
+
+  /**
+   * Listen to the responses whose data changed when refreshed from the API
+   * @param listener Function called with the request key of each change
+   * @returns Function removing the listener
+   */
+  onChange(listener: CacheChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    const entry = await this.memory.get(key);
+    if (entry || !this.disk) {
+      return entry;
+    }
+    const diskEntry = await this.disk.get(key);
+    if (diskEntry) {
+      await this.memory.set(key, diskEntry);
+    }
+    return diskEntry;
+  }
+
+  /**
+   * Fetch a response and store it, sharing the request with concurrent calls
+   */
+  private refresh<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    let request = this.pending.get(key) as Promise<T> | undefined;
+    if (!request) {
+      request = fetcher()
+        .then(async (data) => {
+          const previous = await this.read(key);
+          const entry = { data, storedAt: Date.now() };
+          await this.memory.set(key, entry);
+          await this.disk?.set(key, entry).catch((error) => {
+            logger.warn(`Could not persist cached response for ${key}:`, error);
+          });
+          if (
+            previous &&
+            JSON.stringify(previous.data) !== JSON.stringify(data)
+          ) {
+            this.notifyChange(key);
+          }
+          return data;
+        })
+        .finally(() => {
+          this.pending.delete(key);
+        });
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  private notifyChange(key: string): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(key);
+      } catch (error) {
+        logger.warn(`Cache change listener failed for ${key}:`, error);
+      }
+    });
+  }
+}
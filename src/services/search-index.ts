@@ -0,0 +1,563 @@
+/**
+ * Default search configuration
+ */
+const SEARCH_CONFIG = {
+  // BM25 term frequency saturation and length normalization
+  K1: 1.2,
+  B: 0.75,
+  // Score factor of the terms matched with one or two typos
+  TYPO_WEIGHTS: [1, 0.6, 0.35],
+  // Characters shown around the first match of a snippet
+  SNIPPET_LENGTH: 160,
+  MAX_SNIPPETS: 2,
+};
+
+/**
+ * Languages with their own stop words and stemming rules
+ */
+export type SearchLanguage = "en" | "fr" | "es" | "pt";
+
+// Words too common to help finding a procedure, without accents
+const STOP_WORDS: Record<SearchLanguage, Set<string>> = {
+  en: new Set(
+    (
+      "a an and are as at be by for from has have in into is it its of on " +
+      "or that the to was were will with"
+    ).split(" ")
+  ),
+  fr: new Set(
+    (
+      "a au aux avec ce ces d dans de des du en est et l la le les leur " +
+      "leurs n ne ou par pas pour qu que qui s sa se ses son sur un une"
+    ).split(" ")
+  ),
+  es: new Set(
+    (
+      "a al con de del el en es la las lo los o para por que se su sus un " +
+      "una y"
+    ).split(" ")
+  ),
+  pt: new Set(
+    (
+      "a ao aos as com da das de do dos e em na nas no nos o os ou para " +
+      "pela pelo por que se um uma"
+    ).split(" ")
+  ),
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Document to index: named fields with one or more texts each
+ */
+export interface SearchDocument {
+  id: string;
+  fields: Record<string, string[]>;
+}
+
+/**
+ * Text of a document field with the matched words highlighted in **bold**
+ */
+export interface SearchSnippet {
+  field: string;
+  text: string;
+}
+
+/**
+ * Document matching a query, with its BM25 score
+ */
+export interface SearchMatch {
+  id: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Ranked matches of a query
+ */
+export interface SearchResults {
+  matches: SearchMatch[];
+  // Number of matching documents, before the limit
+  total: number;
+  // Query words not found, mapped to the indexed words matched instead
+  corrections: Record<string, string[]>;
+}
+
+/**
+ * Options of a search index
+ */
+export interface SearchIndexOptions {
+  // Weight of each field in the score, 1 when unset
+  fieldWeights?: Record<string, number>;
+  // Fields never used for snippets, e.g. titles shown anyway
+  titleFields?: string[];
+  // Language of the stop words and stemming rules, English by default
+  language?: SearchLanguage;
+}
+
+interface IndexedDocument {
+  fields: Record<string, string[]>;
+  // Terms of each text of each field, in order, for phrase queries
+  terms: Record<string, string[][]>;
+  length: number;
+}
+
+/**
+ * Remove the accents of a text, e.g. "création" becomes "creation"
+ */
+export function removeAccents(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "");
+}
+
+/**
+ * Lowercase a word and remove its accents
+ */
+export function normalizeWord(word: string): string {
+  return removeAccents(word.toLowerCase());
+}
+
+/**
+ * Reduce a normalized word to its stem with a few suffix rules, so that
+ * "registering", "registered" and "registers" match "register", or
+ * "immatriculées" matches "immatriculé"
+ * @param word A word normalized with normalizeWord
+ * @param language The language of the word, English by default
+ */
+export function stem(word: string, language: SearchLanguage = "en"): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+  return STEMMERS[language](word);
+}
+
+/**
+ * Remove the English plural and verb endings of a word
+ */
+function stemEnglish(word: string): string {
+  if (word.endsWith("ies") && word.length > 4) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.endsWith("sses")) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith("ing") && word.length > 5) {
+    return word.slice(0, -3);
+  }
+  if (word.endsWith("ed") && word.length > 4) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Remove the French plural and feminine endings of a word
+ */
+function stemFrench(word: string): string {
+  let stemmed = word;
+  if (stemmed.endsWith("eaux")) {
+    stemmed = stemmed.slice(0, -1);
+  } else if (stemmed.endsWith("aux") && stemmed.length > 4) {
+    stemmed = `${stemmed.slice(0, -3)}al`;
+  } else if (/[sx]$/.test(stemmed) && !stemmed.endsWith("ss")) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  // Past participles may end with two e, as in "créée"
+  while (stemmed.endsWith("e") && stemmed.length > 4) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+/**
+ * Remove the Spanish plural and gender endings of a word
+ */
+function stemSpanish(word: string): string {
+  let stemmed = word;
+  if (stemmed.endsWith("ces")) {
+    stemmed = `${stemmed.slice(0, -3)}z`;
+  } else if (/[^aeiou]es$/.test(stemmed) && stemmed.length > 4) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith("s")) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return /[aoe]$/.test(stemmed) && stemmed.length > 4
+    ? stemmed.slice(0, -1)
+    : stemmed;
+}
+
+/**
+ * Remove the Portuguese plural and gender endings of a word
+ */
+function stemPortuguese(word: string): string {
+  let stemmed = word;
+  if (/[oa]es$/.test(stemmed)) {
+    stemmed = `${stemmed.slice(0, -3)}ao`;
+  } else if (/[ae]is$/.test(stemmed)) {
+    stemmed = `${stemmed.slice(0, -2)}l`;
+  } else if (stemmed.endsWith("ns")) {
+    stemmed = `${stemmed.slice(0, -2)}m`;
+  } else if (/[rsz]es$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith("s")) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return /[aoe]$/.test(stemmed) && stemmed.length > 4
+    ? stemmed.slice(0, -1)
+    : stemmed;
+}
+
+const STEMMERS: Record<SearchLanguage, (word: string) => string> = {
+  en: stemEnglish,
+  fr: stemFrench,
+  es: stemSpanish,
+  pt: stemPortuguese,
+};
+
+/**
+ * Split a text into search terms: normalized, stemmed words without stop
+ * words. Accents are removed, so "creation" matches "création".
+ */
+export function tokenize(
+  text: string,
+  language: SearchLanguage = "en"
+): string[] {
+  return (normalizeWord(text).match(WORD_PATTERN) || [])
+    .filter((word) => !STOP_WORDS[language].has(word))
+    .map((word) => stem(word, language));
+}
+
+/**
+ * Damerau-Levenshtein distance between two words, or maxDistance + 1 when
+ * it is larger than maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number) {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i][j] = j;
+        continue;
+      }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      // Transposition of two adjacent letters
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (i > 0 && rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+  }
+  return Math.min(rows[a.length][b.length], maxDistance + 1);
+}
+
+/**
+ * Parse a query into its terms, all required, and its quoted phrases
+ */
+export function parseQuery(
+  query: string,
+  language: SearchLanguage = "en"
+): {
+  terms: string[];
+  phrases: string[][];
+} {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"/g, (match, phrase: string) => {
+    const phraseTerms = tokenize(phrase, language);
+    if (phraseTerms.length > 1) {
+      phrases.push(phraseTerms);
+    }
+    return ` ${phrase} `;
+  });
+  return { terms: [...new Set(tokenize(rest, language))], phrases };
+}
+
+/**
+ * In-memory inverted index ranking documents with BM25. Every query term
+ * must match a document, quoted phrases must appear as is, and words that
+ * are not indexed match the indexed words with one or two typos.
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // Weighted frequency of each term in each document
+  private postings = new Map<string, Map<string, number>>();
+  // First word seen for each term, to show corrections
+  private words = new Map<string, string>();
+  private totalLength = 0;
+  private fieldWeights: Record<string, number>;
+  private titleFields: Set<string>;
+  private language: SearchLanguage;
+
+  constructor(options: SearchIndexOptions = {}) {
+    this.fieldWeights = options.fieldWeights || {};
+    this.titleFields = new Set(options.titleFields || []);
+    this.language = options.language || "en";
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add a document to the index, replacing any document with the same ID
+   */
+  add(document: SearchDocument): void {
+    if (this.documents.has(document.id)) {
+      this.remove(document.id);
+    }
+
+    const indexed: IndexedDocument = {
+      fields: document.fields,
+      terms: {},
+      length: 0,
+    };
+    Object.entries(document.fields).forEach(([field, texts]) => {
+      const weight = this.getFieldWeight(field);
+      indexed.terms[field] = texts.map((text) => {
+        (normalizeWord(text).match(WORD_PATTERN) || []).forEach((word) => {
+          const term = stem(word, this.language);
+          if (!STOP_WORDS[this.language].has(word) && !this.words.has(term)) {
+            this.words.set(term, word);
+          }
+        });
+        const terms = tokenize(text, this.language);
+        terms.forEach((term) => {
+          const postings = this.postings.get(term) || new Map();
+          postings.set(document.id, (postings.get(document.id) || 0) + weight);
+          this.postings.set(term, postings);
+        });
+        indexed.length += terms.length * weight;
+        return terms;
+      });
+    });
+
+    this.documents.set(document.id, indexed);
+    this.totalLength += indexed.length;
+  }
+
+  /**
+   * Search the index
+   * @param query Words, all required, and optional "quoted phrases"
+   * @param limit Maximum number of matches to return
+   * @returns The best matches, most relevant first
+   */
+  search(query: string, limit = 10): SearchResults {
+    const { terms, phrases } = parseQuery(query, this.language);
+    const corrections: Record<string, string[]> = {};
+    if (terms.length === 0) {
+      return { matches: [], total: 0, corrections };
+    }
+
+    // Each query term matches itself or, when not indexed, its typos
+    const expansions = terms.map((term) => {
+      const expansion = this.expandTerm(term);
+      if (!this.postings.has(term) && expansion.length > 0) {
+        corrections[term] = expansion.map(
+          ({ term: match }) => this.words.get(match) || match
+        );
+      }
+      return expansion;
+    });
+
+    // Documents matching every term
+    const candidates = expansions
+      .map((expansion) => {
+        const documents = new Set<string>();
+        expansion.forEach(({ term }) =>
+          this.postings.get(term)?.forEach((tf, id) => documents.add(id))
+        );
+        return documents;
+      })
+      .reduce(
+        (common, documents) =>
+          new Set([...common].filter((id) => documents.has(id)))
+      );
+
+    const averageLength = this.totalLength / Math.max(this.documents.size, 1);
+    const matches = [...candidates]
+      .filter((id) =>
+        phrases.every((phrase) =>
+          this.containsPhrase(this.documents.get(id) as IndexedDocument, phrase)
+        )
+      )
+      .map((id) => ({
+        id,
+        score: expansions.reduce(
+          (score, expansion) =>
+            score +
+            Math.max(
+              0,
+              ...expansion.map(
+                ({ term, weight }) =>
+                  weight * this.scoreTerm(term, id, averageLength)
+              )
+            ),
+          0
+        ),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const matchedTerms = new Set(
+      expansions.flatMap((expansion) => expansion.map(({ term }) => term))
+    );
+    return {
+      matches: matches.slice(0, limit).map((match) => ({
+        ...match,
+        score: Math.round(match.score * 100) / 100,
+        snippets: this.getSnippets(match.id, matchedTerms),
+      })),
+      total: matches.length,
+      corrections,
+    };
+  }
+
+  private remove(id: string): void {
+    const indexed = this.documents.get(id) as IndexedDocument;
+    Object.values(indexed.terms).forEach((texts) =>
+      texts.forEach((terms) =>
+        terms.forEach((term) => this.postings.get(term)?.delete(id))
+      )
+    );
+    this.totalLength -= indexed.length;
+    this.documents.delete(id);
+  }
+
+  private getFieldWeight(field: string): number {
+    return this.fieldWeights[field] ?? 1;
+  }
+
+  /**
+   * Get the indexed terms a query term matches, with their score factor
+   */
+  private expandTerm(term: string): { term: string; weight: number }[] {
+    if (this.postings.get(term)?.size) {
+      return [{ term, weight: 1 }];
+    }
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+    if (maxDistance === 0) {
+      return [];
+    }
+    const expansion: { term: string; weight: number }[] = [];
+    this.postings.forEach((documents, indexedTerm) => {
+      if (documents.size === 0) {
+        return;
+      }
+      const distance = editDistance(term, indexedTerm, maxDistance);
+      if (distance <= maxDistance) {
+        expansion.push({
+          term: indexedTerm,
+          weight: SEARCH_CONFIG.TYPO_WEIGHTS[distance],
+        });
+      }
+    });
+    return expansion;
+  }
+
+  private scoreTerm(term: string, id: string, averageLength: number): number {
+    const postings = this.postings.get(term);
+    const tf = postings?.get(id);
+    if (!postings || !tf) {
+      return 0;
+    }
+    const { K1, B } = SEARCH_CONFIG;
+    const idf = Math.log(
+      1 + (this.documents.size - postings.size + 0.5) / (postings.size + 0.5)
+    );
+    const length = (this.documents.get(id) as IndexedDocument).length;
+    return (
+      (idf * tf * (K1 + 1)) /
+      (tf + K1 * (1 - B + (B * length) / (averageLength || 1)))
+    );
+  }
+
+  private containsPhrase(document: IndexedDocument, phrase: string[]) {
+    return Object.values(document.terms).some((texts) =>
+      texts.some((terms) =>
+        terms.some((term, start) =>
+          phrase.every((phraseTerm, i) => terms[start + i] === phraseTerm)
+        )
+      )
+    );
+  }
+
+  /**
+   * Get the texts of a document with the most matched terms, highlighted
+   */
+  private getSnippets(id: string, matchedTerms: Set<string>): SearchSnippet[] {
+    const document = this.documents.get(id) as IndexedDocument;
+    const candidates: { field: string; text: string; matches: number }[] = [];
+    Object.entries(document.fields).forEach(([field, texts]) => {
+      if (this.titleFields.has(field)) {
+        return;
+      }
+      texts.forEach((text, i) => {
+        const matches = new Set(
+          document.terms[field][i].filter((term) => matchedTerms.has(term))
+        ).size;
+        if (matches > 0) {
+          candidates.push({ field, text, matches });
+        }
+      });
+    });
+
+    return candidates
+      .sort(
+        (a, b) =>
+          b.matches - a.matches ||
+          this.getFieldWeight(b.field) - this.getFieldWeight(a.field)
+      )
+      .slice(0, SEARCH_CONFIG.MAX_SNIPPETS)
+      .map(({ field, text }) => ({
+        field,
+        text: this.highlight(text, matchedTerms),
+      }));
+  }
+
+  /**
+   * Cut a text around its first matched word and put matched words in bold
+   */
+  private highlight(text: string, matchedTerms: Set<string>): string {
+    const isMatch = (word: string) =>
+      matchedTerms.has(stem(normalizeWord(word), this.language));
+    const firstMatch = [...text.matchAll(WORD_PATTERN)].find((match) =>
+      isMatch(match[0])
+    );
+
+    let start = 0;
+    let end = text.length;
+    if (text.length > SEARCH_CONFIG.SNIPPET_LENGTH) {
+      start = Math.max(0, (firstMatch?.index || 0) - 40);
+      // Start and end at word boundaries
+      start = start > 0 ? text.indexOf(" ", start) + 1 || start : 0;
+      end = Math.min(text.length, start + SEARCH_CONFIG.SNIPPET_LENGTH);
+      end = end < text.length ? text.lastIndexOf(" ", end) : end;
+      if (end <= start) {
+        end = Math.min(text.length, start + SEARCH_CONFIG.SNIPPET_LENGTH);
+      }
+    }
+
+    const snippet = text
+      .slice(start, end)
+      .replace(WORD_PATTERN, (word) => (isMatch(word) ? `**${word}**` : word));
+    return `${start > 0 ? "..." : ""}${snippet}${
+      end < text.length ? "..." : ""
+    }`;
+  }
+}
@@ -0,0 +1,298 @@
+import { ERegulationsApi } from "./eregulations-api.js";
+import {
+  EmbeddingProvider,
+  HashingEmbeddingProvider,
+  cosineSimilarity,
+} from "./embeddings.js";
+import { PortalMemo } from "./portal-memo.js";
+import { collectProcedureTexts, IndexedProcedure } from "./procedure-search.js";
+import {
+  CacheStore,
+  FileCacheStore,
+  MemoryCacheStore,
+} from "./response-cache.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Default semantic search configuration
+ */
+const SEMANTIC_CONFIG = {
+  // Age after which the vector index is built again from the API
+  TTL: 60 * 60 * 1000,
+  // Score factor of the steps, so that procedures matching as a whole
+  // rank before those with a matching step
+  STEP_WEIGHT: 0.9,
+  // Score bonus of the procedures also found by the portal keyword search
+  KEYWORD_BONUS: 0.1,
+  // Vectors kept in memory when they are not persisted
+  MAX_CACHED_VECTORS: 20000,
+};
+
+/**
+ * Text of a procedure with its vector
+ */
+interface VectorEntry {
+  procedureId: string;
+  kind: "procedure" | "step";
+  text: string;
+  vector: number[];
+}
+
+/**
+ * Vector index of the procedures of a portal
+ */
+interface SemanticIndex {
+  entries: VectorEntry[];
+  procedures: Map<string, IndexedProcedure>;
+}
+
+/**
+ * Procedure related to a semantic query. Procedures found only by the
+ * portal keyword search have no similarity.
+ */
+export interface SemanticSearchHit extends IndexedProcedure {
+  similarity?: number;
+  score: number;
+  // Text of the procedure closest to the query, when it is a step
+  matchedStep?: string;
+  source: "semantic" | "keyword" | "both";
+}
+
+/**
+ * Ranked results of a semantic procedure search
+ */
+export interface SemanticSearchResults {
+  query: string;
+  model: string;
+  // Set when the hits only share words with the query, see EmbeddingProvider
+  lexical?: boolean;
+  indexedCount: number;
+  hits: SemanticSearchHit[];
+  // Why only the keyword search results are shown, if so
+  fallbackReason?: string;
+}
+
+/**
+ * Options of the semantic search
+ */
+export interface SemanticSearchOptions {
+  // Model embedding the texts, the built-in model by default
+  provider?: EmbeddingProvider;
+  // Directory persisting the vectors across restarts
+  directory?: string;
+}
+
+let provider: EmbeddingProvider = new HashingEmbeddingProvider();
+let vectorStore: CacheStore = new MemoryCacheStore(
+  SEMANTIC_CONFIG.MAX_CACHED_VECTORS
+);
+
+// One index per API client, shared by all sessions of a portal
+const indexes = new PortalMemo<SemanticIndex>(
+  buildSemanticIndex,
+  SEMANTIC_CONFIG.TTL
+);
+
+/**
+ * Set the embedding model of the semantic search and where its vectors
+ * are kept. Indexes built with the previous model are dropped.
+ */
+export function configureSemanticSearch(
+  options: SemanticSearchOptions = {}
+): void {
+  provider = options.provider || new HashingEmbeddingProvider();
+  vectorStore = options.directory
+    ? new FileCacheStore(options.directory)
+    : new MemoryCacheStore(SEMANTIC_CONFIG.MAX_CACHED_VECTORS);
+  indexes.clear();
+}
+
+/**
+ * Embed texts, reusing the vectors stored for texts embedded before
+ */
+async function embedTexts(texts: string[]): Promise<number[][]> {
+  const model = provider;
+  const keys = texts.map((text) => `${model.id} ${text}`);
+  const stored = await Promise.all(keys.map((key) => vectorStore.get(key)));
+
+  const missing = texts.filter((text, i) => !stored[i]);
+  const embedded = missing.length > 0 ? await model.embed(missing) : [];
+  const vectors = new Map(missing.map((text, i) => [text, embedded[i]]));
+  await Promise.all(
+    missing.map((text) =>
+      vectorStore
+        .set(`${model.id} ${text}`, {
+          data: vectors.get(text),
+          storedAt: Date.now(),
+        })
+        .catch((error) => {
+          logger.warn(`Could not store the vector of "${text}":`, error);
+        })
+    )
+  );
+
+  return texts.map(
+    (text, i) =>
+      (stored[i]?.data as number[]) || (vectors.get(text) as number[])
+  );
+}
+
+/**
+ * Embed the names, paths and descriptions of the procedures of a portal,
+ * and the names of their steps
+ */
+async function buildSemanticIndex(
+  api: ERegulationsApi
+): Promise<SemanticIndex> {
+  logger.log(`Building the semantic procedure index with ${provider.id}...`);
+  const texts = await collectProcedureTexts(api);
+
+  const entries: Omit<VectorEntry, "vector">[] = texts.flatMap((procedure) => [
+    {
+      procedureId: String(procedure.id),
+      kind: "procedure" as const,
+      text: [
+        procedure.name,
+        ...procedure.paths.filter((path) => path !== procedure.name),
+        ...procedure.descriptions,
+      ].join("\n"),
+    },
+    ...procedure.steps.map((step) => ({
+      procedureId: String(procedure.id),
+      kind: "step" as const,
+      text: step,
+    })),
+  ]);
+  const vectors = await embedTexts(entries.map((entry) => entry.text));
+
+  logger.log(
+    `Embedded ${entries.length} texts of ${texts.length} procedures for semantic search`
+  );
+  return {
+    entries: entries.map((entry, i) => ({ ...entry, vector: vectors[i] })),
+    procedures: new Map(
+      texts.map(
+        ({
+          paths,
+          descriptions,
+          steps,
+          requirements,
+          institutions,
+          ...procedure
+        }) => [String(procedure.id), procedure]
+      )
+    ),
+  };
+}
+
+/**
+ * Get the vector index of the procedures of a portal, built on first use
+ * and rebuilt once expired
+ * @param api The API client of the portal
+ */
+export function getSemanticIndex(api: ERegulationsApi): Promise<SemanticIndex> {
+  return indexes.get(api);
+}
+
+/**
+ * Search the procedures of a portal by meaning, merged with the results of
+ * the portal keyword search. When the vector index cannot be built, the
+ * keyword search results are returned alone.
+ * @param api The API client of the portal
+ * @param query A question or description of what the user wants to do
+ * @param limit Maximum number of results
+ */
+export async function searchProceduresSemantically(
+  api: ERegulationsApi,
+  query: string,
+  limit = 10
+): Promise<SemanticSearchResults> {
+  const [semantic, keyword] = await Promise.allSettled([
+    getSemanticIndex(api).then(async (index) => ({
+      index,
+      // Queries are not stored, unlike the texts of the procedures
+      vector: (await provider.embed([query]))[0],
+    })),
+    api.searchProcedures(query),
+  ]);
+
+  // Objectives of the keyword search that are procedures
+  const keywordHits =
+    keyword.status === "fulfilled"
+      ? keyword.value.filter((item) =>
+          item.links?.some((link) => link?.rel === "procedure")
+        )
+      : [];
+  if (keyword.status === "rejected") {
+    logger.warn(
+      `Keyword search failed for semantic query "${query}":`,
+      keyword.reason
+    );
+  }
+
+  if (semantic.status === "rejected") {
+    if (keyword.status === "rejected") {
+      throw semantic.reason;
+    }
+    logger.warn(`Semantic search failed for "${query}":`, semantic.reason);
+    return {
+      query,
+      model: provider.id,
+      indexedCount: 0,
+      hits: keywordHits.slice(0, limit).map((item, rank) => ({
+        id: item.id,
+        name: item.name,
+        // Keep the order of the portal search
+        score: keywordHits.length - rank,
+        source: "keyword",
+      })),
+      fallbackReason:
+        semantic.reason instanceof Error
+          ? semantic.reason.message
+          : String(semantic.reason),
+    };
+  }
+
+  const { index, vector } = semantic.value;
+  // Each procedure scores as its text or its best step
+  const best = new Map<string, { similarity: number; entry: VectorEntry }>();
+  index.entries.forEach((entry) => {
+    const similarity =
+      cosineSimilarity(vector, entry.vector) *
+      (entry.kind === "step" ? SEMANTIC_CONFIG.STEP_WEIGHT : 1);
+    const current = best.get(entry.procedureId);
+    if (!current || similarity > current.similarity) {
+      best.set(entry.procedureId, { similarity, entry });
+    }
+  });
+
+  const keywordIds = new Set(keywordHits.map((item) => String(item.id)));
+  const hits: SemanticSearchHit[] = [...best]
+    .filter(([id, { similarity }]) => similarity > 0 || keywordIds.has(id))
+    .map(([id, { similarity, entry }]) => ({
+      ...(index.procedures.get(id) as IndexedProcedure),
+      similarity: Math.round(similarity * 100) / 100,
+      score:
+        similarity + (keywordIds.has(id) ? SEMANTIC_CONFIG.KEYWORD_BONUS : 0),
+      ...(entry.kind === "step" ? { matchedStep: entry.text } : {}),
+      source: keywordIds.has(id) ? "both" : "semantic",
+    }));
+  // Procedures of the keyword search missing from the index, e.g. not
+  // listed in any menu, come last
+  keywordHits
+    .filter((item) => !best.has(String(item.id)))
+    .forEach((item) =>
+      hits.push({ id: item.id, name: item.name, score: 0, source: "keyword" })
+    );
+
+  return {
+    query,
+    model: provider.id,
+    ...(provider.lexical ? { lexical: true } : {}),
+    indexedCount: index.procedures.size,
+    hits: hits
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((hit) => ({ ...hit, score: Math.round(hit.score * 100) / 100 })),
+  };
+}
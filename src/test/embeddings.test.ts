@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import axios from "axios";
+import {
+  cosineSimilarity,
+  createEmbeddingProvider,
+  HashingEmbeddingProvider,
+  HttpEmbeddingProvider,
+} from "../services/embeddings.js";
+
+vi.mock("axios");
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("HashingEmbeddingProvider", () => {
+  it("embeds related word forms close to each other", async () => {
+    const provider = new HashingEmbeddingProvider();
+
+    const [query, fishery, permit] = await provider.embed([
+      "selling fish abroad",
+      "Export of fishery products",
+      "Get a building permit",
+    ]);
+
+    expect(query).toHaveLength(512);
+    expect(cosineSimilarity(query, fishery)).toBeGreaterThan(
+      cosineSimilarity(query, permit)
+    );
+    expect(cosineSimilarity(fishery, fishery)).toBeCloseTo(1);
+  });
+});
+
+describe("HttpEmbeddingProvider", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("requests the vectors of an OpenAI-compatible API in batches", async () => {
+    vi.mocked(axios.post).mockImplementation(async (url, body: any) => ({
+      data: {
+        // Returned out of order
+        data: body.input
+          .map((text: string, index: number) => ({
+            index,
+            embedding: [text.length, 0],
+          }))
+          .reverse(),
+      },
+    }));
+    const provider = new HttpEmbeddingProvider(
+      "http://localhost:11434/v1/",
+      "nomic-embed-text",
+      "secret"
+    );
+    const texts = Array.from({ length: 40 }, (_, i) => "x".repeat(i + 1));
+
+    const vectors = await provider.embed(texts);
+
+    expect(provider.id).toBe("nomic-embed-text@http://localhost:11434/v1");
+    expect(axios.post).toHaveBeenCalledTimes(2);
+    expect(axios.post).toHaveBeenCalledWith(
+      "http://localhost:11434/v1/embeddings",
+      { model: "nomic-embed-text", input: texts.slice(0, 32) },
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: "Bearer secret" }),
+      })
+    );
+    expect(vectors).toHaveLength(40);
+    expect(vectors[0]).toEqual([1, 0]);
+  });
+
+  it("rejects responses missing vectors", async () => {
+    vi.mocked(axios.post).mockResolvedValue({ data: { data: [] } });
+    const provider = new HttpEmbeddingProvider("http://localhost", "model");
+
+    await expect(provider.embed(["fish"])).rejects.toThrow(
+      "Embedding service returned 0 vectors for 1 texts"
+    );
+  });
+});
+
+describe("createEmbeddingProvider", () => {
+  it("uses the built-in model without an embedding URL", () => {
+    expect(createEmbeddingProvider()).toBeInstanceOf(HashingEmbeddingProvider);
+    expect(
+      createEmbeddingProvider({ url: "http://localhost", model: "bge-m3" })
+    ).toBeInstanceOf(HttpEmbeddingProvider);
+    expect(() => createEmbeddingProvider({ url: "http://localhost" })).toThrow(
+      "An embedding model is required"
+    );
+  });
+});
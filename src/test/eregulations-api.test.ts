@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import axios, { AxiosError } from "axios";
 import { ERegulationsApi } from "../services/eregulations-api.js";
+import { ResponseCache } from "../services/response-cache.js";
 import type { ObjectiveData } from "../mcp-capabilities/tools/formatters/types.js";
 import { logger } from "../utils/logger.js";
 
@@ -331,6 +332,30 @@ describe("ERegulationsApi", () => {
       // Restore the original implementation
       isAxiosErrorSpy.mockRestore();
     });
+
+    it("serves repeated requests from the response cache", async () => {
+      api = new ERegulationsApi(new ResponseCache());
+      (api as any).axiosInstance = mockAxiosInstance;
+      mockAxiosInstance.get.mockResolvedValue({ data: { cached: true } });
+
+      await (api as any).makeRequest("/test");
+      const result = await (api as any).makeRequest("/test");
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ data: { cached: true } });
+    });
+
+    it("caches POST searches by request body", async () => {
+      api = new ERegulationsApi(new ResponseCache());
+      (api as any).axiosInstance = mockAxiosInstance;
+      mockAxiosInstance.post.mockResolvedValue({ data: [{ id: 1 }] });
+
+      await api.searchProcedures("permit");
+      await api.searchProcedures("permit");
+      await api.searchProcedures("license");
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe("getProceduresList", () => {
@@ -442,6 +467,18 @@ describe("ERegulationsApi", () => {
       );
     });
 
+    it("records the parent menu of nested procedures", async () => {
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: mockProceduresList });
+
+      const procedures = await api.getProceduresList();
+
+      expect(procedures.find((p) => p.id === 725)?.menuId).toBeUndefined();
+      expect(procedures.find((p) => p.id === 1244)?.menuId).toBe(725);
+      expect(procedures.find((p) => p.id === 1255)?.menuId).toBe(736);
+    });
+
     it("should return empty array from getProceduresList on API error", async () => {
       (axios.create() as any).get.mockRejectedValue(new Error("API Down"));
       const procedures = await api.getProceduresList();
@@ -515,6 +552,26 @@ describe("ERegulationsApi", () => {
       // (axios.create() as any).get.mockRejectedValue(new Error("API Down")); // REMOVE
       await expect(api.getProcedureById(1)).rejects.toThrow("API Down");
     });
+
+    it("fetches the menu-scoped view of a procedure", async () => {
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: mockProcedureDetailsWithDesc });
+
+      const procedure = await api.getProcedureById(1244, 725);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Procedures/1244/725`
+      );
+      expect(procedure.menuId).toBe(725);
+      expect(procedure._links).toEqual(
+        expect.objectContaining({
+          self: `${baseUrl}/Procedures/1244/725`,
+          resume: `${baseUrl}/Procedures/1244/725/Resume`,
+          totals: `${baseUrl}/Procedures/1244/Totals`,
+        })
+      );
+    });
   });
 
   describe("getProcedureStep", () => {
@@ -553,6 +610,35 @@ describe("ERegulationsApi", () => {
       expect(step.procedureId).toBe(1244);
     });
 
+    it("resolves the download links of requirements and results", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({
+        data: {
+          data: {
+            id: 384,
+            name: "Contract a clearing agent",
+            requirements: [
+              { id: 51, name: "Application form", filename: "forms/app.pdf" },
+              { name: "Passport copy" },
+            ],
+            results: [{ id: 60, name: "Licence", filename: "licence.pdf" }],
+          },
+        },
+      });
+
+      const step = await api.getProcedureStep(1244, 384);
+
+      expect(step.requirements).toEqual([
+        {
+          id: 51,
+          name: "Application form",
+          filename: "forms/app.pdf",
+          url: `${baseUrl}/forms/app.pdf`,
+        },
+        { name: "Passport copy" },
+      ]);
+      expect(step.results?.[0].url).toBe(`${baseUrl}/licence.pdf`);
+    });
+
     it("throws error when step data is missing", async () => {
       (api as any).makeRequest = vi.fn().mockResolvedValue({ data: null });
 
@@ -560,6 +646,19 @@ describe("ERegulationsApi", () => {
         "Failed to get step 999 for procedure 1244"
       );
     });
+
+    it("fetches the menu-scoped view of a step", async () => {
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: mockProcedureStep });
+
+      const step = await api.getProcedureStep(1244, 384, 725);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Procedures/1244/725/Steps/384`
+      );
+      expect(step.menuId).toBe(725);
+    });
   });
 
   describe("other getters", () => {
@@ -577,6 +676,34 @@ describe("ERegulationsApi", () => {
       expect(result).toEqual(resumeData);
     });
 
+    it("fetches the menu-scoped procedure resume", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: {} });
+
+      await api.getProcedureResume(1244, 725);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Procedures/1244/725/Resume`
+      );
+    });
+
+    it("fetches detailed procedure resume correctly", async () => {
+      const resumeDetailData = {
+        id: 1244,
+        name: "Import Crystal Sugar",
+        institutions: [{ id: 1, name: "TRA" }],
+      };
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: resumeDetailData });
+
+      const result = await api.getProcedureDetailedResume(1244);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Procedures/1244/ResumeDetail`
+      );
+      expect(result).toEqual(resumeDetailData);
+    });
+
     it("fetches procedure totals correctly", async () => {
       const totalsData = { time: 30, cost: 5000 };
       (api as any).makeRequest = vi
@@ -687,4 +814,458 @@ describe("ERegulationsApi", () => {
       );
     });
   });
+
+  describe("filters", () => {
+    it("fetches the list of filters", async () => {
+      const filtersData = [{ id: 1, name: "Operation", order: 1 }];
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: filtersData });
+
+      const result = await api.getFilters();
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Filters`
+      );
+      expect(result).toEqual(filtersData);
+    });
+
+    it("fetches the options of a filter", async () => {
+      const optionsData = [
+        { id: 10, name: "Export" },
+        { id: 11, name: "Import" },
+      ];
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: optionsData });
+
+      const result = await api.getFilterOptions(1);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Filters/1/Options`
+      );
+      expect(result).toEqual(optionsData);
+    });
+
+    it("throws when the filter ID is missing", async () => {
+      await expect(api.getFilterOptions(0)).rejects.toThrow(
+        "Filter ID is required"
+      );
+    });
+
+    it("posts filter combinations to /Objectives/SearchByFilters", async () => {
+      const drillData = [
+        { procedures: [{ id: 5, name: "Export fish", isProcedure: true }] },
+      ];
+      mockAxiosInstance.post.mockResolvedValue({ data: drillData });
+
+      const result = await api.searchByFilters([
+        { filterId: 1, optionId: 10 },
+        { filterId: 2, optionId: 20 },
+      ]);
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        `${baseUrl}/Objectives/SearchByFilters`,
+        JSON.stringify([
+          { key: 1, value: 10 },
+          { key: 2, value: 20 },
+        ]),
+        expect.objectContaining({ headers: expect.any(Object) })
+      );
+      expect(result).toEqual(drillData);
+    });
+
+    it("returns an empty array when no procedure matches the filters", async () => {
+      const isAxiosErrorSpy = vi
+        .spyOn(axios, "isAxiosError")
+        .mockReturnValue(true);
+      mockAxiosInstance.post.mockRejectedValue({ response: { status: 404 } });
+
+      const result = await api.searchByFilters([{ filterId: 1, optionId: 10 }]);
+
+      expect(result).toEqual([]);
+      expect(logger.error).not.toHaveBeenCalled();
+
+      isAxiosErrorSpy.mockRestore();
+    });
+
+    it("throws when no filter is provided", async () => {
+      await expect(api.searchByFilters([])).rejects.toThrow(
+        "At least one filter is required"
+      );
+    });
+  });
+
+  describe("administrative burden (ABC)", () => {
+    it("fetches the detailed ABC of a procedure", async () => {
+      const abcData = {
+        steps: [{ stepId: 384, staffLevel: { id: 1, levelText: "Senior" } }],
+        adminBurdenTable: { total: 1200 },
+      };
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: abcData });
+
+      const result = await api.getProcedureAbcFull(1244);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Procedures/1244/ABC/Full`
+      );
+      expect(result).toEqual(abcData);
+    });
+
+    it.each([
+      ["getProcedureAbc", "/Procedures/1244/ABC"],
+      ["getProcedureAbcLevels", "/Procedures/1244/ABC/Levels"],
+      ["getProcedureAbcZones", "/Procedures/1244/ABC/Zones"],
+      ["getProcedureAbcRequirements", "/Procedures/1244/ABC/Requirements"],
+    ])("%s calls %s", async (method, path) => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: [] });
+
+      await (api as any)[method](1244);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}${path}`
+      );
+    });
+
+    it.each([
+      ["getStepAbc", "/Procedures/1244/Steps/384/ABC"],
+      ["getStepAbcZone", "/Procedures/1244/Steps/384/ABC/Zone"],
+      ["getStepAbcRequirements", "/Procedures/1244/Steps/384/ABC/Requirements"],
+      ["getStepAbcFull", "/Procedures/1244/Steps/384/ABC/Full"],
+    ])("%s calls %s", async (method, path) => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: {} });
+
+      await (api as any)[method](1244, 384);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}${path}`
+      );
+    });
+
+    it("throws when the API returns no ABC data", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: null });
+
+      await expect(api.getProcedureAbcFull(1244)).rejects.toThrow(
+        "No data returned for /Procedures/1244/ABC/Full"
+      );
+    });
+
+    it("validates procedure and step IDs", async () => {
+      await expect(api.getProcedureAbcFull(0)).rejects.toThrow(
+        "Procedure ID is required"
+      );
+      await expect(api.getStepAbcFull(1244, 0)).rejects.toThrow(
+        "Step ID is required"
+      );
+    });
+  });
+
+  describe("laws", () => {
+    it("fetches laws and resolves attachment URLs", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: 7,
+            name: "Companies Act",
+            attachments: [
+              { id: 1, filename: "media/companies-act.pdf" },
+              { id: 2, filename: "https://cdn.example.com/act.pdf" },
+            ],
+          },
+          { id: 8, name: "Tax Act" },
+        ],
+      });
+
+      const laws = await api.getLaws();
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(`${baseUrl}/Laws`);
+      expect(laws[0].attachments).toEqual([
+        {
+          id: 1,
+          filename: "media/companies-act.pdf",
+          url: `${baseUrl}/media/companies-act.pdf`,
+        },
+        {
+          id: 2,
+          filename: "https://cdn.example.com/act.pdf",
+          url: "https://cdn.example.com/act.pdf",
+        },
+      ]);
+      expect(laws[1]).toEqual({ id: 8, name: "Tax Act" });
+    });
+
+    it("fetches a single law with its steps", async () => {
+      const lawData = {
+        id: 7,
+        name: "Companies Act",
+        steps: [{ id: 384, name: "Register company" }],
+      };
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: lawData });
+
+      const law = await api.getLaw(7);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Laws/7`
+      );
+      expect(law).toEqual(lawData);
+    });
+
+    it("throws when the law ID is missing", async () => {
+      await expect(api.getLaw(0)).rejects.toThrow("Law ID is required");
+    });
+  });
+
+  describe("forms", () => {
+    it("fetches forms and resolves their download URLs", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: 51,
+            name: "Application form",
+            type: "Form",
+            filename: "app.pdf",
+          },
+          { id: 52, name: "Declaration" },
+        ],
+      });
+
+      const forms = await api.getForms();
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(`${baseUrl}/Forms`);
+      expect(forms[0].url).toBe(`${baseUrl}/app.pdf`);
+      expect(forms[1].url).toBeUndefined();
+    });
+
+    it("fetches a single form with the steps requiring it", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({
+        data: {
+          id: 51,
+          name: "Application form",
+          filename: "app.pdf",
+          steps: [{ id: 384, name: "Register company" }],
+        },
+      });
+
+      const form = await api.getForm(51);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Forms/51`
+      );
+      expect(form).toEqual({
+        id: 51,
+        name: "Application form",
+        filename: "app.pdf",
+        url: `${baseUrl}/app.pdf`,
+        steps: [{ id: 384, name: "Register company" }],
+      });
+    });
+
+    it("fetches the cost of a document", async () => {
+      const costData = { amount: 5000, currency: "TZS" };
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: costData });
+
+      const cost = await api.getDocumentCost(51);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/DocumentCosts/51`
+      );
+      expect(cost).toEqual(costData);
+    });
+
+    it("throws when the form or document ID is missing", async () => {
+      await expect(api.getForm(0)).rejects.toThrow("Form ID is required");
+      await expect(api.getDocumentCost(0)).rejects.toThrow(
+        "Document ID is required"
+      );
+    });
+  });
+
+  describe("institutions", () => {
+    it("fetches the list of institutions", async () => {
+      const institutions = [{ id: 5, name: "Tanzania Revenue Authority" }];
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: institutions });
+
+      const result = await api.getInstitutions();
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Contacts`
+      );
+      expect(result).toEqual(institutions);
+    });
+
+    it("returns an empty list for unexpected responses", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: {} });
+      expect(await api.getInstitutions()).toEqual([]);
+    });
+
+    it("fetches an institution, a unit and a person by ID", async () => {
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: { id: 5, name: "Test" } });
+
+      await api.getInstitution(5);
+      await api.getUnit(6);
+      await api.getPerson(7);
+
+      expect((api as any).makeRequest).toHaveBeenNthCalledWith(
+        1,
+        `${baseUrl}/Contacts/5`
+      );
+      expect((api as any).makeRequest).toHaveBeenNthCalledWith(
+        2,
+        `${baseUrl}/Units/6`
+      );
+      expect((api as any).makeRequest).toHaveBeenNthCalledWith(
+        3,
+        `${baseUrl}/People/7`
+      );
+    });
+
+    it("throws when the ID is missing", async () => {
+      await expect(api.getInstitution(0)).rejects.toThrow(
+        "Institution ID is required"
+      );
+      await expect(api.getUnit(0)).rejects.toThrow("Unit ID is required");
+      await expect(api.getPerson(0)).rejects.toThrow("Person ID is required");
+    });
+  });
+
+  describe("country", () => {
+    it("fetches the country endpoints", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: {} });
+
+      await api.getCountryLinks();
+      await api.getCountryDetails();
+      await api.getCountryAbout();
+      await api.getCountryContact();
+      await api.getCountryData();
+      await api.getCountryParameters();
+
+      expect(
+        (api as any).makeRequest.mock.calls.map((call: any[]) => call[0])
+      ).toEqual([
+        `${baseUrl}/Country`,
+        `${baseUrl}/Country/Details`,
+        `${baseUrl}/Country/About`,
+        `${baseUrl}/Country/Contact`,
+        `${baseUrl}/Country/Data`,
+        `${baseUrl}/CountryParameters`,
+      ]);
+    });
+
+    it("derives the portal locale from the country details", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({
+        data: {
+          name: "Benin",
+          currency: "XOF",
+          availableLangs: ["not a language!", "fr", "en"],
+        },
+      });
+
+      expect(await api.getPortalLocale()).toEqual({
+        currency: "XOF",
+        locale: "fr",
+      });
+    });
+
+    it("fetches the progress of a procedure", async () => {
+      const progressData = { steps: 5, certifiedSteps: 3, openedTickets: 1 };
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: progressData });
+
+      const progress = await api.getProcedureProgress(725);
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Country/Progress/725`
+      );
+      expect(progress).toEqual(progressData);
+      await expect(api.getProcedureProgress(0)).rejects.toThrow(
+        "Procedure ID is required"
+      );
+    });
+
+    it("lists the top-level objectives with their counts", async () => {
+      (api as any).makeRequest = vi
+        .fn()
+        .mockResolvedValue({ data: mockProceduresList });
+
+      const level = await api.getObjectiveLevel();
+
+      expect((api as any).makeRequest).toHaveBeenCalledWith(
+        `${baseUrl}/Objectives`
+      );
+      expect(level.id).toBeUndefined();
+      expect(level.children).toEqual([
+        {
+          id: 725,
+          name: "Import",
+          isProcedure: true,
+          childCount: 1,
+          procedureCount: 1,
+        },
+        {
+          id: 736,
+          name: "Export",
+          isProcedure: true,
+          childCount: 1,
+          procedureCount: 1,
+        },
+      ]);
+    });
+
+    it("opens an objective and falls back to the menu endpoint", async () => {
+      const menu = {
+        id: 800,
+        name: "Zanzibar",
+        description: "Export from Zanzibar",
+        childs: [
+          {
+            id: 801,
+            name: "Commodities",
+            subMenus: [{ id: 802, name: "Cloves", links: [] }],
+          },
+        ],
+      };
+      (api as any).makeRequest = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Request failed with status 404"))
+        .mockResolvedValueOnce({ data: menu });
+
+      const level = await api.getObjectiveLevel(800);
+
+      expect((api as any).makeRequest).toHaveBeenNthCalledWith(
+        1,
+        `${baseUrl}/Objectives/800`
+      );
+      expect((api as any).makeRequest).toHaveBeenNthCalledWith(
+        2,
+        `${baseUrl}/Menus/800`
+      );
+      expect(level).toEqual({
+        id: 800,
+        name: "Zanzibar",
+        description: "Export from Zanzibar",
+        children: [
+          {
+            id: 801,
+            name: "Commodities",
+            isProcedure: false,
+            childCount: 1,
+            procedureCount: 0,
+          },
+        ],
+      });
+      await expect(api.getObjectiveLevel(0)).rejects.toThrow(
+        "Objective or menu ID is required"
+      );
+    });
+
+    it("returns an empty locale when the portal has no settings", async () => {
+      (api as any).makeRequest = vi.fn().mockResolvedValue({ data: {} });
+      expect(await api.getPortalLocale()).toEqual({});
+    });
+  });
 });
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { AdministrativeBurdenFormatter } from "../../mcp-capabilities/tools/formatters/administrative-burden-formatter.js";
+import type { AdministrativeBurdenData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("AdministrativeBurdenFormatter", () => {
+  const formatter = new AdministrativeBurdenFormatter();
+
+  const mockBurden: AdministrativeBurdenData = {
+    procedureId: 725,
+    procedureName: "Buying cloves",
+    stepNames: { 2787: "Submit application" },
+    institutionNames: { 12: "ZSTC" },
+    abc: {
+      steps: [
+        {
+          stepId: 2787,
+          staffLevel: { id: 1, levelText: "Clerk", hourlyCost: 3.5 },
+        },
+        { stepId: 2788 },
+      ],
+      institutions: [
+        {
+          contactId: 12,
+          zone: {
+            id: 1,
+            name: "Capital",
+            time: { hour: 1, minute: 5 },
+            price: 2,
+          },
+        },
+      ],
+      requirements: [{ documentId: 99, total: 10.456 }],
+      adminBurdenTable: {
+        humanInPersonCost: {
+          reachOffice: 1,
+          waitingInLine: 2,
+          spentTimeAtCounter: 3,
+          returnFromOffice: 4,
+        },
+        humanPreparationCost: { understand: 5, gatherInfo: 6, fillForm: 7 },
+        numberOfUsers: 1500,
+        printCost: 0.5,
+        total: 28.5,
+      },
+    },
+  };
+
+  it("formats the ABC of a procedure", () => {
+    const result = formatter.format(mockBurden);
+
+    expect(result.text).toContain(
+      "ADMINISTRATIVE BURDEN: Buying cloves (ID:725)"
+    );
+    expect(result.text).toContain("Users per year: 1,500");
+    expect(result.text).toContain(
+      "Human: reach office 1 | waiting 2 | at counter 3 | return 4"
+    );
+    expect(result.text).toContain(
+      "Human: understand 5 | gather info 6 | fill forms 7"
+    );
+    expect(result.text).toContain("OTHER COSTS: Printing: 0.5");
+    expect(result.text).toContain("TOTAL BURDEN: 28.5");
+    expect(result.text).toContain(
+      "- Submit application (STEP ID:2787): Clerk, 3.5/hour"
+    );
+    expect(result.text).toContain("- (STEP ID:2788): Not specified");
+    expect(result.text).toContain(
+      "- ZSTC (ID:12): Capital (1h05 to reach, 2 travel cost)"
+    );
+    expect(result.text).toContain("REQUIREMENT COSTS: Document 99: 10.46;");
+
+    expect(result.data).toEqual({
+      procedureId: 725,
+      total: 28.5,
+      numberOfUsers: 1500,
+      inPersonCost: 10,
+      preparationCost: 18,
+      staffLevels: [
+        { stepId: 2787, level: "Clerk", hourlyCost: 3.5 },
+        { stepId: 2788, level: undefined, hourlyCost: undefined },
+      ],
+      zones: [{ contactId: 12, zone: "Capital" }],
+    });
+  });
+
+  it("formats the ABC of a single step", () => {
+    const result = formatter.format({
+      procedureId: 725,
+      step: {
+        id: 2787,
+        name: "Submit application",
+        abc: {
+          zone: { id: 2, name: "Rural" },
+          adminBurdenTable: { total: 4 },
+        },
+      },
+    });
+
+    expect(result.text).toContain("STEP: Submit application (STEP ID:2787)");
+    expect(result.text).toContain("INSTITUTION ZONES:\n- Rural\n");
+    expect(result.text).toContain("TOTAL BURDEN: 4");
+    expect(result.text).not.toContain("IN-PERSON COST");
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        stepId: 2787,
+        total: 4,
+        zones: [{ zone: "Rural" }],
+      })
+    );
+  });
+
+  it("handles missing ABC data", () => {
+    const result = formatter.format({ procedureId: 1 });
+    expect(result.text).toBe("No administrative burden data available");
+    expect(result.data).toEqual({});
+
+    expect(formatter.format(null as any).text).toBe(
+      "No administrative burden data available"
+    );
+  });
+});
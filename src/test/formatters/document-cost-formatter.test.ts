@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { DocumentCostFormatter } from "../../mcp-capabilities/tools/formatters/document-cost-formatter.js";
+
+describe("DocumentCostFormatter", () => {
+  const formatter = new DocumentCostFormatter();
+
+  it("formats flat and nested cost fields", () => {
+    const result = formatter.format({
+      documentId: 51,
+      cost: {
+        id: 51,
+        amount: 5000,
+        currency: "TZS",
+        comments: "",
+        paidTo: { name: "Revenue Authority" },
+        links: [{ rel: "self", href: "/DocumentCosts/51" }],
+      },
+    });
+
+    expect(result.text).toBe(
+      "DOCUMENT COST (DOC ID:51):\n" +
+        "- amount: 5000\n" +
+        "- currency: TZS\n" +
+        "- paidTo.name: Revenue Authority\n"
+    );
+    expect(result.data).toEqual({
+      documentId: 51,
+      amount: 5000,
+      currency: "TZS",
+      "paidTo.name": "Revenue Authority",
+    });
+  });
+
+  it("handles missing cost data", () => {
+    expect(formatter.format({ documentId: 51, cost: {} }).text).toBe(
+      "No cost data available for document 51"
+    );
+    expect(formatter.format({ documentId: 52, cost: { id: 52 } }).data).toEqual(
+      {}
+    );
+    expect(formatter.format(null as any).text).toBe(
+      "No cost data available for document ?"
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { FilterListFormatter } from "../../mcp-capabilities/tools/formatters/filter-list-formatter.js";
+import type { FilterData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("FilterListFormatter", () => {
+  const formatter = new FilterListFormatter();
+
+  const mockFilters: FilterData[] = [
+    {
+      id: 2,
+      name: "Region",
+      order: 2,
+      options: [
+        { id: 20, name: "Zanzibar" },
+        { id: 21, name: "Mainland" },
+      ],
+    },
+    {
+      id: 1,
+      name: "operation",
+      label: "Operation",
+      order: 1,
+      options: [{ id: 10, name: "Export" }],
+    },
+    { id: 3, name: "Product", order: 3 },
+  ];
+
+  it("formats filters in display order with their options", () => {
+    const result = formatter.format(mockFilters);
+
+    expect(result.text).toContain("Found 3 filters:");
+    expect(result.text).toContain(
+      "1. Operation (FILTER ID:1)\n   Options: Export (ID:10);"
+    );
+    expect(result.text).toContain(
+      "2. Region (FILTER ID:2)\n   Options: Zanzibar (ID:20); Mainland (ID:21);"
+    );
+    expect(result.text).toContain("3. Product (FILTER ID:3)\n   Options: none");
+    expect(result.text).toContain("searchProceduresByFilters");
+
+    expect(result.data).toEqual([
+      { id: 1, name: "Operation", options: [{ id: 10, name: "Export" }] },
+      {
+        id: 2,
+        name: "Region",
+        options: [
+          { id: 20, name: "Zanzibar" },
+          { id: 21, name: "Mainland" },
+        ],
+      },
+      { id: 3, name: "Product", options: [] },
+    ]);
+  });
+
+  it("handles an empty filter list", () => {
+    const result = formatter.format([]);
+    expect(result.text).toBe("No filters available");
+    expect(result.data).toEqual([]);
+  });
+
+  it("handles null/undefined input", () => {
+    expect(formatter.format(null as any).text).toBe("No filters available");
+    expect(formatter.format(undefined as any).text).toBe(
+      "No filters available"
+    );
+  });
+});
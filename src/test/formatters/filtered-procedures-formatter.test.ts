@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { FilteredProceduresFormatter } from "../../mcp-capabilities/tools/formatters/filtered-procedures-formatter.js";
+import type { DrillObjectiveData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("FilteredProceduresFormatter", () => {
+  const formatter = new FilteredProceduresFormatter();
+
+  const mockResults: DrillObjectiveData[] = [
+    {
+      procedures: [
+        {
+          id: 1,
+          name: "EXPORT",
+          isProcedure: false,
+          childs: [
+            {
+              id: 796,
+              name: "Export of fish",
+              explanatoryText: "Full procedure for first time traders",
+              isProcedure: true,
+            },
+          ],
+        },
+      ],
+      filteredObjectives: [
+        {
+          filterId: 2,
+          values: [
+            {
+              key: 20,
+              value: {
+                procedures: [
+                  { id: 794, name: "Clearance at Malindi", isProcedure: true },
+                  // Duplicate of a procedure already found above
+                  { id: 796, name: "Export of fish", isProcedure: true },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    },
+  ];
+
+  it("flattens nested result trees into unique procedures", () => {
+    const result = formatter.format(mockResults);
+
+    expect(result.text).toContain(
+      "Found 2 procedures matching the applied filters:"
+    );
+    expect(result.text).toContain("1. Clearance at Malindi (ID:794)\n");
+    expect(result.text).toContain(
+      "2. EXPORT > Export of fish (ID:796)\n   Full procedure for first time traders"
+    );
+    expect(result.text).toContain("getProcedureDetails");
+
+    expect(result.data).toEqual([
+      { id: 794, name: "Clearance at Malindi" },
+      {
+        id: 796,
+        name: "EXPORT > Export of fish",
+        description: "Full procedure for first time traders",
+      },
+    ]);
+  });
+
+  it("handles results without procedures", () => {
+    const result = formatter.format([{ procedures: [] }]);
+    expect(result.text).toBe("No procedures match the applied filters");
+    expect(result.data).toEqual([]);
+  });
+
+  it("handles null/undefined input", () => {
+    expect(formatter.format(null as any).data).toEqual([]);
+    expect(formatter.format(undefined as any).text).toBe(
+      "No procedures match the applied filters"
+    );
+  });
+});
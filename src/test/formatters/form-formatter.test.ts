@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { FormFormatter } from "../../mcp-capabilities/tools/formatters/form-formatter.js";
+import type { FormDetailsData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("FormFormatter", () => {
+  const formatter = new FormFormatter();
+
+  const mockForm: FormDetailsData = {
+    id: 51,
+    name: "Application form",
+    type: "Form",
+    filename: "app.pdf",
+    url: "https://portal.test/app.pdf",
+    steps: [
+      {
+        id: 2791,
+        name: "Submit application",
+        links: [{ rel: "self", href: "/Procedures/725/Steps/2791" }],
+      },
+    ],
+    cost: { amount: 5000, currency: "TZS" },
+  };
+
+  it("formats a form with its steps and cost", () => {
+    const result = formatter.format(mockForm);
+
+    expect(result.text).toContain("FORM: Application form (FORM ID:51)");
+    expect(result.text).toContain("Type: Form");
+    expect(result.text).toContain("Download: https://portal.test/app.pdf");
+    expect(result.text).toContain(
+      "REQUIRED BY STEPS:\n- Submit application (STEP ID:2791, PROCEDURE ID:725)"
+    );
+    expect(result.text).toContain("DOCUMENT COST (DOC ID:51):");
+    expect(result.text).toContain("- amount: 5000");
+
+    expect(result.data).toEqual({
+      id: 51,
+      name: "Application form",
+      type: "Form",
+      url: "https://portal.test/app.pdf",
+      steps: [{ id: 2791, name: "Submit application", procedureId: 725 }],
+      cost: { documentId: 51, amount: 5000, currency: "TZS" },
+    });
+  });
+
+  it("handles forms without download link or cost", () => {
+    const result = formatter.format({ id: 52, name: "Declaration" });
+    expect(result.text).toContain("Download: not available");
+    expect(result.text).not.toContain("REQUIRED BY STEPS");
+    expect(result.text).not.toContain("DOCUMENT COST");
+    expect(result.data.cost).toBeUndefined();
+  });
+
+  it("handles null/undefined form", () => {
+    expect(formatter.format(null as any).text).toBe("No form data available");
+    expect(formatter.format(undefined as any).data).toEqual({});
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { FormListFormatter } from "../../mcp-capabilities/tools/formatters/form-list-formatter.js";
+import type { FormData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("FormListFormatter", () => {
+  const formatter = new FormListFormatter();
+
+  const mockForms: FormData[] = [
+    {
+      id: 52,
+      name: "Tax declaration",
+      type: "Form",
+      url: "https://portal.test/tax.pdf",
+    },
+    { id: 51, name: "Application form" },
+  ];
+
+  it("formats forms sorted by name", () => {
+    const result = formatter.format(mockForms);
+
+    expect(result.text).toContain("Found 2 forms:");
+    expect(result.text).toContain("1. Application form (FORM ID:51)\n");
+    expect(result.text).toContain("2. Tax declaration (FORM ID:52) [Form]");
+    expect(result.text).toContain("getForm tool");
+
+    expect(result.data).toEqual([
+      { id: 51, name: "Application form" },
+      {
+        id: 52,
+        name: "Tax declaration",
+        type: "Form",
+        url: "https://portal.test/tax.pdf",
+      },
+    ]);
+  });
+
+  it("mentions the keyword used for filtering", () => {
+    const result = formatter.format([mockForms[0]], "tax");
+    expect(result.text).toContain('Found 1 form matching "tax":');
+  });
+
+  it("handles empty results", () => {
+    expect(formatter.format([]).text).toBe("No forms available");
+    expect(formatter.format([], "visa").text).toBe(
+      'No forms found matching "visa"'
+    );
+    expect(formatter.format(null as any).data).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { InstitutionFormatter } from "../../mcp-capabilities/tools/formatters/institution-formatter.js";
+import type { InstitutionDetailsData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("InstitutionFormatter", () => {
+  const formatter = new InstitutionFormatter();
+
+  const mockInstitution: InstitutionDetailsData = {
+    id: 5,
+    name: "Tanzania Revenue Authority",
+    address: "Samora Avenue",
+    city: "Dar es Salaam",
+    zipCode: "9053",
+    firstPhone: "+255 22 111",
+    secondPhone: "+255 22 222",
+    firstEmail: "info@tra.go.tz",
+    firstWebsite: "https://www.tra.go.tz",
+    schedule: {
+      day1: {
+        morningStart: "08:00",
+        morningEnd: "12:00",
+        eveningStart: "14:00",
+        eveningEnd: "17:00",
+      },
+      day6: { isClosed: true },
+      day7: { isNotAvailable: true },
+    },
+    scheduleComments: "Closed on public holidays",
+    units: [{ id: 6, name: "Registration Desk" }],
+    steps: [
+      {
+        id: 384,
+        name: "Register for TIN",
+        links: [{ rel: "self", href: "/Procedures/725/Steps/384" }],
+      },
+      {
+        id: 385,
+        name: "Pay stamp duty",
+        links: [{ rel: "self", href: "/Procedures/725/Steps/385" }],
+      },
+      { id: 12, name: "Unlinked step" },
+    ],
+    procedureNames: { 725: "Register a company" },
+  };
+
+  it("formats contact details, opening hours, units and procedures", () => {
+    const result = formatter.format(mockInstitution);
+
+    expect(result.text).toContain(
+      "INSTITUTION: Tanzania Revenue Authority (INSTITUTION ID:5)"
+    );
+    expect(result.text).toContain("Address: Samora Avenue, 9053 Dar es Salaam");
+    expect(result.text).toContain(
+      "Phone: +255 22 111, +255 22 222 | Email: info@tra.go.tz | Web: https://www.tra.go.tz"
+    );
+    expect(result.text).toContain(
+      "OPENING HOURS:\n- Mon: 08:00-12:00, 14:00-17:00\n- Sat: closed\nNote: Closed on public holidays"
+    );
+    expect(result.text).not.toContain("Sun:");
+    expect(result.text).toContain("UNITS:\n- Registration Desk (UNIT ID:6)");
+    expect(result.text).toContain(
+      "PROCEDURES:\n- Register a company (PROCEDURE ID:725)\n  - Register for TIN (STEP ID:384)\n  - Pay stamp duty (STEP ID:385)\n- Other steps\n  - Unlinked step (STEP ID:12)"
+    );
+
+    expect(result.data.procedures).toEqual([
+      { procedureId: 725, name: "Register a company", stepIds: [384, 385] },
+      { procedureId: undefined, stepIds: [12] },
+    ]);
+    expect(result.data.openingHours).toEqual([
+      "Mon: 08:00-12:00, 14:00-17:00",
+      "Sat: closed",
+    ]);
+  });
+
+  it("handles institutions with minimal data", () => {
+    const result = formatter.format({ id: 8, name: "Port Authority" });
+    expect(result.text).toBe(
+      "INSTITUTION: Port Authority (INSTITUTION ID:8)\n"
+    );
+    expect(result.data.address).toBeUndefined();
+  });
+
+  it("handles institutions whose steps are null", () => {
+    const result = formatter.format({
+      id: 8,
+      name: "Port Authority",
+      steps: null,
+    });
+
+    expect(result.text).toBe(
+      "INSTITUTION: Port Authority (INSTITUTION ID:8)\n"
+    );
+    expect(result.data.procedures).toEqual([]);
+  });
+
+  it("handles null/undefined institution", () => {
+    expect(formatter.format(null as any).text).toBe(
+      "No institution data available"
+    );
+    expect(formatter.format(undefined as any).data).toEqual({});
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { InstitutionListFormatter } from "../../mcp-capabilities/tools/formatters/institution-list-formatter.js";
+
+describe("InstitutionListFormatter", () => {
+  const formatter = new InstitutionListFormatter();
+
+  const mockInstitutions = [
+    { id: 6, name: "Tanzania Revenue Authority", city: "Dar es Salaam" },
+    { id: 5, name: "Business Registration Agency" },
+  ];
+
+  it("formats institutions sorted by name", () => {
+    const result = formatter.format(mockInstitutions);
+
+    expect(result.text).toContain("Found 2 institutions:");
+    expect(result.text).toContain(
+      "1. Business Registration Agency (INSTITUTION ID:5)\n"
+    );
+    expect(result.text).toContain(
+      "2. Tanzania Revenue Authority (INSTITUTION ID:6) - Dar es Salaam"
+    );
+    expect(result.text).toContain("getInstitution tool");
+
+    expect(result.data).toEqual([
+      { id: 5, name: "Business Registration Agency" },
+      { id: 6, name: "Tanzania Revenue Authority", city: "Dar es Salaam" },
+    ]);
+  });
+
+  it("handles empty results", () => {
+    expect(formatter.format([]).text).toBe("No institutions available");
+    expect(formatter.format([], "port").text).toBe(
+      'No institutions found matching "port"'
+    );
+    expect(formatter.format(null as any).data).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  getLabelLanguage,
+  label,
+  resolveLanguage,
+} from "../../mcp-capabilities/tools/formatters/labels.js";
+import {
+  setFormattingLocale,
+  withFormattingLocale,
+} from "../../mcp-capabilities/tools/formatters/locale.js";
+
+describe("formatter labels", () => {
+  afterEach(() => {
+    setFormattingLocale({});
+  });
+
+  it("uses English labels until a locale is set", () => {
+    expect(getLabelLanguage()).toBe("en");
+    expect(label("steps")).toBe("STEPS");
+  });
+
+  it("uses the language of the portal locale", () => {
+    setFormattingLocale({ currency: "XOF", locale: "fr-BJ" });
+    expect(getLabelLanguage()).toBe("fr");
+    expect(label("estimatedTime")).toBe("Durée estimée");
+  });
+
+  it("prefers the language asked for over the portal's", async () => {
+    setFormattingLocale({ locale: "fr" });
+
+    const labels = await withFormattingLocale(
+      { locale: "fr", language: "pt" },
+      async () => label("requirements")
+    );
+
+    expect(labels).toBe("Requisitos");
+    expect(label("requirements")).toBe("Pièces requises");
+  });
+
+  it("falls back to English for languages without labels", () => {
+    expect(resolveLanguage("sw")).toBe("en");
+    expect(resolveLanguage("ES_gt")).toBe("es");
+    expect(resolveLanguage()).toBe("en");
+  });
+
+  it("fills in placeholders", () => {
+    setFormattingLocale({ locale: "es" });
+    expect(label("foundProcedures", { count: 3 })).toBe(
+      "Se encontraron 3 trámites"
+    );
+    expect(label("forKeyword", { keyword: "{count}" })).toBe('para "{count}"');
+  });
+});
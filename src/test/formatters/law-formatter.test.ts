@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { LawFormatter } from "../../mcp-capabilities/tools/formatters/law-formatter.js";
+import type { LawDetailsData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("LawFormatter", () => {
+  const formatter = new LawFormatter();
+
+  const mockLaw: LawDetailsData = {
+    id: 7,
+    name: "Companies Act",
+    attachments: [
+      {
+        id: 1,
+        name: "Full text",
+        filename: "act.pdf",
+        url: "https://portal.test/act.pdf",
+      },
+    ],
+    steps: [
+      {
+        id: 2791,
+        name: "Submit shipping instruction",
+        links: [{ rel: "self", href: "/Procedures/725/Steps/2791" }],
+      },
+      { id: 12, name: "Unlinked step" },
+    ],
+  };
+
+  it("formats a law with documents and referencing steps", () => {
+    const result = formatter.format(mockLaw);
+
+    expect(result.text).toContain("LAW: Companies Act (LAW ID:7)");
+    expect(result.text).toContain(
+      "DOCUMENTS:\n- Full text: https://portal.test/act.pdf"
+    );
+    expect(result.text).toContain(
+      "- Submit shipping instruction (STEP ID:2791, PROCEDURE ID:725)"
+    );
+    expect(result.text).toContain("- Unlinked step (STEP ID:12)");
+
+    expect(result.data).toEqual({
+      id: 7,
+      name: "Companies Act",
+      documents: [{ name: "Full text", url: "https://portal.test/act.pdf" }],
+      steps: [
+        { id: 2791, name: "Submit shipping instruction", procedureId: 725 },
+        { id: 12, name: "Unlinked step" },
+      ],
+    });
+  });
+
+  it("handles laws without documents", () => {
+    const result = formatter.format({ id: 8, name: "Tax Act" });
+    expect(result.text).toContain("DOCUMENTS: none available");
+    expect(result.text).not.toContain("REFERENCED BY STEPS");
+  });
+
+  it("handles null/undefined law", () => {
+    expect(formatter.format(null as any).text).toBe("No law data available");
+    expect(formatter.format(undefined as any).data).toEqual({});
+  });
+});
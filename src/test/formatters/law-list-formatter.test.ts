@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { LawListFormatter } from "../../mcp-capabilities/tools/formatters/law-list-formatter.js";
+import type { LawData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("LawListFormatter", () => {
+  const formatter = new LawListFormatter();
+
+  const mockLaws: LawData[] = [
+    { id: 8, name: "Tax Act", order: 2 },
+    {
+      id: 7,
+      name: "Companies Act",
+      order: 1,
+      attachments: [
+        { id: 1, url: "https://portal.test/media/act.pdf" },
+        { id: 2, filename: "missing.pdf" },
+      ],
+    },
+  ];
+
+  it("formats laws in display order", () => {
+    const result = formatter.format(mockLaws);
+
+    expect(result.text).toContain("Found 2 laws:");
+    expect(result.text).toContain("1. Companies Act (LAW ID:7) [2 documents]");
+    expect(result.text).toContain("2. Tax Act (LAW ID:8)\n");
+    expect(result.text).toContain("getLaw");
+
+    expect(result.data).toEqual([
+      {
+        id: 7,
+        name: "Companies Act",
+        documents: ["https://portal.test/media/act.pdf"],
+      },
+      { id: 8, name: "Tax Act", documents: [] },
+    ]);
+  });
+
+  it("mentions the keyword used to filter the list", () => {
+    const result = formatter.format([mockLaws[0]], "tax");
+    expect(result.text).toContain('Found 1 law matching "tax":');
+
+    expect(formatter.format([], "customs").text).toBe(
+      'No laws found matching "customs"'
+    );
+  });
+
+  it("handles empty or missing input", () => {
+    expect(formatter.format([]).text).toBe("No laws available");
+    expect(formatter.format(null as any).data).toEqual([]);
+  });
+});
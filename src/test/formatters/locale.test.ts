@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  formatAmount,
+  formatNumber,
+  getFormattingLocale,
+  setFormattingLocale,
+  withFormattingLocale,
+} from "../../mcp-capabilities/tools/formatters/locale.js";
+
+describe("formatting locale", () => {
+  afterEach(() => {
+    setFormattingLocale({});
+  });
+
+  it("uses the runtime defaults until a locale is set", () => {
+    expect(getFormattingLocale()).toEqual({});
+    expect(formatAmount(1500)).toBe((1500).toLocaleString());
+  });
+
+  it("formats numbers with the portal locale", () => {
+    setFormattingLocale({ locale: "de" });
+    expect(formatNumber(1234.5)).toBe("1.234,5");
+    expect(formatNumber(2.3456, 2)).toBe("2,35");
+  });
+
+  it("falls back to the portal currency when an amount has no unit", () => {
+    setFormattingLocale({ currency: "XOF", locale: "en" });
+    expect(formatAmount(25000)).toBe("25,000 XOF");
+    expect(formatAmount(40, "USD")).toBe("40 USD");
+  });
+
+  it("scopes a portal locale to a call without affecting concurrent calls", async () => {
+    setFormattingLocale({ currency: "TZS", locale: "en" });
+
+    const amounts = await Promise.all([
+      withFormattingLocale({ currency: "KES", locale: "en" }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return formatAmount(100);
+      }),
+      withFormattingLocale({ currency: "LSL", locale: "en" }, async () =>
+        formatAmount(200)
+      ),
+    ]);
+
+    expect(amounts).toEqual(["100 KES", "200 LSL"]);
+    expect(formatAmount(300)).toBe("300 TZS");
+  });
+});
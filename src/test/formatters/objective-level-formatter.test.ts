@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { ObjectiveLevelFormatter } from "../../mcp-capabilities/tools/formatters/objective-level-formatter.js";
+import type { ObjectiveLevelData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("ObjectiveLevelFormatter", () => {
+  const formatter = new ObjectiveLevelFormatter();
+
+  const mockLevel: ObjectiveLevelData = {
+    id: 800,
+    name: "Zanzibar",
+    description: "Export from Zanzibar",
+    children: [
+      {
+        id: 801,
+        name: "Commodities",
+        description: "Cloves, seaweed and spices",
+        isProcedure: false,
+        childCount: 3,
+        procedureCount: 1,
+      },
+      {
+        id: 1255,
+        name: "Export Coffee",
+        isProcedure: true,
+        childCount: 0,
+        procedureCount: 0,
+      },
+    ],
+  };
+
+  it("formats an objective with its menus and procedures", () => {
+    const result = formatter.format(mockLevel);
+
+    expect(result.text).toContain("OBJECTIVE: Zanzibar (ID:800)");
+    expect(result.text).toContain("DESC: Export from Zanzibar");
+    expect(result.text).toContain("CONTAINS 2 items:");
+    expect(result.text).toContain(
+      "1. Commodities (ID:801) - 3 items, 1 procedure\n   Cloves, seaweed and spices"
+    );
+    expect(result.text).toContain(
+      "2. Export Coffee [PROCEDURE] (ID:1255, MENU ID:800)\n"
+    );
+    expect(result.data.children[1]).toEqual({
+      id: 1255,
+      name: "Export Coffee",
+      isProcedure: true,
+      menuId: 800,
+      childCount: 0,
+      procedureCount: 0,
+    });
+  });
+
+  it("formats the top-level objectives", () => {
+    const result = formatter.format({ children: [mockLevel.children[0]] });
+
+    expect(result.text).toContain("TOP-LEVEL OBJECTIVES (1):");
+    expect(result.text).not.toContain("OBJECTIVE: ");
+    expect(result.data.id).toBeUndefined();
+  });
+
+  it("handles empty levels", () => {
+    expect(formatter.format({ children: [] }).text).toBe(
+      "No objectives available."
+    );
+    expect(
+      formatter.format({ id: 800, name: "Zanzibar", children: [] }).text
+    ).toContain("No objectives or procedures found under this objective.");
+    expect(formatter.format(null as any).text).toBe(
+      "No objective data available"
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { PersonFormatter } from "../../mcp-capabilities/tools/formatters/person-formatter.js";
+import type { PersonData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("PersonFormatter", () => {
+  const formatter = new PersonFormatter();
+
+  const mockPerson: PersonData = {
+    id: 9,
+    name: "John Doe",
+    profession: "Officer",
+    firstPhone: "+255 22 333",
+    firstEmail: "john@tra.go.tz",
+    secondEmail: "j.doe@tra.go.tz",
+    steps: [
+      {
+        id: 384,
+        name: "Register for TIN",
+        links: [{ rel: "self", href: "/Procedures/725/Steps/384" }],
+      },
+    ],
+  };
+
+  it("formats a person with contact details and steps", () => {
+    const result = formatter.format(mockPerson);
+
+    expect(result.text).toContain("PERSON: John Doe (PERSON ID:9)");
+    expect(result.text).toContain("Profession: Officer");
+    expect(result.text).toContain(
+      "Phone: +255 22 333 | Email: john@tra.go.tz, j.doe@tra.go.tz"
+    );
+    expect(result.text).toContain(
+      "IN CHARGE OF STEPS:\n- Register for TIN (STEP ID:384, PROCEDURE ID:725)"
+    );
+
+    expect(result.data).toEqual({
+      id: 9,
+      name: "John Doe",
+      profession: "Officer",
+      phones: ["+255 22 333"],
+      emails: ["john@tra.go.tz", "j.doe@tra.go.tz"],
+      steps: [{ id: 384, name: "Register for TIN", procedureId: 725 }],
+    });
+  });
+
+  it("handles null/undefined person", () => {
+    expect(formatter.format(null as any).text).toBe("No person data available");
+    expect(formatter.format(undefined as any).data).toEqual({});
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { PortalInfoFormatter } from "../../mcp-capabilities/tools/formatters/portal-info-formatter.js";
+import type { PortalInfoData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("PortalInfoFormatter", () => {
+  const formatter = new PortalInfoFormatter();
+
+  const mockPortal: PortalInfoData = {
+    details: {
+      id: 1,
+      name: "Tanzania",
+      currency: "TZS",
+      availableLangs: ["en", "sw"],
+    },
+    contact: {
+      phone: "+255 22 000",
+      email: "info@eregulations.go.tz",
+      address: "Dar es Salaam",
+    },
+    statistics: { procedures: 120, steps: 1450, laws: 35 },
+    about: {
+      description: "<p>The portal&nbsp;team</p>\n<p>supports investors.</p>",
+      members: [
+        { name: "Jane", title: "Coordinator", order: 2 },
+        { name: "Ali", profession: "Analyst", order: 1 },
+      ],
+    },
+    parameters: { showAbc: true },
+  };
+
+  it("formats the country profile with contact, statistics and team", () => {
+    const result = formatter.format(mockPortal);
+
+    expect(result.text).toContain("PORTAL: eRegulations Tanzania");
+    expect(result.text).toContain("Currency: TZS");
+    expect(result.text).toContain("Languages: en, sw");
+    expect(result.text).toContain(
+      "CONTACT:\nPhone: +255 22 000 | Email: info@eregulations.go.tz\nAddress: Dar es Salaam"
+    );
+    expect(result.text).toContain(
+      "STATISTICS:\n- Procedures: 120\n- Steps: 1,450\n- Laws: 35\n"
+    );
+    expect(result.text).toContain(
+      "ABOUT:\nThe portal team supports investors."
+    );
+    expect(result.text).toContain(
+      "TEAM:\n- Ali (Analyst)\n- Jane (Coordinator)"
+    );
+
+    expect(result.data).toEqual({
+      country: "Tanzania",
+      currency: "TZS",
+      languages: ["en", "sw"],
+      contact: mockPortal.contact,
+      statistics: mockPortal.statistics,
+      parameters: { showAbc: true },
+    });
+  });
+
+  it("formats a portal with only its country details", () => {
+    const result = formatter.format({ details: { name: "Benin" } });
+    expect(result.text).toBe("PORTAL: eRegulations Benin\n");
+    expect(result.data.languages).toEqual([]);
+  });
+
+  it("handles missing portal data", () => {
+    expect(formatter.format(null as any).text).toBe(
+      "No portal information available"
+    );
+    expect(formatter.format({} as any).data).toEqual({});
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { PortalListFormatter } from "../../mcp-capabilities/tools/formatters/portal-list-formatter.js";
+import type { PortalData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("PortalListFormatter", () => {
+  const formatter = new PortalListFormatter();
+
+  const mockPortals: PortalData[] = [
+    {
+      name: "tanzania",
+      url: "https://api-tanzania.example.com",
+      isDefault: true,
+      currency: "TZS",
+      locale: "en",
+    },
+    { name: "kenya", url: "https://api-kenya.example.com", isDefault: false },
+  ];
+
+  it("formats portals with their URL and currency", () => {
+    const result = formatter.format(mockPortals);
+
+    expect(result.text).toContain("Found 2 portals:");
+    expect(result.text).toContain(
+      "1. tanzania [DEFAULT] - https://api-tanzania.example.com (currency TZS, locale en)"
+    );
+    expect(result.text).toContain("2. kenya - https://api-kenya.example.com\n");
+    expect(result.text).toContain("portal argument");
+    expect(result.data).toEqual([
+      { name: "tanzania", isDefault: true, currency: "TZS" },
+      { name: "kenya", isDefault: false },
+    ]);
+  });
+
+  it("handles an empty portal list", () => {
+    expect(formatter.format([]).text).toBe("No portals available");
+  });
+});
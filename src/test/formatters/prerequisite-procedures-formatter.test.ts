@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { PrerequisiteProceduresFormatter } from "../../mcp-capabilities/tools/formatters/prerequisite-procedures-formatter.js";
+import type { PrerequisiteProceduresData } from "../../mcp-capabilities/tools/formatters/types.js";
+import { GetPrerequisiteProceduresOutputSchema } from "../../mcp-capabilities/tools/output-schemas.js";
+
+describe("PrerequisiteProceduresFormatter", () => {
+  const formatter = new PrerequisiteProceduresFormatter();
+
+  const mockPrerequisites: PrerequisiteProceduresData = {
+    procedure: { id: 4, name: "Export fish", fullName: "Export > Export fish" },
+    path: [
+      {
+        id: 1,
+        name: "Register a company",
+        menuId: 7,
+        depth: 2,
+        provides: [
+          {
+            requirement: {
+              name: "Certificate of incorporation",
+              stepId: 20,
+              stepName: "Apply for a TIN",
+            },
+            result: { name: "Certificate of incorporation", stepId: 11 },
+            procedureId: 2,
+            similarity: 1,
+          },
+        ],
+      },
+      {
+        id: 2,
+        name: "Register for taxes",
+        depth: 1,
+        provides: [
+          {
+            requirement: { name: "TIN certificate", stepId: 40 },
+            result: {
+              name: "Tax Identification Number certificate",
+              stepId: 21,
+            },
+            procedureId: 4,
+            similarity: 0.857,
+          },
+        ],
+      },
+    ],
+    alternatives: [
+      {
+        requirement: "Certificate of incorporation",
+        procedureId: 2,
+        procedures: [{ id: 5, name: "Register a branch" }],
+      },
+    ],
+    unmatchedRequirements: ["Veterinary certificate"],
+    indexedCount: 12,
+  };
+
+  it("lists the prerequisites in order with the documents they provide", () => {
+    const { text } = formatter.format(mockPrerequisites);
+
+    expect(text).toContain(
+      "PREREQUISITES OF: Export > Export fish (ID:4)\n" +
+        "Complete these 2 procedures first, in this order:\n" +
+        "1. Register a company (ID:1, MENU ID:7)\n" +
+        '   Provides "Certificate of incorporation" (STEP ID:11), needed by "Register for taxes" (ID:2) at step "Apply for a TIN"\n' +
+        "2. Register for taxes (ID:2)\n" +
+        '   Provides "Tax Identification Number certificate" (STEP ID:21), needed by this procedure at step "40" as "TIN certificate" [~86% name match]\n'
+    );
+  });
+
+  it("lists the alternatives and the requirements left unmatched", () => {
+    const { text } = formatter.format(mockPrerequisites);
+
+    expect(text).toContain(
+      'ALTERNATIVES:\n- "Certificate of incorporation" (for ID:2) is also produced by: Register a branch (ID:5)\n'
+    );
+    expect(text).toContain(
+      "REQUIREMENTS NOT PRODUCED BY ANY PROCEDURE: Veterinary certificate\n"
+    );
+    expect(text).toContain("Based on the documents of 12 procedures.");
+  });
+
+  it("extracts the essential data", () => {
+    const { data } = formatter.format(mockPrerequisites);
+
+    expect(data.procedureName).toBe("Export > Export fish");
+    expect(data.prerequisites[0]).toEqual({
+      id: 1,
+      name: "Register a company",
+      menuId: 7,
+      order: 1,
+      depth: 2,
+      provides: [
+        {
+          requirement: "Certificate of incorporation",
+          result: "Certificate of incorporation",
+          procedureId: 2,
+          stepId: 20,
+          producedAtStepId: 11,
+          similarity: 1,
+        },
+      ],
+    });
+    expect(data.prerequisites[1].provides[0].similarity).toBe(0.86);
+  });
+
+  it("returns data matching the output schema", () => {
+    const { data } = formatter.format(mockPrerequisites);
+    const sent = JSON.parse(JSON.stringify(data));
+
+    expect(GetPrerequisiteProceduresOutputSchema.parse(sent)).toEqual(sent);
+  });
+
+  it("tells when no procedure comes first", () => {
+    const { text, data } = formatter.format({
+      ...mockPrerequisites,
+      path: [],
+      alternatives: [],
+      unmatchedRequirements: [],
+    });
+
+    expect(text).toContain(
+      "No prerequisite procedure found: none of the 12 procedures of the portal produces a document required by this procedure."
+    );
+    expect(data.prerequisites).toEqual([]);
+  });
+});
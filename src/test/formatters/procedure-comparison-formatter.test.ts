@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { ProcedureComparisonFormatter } from "../../mcp-capabilities/tools/formatters/procedure-comparison-formatter.js";
+import type { ProcedureComparisonData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("ProcedureComparisonFormatter", () => {
+  const formatter = new ProcedureComparisonFormatter();
+
+  const mockComparison: ProcedureComparisonData = {
+    targetCurrency: "USD",
+    exchangeRates: { TZS: 0.0004 },
+    entries: [
+      {
+        portal: "tanzania",
+        country: "Tanzania",
+        currency: "TZS",
+        procedureId: 1,
+        procedure: {
+          id: 1,
+          name: "Register a company",
+          totals: {
+            steps: [{ id: 10 }, { id: 11 }, { id: 12 }],
+            institutionCount: 2,
+            requirementCount: 5,
+            costs: [{ cost: 50000 }, { cost: 10, unit: "USD" }],
+            timeframe: { cost: 4, unit: "days" },
+          },
+        },
+      },
+      {
+        portal: "kenya",
+        currency: "KES",
+        procedureId: 7,
+        procedure: {
+          id: 7,
+          name: "Start a business",
+          data: { blocks: [{ steps: [{ id: 1 }, { id: 2 }] }] },
+          totals: { costs: [{ cost: 1000 }] },
+        },
+      },
+      {
+        portal: "lesotho",
+        procedureId: 3,
+        error: "Procedure not found",
+      },
+    ],
+  };
+
+  it("formats a side-by-side table with costs in the target currency", () => {
+    const result = formatter.format(mockComparison);
+
+    expect(result.text).toContain(
+      "PROCEDURE COMPARISON: 2 procedures (costs in USD)"
+    );
+    expect(result.text).toContain(
+      "| | Tanzania: Register a company (ID:1) | kenya: Start a business (ID:7) |"
+    );
+    expect(result.text).toContain("| Steps | 3 | 2 |");
+    expect(result.text).toContain("| Institutions | 2 | N/A |");
+    expect(result.text).toContain("| Requirements | 5 | N/A |");
+    expect(result.text).toContain("| Total time | 4 days | N/A |");
+    expect(result.text).toContain(
+      "| Total cost | 30 USD | 1,000 KES (not converted) |"
+    );
+    expect(result.text).toContain("- 1 TZS = 0.0004 USD");
+    expect(result.text).toContain(
+      "- No exchange rate for KES: pass exchangeRates to convert these costs"
+    );
+    expect(result.text).toContain("- lesotho procedure 3: Procedure not found");
+    expect(result.text).toContain("getProcedureDetails");
+    expect(result.data.procedures[0]).toMatchObject({
+      portal: "tanzania",
+      steps: 3,
+      cost: 30,
+      unconvertedCosts: {},
+    });
+    expect(result.data.procedures[1].unconvertedCosts).toEqual({
+      KES: 1000,
+    });
+  });
+
+  it("handles an empty comparison", () => {
+    expect(
+      formatter.format({
+        targetCurrency: "USD",
+        exchangeRates: {},
+        entries: [],
+      }).text
+    ).toBe("No procedures to compare");
+  });
+});
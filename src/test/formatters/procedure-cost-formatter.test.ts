@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { ProcedureCostFormatter } from "../../mcp-capabilities/tools/formatters/procedure-cost-formatter.js";
+import type { ProcedureCostData } from "../../mcp-capabilities/tools/formatters/types.js";
+import { CalculateProcedureCostOutputSchema } from "../../mcp-capabilities/tools/output-schemas.js";
+
+describe("ProcedureCostFormatter", () => {
+  const formatter = new ProcedureCostFormatter();
+
+  const mockCost: ProcedureCostData = {
+    procedureId: 725,
+    procedureName: "Export cloves",
+    parameters: { "FOB value": 12500, quantity: 3, capital: 5000 },
+    bill: {
+      items: [
+        {
+          stepId: 1,
+          stepNumber: 1,
+          stepName: "Submit application",
+          description: "Application fee",
+          kind: "fixed",
+          rate: 100,
+          amount: 100,
+          currency: "TZS",
+          paymentDetails: "Pay at counter",
+        },
+        {
+          stepId: 1,
+          stepNumber: 1,
+          stepName: "Submit application",
+          description: "Export levy",
+          kind: "percentage",
+          rate: 1.5,
+          parameter: "% of FOB value",
+          parameterName: "FOB value",
+          parameterValue: 12500,
+          amount: 187.5,
+          currency: "TZS",
+          paymentDetails: "Pay at counter",
+        },
+        {
+          stepId: 3,
+          stepNumber: 3,
+          stepName: "Load containers",
+          kind: "perUnit",
+          rate: 50,
+          parameter: "per container",
+          parameterName: "quantity",
+          parameterValue: 3,
+          amount: 150,
+          currency: "USD",
+        },
+      ],
+      groups: [
+        {
+          currency: "TZS",
+          paymentDetails: "Pay at counter",
+          amount: 287.5,
+          itemCount: 2,
+        },
+        { currency: "USD", amount: 150, itemCount: 1 },
+      ],
+      totals: [
+        { currency: "TZS", amount: 287.5 },
+        { currency: "USD", amount: 150 },
+      ],
+      unresolved: [
+        {
+          stepId: 3,
+          stepNumber: 3,
+          description: "Port fee",
+          kind: "percentage",
+          rate: 0.5,
+          parameter: "of CIF value",
+          currency: "USD",
+        },
+      ],
+      unusedParameters: ["capital"],
+    },
+  };
+
+  it("itemizes the fees by step", () => {
+    const { text } = formatter.format(mockCost);
+
+    expect(text).toContain(
+      "COST OF: Export cloves (ID:725)\n" +
+        "Parameters: FOB value = 12,500; quantity = 3; capital = 5,000\n"
+    );
+    expect(text).toContain(
+      "ITEMIZED BILL:\n" +
+        "1. Submit application (STEP ID:1)\n" +
+        "   - Application fee: 100 TZS\n" +
+        "     Payment: Pay at counter\n" +
+        "   - Export levy: 1.5% of FOB value, FOB value 12,500 = 187.5 TZS\n" +
+        "     Payment: Pay at counter\n" +
+        "3. Load containers (STEP ID:3)\n" +
+        "   - Fee: 50 USD per container, quantity 3 = 150 USD\n"
+    );
+  });
+
+  it("totals the amounts by payment and currency", () => {
+    const { text } = formatter.format(mockCost);
+
+    expect(text).toContain(
+      "TO PAY:\n" +
+        "- 287.5 TZS: Pay at counter (2 fees)\n" +
+        "- 150 USD: payment details not specified (1 fee)\n" +
+        "\nTOTAL: 287.5 TZS; 150 USD\n"
+    );
+  });
+
+  it("lists the fees needing parameters and the parameters left unused", () => {
+    const { text } = formatter.format({ ...mockCost, incompleteStepIds: [2] });
+
+    expect(text).toContain(
+      "NOT CALCULATED, missing parameters:\n" +
+        '- Port fee (step 3): 0.5% of CIF value. Give a value for "CIF value" in parameters.\n'
+    );
+    expect(text).toContain("Parameters not used by any fee: capital\n");
+    expect(text).toContain(
+      "NOTE: The details of steps 2 could not be retrieved"
+    );
+  });
+
+  it("returns data matching the output schema", () => {
+    const { data } = formatter.format(mockCost);
+    const sent = JSON.parse(JSON.stringify(data));
+
+    expect(sent.totals).toEqual(mockCost.bill.totals);
+    expect(CalculateProcedureCostOutputSchema.parse(sent)).toEqual(sent);
+  });
+
+  it("tells when the procedure has no costs", () => {
+    const { text, data } = formatter.format({
+      procedureId: 725,
+      parameters: {},
+      bill: {
+        items: [],
+        groups: [],
+        totals: [],
+        unresolved: [],
+        unusedParameters: [],
+      },
+    });
+
+    expect(text).toContain("No costs found for this procedure");
+    expect(text).not.toContain("TOTAL");
+    expect(data.totals).toEqual([]);
+  });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach } from "vitest";
 import { ProcedureFormatter } from "../../mcp-capabilities/tools/formatters/procedure-formatter.js";
 import { ProcedureData } from "../../mcp-capabilities/tools/formatters/types.js";
+import { setFormattingLocale } from "../../mcp-capabilities/tools/formatters/locale.js";
 
 describe("ProcedureFormatter", () => {
   const formatter = new ProcedureFormatter();
@@ -150,4 +151,141 @@ describe("ProcedureFormatter", () => {
     // Check that the line does NOT end with '...'
     expect(descLine!.endsWith("...")).toBe(false);
   });
+
+  it("shows the menu of a menu-scoped procedure", () => {
+    const result = formatter.format({ ...mockProcedure, menuId: 725 });
+
+    expect(result.text).toContain("(ID:123, MENU ID:725)");
+    expect(result.data.menuId).toBe(725);
+  });
+
+  it("uses the official totals in the summary when available", () => {
+    const result = formatter.format({
+      ...mockProcedure,
+      totals: {
+        institutionCount: 3,
+        requirementCount: 7,
+        timeframe: { cost: 12, unit: "days" },
+        costs: [
+          { cost: 250000, unit: "TZS" },
+          { cost: 40, unit: "USD" },
+          { cost: 0, unit: "EUR" },
+        ],
+      },
+    });
+
+    expect(result.text).toContain(
+      "Steps: 1 | Institutions: 3 | Requirements: 7"
+    );
+    expect(result.text).toContain("Total time: 12 days");
+    expect(result.text).toContain("Total costs: 250,000 TZS; 40 USD\n");
+    expect(result.text).not.toContain("Est. time");
+    expect(result.text).not.toContain("Fixed costs");
+  });
+
+  it("sums step timeframes and costs when totals are missing", () => {
+    const result = formatter.format(mockProcedure);
+
+    expect(result.text).toContain(
+      "Steps: 1 | Institutions: 1 | Requirements: 1"
+    );
+    expect(result.text).toContain(
+      "Est. time: 5.0 days (includes 30 minutes at counters)"
+    );
+    expect(result.text).toContain("Fixed costs: 100 TZS");
+  });
+
+  it("estimates the time of parallel steps from the critical path", () => {
+    const days = (max: number) => ({
+      waitingTimeUntilNextStep: { days: { max } },
+    });
+    const result = formatter.format({
+      id: 123,
+      name: "Export clearance",
+      data: {
+        blocks: [
+          {
+            steps: [
+              { id: 1, name: "Apply", timeframe: days(2) },
+              { id: 2, name: "Inspect", timeframe: days(3) },
+              {
+                id: 3,
+                name: "Test samples",
+                isParallel: true,
+                timeframe: days(4),
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    expect(result.text).toContain("Est. time: 6.0 days\n");
+  });
+
+  describe("with the portal currency", () => {
+    afterEach(() => {
+      setFormattingLocale({});
+    });
+
+    it("uses the portal currency for costs without unit and sums per unit", () => {
+      setFormattingLocale({ currency: "XOF", locale: "en" });
+
+      const result = formatter.format({
+        id: 9,
+        name: "Open a shop",
+        data: {
+          blocks: [
+            {
+              steps: [
+                { id: 1, name: "Register", costs: [{ value: 25000 }] },
+                {
+                  id: 2,
+                  name: "Pay permit",
+                  costs: [
+                    { value: 5000, unit: "XOF" },
+                    { value: 40, unit: "USD" },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      } as ProcedureData);
+
+      expect(result.text).toContain("   Cost: 25000 XOF;");
+      expect(result.text).toContain("Fixed costs: 30,000 XOF; 40 USD\n");
+      expect(result.text).not.toContain("TZS");
+    });
+
+    it("uses the labels of the portal language", () => {
+      setFormattingLocale({ currency: "XOF", locale: "fr" });
+
+      const result = formatter.format({
+        id: 9,
+        name: "Ouvrir un commerce",
+        data: {
+          blocks: [
+            {
+              steps: [
+                {
+                  id: 1,
+                  name: "S'immatriculer",
+                  contact: { entityInCharge: { name: "APIEx" } },
+                  timeframe: { waitingTimeUntilNextStep: { days: { max: 3 } } },
+                },
+              ],
+            },
+          ],
+        },
+      } as ProcedureData);
+
+      expect(result.text).toContain("DÉMARCHE: Ouvrir un commerce (ID:9)");
+      expect(result.text).toContain("\nÉTAPES:\n1. S'immatriculer");
+      expect(result.text).toContain("   Entité: APIEx\n");
+      expect(result.text).toContain("   Délai: ~3 jours\n");
+      expect(result.text).toContain("Durée estimée: 3.0 jours");
+      expect(result.text).not.toContain("STEPS");
+    });
+  });
 });
@@ -61,6 +61,18 @@ describe("ProcedureListFormatter", () => {
     ]);
   });
 
+  it("shows the menu a procedure was listed under", () => {
+    const result = formatter.format(
+      [{ id: 1244, name: "Import Crystal Sugar", menuId: 725 }],
+      true
+    );
+
+    expect(result.text).toContain(
+      "Import Crystal Sugar (ID:1244, MENU ID:725)"
+    );
+    expect(result.data[0]).toEqual(expect.objectContaining({ menuId: 725 }));
+  });
+
   it("formats procedure list without data when return_data is false", () => {
     const result = formatter.format(mockProcedures, false);
 
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { ProcedureProgressFormatter } from "../../mcp-capabilities/tools/formatters/procedure-progress-formatter.js";
+import type { ProcedureProgressData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("ProcedureProgressFormatter", () => {
+  const formatter = new ProcedureProgressFormatter();
+
+  it("formats the progress of a single procedure", () => {
+    const result = formatter.format({
+      procedureId: 725,
+      procedureName: "Register a company",
+      progress: {
+        steps: 8,
+        certifiedSteps: 6,
+        statusA: 5,
+        statusB: 2,
+        statusD: 1,
+        openedTickets: 2,
+        archivedTickets: 7,
+      },
+    });
+
+    expect(result.text).toBe(
+      "PROCEDURE PROGRESS: Register a company (ID:725)\n" +
+        "Certified steps: 6/8 (75%)\n" +
+        "Step statuses: A: 5 | B: 2 | D: 1\n" +
+        "Tickets: 2 open, 7 archived\n"
+    );
+    expect(result.data).toEqual({
+      procedureId: 725,
+      steps: 8,
+      certifiedSteps: 6,
+      statusA: 5,
+      statusB: 2,
+      statusD: 1,
+      openedTickets: 2,
+      archivedTickets: 7,
+      certificationRate: 75,
+    });
+  });
+
+  it("formats the aggregated progress of the portal", () => {
+    const portalProgress: ProcedureProgressData = {
+      progress: { steps: 20, certifiedSteps: 12, openedTickets: 3 },
+      procedures: [
+        {
+          id: 1,
+          name: "Complete",
+          progress: { steps: 10, certifiedSteps: 10 },
+        },
+        {
+          id: 2,
+          name: "Half done",
+          progress: { steps: 4, certifiedSteps: 2, openedTickets: 3 },
+        },
+        {
+          id: 3,
+          name: "Barely started",
+          progress: { steps: 6, certifiedSteps: 0 },
+        },
+        { id: 4, name: "Empty", progress: { steps: 0 } },
+      ],
+      failedProcedureIds: [5],
+    };
+
+    const result = formatter.format(portalProgress);
+
+    expect(result.text).toContain("PORTAL PROGRESS: 4 procedures");
+    expect(result.text).toContain("Fully certified procedures: 1/4");
+    expect(result.text).toContain("Certified steps: 12/20 (60%)");
+    expect(result.text).toContain(
+      "LEAST DOCUMENTED PROCEDURES:\n" +
+        "- Barely started (ID:3): 0/6 (0%)\n" +
+        "- Half done (ID:2): 2/4 (50%), 3 open tickets\n"
+    );
+    expect(result.text).toContain("Progress unavailable for procedure IDs: 5");
+
+    expect(result.data.procedureCount).toBe(4);
+    expect(result.data.fullyCertifiedCount).toBe(1);
+    expect(result.data.leastDocumented).toEqual([
+      { id: 3, certificationRate: 0 },
+      { id: 2, certificationRate: 50 },
+    ]);
+  });
+
+  it("handles procedures without steps", () => {
+    const result = formatter.format({ procedureId: 9, progress: {} });
+    expect(result.text).toContain("Certified steps: 0/0\n");
+    expect(result.data.certificationRate).toBeNull();
+  });
+
+  it("handles missing progress data", () => {
+    expect(formatter.format(null as any).text).toBe(
+      "No progress data available"
+    );
+    expect(formatter.format({} as any).data).toEqual({});
+  });
+});
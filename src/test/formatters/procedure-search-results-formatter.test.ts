@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { ProcedureSearchResultsFormatter } from "../../mcp-capabilities/tools/formatters/procedure-search-results-formatter.js";
+import type { ProcedureSearchData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("ProcedureSearchResultsFormatter", () => {
+  const formatter = new ProcedureSearchResultsFormatter();
+
+  const mockResults: ProcedureSearchData = {
+    query: "regstration fee",
+    total: 3,
+    indexedCount: 40,
+    corrections: { regstration: ["registration"] },
+    hits: [
+      {
+        id: 10,
+        name: "Register a company",
+        fullName: "Start a business > Register a company",
+        menuId: 1,
+        score: 4.21,
+        snippets: [
+          { field: "steps", text: "Pay the **registration** **fee**" },
+        ],
+      },
+      {
+        id: 20,
+        name: "Renew a license",
+        score: 1.5,
+        snippets: [],
+      },
+    ],
+  };
+
+  it("formats ranked results with their snippets", () => {
+    const result = formatter.format(mockResults);
+
+    expect(result.text).toContain(
+      'Found 3 procedures for "regstration fee", ranked by relevance (showing the top 2):'
+    );
+    expect(result.text).toContain(
+      'Typos tolerated: "regstration" matched registration'
+    );
+    expect(result.text).toContain(
+      "1. Register a company (ID:10, MENU ID:1) - score 4.21\n   Path: Start a business > Register a company\n   Steps: Pay the **registration** **fee**\n"
+    );
+    expect(result.text).toContain("2. Renew a license (ID:20) - score 1.5\n");
+    expect(result.text).toContain("getProcedureDetails");
+    expect(result.data).toEqual([
+      { id: 10, name: "Register a company", menuId: 1, score: 4.21 },
+      { id: 20, name: "Renew a license", score: 1.5 },
+    ]);
+  });
+
+  it("explains how to broaden a search without results", () => {
+    const result = formatter.format({
+      ...mockResults,
+      total: 0,
+      corrections: {},
+      hits: [],
+    });
+
+    expect(result.text).toContain(
+      'No procedures found matching "regstration fee" among 40 indexed procedures.'
+    );
+    expect(result.text).toContain("All words must match");
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { ProcedureSummaryFormatter } from "../../mcp-capabilities/tools/formatters/procedure-summary-formatter.js";
+import type { ProcedureSummaryData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("ProcedureSummaryFormatter", () => {
+  const formatter = new ProcedureSummaryFormatter();
+
+  const mockSummary: ProcedureSummaryData = {
+    procedureId: 725,
+    resume: {
+      id: 725,
+      name: "Buying cloves",
+      steps: 5,
+      institutions: 2,
+      results: 6,
+      requirements: 5,
+      laws: 1,
+      costs: [
+        { cost: 15000, unit: "TZS" },
+        { cost: 0, unit: "USD" },
+      ],
+      timeframe: {
+        total: { min: 2, max: 3, unit: "days" },
+        timeSpentAtTheCounter: { minutes: { min: 50, max: 50 } },
+        waitingTimeInLine: { hours: { max: 1 } },
+        waitingTimeUntilNextStep: { days: { min: 2, max: 3 } },
+      },
+    },
+    totals: {
+      steps: [
+        { id: 1, isOnline: true },
+        { id: 2, isOnline: false },
+      ],
+      institutionCount: 2,
+      requirementCount: 5,
+      abcCosts: { cost: 42.5, unit: "USD" },
+      timeframe: { cost: 3, unit: "days" },
+    },
+  };
+
+  it("formats the official resume and totals", () => {
+    const result = formatter.format(mockSummary);
+
+    expect(result.text).toContain("PROCEDURE SUMMARY: Buying cloves (ID:725)");
+    expect(result.text).toContain(
+      "Steps: 5 | Institutions: 2 | Requirements: 5 | Results: 6 | Laws: 1"
+    );
+    expect(result.text).toContain("Online steps: 1");
+    expect(result.text).toContain("Total time: 2-3 days");
+    expect(result.text).toContain(
+      "Breakdown: 50min at counter + 1h waiting in line + 2-3 days processing"
+    );
+    expect(result.text).toContain("Total costs: 15,000 TZS\n");
+    expect(result.text).toContain("Administrative burden (ABC): 42.5 USD");
+
+    expect(result.data).toEqual({
+      id: 725,
+      name: "Buying cloves",
+      steps: 5,
+      institutions: 2,
+      requirements: 5,
+      results: 6,
+      laws: 1,
+      costs: [{ cost: 15000, unit: "TZS" }],
+      totalTime: { cost: 3, unit: "days" },
+      abcCost: { cost: 42.5, unit: "USD" },
+    });
+  });
+
+  it("falls back to totals when the resume is missing", () => {
+    const result = formatter.format({
+      procedureId: 99,
+      resume: null,
+      totals: {
+        institutionCount: 1,
+        requirementCount: 0,
+        costs: [{ cost: 10, unit: "USD" }],
+        timeframe: { cost: 4, unit: "days" },
+      },
+    });
+
+    expect(result.text).toContain("PROCEDURE SUMMARY: Procedure (ID:99)");
+    expect(result.text).toContain("Institutions: 1 | Requirements: 0");
+    expect(result.text).toContain("Total time: 4 days");
+    expect(result.text).toContain("Total costs: 10 USD");
+  });
+
+  it("leaves out the counts the API does not know", () => {
+    const result = formatter.format({
+      procedureId: 1,
+      resume: {
+        id: 1,
+        name: "New procedure",
+        steps: 3,
+        results: null,
+        laws: null,
+      },
+    } as any);
+
+    expect(result.text).toContain("Steps: 3\n");
+    expect(result.text).not.toContain("null");
+  });
+
+  it("reports procedures without costs", () => {
+    const result = formatter.format({
+      procedureId: 1,
+      resume: { id: 1, name: "Free procedure", costs: [] },
+    });
+    expect(result.text).toContain("Total costs: none recorded");
+  });
+
+  it("handles missing summary data", () => {
+    expect(formatter.format({ procedureId: 1 }).text).toBe(
+      "No procedure summary available"
+    );
+    expect(formatter.format(null as any).data).toEqual({});
+  });
+});
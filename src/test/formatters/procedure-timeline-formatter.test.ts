@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { ProcedureTimelineFormatter } from "../../mcp-capabilities/tools/formatters/procedure-timeline-formatter.js";
+import type { ProcedureTimelineData } from "../../mcp-capabilities/tools/formatters/types.js";
+import { GetProcedureTimelineOutputSchema } from "../../mcp-capabilities/tools/output-schemas.js";
+
+describe("ProcedureTimelineFormatter", () => {
+  const formatter = new ProcedureTimelineFormatter();
+
+  const days = (max: number) => ({
+    waitingTimeUntilNextStep: { days: { max } },
+  });
+
+  const mockTimeline: ProcedureTimelineData = {
+    procedureId: 725,
+    procedureName: "Buying cloves",
+    blocks: [
+      {
+        steps: [
+          {
+            id: 2787,
+            name: "Submit application",
+            timeframe: {
+              ...days(2),
+              timeSpentAtTheCounter: { minutes: { max: 30 } },
+            },
+          },
+          { id: 2788, name: "Pay for cloves", timeframe: days(6) },
+          {
+            id: 2789,
+            name: "Inspect the cloves",
+            isParallel: true,
+            isOptional: true,
+            timeframe: days(2),
+          },
+          { id: 2790, name: "Obtain documents" },
+        ],
+      },
+    ],
+  };
+
+  it("summarizes the durations of the procedure", () => {
+    const { text } = formatter.format(mockTimeline);
+
+    expect(text).toContain(
+      "TIMELINE: Buying cloves (ID:725)\n" +
+        "Critical path: 8.0 days (includes 30 minutes at counters)\n" +
+        "Minimum: 8.0 days, without the optional steps\n" +
+        "Maximum: 10.0 days, with every step one after the other\n"
+    );
+  });
+
+  it("draws the steps as a Gantt chart", () => {
+    const { text } = formatter.format(mockTimeline);
+
+    // Bar of the given length from a column, on 40 columns
+    const bar = (from: number, length: number, mark = "#") =>
+      `|${" ".repeat(from)}${mark.repeat(length)}${" ".repeat(
+        40 - from - length
+      )}|`;
+    // Off the critical path
+    const parallelBar = bar(10, 10, "=");
+
+    expect(text).toContain(
+      `1. Submit application ${bar(0, 10)} day 0.0-2.0\n` +
+        `2. Pay for cloves     ${bar(10, 30)} day 2.0-8.0\n` +
+        `3. Inspect the cloves ${parallelBar} day 2.0-4.0 [parallel, optional]\n` +
+        `4. Obtain documents   ${bar(39, 1)} day 8.0-8.0 [no timeframe]\n`
+    );
+    expect(text).toContain(
+      "NOTE: Steps 2790 have no timeframe and are counted as taking no time."
+    );
+  });
+
+  it("extracts the essential data", () => {
+    const { data } = formatter.format({
+      ...mockTimeline,
+      menuId: 12,
+      incompleteStepIds: [2790],
+    });
+
+    expect(data).toMatchObject({
+      procedureId: 725,
+      menuId: 12,
+      minimumDays: 8.02,
+      maximumDays: 10.02,
+      criticalPathDays: 8.02,
+      criticalPathStepIds: [2787, 2788, 2790],
+      stepsWithoutTimeframe: [2790],
+      incompleteStepIds: [2790],
+    });
+    expect(data.steps[2]).toEqual({
+      stepId: 2789,
+      stepNumber: 3,
+      stepName: "Inspect the cloves",
+      isOptional: true,
+      isParallel: true,
+      isCritical: false,
+      start: 2.02,
+      end: 4.02,
+      minutes: 0,
+      days: 2,
+    });
+  });
+
+  it("returns data matching the output schema", () => {
+    const { data } = formatter.format(mockTimeline);
+    const sent = JSON.parse(JSON.stringify(data));
+
+    expect(GetProcedureTimelineOutputSchema.parse(sent)).toEqual(sent);
+  });
+
+  it("handles procedures without steps", () => {
+    const result = formatter.format({ procedureId: 725, blocks: [] });
+
+    expect(result.text).toBe("No steps found for this procedure");
+    expect(result.data).toEqual({});
+  });
+});
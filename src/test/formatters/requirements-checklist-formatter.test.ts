@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import { RequirementsChecklistFormatter } from "../../mcp-capabilities/tools/formatters/requirements-checklist-formatter.js";
+import type { RequirementsChecklistData } from "../../mcp-capabilities/tools/formatters/types.js";
+import { GetRequirementsChecklistOutputSchema } from "../../mcp-capabilities/tools/output-schemas.js";
+
+describe("RequirementsChecklistFormatter", () => {
+  const formatter = new RequirementsChecklistFormatter();
+
+  const zstc = { entityInCharge: { name: "ZSTC" } };
+  const bank = { entityInCharge: { name: "People's Bank of Zanzibar" } };
+
+  const mockChecklist: RequirementsChecklistData = {
+    procedureId: 725,
+    procedureName: "Buying cloves",
+    steps: [
+      {
+        id: 2787,
+        name: "Submit application",
+        contact: zstc,
+        requirements: [
+          {
+            id: 51,
+            name: "Application letter",
+            nbOriginal: 1,
+            nbCopy: 1,
+            url: "https://example.com/letter.pdf",
+          },
+          { name: "Identity card", nbOriginal: 1, nbCopy: 1 },
+        ],
+        results: [{ id: 60, name: "Proforma invoice" }],
+      },
+      {
+        id: 2788,
+        name: "Pay for cloves",
+        contact: bank,
+        requirements: [
+          { id: 60, name: "Proforma invoice", nbCopy: 1 },
+          // Same document, named differently
+          {
+            name: "IDENTITY  CARD",
+            nbOriginal: 1,
+            nbCopy: 2,
+            nbAuthenticated: 1,
+            comments: "Certified by a notary",
+          },
+        ],
+        results: [{ id: 61, name: "Bank deposit slip" }],
+      },
+      {
+        id: 2790,
+        name: "Obtain documents",
+        contact: zstc,
+        requirements: [{ id: 61, name: "Bank deposit slip" }],
+        results: [
+          { id: 70, name: "Certificate of origin", isFinalResult: true },
+        ],
+      },
+    ],
+  };
+
+  it("consolidates the documents of the steps", () => {
+    const { data } = formatter.format(mockChecklist);
+
+    expect(data.procedureId).toBe(725);
+    expect(data.documents.map((document: any) => document.name)).toEqual([
+      "Application letter",
+      "Identity card",
+      "Proforma invoice",
+      "Bank deposit slip",
+      "Certificate of origin",
+    ]);
+
+    const identityCard = data.documents[1];
+    // Originals are shown again, copies are left at each step
+    expect(identityCard).toMatchObject({
+      originals: 1,
+      copies: 3,
+      authenticated: 1,
+    });
+    expect(
+      identityCard.neededAt.map((step: any) => [step.stepNumber, step.stepId])
+    ).toEqual([
+      [1, 2787],
+      [2, 2788],
+    ]);
+    expect(identityCard.neededAt[1].comments).toBe("Certified by a notary");
+
+    const invoice = data.documents[2];
+    expect(invoice.documentId).toBe(60);
+    expect(invoice.producedBy).toEqual([
+      {
+        stepId: 2787,
+        stepNumber: 1,
+        stepName: "Submit application",
+        institution: "ZSTC",
+      },
+    ]);
+    expect(data.documents[4]).toMatchObject({
+      isFinalResult: true,
+      neededAt: [],
+      producedBy: [expect.objectContaining({ stepId: 2790 })],
+    });
+  });
+
+  it("separates the documents to bring from those obtained on the way", () => {
+    const { text } = formatter.format(mockChecklist);
+
+    expect(text).toContain("REQUIREMENTS CHECKLIST: Buying cloves (ID:725)");
+    expect(text).toContain(
+      "2 documents to bring, 2 obtained during the procedure, 1 received"
+    );
+
+    const [, toBring, obtained] = text.split(
+      /\nDOCUMENTS TO BRING:\n|\nDOCUMENTS OBTAINED DURING THE PROCEDURE:\n/
+    );
+    expect(toBring).toContain(
+      "[ ] Application letter (DOCUMENT ID:51): 1 original, 1 copy\n"
+    );
+    expect(toBring).toContain("    Download: https://example.com/letter.pdf");
+    expect(toBring).toContain(
+      "[ ] Identity card: 1 original, 3 copies, 1 authenticated copy\n" +
+        "    Needed at: 1. Submit application (STEP ID:2787, ZSTC) - 1 original, 1 copy, " +
+        "2. Pay for cloves (STEP ID:2788, People's Bank of Zanzibar) - 1 original, 2 copies, 1 authenticated copy\n" +
+        "    Note (step 2): Certified by a notary\n"
+    );
+    expect(obtained).toContain(
+      "[ ] Proforma invoice (DOCUMENT ID:60): 1 copy\n" +
+        "    Produced by: 1. Submit application (STEP ID:2787, ZSTC)\n"
+    );
+    expect(obtained).toContain(
+      "[ ] Bank deposit slip (DOCUMENT ID:61): number of copies not specified"
+    );
+  });
+
+  it("groups the documents by institution and lists the final documents", () => {
+    const { text } = formatter.format(mockChecklist);
+
+    expect(text).toContain(
+      "DOCUMENTS BY INSTITUTION:\n" +
+        "- ZSTC: Application letter; Identity card; Bank deposit slip\n" +
+        "- People's Bank of Zanzibar: Identity card; Proforma invoice\n"
+    );
+    expect(text).toContain(
+      "DOCUMENTS RECEIVED:\n- Certificate of origin [final] (from 3. Obtain documents (STEP ID:2790, ZSTC))"
+    );
+  });
+
+  it("notes the steps whose details are missing", () => {
+    const { text, data } = formatter.format({
+      ...mockChecklist,
+      menuId: 12,
+      incompleteStepIds: [2788],
+    });
+
+    expect(text).toContain("(ID:725, MENU ID:12)");
+    expect(text).toContain(
+      "NOTE: The details of steps 2788 could not be retrieved"
+    );
+    expect(data.incompleteStepIds).toEqual([2788]);
+  });
+
+  it("returns data matching the output schema", () => {
+    const { data } = formatter.format(mockChecklist);
+    const sent = JSON.parse(JSON.stringify(data));
+
+    expect(GetRequirementsChecklistOutputSchema.parse(sent)).toEqual(sent);
+  });
+
+  it("handles procedures without steps", () => {
+    const result = formatter.format({ procedureId: 725, steps: [] });
+
+    expect(result.text).toBe("No steps found for this procedure");
+    expect(result.data).toEqual({});
+  });
+});
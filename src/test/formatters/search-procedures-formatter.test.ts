@@ -1,5 +1,6 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach } from "vitest";
 import { SearchProceduresFormatter } from "../../mcp-capabilities/tools/formatters/search-procedures-formatter.js";
+import { setFormattingLocale } from "../../mcp-capabilities/tools/formatters/locale.js";
 import type { ObjectiveData } from "../../mcp-capabilities/tools/formatters/types.js";
 
 describe("SearchProceduresFormatter", () => {
@@ -99,4 +100,24 @@ describe("SearchProceduresFormatter", () => {
     expect(result.text).toContain("Found 3 procedures:"); // No 'for "keyword"' part
     expect(result.data.length).toBe(3);
   });
+
+  describe("in the portal language", () => {
+    afterEach(() => {
+      setFormattingLocale({});
+    });
+
+    it("translates the result count", () => {
+      setFormattingLocale({ locale: "pt-CV" });
+      const result = formatter.format(mockObjectives, "licença");
+      expect(result.text).toContain(
+        '3 procedimentos encontrados para "licença":'
+      );
+    });
+
+    it("translates the empty result message", () => {
+      setFormattingLocale({ locale: "fr" });
+      const result = formatter.format([], "permis");
+      expect(result.text).toBe('Aucune démarche trouvée pour "permis"');
+    });
+  });
 });
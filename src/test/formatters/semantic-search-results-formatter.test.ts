@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { SemanticSearchResultsFormatter } from "../../mcp-capabilities/tools/formatters/semantic-search-results-formatter.js";
+import type { SemanticSearchData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("SemanticSearchResultsFormatter", () => {
+  const formatter = new SemanticSearchResultsFormatter();
+
+  const mockResults: SemanticSearchData = {
+    query: "selling fish abroad",
+    model: "hashing-512",
+    indexedCount: 120,
+    hits: [
+      {
+        id: 10,
+        name: "Export of fishery products",
+        fullName: "Export > Export of fishery products",
+        menuId: 1,
+        similarity: 0.82,
+        score: 0.92,
+        source: "both",
+      },
+      {
+        id: 30,
+        name: "Get a market stall",
+        similarity: 0.41,
+        score: 0.41,
+        matchedStep: "Sell seafood at the harbour",
+        source: "semantic",
+      },
+      { id: 40, name: "Fishing licence", score: 0, source: "keyword" },
+    ],
+  };
+
+  it("formats related procedures with how they matched", () => {
+    const result = formatter.format(mockResults);
+
+    expect(result.text).toContain(
+      'Found 3 procedures related to "selling fish abroad", most related first (semantic search over 120 procedures with hashing-512):'
+    );
+    expect(result.text).toContain(
+      "1. Export of fishery products (ID:10, MENU ID:1) - similarity 0.82, also a keyword match\n   Path: Export > Export of fishery products\n"
+    );
+    expect(result.text).toContain(
+      "2. Get a market stall (ID:30) - similarity 0.41\n   Matching step: Sell seafood at the harbour\n"
+    );
+    expect(result.text).toContain("3. Fishing licence (ID:40) - keyword match");
+    expect(result.text).toContain("getProcedureDetails");
+    expect(result.text).not.toContain("No embedding service");
+    expect(result.data).toEqual([
+      {
+        id: 10,
+        name: "Export of fishery products",
+        menuId: 1,
+        similarity: 0.82,
+        source: "both",
+      },
+      {
+        id: 30,
+        name: "Get a market stall",
+        similarity: 0.41,
+        source: "semantic",
+      },
+      { id: 40, name: "Fishing licence", source: "keyword" },
+    ]);
+  });
+
+  it("tells when procedures are matched by their words only", () => {
+    const { text } = formatter.format({ ...mockResults, lexical: true });
+
+    expect(text).toContain(
+      "most related first (lexical search over 120 procedures with hashing-512):\nNo embedding service is configured, so procedures are matched by their words, not their meaning"
+    );
+  });
+
+  it("explains keyword-only results and empty results", () => {
+    const fallback = formatter.format({
+      ...mockResults,
+      indexedCount: 0,
+      hits: [mockResults.hits[2]],
+      fallbackReason: "connect ECONNREFUSED",
+    });
+    expect(fallback.text).toContain(
+      'Found 1 procedure for "selling fish abroad" with the portal keyword search only.\nSemantic search unavailable: connect ECONNREFUSED'
+    );
+
+    const empty = formatter.format({ ...mockResults, hits: [] });
+    expect(empty.text).toContain(
+      'No procedures found related to "selling fish abroad".'
+    );
+    expect(empty.data).toEqual([]);
+  });
+});
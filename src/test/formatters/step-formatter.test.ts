@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { StepFormatter } from '../../mcp-capabilities/tools/formatters/step-formatter.js';
 import { StepData } from '../../mcp-capabilities/tools/formatters/types.js';
+import { setFormattingLocale } from '../../mcp-capabilities/tools/formatters/locale.js';
 
 describe('StepFormatter', () => {
   const formatter = new StepFormatter();
@@ -192,4 +193,89 @@ describe('StepFormatter', () => {
     expect(result.text).toContain('- 100 TZS (Fixed Fee)');
     expect(result.text).toContain('- 2% of value (Variable Fee)');
   });
-});
\ No newline at end of file
+
+  it('includes law IDs in legal references when available', () => {
+    const stepWithLaws: StepData = {
+      id: 5,
+      name: "Law Test",
+      laws: [
+        { id: 7, name: "Companies Act" },
+        { name: "Unlinked Regulation" }
+      ]
+    };
+
+    const result = formatter.format(stepWithLaws);
+    expect(result.text).toContain(
+      'LEGAL REFS: Companies Act (LAW ID:7) | Unlinked Regulation'
+    );
+  });
+
+  it('includes document IDs and form links of requirements', () => {
+    const stepWithForms: StepData = {
+      id: 6,
+      name: "Form Test",
+      requirements: [
+        {
+          id: 51,
+          name: "Application form",
+          nbOriginal: 1,
+          url: "https://portal.test/app.pdf"
+        },
+        { name: "Passport copy" }
+      ]
+    };
+
+    const result = formatter.format(stepWithForms);
+    expect(result.text).toContain('- Application form (DOC ID:51) (1 orig)');
+    expect(result.text).toContain('  Form: https://portal.test/app.pdf');
+    expect(result.text).toContain('- Passport copy\n');
+    expect(result.data.requirementDocuments).toEqual([
+      { id: 51, name: "Application form", url: "https://portal.test/app.pdf" }
+    ]);
+  });
+
+  it('includes institution, unit and person IDs in the contact section', () => {
+    const stepWithContactIds: StepData = {
+      id: 7,
+      name: "Contact Test",
+      contact: {
+        entityInCharge: { id: 5, name: "Revenue Authority" },
+        unitInCharge: { id: 6, name: "Registration Desk" },
+        personInCharge: { id: 9, name: "John Doe", profession: "Officer" }
+      }
+    };
+
+    const result = formatter.format(stepWithContactIds);
+    expect(result.text).toContain('Entity: Revenue Authority (INSTITUTION ID:5)');
+    expect(result.text).toContain('Unit: Registration Desk (UNIT ID:6)');
+    expect(result.text).toContain('Contact: John Doe (Officer) (PERSON ID:9)');
+  });
+
+  it('falls back to the portal currency for costs without unit', () => {
+    setFormattingLocale({ currency: "XOF" });
+    try {
+      const result = formatter.format({
+        id: 8,
+        name: "Currency Test",
+        costs: [{ value: 500, comments: "Stamp" }]
+      } as StepData);
+      expect(result.text).toContain('- 500 XOF (Stamp)');
+    } finally {
+      setFormattingLocale({});
+    }
+  });
+
+  it('uses the labels of the language asked for', () => {
+    setFormattingLocale({ locale: "fr", language: "es" });
+    try {
+      const result = formatter.format(mockStep);
+      expect(result.text).toContain('PASO: Submit Application Documents (ID:1)');
+      expect(result.text).toContain('EN LÍNEA: Sí');
+      expect(result.text).toContain('Entidad: Trade Authority');
+      expect(result.text).toContain('REQUISITOS:\n');
+      expect(result.text).not.toContain('REQUIREMENTS');
+    } finally {
+      setFormattingLocale({});
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { UnitFormatter } from "../../mcp-capabilities/tools/formatters/unit-formatter.js";
+import type { UnitData } from "../../mcp-capabilities/tools/formatters/types.js";
+
+describe("UnitFormatter", () => {
+  const formatter = new UnitFormatter();
+
+  const mockUnit: UnitData = {
+    id: 6,
+    name: "Registration Desk",
+    schedule: { day2: { morningStart: "09:00", morningEnd: "13:00" } },
+    people: [{ id: 9, name: "John Doe", profession: "Officer" }],
+    steps: [
+      {
+        id: 384,
+        name: "Register for TIN",
+        links: [{ rel: "self", href: "/Procedures/725/Steps/384" }],
+      },
+    ],
+  };
+
+  it("formats a unit with opening hours, people and steps", () => {
+    const result = formatter.format(mockUnit);
+
+    expect(result.text).toContain("UNIT: Registration Desk (UNIT ID:6)");
+    expect(result.text).toContain("OPENING HOURS:\n- Tue: 09:00-13:00");
+    expect(result.text).toContain(
+      "PEOPLE:\n- John Doe (Officer) (PERSON ID:9)"
+    );
+    expect(result.text).toContain(
+      "STEPS:\n- Register for TIN (STEP ID:384, PROCEDURE ID:725)"
+    );
+
+    expect(result.data).toEqual({
+      id: 6,
+      name: "Registration Desk",
+      openingHours: ["Tue: 09:00-13:00"],
+      people: [{ id: 9, name: "John Doe", profession: "Officer" }],
+      procedures: [{ procedureId: 725, stepIds: [384] }],
+    });
+  });
+
+  it("handles units whose steps are null", () => {
+    const result = formatter.format({ ...mockUnit, steps: null });
+
+    expect(result.text).not.toContain("STEPS:");
+    expect(result.data.procedures).toEqual([]);
+  });
+
+  it("handles null/undefined unit", () => {
+    expect(formatter.format(null as any).text).toBe("No unit data available");
+    expect(formatter.format(undefined as any).data).toEqual({});
+  });
+});
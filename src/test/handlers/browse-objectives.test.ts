@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createBrowseObjectivesHandler } from "../../mcp-capabilities/tools/handlers/browse-objectives.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    objectiveLevel: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("BrowseObjectivesHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createBrowseObjectivesHandler>;
+
+  const mockLevel = {
+    id: 725,
+    name: "EXPORT",
+    children: [
+      {
+        id: 800,
+        name: "Zanzibar",
+        isProcedure: false,
+        childCount: 2,
+        procedureCount: 5,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getObjectiveLevel: vi.fn().mockResolvedValue(mockLevel),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.objectiveLevel.format).mockReturnValue({
+      text: "Test formatted level",
+      data: {},
+    });
+
+    handler = createBrowseObjectivesHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.BROWSE_OBJECTIVES);
+    expect(handler.description).toContain("one level at a time");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("lists the top-level objectives without an objective ID", async () => {
+    await handler.handler({});
+
+    expect(mockApi.getObjectiveLevel).toHaveBeenCalledWith(undefined);
+  });
+
+  it("opens the given objective and formats the result", async () => {
+    const result = await handler.handler({ objectiveId: 725 });
+
+    expect(mockApi.getObjectiveLevel).toHaveBeenCalledWith(725);
+    expect(formatters.objectiveLevel.format).toHaveBeenCalledWith(mockLevel);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted level" },
+    ]);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getObjectiveLevel).mockRejectedValue(
+      new Error("No data returned for /Menus/999")
+    );
+
+    const result = await handler.handler({ objectiveId: 999 });
+
+    expect(result.content[0].text).toContain(
+      "Error browsing objectives: No data returned for /Menus/999"
+    );
+    expect(result.content[0].text).toContain("without an objective ID");
+  });
+});
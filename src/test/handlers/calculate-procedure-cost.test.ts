@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createCalculateProcedureCostHandler } from "../../mcp-capabilities/tools/handlers/calculate-procedure-cost.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { setFormattingLocale } from "../../mcp-capabilities/tools/formatters/locale.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    procedureCost: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("CalculateProcedureCostHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createCalculateProcedureCostHandler>;
+
+  const pricedStep = {
+    id: 2787,
+    name: "Submit application",
+    costs: [
+      {
+        value: 2,
+        unit: "%",
+        operator: "percentage",
+        parameter: "of FOB value",
+      },
+    ],
+  };
+  // Listed without its costs
+  const partialStep = { id: 2788, name: "Pay for cloves" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setFormattingLocale({ currency: "TZS" });
+
+    mockApi = {
+      getProcedureById: vi.fn().mockResolvedValue({
+        id: 725,
+        name: "Buying cloves",
+        fullName: "Export > Buying cloves",
+        data: { blocks: [{ steps: [pricedStep, partialStep] }] },
+      }),
+      getProcedureStep: vi.fn().mockResolvedValue({
+        id: 2788,
+        name: "Pay for cloves",
+        costs: [{ value: 100, unit: "USD", paymentDetails: "Bank transfer" }],
+      }),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.procedureCost.format).mockReturnValue({
+      text: "Test formatted bill",
+      data: { procedureId: 725 },
+    });
+
+    handler = createCalculateProcedureCostHandler(mockApi);
+  });
+
+  afterEach(() => {
+    setFormattingLocale({});
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.CALCULATE_PROCEDURE_COST);
+    expect(handler.description).toContain("itemized bill");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("bills the fees of the steps with the parameters given", async () => {
+    const result = await handler.handler({
+      procedureId: 725,
+      menuId: 12,
+      parameters: { "FOB value": 10000 },
+    });
+
+    expect(mockApi.getProcedureById).toHaveBeenCalledWith(725, 12);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledTimes(1);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(725, 2788, 12);
+
+    const [cost] = vi.mocked(formatters.procedureCost.format).mock.calls[0];
+    expect(cost).toMatchObject({
+      procedureId: 725,
+      procedureName: "Export > Buying cloves",
+      menuId: 12,
+      parameters: { "FOB value": 10000 },
+      incompleteStepIds: [],
+    });
+    // Percentages are charged in the portal currency
+    expect(cost.bill.totals).toEqual([
+      { currency: "TZS", amount: 200 },
+      { currency: "USD", amount: 100 },
+    ]);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted bill" },
+    ]);
+    expect(result.structuredContent).toEqual({ procedureId: 725 });
+  });
+
+  it("charges percentages in the currency of the parameters", async () => {
+    vi.mocked(mockApi.getProcedureStep).mockResolvedValue({
+      id: 2788,
+      name: "Pay for cloves",
+      costs: [{ value: 100 }],
+    } as any);
+
+    await handler.handler({
+      procedureId: 725,
+      parameters: { "FOB value": 10000 },
+      currency: "EUR",
+    });
+
+    const [cost] = vi.mocked(formatters.procedureCost.format).mock.calls[0];
+    expect(cost.bill.items[0]).toMatchObject({ amount: 200, currency: "EUR" });
+    // Fees naming no currency are still charged in the portal currency
+    expect(cost.bill.items[1]).toMatchObject({ amount: 100, currency: "TZS" });
+  });
+
+  it("keeps the steps whose page cannot be fetched", async () => {
+    vi.mocked(mockApi.getProcedureStep).mockRejectedValue(
+      new Error("Step not found")
+    );
+
+    await handler.handler({ procedureId: 725 });
+
+    const [cost] = vi.mocked(formatters.procedureCost.format).mock.calls[0];
+    expect(cost.parameters).toEqual({});
+    expect(cost.bill.unresolved).toHaveLength(1);
+    expect(cost.incompleteStepIds).toEqual([2788]);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getProcedureById).mockRejectedValue(
+      new Error("Procedure not found")
+    );
+
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      "Error calculating procedure cost: Procedure not found"
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createCompareProceduresHandler } from "../../mcp-capabilities/tools/handlers/compare-procedures.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    procedureComparison: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("CompareProceduresHandler", () => {
+  let tanzaniaApi: ERegulationsApi;
+  let mockRegistry: PortalRegistry;
+  let handler: ReturnType<typeof createCompareProceduresHandler>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    tanzaniaApi = {
+      getProcedureById: vi
+        .fn()
+        .mockResolvedValue({ id: 1, name: "Register a company" }),
+      getProcedureTotals: vi
+        .fn()
+        .mockResolvedValue({ costs: [{ cost: 50000, unit: "TZS" }] }),
+      getCountryDetails: vi
+        .fn()
+        .mockResolvedValue({ name: "Tanzania", currency: "TZS" }),
+    } as unknown as ERegulationsApi;
+
+    mockRegistry = {
+      findPortalByUrl: vi.fn().mockReturnValue(undefined),
+      resolvePortal: vi.fn().mockImplementation((name?: string) => {
+        if (name && name !== "tanzania") {
+          throw new Error(`Unknown portal "${name}"`);
+        }
+        return "tanzania";
+      }),
+      getApi: vi.fn().mockReturnValue(tanzaniaApi),
+    } as unknown as PortalRegistry;
+
+    // Clients created for portals that are not configured
+    vi.mocked(ERegulationsApi).mockImplementation(
+      () =>
+        ({
+          setBaseUrl: vi.fn(),
+          getProcedureById: vi
+            .fn()
+            .mockResolvedValue({ id: 7, name: "Start a business" }),
+          getProcedureTotals: vi.fn().mockRejectedValue(new Error("Timeout")),
+          getCountryDetails: vi.fn().mockResolvedValue({ currency: "KES" }),
+        } as unknown as ERegulationsApi)
+    );
+
+    vi.mocked(formatters.procedureComparison.format).mockReturnValue({
+      text: "Test formatted comparison",
+      data: {},
+    });
+
+    handler = createCompareProceduresHandler(mockRegistry);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.COMPARE_PROCEDURES);
+    expect(handler.description).toContain("side by side");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("compares procedures of configured and one-off portals", async () => {
+    const result = await handler.handler({
+      procedures: [
+        { procedureId: 1, portal: "tanzania" },
+        { procedureId: 7, apiUrl: "https://api-kenya.example.com" },
+      ],
+      exchangeRates: { tzs: 0.0004 },
+    });
+
+    expect(tanzaniaApi.getProcedureById).toHaveBeenCalledWith(1);
+    expect(ERegulationsApi).toHaveBeenCalledTimes(1);
+    const kenyaApi = vi.mocked(ERegulationsApi).mock.results[0].value;
+    expect(kenyaApi.setBaseUrl).toHaveBeenCalledWith(
+      "https://api-kenya.example.com"
+    );
+    expect(formatters.procedureComparison.format).toHaveBeenCalledWith({
+      targetCurrency: "USD",
+      exchangeRates: { TZS: 0.0004 },
+      entries: [
+        {
+          portal: "tanzania",
+          country: "Tanzania",
+          currency: "TZS",
+          procedureId: 1,
+          procedure: {
+            id: 1,
+            name: "Register a company",
+            totals: { costs: [{ cost: 50000, unit: "TZS" }] },
+          },
+        },
+        {
+          portal: "api-kenya.example.com",
+          currency: "KES",
+          procedureId: 7,
+          procedure: { id: 7, name: "Start a business" },
+        },
+      ],
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted comparison" },
+    ]);
+  });
+
+  it("uses the configured client for a known API URL", async () => {
+    vi.mocked(mockRegistry.findPortalByUrl).mockReturnValue("tanzania");
+
+    await handler.handler({
+      procedures: [
+        { procedureId: 1, apiUrl: "api-tanzania.example.com" },
+        { procedureId: 2 },
+      ],
+    });
+
+    expect(ERegulationsApi).not.toHaveBeenCalled();
+    expect(tanzaniaApi.getProcedureById).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports the procedures that could not be fetched", async () => {
+    vi.mocked(tanzaniaApi.getProcedureById).mockRejectedValueOnce(
+      new Error("Procedure not found")
+    );
+
+    await handler.handler({
+      procedures: [
+        { procedureId: 999, portal: "tanzania" },
+        { procedureId: 1, portal: "lesotho" },
+      ],
+      targetCurrency: "eur",
+    });
+
+    expect(formatters.procedureComparison.format).toHaveBeenCalledWith({
+      targetCurrency: "EUR",
+      exchangeRates: {},
+      entries: [
+        { portal: "tanzania", procedureId: 999, error: "Procedure not found" },
+        {
+          portal: "lesotho",
+          procedureId: 1,
+          error: 'Unknown portal "lesotho"',
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetFormHandler } from "../../mcp-capabilities/tools/handlers/get-form.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+import { logger } from "../../utils/logger.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    form: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetFormHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetFormHandler>;
+
+  const mockForm = { id: 51, name: "Application form", steps: [] };
+  const mockCost = { amount: 5000 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getForm: vi.fn().mockResolvedValue(mockForm),
+      getDocumentCost: vi.fn().mockResolvedValue(mockCost),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.form.format).mockReturnValue({
+      text: "Test formatted form",
+      data: {},
+    });
+
+    handler = createGetFormHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_FORM);
+    expect(handler.description).toContain("form");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("fetches the form with its cost and formats the result", async () => {
+    const result = await handler.handler({ formId: 51 });
+
+    expect(mockApi.getForm).toHaveBeenCalledWith(51);
+    expect(mockApi.getDocumentCost).toHaveBeenCalledWith(51);
+    expect(formatters.form.format).toHaveBeenCalledWith({
+      ...mockForm,
+      cost: mockCost,
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted form" },
+    ]);
+  });
+
+  it("still returns the form when its cost cannot be fetched", async () => {
+    vi.mocked(mockApi.getDocumentCost).mockRejectedValue(
+      new Error("No data returned for /DocumentCosts/51")
+    );
+
+    const result = await handler.handler({ formId: 51 });
+
+    expect(formatters.form.format).toHaveBeenCalledWith({
+      ...mockForm,
+      cost: null,
+    });
+    expect(logger.warn).toHaveBeenCalled();
+    expect(result.content[0].text).toBe("Test formatted form");
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getForm).mockRejectedValue(new Error("Form not found"));
+
+    const result = await handler.handler({ formId: 999 });
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving form: Form not found"
+    );
+    expect(result.content[0].text).toContain("listForms");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetInstitutionHandler } from "../../mcp-capabilities/tools/handlers/get-institution.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+import { logger } from "../../utils/logger.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    institution: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetInstitutionHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetInstitutionHandler>;
+
+  const mockInstitution = { id: 5, name: "Tanzania Revenue Authority" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getInstitution: vi.fn().mockResolvedValue(mockInstitution),
+      getProceduresList: vi.fn().mockResolvedValue([
+        { id: 725, name: "Company", fullName: "Register a company" },
+        { id: 726, name: "Import goods" },
+      ]),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.institution.format).mockReturnValue({
+      text: "Test formatted institution",
+      data: {},
+    });
+
+    handler = createGetInstitutionHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_INSTITUTION);
+    expect(handler.description).toContain("opening hours");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("fetches the institution with procedure names", async () => {
+    const result = await handler.handler({ institutionId: 5 });
+
+    expect(mockApi.getInstitution).toHaveBeenCalledWith(5);
+    expect(formatters.institution.format).toHaveBeenCalledWith({
+      ...mockInstitution,
+      procedureNames: { 725: "Register a company", 726: "Import goods" },
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted institution" },
+    ]);
+  });
+
+  it("still returns the institution when procedure names are unavailable", async () => {
+    vi.mocked(mockApi.getProceduresList).mockRejectedValue(
+      new Error("API Down")
+    );
+
+    const result = await handler.handler({ institutionId: 5 });
+
+    expect(formatters.institution.format).toHaveBeenCalledWith({
+      ...mockInstitution,
+      procedureNames: {},
+    });
+    expect(logger.warn).toHaveBeenCalled();
+    expect(result.content[0].text).toBe("Test formatted institution");
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getInstitution).mockRejectedValue(
+      new Error("Institution not found")
+    );
+
+    const result = await handler.handler({ institutionId: 999 });
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving institution: Institution not found"
+    );
+    expect(result.content[0].text).toContain("listInstitutions");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetLawHandler } from "../../mcp-capabilities/tools/handlers/get-law.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    law: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetLawHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetLawHandler>;
+
+  const mockLaw = { id: 7, name: "Companies Act", steps: [] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getLaw: vi.fn().mockResolvedValue(mockLaw),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.law.format).mockReturnValue({
+      text: "Test formatted law",
+      data: {},
+    });
+
+    handler = createGetLawHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_LAW);
+    expect(handler.description).toContain("law or regulation");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("calls the API with the law ID and formats the result", async () => {
+    const result = await handler.handler({ lawId: 7 });
+
+    expect(mockApi.getLaw).toHaveBeenCalledWith(7);
+    expect(formatters.law.format).toHaveBeenCalledWith(mockLaw);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted law" },
+    ]);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getLaw).mockRejectedValue(new Error("Law not found"));
+
+    const result = await handler.handler({ lawId: 999 });
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving law: Law not found"
+    );
+    expect(result.content[0].text).toContain("listLaws");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetPersonHandler } from "../../mcp-capabilities/tools/handlers/get-person.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    person: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetPersonHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetPersonHandler>;
+
+  const mockPerson = { id: 9, name: "John Doe", steps: [] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getPerson: vi.fn().mockResolvedValue(mockPerson),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.person.format).mockReturnValue({
+      text: "Test formatted person",
+      data: {},
+    });
+
+    handler = createGetPersonHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_PERSON);
+    expect(handler.description).toContain("person in charge");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("calls the API with the person ID and formats the result", async () => {
+    const result = await handler.handler({ personId: mockPerson.id });
+
+    expect(mockApi.getPerson).toHaveBeenCalledWith(mockPerson.id);
+    expect(formatters.person.format).toHaveBeenCalledWith(mockPerson);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted person" },
+    ]);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getPerson).mockRejectedValue(
+      new Error("Person not found")
+    );
+
+    const result = await handler.handler({ personId: 999 });
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving person: Person not found"
+    );
+    expect(result.content[0].text).toContain("getUnit");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetPortalInfoHandler } from "../../mcp-capabilities/tools/handlers/get-portal-info.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+import { logger } from "../../utils/logger.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    portalInfo: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetPortalInfoHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetPortalInfoHandler>;
+
+  const mockDetails = { name: "Tanzania", currency: "TZS" };
+  const mockAbout = { description: "Team" };
+  const mockContact = { email: "info@test" };
+  const mockStatistics = { procedures: 120 };
+  const mockParameters = { showAbc: true };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getCountryDetails: vi.fn().mockResolvedValue(mockDetails),
+      getCountryAbout: vi.fn().mockResolvedValue(mockAbout),
+      getCountryContact: vi.fn().mockResolvedValue(mockContact),
+      getCountryData: vi.fn().mockResolvedValue(mockStatistics),
+      getCountryParameters: vi.fn().mockResolvedValue(mockParameters),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.portalInfo.format).mockReturnValue({
+      text: "Test formatted portal",
+      data: {},
+    });
+
+    handler = createGetPortalInfoHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_PORTAL_INFO);
+    expect(handler.description).toContain("portal");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("combines the country endpoints and formats the result", async () => {
+    const result = await handler.handler({});
+
+    expect(formatters.portalInfo.format).toHaveBeenCalledWith({
+      details: mockDetails,
+      about: mockAbout,
+      contact: mockContact,
+      statistics: mockStatistics,
+      parameters: mockParameters,
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted portal" },
+    ]);
+  });
+
+  it("tolerates failures of the optional parts", async () => {
+    vi.mocked(mockApi.getCountryAbout).mockRejectedValue(new Error("404"));
+    vi.mocked(mockApi.getCountryParameters).mockRejectedValue(new Error("404"));
+
+    await handler.handler({});
+
+    expect(formatters.portalInfo.format).toHaveBeenCalledWith({
+      details: mockDetails,
+      about: null,
+      contact: mockContact,
+      statistics: mockStatistics,
+      parameters: null,
+    });
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns an error when the country details are unavailable", async () => {
+    vi.mocked(mockApi.getCountryDetails).mockRejectedValue(
+      new Error("API Down")
+    );
+
+    const result = await handler.handler({});
+
+    expect(result.content[0].text).toBe(
+      "Error retrieving portal information: API Down"
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetPrerequisiteProceduresHandler } from "../../mcp-capabilities/tools/handlers/get-prerequisite-procedures.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { findPrerequisiteProcedures } from "../../services/procedure-graph.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../services/procedure-graph.js", () => ({
+  findPrerequisiteProcedures: vi.fn(),
+}));
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    prerequisiteProcedures: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetPrerequisiteProceduresHandler", () => {
+  const mockApi = {} as ERegulationsApi;
+  let handler: ReturnType<typeof createGetPrerequisiteProceduresHandler>;
+
+  const mockPrerequisites = {
+    procedure: { id: 4, name: "Export fish" },
+    path: [{ id: 1, name: "Register a company", depth: 1, provides: [] }],
+    alternatives: [],
+    unmatchedRequirements: [],
+    indexedCount: 12,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(findPrerequisiteProcedures).mockResolvedValue(mockPrerequisites);
+    vi.mocked(formatters.prerequisiteProcedures.format).mockReturnValue({
+      text: "Test formatted prerequisites",
+      data: { procedureId: 4 },
+    });
+
+    handler = createGetPrerequisiteProceduresHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_PREREQUISITE_PROCEDURES);
+    expect(handler.description).toContain("what must I do before procedure X?");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("formats the prerequisites found in the procedure graph", async () => {
+    const result = await handler.handler({ procedureId: 4 });
+
+    expect(findPrerequisiteProcedures).toHaveBeenCalledWith(mockApi, 4, "en");
+    expect(formatters.prerequisiteProcedures.format).toHaveBeenCalledWith(
+      mockPrerequisites
+    );
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted prerequisites" },
+    ]);
+    expect(result.structuredContent).toEqual({ procedureId: 4 });
+  });
+
+  it("handles errors correctly", async () => {
+    vi.mocked(findPrerequisiteProcedures).mockRejectedValue(
+      new Error("Procedure not found")
+    );
+
+    const result = await handler.handler({ procedureId: 4 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      "Error finding prerequisite procedures: Procedure not found"
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetProcedureAdministrativeBurdenHandler } from "../../mcp-capabilities/tools/handlers/get-procedure-administrative-burden.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    administrativeBurden: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetProcedureAdministrativeBurdenHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetProcedureAdministrativeBurdenHandler>;
+
+  const mockProcedure = {
+    id: 725,
+    name: "Buying cloves",
+    data: {
+      blocks: [
+        {
+          steps: [
+            {
+              id: 2787,
+              name: "Submit application",
+              contact: { entityInCharge: { id: 12, name: "ZSTC" } },
+            },
+          ],
+        },
+      ],
+    },
+  };
+  const mockAbc = { adminBurdenTable: { total: 28.5 } };
+  const mockStepAbc = { zone: { id: 2, name: "Rural" } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getProcedureById: vi.fn().mockResolvedValue(mockProcedure),
+      getProcedureAbcFull: vi.fn().mockResolvedValue(mockAbc),
+      getStepAbcFull: vi.fn().mockResolvedValue(mockStepAbc),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.administrativeBurden.format).mockReturnValue({
+      text: "Test formatted burden",
+      data: {},
+    });
+
+    handler = createGetProcedureAdministrativeBurdenHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_PROCEDURE_ADMINISTRATIVE_BURDEN);
+    expect(handler.description).toContain("administrative burden");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("fetches the procedure ABC and resolves step and institution names", async () => {
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(mockApi.getProcedureAbcFull).toHaveBeenCalledWith(725);
+    expect(formatters.administrativeBurden.format).toHaveBeenCalledWith({
+      procedureId: 725,
+      procedureName: "Buying cloves",
+      stepNames: { 2787: "Submit application" },
+      institutionNames: { 12: "ZSTC" },
+      abc: mockAbc,
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted burden" },
+    ]);
+  });
+
+  it("fetches the step ABC when a step ID is given", async () => {
+    await handler.handler({ procedureId: 725, stepId: 2787 });
+
+    expect(mockApi.getStepAbcFull).toHaveBeenCalledWith(725, 2787);
+    expect(mockApi.getProcedureAbcFull).not.toHaveBeenCalled();
+    expect(formatters.administrativeBurden.format).toHaveBeenCalledWith({
+      procedureId: 725,
+      procedureName: "Buying cloves",
+      step: { id: 2787, name: "Submit application", abc: mockStepAbc },
+    });
+  });
+
+  it("still returns the costing when the procedure cannot be fetched", async () => {
+    vi.mocked(mockApi.getProcedureById).mockRejectedValue(new Error("down"));
+
+    await handler.handler({ procedureId: 725 });
+
+    expect(formatters.administrativeBurden.format).toHaveBeenCalledWith(
+      expect.objectContaining({ procedureId: 725, abc: mockAbc })
+    );
+  });
+
+  it("handles ABC errors correctly", async () => {
+    vi.mocked(mockApi.getProcedureAbcFull).mockRejectedValue(
+      new Error("No data returned for /Procedures/725/ABC/Full")
+    );
+
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving administrative burden: No data returned"
+    );
+  });
+});
@@ -17,6 +17,7 @@ vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
 vi.mock("../../utils/logger.js", () => ({
   logger: {
     log: vi.fn(),
+    warn: vi.fn(),
     error: vi.fn(),
   },
 }));
@@ -44,6 +45,7 @@ describe("GetProcedureDetailsHandler", () => {
     // Setup mock API
     mockApi = {
       getProcedureById: vi.fn().mockResolvedValue(mockProcedure),
+      getProcedureTotals: vi.fn().mockResolvedValue(null),
     } as unknown as ERegulationsApi;
 
     // Setup formatter mock
@@ -59,6 +61,7 @@ describe("GetProcedureDetailsHandler", () => {
 
   it("has the correct name and description", () => {
     expect(handler.name).toBe(ToolName.GET_PROCEDURE_DETAILS);
+    expect(handler.localized).toBe(true);
     expect(handler.description).toContain(
       "Get detailed information about a specific procedure"
     );
@@ -70,7 +73,10 @@ describe("GetProcedureDetailsHandler", () => {
     const result = await handler.handler({ procedureId: mockProcedureId });
 
     // Verify API was called with the correct ID
-    expect(mockApi.getProcedureById).toHaveBeenCalledWith(mockProcedureId);
+    expect(mockApi.getProcedureById).toHaveBeenCalledWith(
+      mockProcedureId,
+      undefined
+    );
 
     // Verify formatter was called with the API result (no maxLength)
     expect(formatters.procedure.format).toHaveBeenCalledWith(mockProcedure);
@@ -81,6 +87,11 @@ describe("GetProcedureDetailsHandler", () => {
       type: "text",
       text: "Test formatted procedure details",
     });
+    expect(result.structuredContent).toEqual({
+      id: mockProcedureId,
+      name: "Test Procedure",
+      steps: [],
+    });
 
     // Verify logging
     expect(logger.log).toHaveBeenCalledWith(
@@ -98,6 +109,41 @@ describe("GetProcedureDetailsHandler", () => {
     );
   });
 
+  it("attaches the official totals to the procedure when available", async () => {
+    const mockTotals = {
+      institutionCount: 2,
+      costs: [{ cost: 1000, unit: "TZS" }],
+    };
+    vi.mocked(mockApi.getProcedureTotals).mockResolvedValue(mockTotals);
+
+    await handler.handler({ procedureId: mockProcedureId });
+
+    expect(mockApi.getProcedureTotals).toHaveBeenCalledWith(mockProcedureId);
+    expect(formatters.procedure.format).toHaveBeenCalledWith({
+      ...mockProcedure,
+      totals: mockTotals,
+    });
+  });
+
+  it("fetches the menu-specific variant when a menu ID is given", async () => {
+    await handler.handler({ procedureId: mockProcedureId, menuId: 12 });
+
+    expect(mockApi.getProcedureById).toHaveBeenCalledWith(mockProcedureId, 12);
+    // Totals are not menu-specific
+    expect(mockApi.getProcedureTotals).toHaveBeenCalledWith(mockProcedureId);
+  });
+
+  it("still formats the procedure when totals cannot be fetched", async () => {
+    vi.mocked(mockApi.getProcedureTotals).mockRejectedValue(
+      new Error("Totals unavailable")
+    );
+
+    const result = await handler.handler({ procedureId: mockProcedureId });
+
+    expect(formatters.procedure.format).toHaveBeenCalledWith(mockProcedure);
+    expect(result.content[0].text).toBe("Test formatted procedure details");
+  });
+
   it("handles API errors correctly", async () => {
     // Setup API to throw an error
     const testError = new Error("Procedure not found");
@@ -123,6 +169,7 @@ describe("GetProcedureDetailsHandler", () => {
     expect(result.content[0].text).toContain(
       "Valid procedure IDs can be found by using the listProcedures tool"
     );
+    expect(result.isError).toBe(true);
   });
 
   it("handles missing procedureId parameter gracefully", async () => {
@@ -134,7 +181,7 @@ describe("GetProcedureDetailsHandler", () => {
     const result = await handler.handler({});
 
     // The API should be called with undefined
-    expect(mockApi.getProcedureById).toHaveBeenCalledWith(undefined);
+    expect(mockApi.getProcedureById).toHaveBeenCalledWith(undefined, undefined);
 
     // Verify error logging
     expect(logger.error).toHaveBeenCalledWith(
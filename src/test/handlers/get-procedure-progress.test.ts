@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetProcedureProgressHandler } from "../../mcp-capabilities/tools/handlers/get-procedure-progress.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    procedureProgress: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetProcedureProgressHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetProcedureProgressHandler>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getProcedureProgress: vi.fn().mockResolvedValue({
+        steps: 4,
+        certifiedSteps: 2,
+        openedTickets: 1,
+      }),
+      getProcedureById: vi
+        .fn()
+        .mockResolvedValue({
+          id: 725,
+          name: "Company",
+          fullName: "Register a company",
+        }),
+      getProceduresList: vi.fn().mockResolvedValue([
+        { id: 1, name: "Menu", isProcedure: false },
+        {
+          id: 725,
+          name: "Company",
+          fullName: "Register a company",
+          isProcedure: true,
+        },
+        { id: 726, name: "Import", isProcedure: true },
+      ]),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.procedureProgress.format).mockReturnValue({
+      text: "Test formatted progress",
+      data: {},
+    });
+
+    handler = createGetProcedureProgressHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_PROCEDURE_PROGRESS);
+    expect(handler.description).toContain("certified steps");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("reports the progress of a single procedure", async () => {
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(mockApi.getProcedureProgress).toHaveBeenCalledWith(725);
+    expect(mockApi.getProceduresList).not.toHaveBeenCalled();
+    expect(formatters.procedureProgress.format).toHaveBeenCalledWith({
+      procedureId: 725,
+      procedureName: "Register a company",
+      progress: { steps: 4, certifiedSteps: 2, openedTickets: 1 },
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted progress" },
+    ]);
+  });
+
+  it("still reports progress when the procedure name is unavailable", async () => {
+    vi.mocked(mockApi.getProcedureById).mockRejectedValue(new Error("404"));
+
+    await handler.handler({ procedureId: 725 });
+
+    expect(formatters.procedureProgress.format).toHaveBeenCalledWith(
+      expect.objectContaining({ procedureId: 725, procedureName: undefined })
+    );
+  });
+
+  it("aggregates the progress of every procedure of the portal", async () => {
+    vi.mocked(mockApi.getProcedureProgress).mockImplementation(async (id) => {
+      if (id === 726) {
+        throw new Error("API Error");
+      }
+      return { steps: 4, certifiedSteps: 2, openedTickets: 1 };
+    });
+
+    await handler.handler({});
+
+    // Menu entries are not procedures and have no progress
+    expect(mockApi.getProcedureProgress).toHaveBeenCalledTimes(2);
+    expect(mockApi.getProcedureProgress).not.toHaveBeenCalledWith(1);
+    expect(formatters.procedureProgress.format).toHaveBeenCalledWith({
+      progress: {
+        steps: 4,
+        certifiedSteps: 2,
+        statusA: 0,
+        statusB: 0,
+        statusC: 0,
+        statusD: 0,
+        openedTickets: 1,
+        archivedTickets: 0,
+      },
+      procedures: [
+        {
+          id: 725,
+          name: "Register a company",
+          progress: { steps: 4, certifiedSteps: 2, openedTickets: 1 },
+        },
+      ],
+      failedProcedureIds: [726],
+    });
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getProcedureProgress).mockRejectedValue(
+      new Error("Procedure not found")
+    );
+
+    const result = await handler.handler({ procedureId: 999 });
+
+    expect(result.content[0].text).toBe(
+      "Error retrieving procedure progress: Procedure not found"
+    );
+  });
+});
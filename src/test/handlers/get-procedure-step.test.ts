@@ -55,6 +55,7 @@ describe("GetProcedureStepHandler", () => {
 
   it("has the correct name and description", () => {
     expect(handler.name).toBe(ToolName.GET_PROCEDURE_STEP);
+    expect(handler.localized).toBe(true);
     expect(handler.description).toContain(
       "Get information about a specific step"
     );
@@ -71,7 +72,8 @@ describe("GetProcedureStepHandler", () => {
     // Verify API was called with the correct IDs
     expect(mockApi.getProcedureStep).toHaveBeenCalledWith(
       mockProcedureId,
-      mockStepId
+      mockStepId,
+      undefined
     );
 
     // Verify formatter was called with the API result
@@ -85,6 +87,20 @@ describe("GetProcedureStepHandler", () => {
     });
   });
 
+  it("passes the menu ID to get the menu-specific variant", async () => {
+    await handler.handler({
+      procedureId: mockProcedureId,
+      stepId: mockStepId,
+      menuId: 12,
+    });
+
+    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(
+      mockProcedureId,
+      mockStepId,
+      12
+    );
+  });
+
   it("handles API errors correctly", async () => {
     // Setup API to throw an error
     const testError = new Error("Step not found");
@@ -113,7 +129,11 @@ describe("GetProcedureStepHandler", () => {
     const result = await handler.handler({});
 
     // The API should be called with undefined parameters
-    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(undefined, undefined);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(
+      undefined,
+      undefined,
+      undefined
+    );
 
     // When the API throws an error due to missing parameters,
     // the handler should handle it and return an error message
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetProcedureSummaryHandler } from "../../mcp-capabilities/tools/handlers/get-procedure-summary.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    procedureSummary: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetProcedureSummaryHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetProcedureSummaryHandler>;
+
+  const mockResume = { id: 725, name: "Buying cloves", steps: 5 };
+  const mockTotals = { institutionCount: 2, costs: [] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getProcedureResume: vi.fn().mockResolvedValue(mockResume),
+      getProcedureTotals: vi.fn().mockResolvedValue(mockTotals),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.procedureSummary.format).mockReturnValue({
+      text: "Test formatted summary",
+      data: {},
+    });
+
+    handler = createGetProcedureSummaryHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_PROCEDURE_SUMMARY);
+    expect(handler.description).toContain("official summary");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("fetches the resume and totals and formats them", async () => {
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(mockApi.getProcedureResume).toHaveBeenCalledWith(725, undefined);
+    expect(mockApi.getProcedureTotals).toHaveBeenCalledWith(725);
+    expect(formatters.procedureSummary.format).toHaveBeenCalledWith({
+      procedureId: 725,
+      resume: mockResume,
+      totals: mockTotals,
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted summary" },
+    ]);
+  });
+
+  it("summarizes the menu-specific variant when a menu ID is given", async () => {
+    await handler.handler({ procedureId: 725, menuId: 12 });
+
+    expect(mockApi.getProcedureResume).toHaveBeenCalledWith(725, 12);
+    expect(mockApi.getProcedureTotals).toHaveBeenCalledWith(725);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getProcedureResume).mockRejectedValue(
+      new Error("Procedure not found")
+    );
+
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving procedure summary: Procedure not found"
+    );
+  });
+});
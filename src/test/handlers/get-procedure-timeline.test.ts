@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetProcedureTimelineHandler } from "../../mcp-capabilities/tools/handlers/get-procedure-timeline.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    procedureTimeline: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetProcedureTimelineHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetProcedureTimelineHandler>;
+
+  const scheduledStep = {
+    id: 2787,
+    name: "Submit application",
+    timeframe: { waitingTimeUntilNextStep: { days: { max: 2 } } },
+  };
+  // Listed without its timeframe
+  const partialStep = { id: 2788, name: "Pay for cloves", isParallel: true };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getProcedureById: vi.fn().mockResolvedValue({
+        id: 725,
+        name: "Buying cloves",
+        fullName: "Export > Buying cloves",
+        data: {
+          blocks: [{ steps: [scheduledStep, partialStep] }, { steps: [] }],
+        },
+      }),
+      getProcedureStep: vi.fn().mockResolvedValue({
+        id: 2788,
+        name: "Pay for cloves",
+        timeframe: { waitingTimeUntilNextStep: { days: { max: 1 } } },
+      }),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.procedureTimeline.format).mockReturnValue({
+      text: "Test formatted timeline",
+      data: { procedureId: 725 },
+    });
+
+    handler = createGetProcedureTimelineHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_PROCEDURE_TIMELINE);
+    expect(handler.description).toContain("how long will this take?");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("completes the steps lacking a timeframe with their step page", async () => {
+    const result = await handler.handler({ procedureId: 725, menuId: 12 });
+
+    expect(mockApi.getProcedureById).toHaveBeenCalledWith(725, 12);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledTimes(1);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(725, 2788, 12);
+    expect(formatters.procedureTimeline.format).toHaveBeenCalledWith({
+      procedureId: 725,
+      procedureName: "Export > Buying cloves",
+      menuId: 12,
+      blocks: [
+        {
+          steps: [
+            scheduledStep,
+            {
+              id: 2788,
+              name: "Pay for cloves",
+              isParallel: true,
+              timeframe: { waitingTimeUntilNextStep: { days: { max: 1 } } },
+            },
+          ],
+        },
+        { steps: [] },
+      ],
+      incompleteStepIds: [],
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted timeline" },
+    ]);
+    expect(result.structuredContent).toEqual({ procedureId: 725 });
+  });
+
+  it("keeps the steps whose page cannot be fetched", async () => {
+    vi.mocked(mockApi.getProcedureStep).mockRejectedValue(
+      new Error("Step not found")
+    );
+
+    await handler.handler({ procedureId: 725 });
+
+    expect(formatters.procedureTimeline.format).toHaveBeenCalledWith(
+      expect.objectContaining({
+        blocks: [{ steps: [scheduledStep, partialStep] }, { steps: [] }],
+        incompleteStepIds: [2788],
+      })
+    );
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getProcedureById).mockRejectedValue(
+      new Error("Procedure not found")
+    );
+
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      "Error retrieving procedure timeline: Procedure not found"
+    );
+  });
+});
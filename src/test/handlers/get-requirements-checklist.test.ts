@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetRequirementsChecklistHandler } from "../../mcp-capabilities/tools/handlers/get-requirements-checklist.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    requirementsChecklist: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetRequirementsChecklistHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetRequirementsChecklistHandler>;
+
+  // Complete in the procedure
+  const completeStep = {
+    id: 2787,
+    name: "Submit application",
+    requirements: [{ id: 51, name: "Application letter", nbOriginal: 1 }],
+    results: [{ id: 60, name: "Proforma invoice" }],
+  };
+  // Without the number of copies of its requirements
+  const partialStep = {
+    id: 2788,
+    name: "Pay for cloves",
+    contact: { entityInCharge: { name: "People's Bank of Zanzibar" } },
+    requirements: [{ id: 60, name: "Proforma invoice" }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getProcedureById: vi.fn().mockResolvedValue({
+        id: 725,
+        name: "Buying cloves",
+        fullName: "Export > Buying cloves",
+        data: { blocks: [{ steps: [completeStep, partialStep] }] },
+      }),
+      getProcedureStep: vi.fn().mockResolvedValue({
+        id: 2788,
+        name: "Pay for cloves",
+        requirements: [{ id: 60, name: "Proforma invoice", nbCopy: 2 }],
+        results: [{ id: 61, name: "Bank deposit slip" }],
+      }),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.requirementsChecklist.format).mockReturnValue({
+      text: "Test formatted checklist",
+      data: { procedureId: 725 },
+    });
+
+    handler = createGetRequirementsChecklistHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_REQUIREMENTS_CHECKLIST);
+    expect(handler.description).toContain("what papers do I need?");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("completes the steps lacking details with their step page", async () => {
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(mockApi.getProcedureById).toHaveBeenCalledWith(725, undefined);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledTimes(1);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(725, 2788, undefined);
+    expect(formatters.requirementsChecklist.format).toHaveBeenCalledWith({
+      procedureId: 725,
+      procedureName: "Export > Buying cloves",
+      menuId: undefined,
+      steps: [
+        completeStep,
+        {
+          id: 2788,
+          name: "Pay for cloves",
+          contact: { entityInCharge: { name: "People's Bank of Zanzibar" } },
+          requirements: [{ id: 60, name: "Proforma invoice", nbCopy: 2 }],
+          results: [{ id: 61, name: "Bank deposit slip" }],
+        },
+      ],
+      incompleteStepIds: [],
+    });
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted checklist" },
+    ]);
+    expect(result.structuredContent).toEqual({ procedureId: 725 });
+  });
+
+  it("lists the documents of the menu-specific variant", async () => {
+    await handler.handler({ procedureId: 725, menuId: 12 });
+
+    expect(mockApi.getProcedureById).toHaveBeenCalledWith(725, 12);
+    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(725, 2788, 12);
+  });
+
+  it("keeps the steps whose page cannot be fetched", async () => {
+    vi.mocked(mockApi.getProcedureStep).mockRejectedValue(
+      new Error("Step not found")
+    );
+
+    await handler.handler({ procedureId: 725 });
+
+    expect(formatters.requirementsChecklist.format).toHaveBeenCalledWith(
+      expect.objectContaining({
+        steps: [completeStep, partialStep],
+        incompleteStepIds: [2788],
+      })
+    );
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getProcedureById).mockRejectedValue(
+      new Error("Procedure not found")
+    );
+
+    const result = await handler.handler({ procedureId: 725 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      "Error retrieving requirements checklist: Procedure not found"
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createGetUnitHandler } from "../../mcp-capabilities/tools/handlers/get-unit.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    unit: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("GetUnitHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createGetUnitHandler>;
+
+  const mockUnit = { id: 6, name: "Registration Desk", people: [] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getUnit: vi.fn().mockResolvedValue(mockUnit),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.unit.format).mockReturnValue({
+      text: "Test formatted unit",
+      data: {},
+    });
+
+    handler = createGetUnitHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.GET_UNIT);
+    expect(handler.description).toContain("opening hours");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("calls the API with the unit ID and formats the result", async () => {
+    const result = await handler.handler({ unitId: mockUnit.id });
+
+    expect(mockApi.getUnit).toHaveBeenCalledWith(mockUnit.id);
+    expect(formatters.unit.format).toHaveBeenCalledWith(mockUnit);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted unit" },
+    ]);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getUnit).mockRejectedValue(new Error("Unit not found"));
+
+    const result = await handler.handler({ unitId: 999 });
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving unit: Unit not found"
+    );
+    expect(result.content[0].text).toContain("getInstitution");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createListFiltersHandler } from "../../mcp-capabilities/tools/handlers/list-filters.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    filterList: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("ListFiltersHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createListFiltersHandler>;
+
+  const mockFilters = [
+    { id: 1, name: "Operation" },
+    { id: 2, name: "Region" },
+  ];
+  const mockOptions: Record<number, { id: number; name: string }[]> = {
+    1: [{ id: 10, name: "Export" }],
+    2: [{ id: 20, name: "Zanzibar" }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getFilters: vi.fn().mockResolvedValue(mockFilters),
+      getFilterOptions: vi
+        .fn()
+        .mockImplementation((id: number) => Promise.resolve(mockOptions[id])),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.filterList.format).mockReturnValue({
+      text: "Test formatted filters",
+      data: [],
+    });
+
+    handler = createListFiltersHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.LIST_FILTERS);
+    expect(handler.description).toContain("searchProceduresByFilters");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("fetches filters with their options and formats them", async () => {
+    const result = await handler.handler({});
+
+    expect(mockApi.getFilters).toHaveBeenCalled();
+    expect(mockApi.getFilterOptions).toHaveBeenCalledWith(1);
+    expect(mockApi.getFilterOptions).toHaveBeenCalledWith(2);
+    expect(formatters.filterList.format).toHaveBeenCalledWith([
+      { id: 1, name: "Operation", options: [{ id: 10, name: "Export" }] },
+      { id: 2, name: "Region", options: [{ id: 20, name: "Zanzibar" }] },
+    ]);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted filters" },
+    ]);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getFilters).mockRejectedValue(new Error("API down"));
+
+    const result = await handler.handler({});
+
+    expect(result.content[0].text).toBe("Error retrieving filters: API down");
+  });
+});
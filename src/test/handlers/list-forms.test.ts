@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createListFormsHandler } from "../../mcp-capabilities/tools/handlers/list-forms.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    formList: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("ListFormsHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createListFormsHandler>;
+
+  const mockForms = [
+    { id: 51, name: "Application form" },
+    { id: 52, name: "Tax declaration" },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getForms: vi.fn().mockResolvedValue(mockForms),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.formList.format).mockReturnValue({
+      text: "Test formatted forms",
+      data: [],
+    });
+
+    handler = createListFormsHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.LIST_FORMS);
+    expect(handler.description).toContain("forms");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("returns all forms when no keyword is given", async () => {
+    const result = await handler.handler({});
+
+    expect(mockApi.getForms).toHaveBeenCalled();
+    expect(formatters.formList.format).toHaveBeenCalledWith(
+      mockForms,
+      undefined
+    );
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted forms" },
+    ]);
+  });
+
+  it("filters forms by keyword case-insensitively", async () => {
+    await handler.handler({ keyword: "TAX" });
+
+    expect(formatters.formList.format).toHaveBeenCalledWith(
+      [mockForms[1]],
+      "TAX"
+    );
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getForms).mockRejectedValue(new Error("API Error"));
+
+    const result = await handler.handler({});
+
+    expect(result.content[0].text).toBe("Error retrieving forms: API Error");
+  });
+});
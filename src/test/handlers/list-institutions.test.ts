@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createListInstitutionsHandler } from "../../mcp-capabilities/tools/handlers/list-institutions.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    institutionList: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("ListInstitutionsHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createListInstitutionsHandler>;
+
+  const mockInstitutions = [
+    { id: 5, name: "Business Registration Agency", city: "Dodoma" },
+    { id: 6, name: "Tanzania Revenue Authority", city: "Dar es Salaam" },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getInstitutions: vi.fn().mockResolvedValue(mockInstitutions),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.institutionList.format).mockReturnValue({
+      text: "Test formatted institutions",
+      data: [],
+    });
+
+    handler = createListInstitutionsHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.LIST_INSTITUTIONS);
+    expect(handler.description).toContain("institutions");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("returns all institutions when no keyword is given", async () => {
+    const result = await handler.handler({});
+
+    expect(mockApi.getInstitutions).toHaveBeenCalled();
+    expect(formatters.institutionList.format).toHaveBeenCalledWith(
+      mockInstitutions,
+      undefined
+    );
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted institutions" },
+    ]);
+  });
+
+  it("filters institutions by name or city", async () => {
+    await handler.handler({ keyword: "revenue" });
+    expect(formatters.institutionList.format).toHaveBeenLastCalledWith(
+      [mockInstitutions[1]],
+      "revenue"
+    );
+
+    await handler.handler({ keyword: "DODOMA" });
+    expect(formatters.institutionList.format).toHaveBeenLastCalledWith(
+      [mockInstitutions[0]],
+      "DODOMA"
+    );
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getInstitutions).mockRejectedValue(
+      new Error("API Error")
+    );
+
+    const result = await handler.handler({});
+
+    expect(result.content[0].text).toBe(
+      "Error retrieving institutions: API Error"
+    );
+  });
+});
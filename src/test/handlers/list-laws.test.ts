@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createListLawsHandler } from "../../mcp-capabilities/tools/handlers/list-laws.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    lawList: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("ListLawsHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createListLawsHandler>;
+
+  const mockLaws = [
+    { id: 7, name: "Companies Act" },
+    { id: 8, name: "Income Tax Act" },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getLaws: vi.fn().mockResolvedValue(mockLaws),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.lawList.format).mockReturnValue({
+      text: "Test formatted laws",
+      data: [],
+    });
+
+    handler = createListLawsHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.LIST_LAWS);
+    expect(handler.description).toContain("laws and regulations");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("lists all laws when no keyword is given", async () => {
+    const result = await handler.handler({});
+
+    expect(formatters.lawList.format).toHaveBeenCalledWith(mockLaws, undefined);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted laws" },
+    ]);
+  });
+
+  it("filters laws by keyword, ignoring case", async () => {
+    await handler.handler({ keyword: "TAX" });
+
+    expect(formatters.lawList.format).toHaveBeenCalledWith(
+      [{ id: 8, name: "Income Tax Act" }],
+      "TAX"
+    );
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.getLaws).mockRejectedValue(new Error("API down"));
+
+    const result = await handler.handler({});
+
+    expect(result.content[0].text).toBe("Error retrieving laws: API down");
+  });
+});
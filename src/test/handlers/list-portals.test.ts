@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createListPortalsHandler } from "../../mcp-capabilities/tools/handlers/list-portals.js";
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    portalList: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("ListPortalsHandler", () => {
+  let mockRegistry: PortalRegistry;
+  let handler: ReturnType<typeof createListPortalsHandler>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRegistry = {
+      getDefaultPortal: vi.fn().mockReturnValue("tanzania"),
+      getPortals: vi.fn().mockReturnValue([
+        { name: "tanzania", url: "https://api-tanzania.example.com" },
+        { name: "kenya", url: "https://api-kenya.example.com" },
+      ]),
+      getLocale: vi
+        .fn()
+        .mockImplementation(async (name: string) =>
+          name === "tanzania" ? { currency: "TZS", locale: "en" } : {}
+        ),
+    } as unknown as PortalRegistry;
+
+    vi.mocked(formatters.portalList.format).mockReturnValue({
+      text: "Test formatted portals",
+      data: [],
+    });
+
+    handler = createListPortalsHandler(mockRegistry);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.LIST_PORTALS);
+    expect(handler.description).toContain("portal argument");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("lists the portals with their default flag and currency", async () => {
+    const result = await handler.handler({});
+
+    expect(formatters.portalList.format).toHaveBeenCalledWith([
+      {
+        name: "tanzania",
+        url: "https://api-tanzania.example.com",
+        isDefault: true,
+        currency: "TZS",
+        locale: "en",
+      },
+      {
+        name: "kenya",
+        url: "https://api-kenya.example.com",
+        isDefault: false,
+      },
+    ]);
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted portals" },
+    ]);
+  });
+
+  it("handles registry errors correctly", async () => {
+    vi.mocked(mockRegistry.getPortals).mockImplementation(() => {
+      throw new Error("Registry unavailable");
+    });
+
+    const result = await handler.handler({});
+
+    expect(result.content[0].text).toContain(
+      "Error retrieving portals: Registry unavailable"
+    );
+  });
+});
@@ -91,6 +91,7 @@ describe("ListProceduresHandler", () => {
           text: "Test formatted procedures list",
         },
       ],
+      structuredContent: { procedures: [{ id: 1, name: "Test" }] },
     });
 
     // Verify logging
@@ -122,6 +123,7 @@ describe("ListProceduresHandler", () => {
     expect(result.content[0].text).toContain(
       "Error retrieving procedures: Test API error"
     );
+    expect(result.isError).toBe(true);
   });
 
   it("handles non-Error exceptions correctly", async () => {
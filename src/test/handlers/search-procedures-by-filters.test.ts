@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createSearchProceduresByFiltersHandler } from "../../mcp-capabilities/tools/handlers/search-procedures-by-filters.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/eregulations-api.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    filteredProcedures: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("SearchProceduresByFiltersHandler", () => {
+  let mockApi: ERegulationsApi;
+  let handler: ReturnType<typeof createSearchProceduresByFiltersHandler>;
+
+  const mockFilters = [
+    { filterId: 1, optionId: 10 },
+    { filterId: 2, optionId: 20 },
+  ];
+  const mockResults = [
+    { procedures: [{ id: 796, name: "Export of fish", isProcedure: true }] },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      searchByFilters: vi.fn().mockResolvedValue(mockResults),
+    } as unknown as ERegulationsApi;
+
+    vi.mocked(formatters.filteredProcedures.format).mockReturnValue({
+      text: "Test formatted filtered procedures",
+      data: [{ id: 796, name: "Export of fish" }],
+    });
+
+    handler = createSearchProceduresByFiltersHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.SEARCH_PROCEDURES_BY_FILTERS);
+    expect(handler.description).toContain("listFilters");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("calls the API with the filters and formats the result", async () => {
+    const result = await handler.handler({ filters: mockFilters });
+
+    expect(mockApi.searchByFilters).toHaveBeenCalledWith(mockFilters);
+    expect(formatters.filteredProcedures.format).toHaveBeenCalledWith(
+      mockResults
+    );
+    expect(result.content).toEqual([
+      { type: "text", text: "Test formatted filtered procedures" },
+    ]);
+  });
+
+  it("handles API errors correctly", async () => {
+    vi.mocked(mockApi.searchByFilters).mockRejectedValue(
+      new Error("At least one filter is required")
+    );
+
+    const result = await handler.handler({ filters: [] });
+
+    expect(result.content[0].text).toContain(
+      "Error searching for procedures by filters: At least one filter is required"
+    );
+    expect(result.content[0].text).toContain("listFilters");
+  });
+});
@@ -1,12 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { createSearchProceduresHandler } from "../../mcp-capabilities/tools/handlers/search-procedures.js";
 import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { searchProceduresLocally } from "../../services/procedure-search.js";
 import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { withFormattingLocale } from "../../mcp-capabilities/tools/formatters/locale.js";
 import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
 import type { ObjectiveData } from "../../mcp-capabilities/tools/formatters/types.js";
 
 // Mock dependencies
 vi.mock("../../services/eregulations-api.js");
+vi.mock("../../services/procedure-search.js");
 vi.mock("../../mcp-capabilities/tools/formatters/index.js");
 vi.mock("../../utils/logger.js", () => ({
   logger: { log: vi.fn(), error: vi.fn() },
@@ -96,9 +99,11 @@ describe("createSearchProceduresHandler", () => {
 
   it("should have correct name, description, and inputSchema", () => {
     expect(handler.name).toBe(ToolName.SEARCH_PROCEDURES);
-    expect(handler.description).toBe(
-      "Search for procedures by keyword or phrase. The search uses OR logic between words in the keyword phrase. For best results, prefer using a single, specific keyword whenever possible."
+    expect(handler.localized).toBe(true);
+    expect(handler.description).toContain(
+      "The default API mode uses OR logic between words in the keyword phrase"
     );
+    expect(handler.description).toContain("tolerates typos");
     expect(handler.inputSchema).toBeDefined(); // Assuming SearchProceduresSchema is imported/mocked correctly
   });
 
@@ -120,9 +125,85 @@ describe("createSearchProceduresHandler", () => {
 
     expect(result).toEqual({
       content: [{ type: "text", text: mockFormattedResult.text }],
+      structuredContent: { procedures: mockFormattedResult.data },
     });
   });
 
+  it("should search the local index in local mode", async () => {
+    const localResults = {
+      query: "register company",
+      total: 1,
+      indexedCount: 10,
+      corrections: {},
+      hits: [{ id: 1, name: "Procedure 1", score: 2.5, snippets: [] }],
+    };
+    vi.mocked(searchProceduresLocally).mockResolvedValue(localResults);
+    formatters.procedureSearchResults.format = vi
+      .fn()
+      .mockReturnValue({ text: "Ranked results", data: [] });
+
+    const result = await handler.handler({
+      keyword: "register company",
+      mode: "local",
+      limit: 5,
+    });
+
+    expect(searchProceduresLocally).toHaveBeenCalledWith(
+      mockApi,
+      "register company",
+      5,
+      "en"
+    );
+    expect(mockApi.searchProcedures).not.toHaveBeenCalled();
+    expect(formatters.procedureSearchResults.format).toHaveBeenCalledWith(
+      localResults
+    );
+    expect(result).toEqual({
+      content: [{ type: "text", text: "Ranked results" }],
+      structuredContent: { procedures: [] },
+    });
+  });
+
+  it("should search the local index in the portal language", async () => {
+    vi.mocked(searchProceduresLocally).mockResolvedValue({
+      query: "entreprise",
+      total: 0,
+      indexedCount: 10,
+      corrections: {},
+      hits: [],
+    });
+    formatters.procedureSearchResults.format = vi
+      .fn()
+      .mockReturnValue({ text: "Ranked results", data: [] });
+
+    await withFormattingLocale({ locale: "fr", language: "en" }, () =>
+      handler.handler({ keyword: "entreprise", mode: "local", limit: 10 })
+    );
+
+    expect(searchProceduresLocally).toHaveBeenCalledWith(
+      mockApi,
+      "entreprise",
+      10,
+      "fr"
+    );
+  });
+
+  it("should also search keywords without their accents", async () => {
+    mockApi.searchProcedures = vi
+      .fn()
+      .mockResolvedValueOnce([mockObjectives[0]])
+      .mockResolvedValueOnce([mockObjectives[2], mockObjectives[0]]);
+
+    await handler.handler({ keyword: "Création" });
+
+    expect(mockApi.searchProcedures).toHaveBeenCalledWith("Création");
+    expect(mockApi.searchProcedures).toHaveBeenCalledWith("Creation");
+    expect(formatters.searchProcedures.format).toHaveBeenCalledWith(
+      expectedFilteredProcedures,
+      "Création"
+    );
+  });
+
   it("should handle errors from api.searchProcedures", async () => {
     const error = new Error("API Error");
     mockApi.searchProcedures = vi.fn().mockRejectedValue(error);
@@ -137,6 +218,7 @@ describe("createSearchProceduresHandler", () => {
           text: `Error searching for procedures: ${error.message}`,
         },
       ],
+      isError: true,
     });
   });
 
@@ -157,6 +239,7 @@ describe("createSearchProceduresHandler", () => {
           text: `Error searching for procedures: ${error.message}`,
         },
       ],
+      isError: true,
     });
   });
 });
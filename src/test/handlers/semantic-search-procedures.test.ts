@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createSemanticSearchProceduresHandler } from "../../mcp-capabilities/tools/handlers/semantic-search-procedures.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { searchProceduresSemantically } from "../../services/semantic-search.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+// Mock dependencies
+vi.mock("../../services/semantic-search.js");
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    semanticSearchResults: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("SemanticSearchProceduresHandler", () => {
+  const mockApi = {} as ERegulationsApi;
+  let handler: ReturnType<typeof createSemanticSearchProceduresHandler>;
+
+  const mockResults = {
+    query: "selling fish abroad",
+    model: "hashing-512",
+    indexedCount: 120,
+    hits: [
+      {
+        id: 10,
+        name: "Export of fishery products",
+        similarity: 0.82,
+        score: 0.92,
+        source: "both" as const,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(searchProceduresSemantically).mockResolvedValue(mockResults);
+    vi.mocked(formatters.semanticSearchResults.format).mockReturnValue({
+      text: "Test formatted results",
+      data: [{ id: 10, name: "Export of fishery products", source: "both" }],
+    });
+
+    handler = createSemanticSearchProceduresHandler(mockApi);
+  });
+
+  it("has the correct name and description", () => {
+    expect(handler.name).toBe(ToolName.SEMANTIC_SEARCH_PROCEDURES);
+    expect(handler.description).toContain("synonyms do not");
+    expect(handler.inputSchema).toBeDefined();
+  });
+
+  it("searches the procedures semantically", async () => {
+    const result = await handler.handler({
+      query: "selling fish abroad",
+      limit: 5,
+    });
+
+    expect(searchProceduresSemantically).toHaveBeenCalledWith(
+      mockApi,
+      "selling fish abroad",
+      5
+    );
+    expect(formatters.semanticSearchResults.format).toHaveBeenCalledWith(
+      mockResults
+    );
+    expect(result.content[0].text).toBe("Test formatted results");
+    expect(result.structuredContent).toEqual({
+      procedures: [
+        { id: 10, name: "Export of fishery products", source: "both" },
+      ],
+    });
+  });
+
+  it("handles search errors", async () => {
+    vi.mocked(searchProceduresSemantically).mockRejectedValue(
+      new Error("API Down")
+    );
+
+    const result = await handler.handler({ query: "fish" });
+
+    expect(result.content[0].text).toBe(
+      "Error searching for procedures: API Down"
+    );
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startHttpServer } from "../http-server.js";
+import { createServer } from "../mcp-server.js";
+
+// Serve a bare MCP server for each session
+vi.mock("../mcp-server.js", () => ({
+  createServer: vi.fn(),
+}));
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const initializeRequest = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test-client", version: "1.0.0" },
+  },
+};
+
+describe("HTTP transport", () => {
+  let servers: McpServer[];
+  let baseUrl: string;
+  let close: () => Promise<void>;
+
+  const startServer = async (corsOrigins?: string[]) => {
+    const started = await startHttpServer("https://test-api.example.com", {
+      port: 0,
+      host: "127.0.0.1",
+      corsOrigins,
+    });
+    const { port } = started.httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+    close = started.close;
+  };
+
+  const postMcp = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    servers = [];
+    vi.mocked(createServer).mockImplementation(() => {
+      const server = new McpServer({ name: "test", version: "1.0.0" });
+      vi.spyOn(server, "close");
+      servers.push(server);
+      return { server };
+    });
+  });
+
+  afterEach(async () => {
+    await close?.();
+  });
+
+  it("reports its health", async () => {
+    await startServer();
+
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(await response.json()).toEqual({ status: "ok", sessions: 0 });
+  });
+
+  it("opens a session with its own server on initialization", async () => {
+    await startServer();
+
+    const response = await postMcp(initializeRequest);
+    const sessionId = response.headers.get("mcp-session-id");
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(response.headers.get("access-control-allow-origin")).toBe("*");
+    expect(response.headers.get("access-control-expose-headers")).toContain(
+      "mcp-session-id"
+    );
+    expect(createServer).toHaveBeenCalledWith("https://test-api.example.com");
+
+    const health = await fetch(`${baseUrl}/health`);
+    expect(await health.json()).toEqual({ status: "ok", sessions: 1 });
+  });
+
+  it("rejects requests without a session or with an unknown one", async () => {
+    await startServer();
+
+    const noSession = await postMcp({ jsonrpc: "2.0", id: 2, method: "ping" });
+    expect(noSession.status).toBe(400);
+
+    const unknownSession = await postMcp(
+      { jsonrpc: "2.0", id: 2, method: "ping" },
+      { "mcp-session-id": "unknown" }
+    );
+    expect(unknownSession.status).toBe(404);
+
+    const stream = await fetch(`${baseUrl}/mcp`);
+    expect(stream.status).toBe(400);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it("closes the server of a session when the client ends it", async () => {
+    await startServer();
+    const response = await postMcp(initializeRequest);
+    const sessionId = response.headers.get("mcp-session-id")!;
+    await response.text();
+
+    const deleted = await fetch(`${baseUrl}/mcp`, {
+      method: "DELETE",
+      headers: { "mcp-session-id": sessionId },
+    });
+
+    expect(deleted.status).toBe(200);
+    expect(servers[0].close).toHaveBeenCalled();
+    const health = await fetch(`${baseUrl}/health`);
+    expect(await health.json()).toEqual({ status: "ok", sessions: 0 });
+  });
+
+  it("closes the open sessions on shutdown", async () => {
+    await startServer();
+    const response = await postMcp(initializeRequest);
+    await response.text();
+
+    await close();
+    close = async () => {};
+
+    expect(servers[0].close).toHaveBeenCalled();
+    await expect(fetch(`${baseUrl}/health`)).rejects.toThrow();
+  });
+
+  it("only allows the configured CORS origins", async () => {
+    await startServer(["https://allowed.example.com"]);
+
+    const allowed = await fetch(`${baseUrl}/health`, {
+      headers: { Origin: "https://allowed.example.com" },
+    });
+    const denied = await fetch(`${baseUrl}/health`, {
+      headers: { Origin: "https://other.example.com" },
+    });
+
+    expect(allowed.headers.get("access-control-allow-origin")).toBe(
+      "https://allowed.example.com"
+    );
+    expect(denied.headers.get("access-control-allow-origin")).toBeNull();
+  });
+
+  it("rejects SSE messages for unknown sessions", async () => {
+    await startServer();
+
+    const response = await fetch(`${baseUrl}/messages?sessionId=unknown`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -5,7 +5,8 @@ import { ERegulationsApi } from "../services/eregulations-api.js";
 import {
   PromptName,
   PROMPT_TEMPLATES,
-} from "../mcp-capabilities/prompts/templates.js";
+  WorkflowPromptName,
+} from "../mcp-capabilities/prompts/index.js";
 import {
   CallToolRequestSchema,
   GetPromptRequestSchema,
@@ -17,8 +18,22 @@ import {
   GetProcedureDetailsSchema,
   GetProcedureStepSchema,
   SearchProceduresSchema,
+  ListPortalsSchema,
   ToolName,
 } from "../mcp-capabilities/tools/schemas.js";
+import {
+  ListProceduresOutputSchema,
+  GetProcedureDetailsOutputSchema,
+  GetProcedureStepOutputSchema,
+  SearchProceduresOutputSchema,
+  ListPortalsOutputSchema,
+} from "../mcp-capabilities/tools/output-schemas.js";
+import {
+  getFormattingLocale,
+  setFormattingLocale,
+} from "../mcp-capabilities/tools/formatters/locale.js";
+import { createHandlers } from "../mcp-capabilities/tools/handlers/index.js";
+import { PortalRegistry } from "../services/portal-registry.js";
 
 // Define types for our tests
 interface ToolHandler {
@@ -35,6 +50,8 @@ const mockApiMethods = {
   getProcedureById: vi.fn().mockResolvedValue({}),
   getProcedureResume: vi.fn().mockResolvedValue({}),
   getProcedureStep: vi.fn().mockResolvedValue({}),
+  getPortalLocale: vi.fn().mockResolvedValue({ currency: "TZS", locale: "en" }),
+  onResponseChange: vi.fn().mockReturnValue(vi.fn()),
   dispose: vi.fn(),
 };
 
@@ -49,6 +66,7 @@ const mockHandlers = [
     description: "List all available procedures",
     inputSchema: { type: "object", properties: {} },
     inputSchemaDefinition: ListProceduresSchema,
+    outputSchemaDefinition: ListProceduresOutputSchema,
     handler: vi.fn().mockImplementation(() =>
       Promise.resolve({
         content: [{ type: "text", text: "list of procedures" }],
@@ -64,6 +82,8 @@ const mockHandlers = [
       required: ["procedureId"],
     },
     inputSchemaDefinition: GetProcedureDetailsSchema,
+    outputSchemaDefinition: GetProcedureDetailsOutputSchema,
+    localized: true,
     handler: vi.fn().mockImplementation((args) => {
       if (!args.procedureId) {
         throw new Error("procedureId is required");
@@ -87,6 +107,7 @@ const mockHandlers = [
       required: ["procedureId", "stepId"],
     },
     inputSchemaDefinition: GetProcedureStepSchema,
+    outputSchemaDefinition: GetProcedureStepOutputSchema,
     handler: vi.fn().mockImplementation((args) => {
       if (!args.procedureId) {
         throw new Error("procedureId is required");
@@ -113,6 +134,7 @@ const mockHandlers = [
       required: ["keyword"],
     },
     inputSchemaDefinition: SearchProceduresSchema,
+    outputSchemaDefinition: SearchProceduresOutputSchema,
     handler: vi.fn().mockResolvedValue({
       content: [{ type: "text", text: "search results" }],
     }),
@@ -122,6 +144,16 @@ const mockHandlers = [
 // Mock the tool handlers
 vi.mock("../mcp-capabilities/tools/handlers/index.js", () => ({
   createHandlers: vi.fn().mockImplementation(() => mockHandlers),
+  createPortalHandlers: vi.fn().mockImplementation(() => [
+    {
+      name: ToolName.LIST_PORTALS,
+      inputSchemaDefinition: ListPortalsSchema,
+      outputSchemaDefinition: ListPortalsOutputSchema,
+      handler: vi.fn().mockResolvedValue({
+        content: [{ type: "text", text: "list of portals" }],
+      }),
+    },
+  ]),
 }));
 
 // Mock the request schemas with method property
@@ -130,18 +162,56 @@ vi.mock("@modelcontextprotocol/sdk/types.js", () => ({
   GetPromptRequestSchema: { method: "prompts/get" },
   ListPromptsRequestSchema: { method: "prompts/list" },
   ListToolsRequestSchema: { method: "tools/list" },
+  SubscribeRequestSchema: { method: "resources/subscribe" },
+  UnsubscribeRequestSchema: { method: "resources/unsubscribe" },
 }));
 
-// Mock the MCP SDK McpServer and capture tool registrations
+// Mock the MCP SDK McpServer and capture tool and resource registrations
 const mockToolRegistrations = new Map<string, any>();
+const mockResourceRegistrations = new Map<string, any>();
+const mockRequestHandlers = new Map<string, any>();
+const mockPromptRegistrations = new Map<string, any>();
 vi.mock("@modelcontextprotocol/sdk/server/mcp.js", () => ({
   McpServer: vi.fn().mockImplementation(() => ({
     connect: vi.fn(),
     close: vi.fn(),
-    tool: (name: string, schema: any, handler: any) => {
-      mockToolRegistrations.set(name, { schema, handler });
+    registerTool: (name: string, config: any, handler: any) => {
+      mockToolRegistrations.set(name, {
+        schema: config.inputSchema,
+        config,
+        handler,
+      });
+    },
+    registerResource: (
+      name: string,
+      template: any,
+      metadata: any,
+      read: any
+    ) => {
+      mockResourceRegistrations.set(name, { template, metadata, read });
+    },
+    prompt: (name: string, description: string, ...rest: any[]) => {
+      mockPromptRegistrations.set(name, {
+        description,
+        argsSchema: rest.length > 1 ? rest[0] : undefined,
+        callback: rest.at(-1),
+      });
+    },
+    sendResourceListChanged: vi.fn(),
+    server: {
+      registerCapabilities: vi.fn(),
+      setRequestHandler: (schema: any, handler: any) => {
+        mockRequestHandlers.set(schema.method, handler);
+      },
+      sendResourceUpdated: vi.fn().mockResolvedValue(undefined),
     },
   })),
+  ResourceTemplate: vi
+    .fn()
+    .mockImplementation((uriTemplate: string, callbacks: any) => ({
+      uriTemplate,
+      callbacks,
+    })),
 }));
 
 // Mock the logger
@@ -164,6 +234,9 @@ describe("MCP Server", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockToolRegistrations.clear();
+    mockResourceRegistrations.clear();
+    mockRequestHandlers.clear();
+    mockPromptRegistrations.clear();
     // Assign server in beforeEach
     server = createServer().server;
     // handlers = []; // handlers is no longer returned
@@ -231,9 +304,203 @@ describe("MCP Server", () => {
       });
     });
 
+    it("declares the description and output schema of the tools", () => {
+      const listTool = mockToolRegistrations.get("listProcedures");
+      expect(listTool.config.description).toBe("List all available procedures");
+      expect(listTool.config.outputSchema).toBe(
+        ListProceduresOutputSchema.shape
+      );
+      expect(mockToolRegistrations.get("listPortals").config.outputSchema).toBe(
+        ListPortalsOutputSchema.shape
+      );
+    });
+
     // TODO: Add tests here later when eRegulations tools are re-added using server.tool()
   });
 
+  describe("portal locale", () => {
+    afterEach(() => {
+      setFormattingLocale({});
+    });
+
+    it("loads the portal locale once before running tools", async () => {
+      const listTool = mockToolRegistrations.get("listProcedures");
+      let toolLocale;
+      mockHandlers[0].handler.mockImplementationOnce(async () => {
+        toolLocale = getFormattingLocale();
+        return { content: [{ type: "text", text: "list of procedures" }] };
+      });
+
+      await listTool.handler({});
+      const result = await listTool.handler({});
+
+      expect(mockApiMethods.getPortalLocale).toHaveBeenCalledTimes(1);
+      expect(toolLocale).toEqual({ currency: "TZS", locale: "en" });
+      // The locale only applies to the tool call
+      expect(getFormattingLocale()).toEqual({});
+      expect(result.content[0].text).toBe("list of procedures");
+    });
+
+    it("applies the language asked for to the tool call only", async () => {
+      const detailsTool = mockToolRegistrations.get("getProcedureDetails");
+      let toolLocale;
+      mockHandlers[1].handler.mockImplementationOnce(async (args: any) => {
+        toolLocale = getFormattingLocale();
+        expect(args).toEqual({ procedureId: 725 });
+        return { content: [{ type: "text", text: "procedure details" }] };
+      });
+
+      await detailsTool.handler({ procedureId: 725, language: "fr" });
+
+      expect(detailsTool.schema.language).toBeDefined();
+      expect(getFormattingLocale()).toEqual({});
+      expect(toolLocale).toEqual({
+        currency: "TZS",
+        locale: "en",
+        language: "fr",
+      });
+    });
+
+    it("only offers the language to the tools with labelled responses", () => {
+      expect(
+        mockToolRegistrations.get("getProcedureDetails").schema.language
+      ).toBeDefined();
+      expect(
+        mockToolRegistrations.get("listProcedures").schema
+      ).not.toHaveProperty("language");
+    });
+
+    it("still runs tools when the portal locale cannot be loaded", async () => {
+      mockApiMethods.getPortalLocale.mockRejectedValueOnce(
+        new Error("API Down")
+      );
+      const listTool = mockToolRegistrations.get("listProcedures");
+
+      const result = await listTool.handler({});
+
+      expect(getFormattingLocale()).toEqual({});
+      expect(result.content[0].text).toBe("list of procedures");
+    });
+  });
+
+  describe("portals", () => {
+    let registry: PortalRegistry;
+
+    beforeEach(() => {
+      mockToolRegistrations.clear();
+      registry = new PortalRegistry([
+        { name: "tanzania", url: "https://api-tanzania.example.com" },
+        { name: "kenya", url: "https://api-kenya.example.com" },
+      ]);
+      server = createServer(registry).server;
+    });
+
+    it("adds an optional portal argument to every portal tool", () => {
+      expect(
+        mockToolRegistrations.get("getProcedureDetails").schema.portal
+      ).toBeDefined();
+      expect(mockToolRegistrations.get("listPortals").schema).toEqual({});
+    });
+
+    it("runs tools against the named portal", async () => {
+      const detailsTool = mockToolRegistrations.get("getProcedureDetails");
+      vi.mocked(createHandlers).mockClear();
+
+      await detailsTool.handler({ procedureId: 725, portal: "Kenya" });
+      await detailsTool.handler({ procedureId: 726, portal: "kenya" });
+
+      // Handlers of the other portal are created once, on first use
+      expect(createHandlers).toHaveBeenCalledTimes(1);
+      expect(mockHandlers[1].handler).toHaveBeenCalledWith({
+        procedureId: 725,
+      });
+    });
+
+    it("reports unknown portals", async () => {
+      const detailsTool = mockToolRegistrations.get("getProcedureDetails");
+
+      const result = await detailsTool.handler({
+        procedureId: 725,
+        portal: "lesotho",
+      });
+
+      expect(result.content[0].text).toContain(
+        'Unknown portal "lesotho". Available portals: tanzania, kenya'
+      );
+      expect(result.content[0].text).toContain("listPortals");
+      expect(result.isError).toBe(true);
+      expect(mockHandlers[1].handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resources", () => {
+    it("registers the procedure, step and objective resources", () => {
+      expect([...mockResourceRegistrations.keys()]).toEqual([
+        "procedure",
+        "step",
+        "objective",
+      ]);
+      const procedure = mockResourceRegistrations.get("procedure");
+      expect(procedure.template.uriTemplate).toBe(
+        "eregulations://{portal}/procedures/{procedureId}"
+      );
+      expect(procedure.template.callbacks.list).toBeInstanceOf(Function);
+      expect(procedure.metadata.mimeType).toBe("text/plain");
+      // Steps are found through their procedure
+      expect(
+        mockResourceRegistrations.get("step").template.callbacks.list
+      ).toBeUndefined();
+      expect(server.server.registerCapabilities).toHaveBeenCalledWith({
+        resources: { subscribe: true },
+      });
+    });
+
+    it("notifies subscribers when the responses of a resource change", async () => {
+      const onChange = mockApiMethods.onResponseChange.mock.calls.at(-1)![0];
+      const uri = "eregulations://default/procedures/725";
+      await mockRequestHandlers.get("resources/subscribe")({
+        params: { uri },
+      });
+      await mockRequestHandlers.get("resources/subscribe")({
+        params: { uri: "eregulations://default/procedures/725/steps/2787" },
+      });
+
+      onChange("/Procedures/725/Totals");
+      onChange("/Procedures/726");
+
+      expect(server.server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+      expect(server.server.sendResourceUpdated).toHaveBeenCalledWith({ uri });
+
+      onChange("/Procedures/725/Steps/2787");
+      expect(server.server.sendResourceUpdated).toHaveBeenLastCalledWith({
+        uri: "eregulations://default/procedures/725/steps/2787",
+      });
+
+      await mockRequestHandlers.get("resources/unsubscribe")({
+        params: { uri },
+      });
+      onChange("/Procedures/725");
+      expect(server.server.sendResourceUpdated).toHaveBeenCalledTimes(2);
+    });
+
+    it("announces a new resource list when the objectives change", () => {
+      const onChange = mockApiMethods.onResponseChange.mock.calls.at(-1)![0];
+
+      onChange("/Objectives");
+
+      expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops watching the responses when the server closes", () => {
+      const removeListener =
+        mockApiMethods.onResponseChange.mock.results.at(-1)!.value;
+
+      server.server.onclose!();
+
+      expect(removeListener).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // --- REMOVED commented out tests relying on the old setRequestHandler structure ---
   /*
   // describe("MCP request handler registration", () => {
@@ -256,9 +523,46 @@ describe("MCP Server", () => {
   // });
   */
 
-  /*
-  // describe("prompts", () => {
-  //   it("should define all required prompts", () => { ... });
-  // });
-  */
+  describe("prompts", () => {
+    it("registers a guide to each main tool", async () => {
+      for (const name of Object.values(PromptName)) {
+        const registration = mockPromptRegistrations.get(name);
+        expect(registration).toBeDefined();
+        expect(registration.argsSchema).toBeUndefined();
+
+        const result = await registration.callback({});
+        expect(result.messages).toEqual([
+          {
+            role: "user",
+            content: { type: "text", text: PROMPT_TEMPLATES[name] },
+          },
+        ]);
+      }
+      expect(mockPromptRegistrations.get(PromptName.LIST_PROCEDURES)).toEqual(
+        expect.objectContaining({
+          description:
+            "Get a list of all available procedures in the eRegulations system.",
+        })
+      );
+    });
+
+    it("registers the workflow prompts with their arguments", async () => {
+      const registration = mockPromptRegistrations.get(
+        WorkflowPromptName.STEP_CHECKLIST
+      );
+      expect(Object.keys(registration.argsSchema)).toEqual([
+        "procedureId",
+        "stepId",
+        "portal",
+      ]);
+
+      const result = await registration.callback({
+        procedureId: "725",
+        stepId: "2791",
+      });
+      expect(result.messages[0].content.text).toContain(
+        "step 2791 of procedure 725"
+      );
+    });
+  });
 });
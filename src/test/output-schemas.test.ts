@@ -0,0 +1,630 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { AdministrativeBurdenFormatter } from "../mcp-capabilities/tools/formatters/administrative-burden-formatter.js";
+import { DocumentCostFormatter } from "../mcp-capabilities/tools/formatters/document-cost-formatter.js";
+import { FilterListFormatter } from "../mcp-capabilities/tools/formatters/filter-list-formatter.js";
+import { FilteredProceduresFormatter } from "../mcp-capabilities/tools/formatters/filtered-procedures-formatter.js";
+import { FormFormatter } from "../mcp-capabilities/tools/formatters/form-formatter.js";
+import { FormListFormatter } from "../mcp-capabilities/tools/formatters/form-list-formatter.js";
+import { InstitutionFormatter } from "../mcp-capabilities/tools/formatters/institution-formatter.js";
+import { InstitutionListFormatter } from "../mcp-capabilities/tools/formatters/institution-list-formatter.js";
+import { LawFormatter } from "../mcp-capabilities/tools/formatters/law-formatter.js";
+import { LawListFormatter } from "../mcp-capabilities/tools/formatters/law-list-formatter.js";
+import { ObjectiveLevelFormatter } from "../mcp-capabilities/tools/formatters/objective-level-formatter.js";
+import { PersonFormatter } from "../mcp-capabilities/tools/formatters/person-formatter.js";
+import { PortalInfoFormatter } from "../mcp-capabilities/tools/formatters/portal-info-formatter.js";
+import { PortalListFormatter } from "../mcp-capabilities/tools/formatters/portal-list-formatter.js";
+import { PrerequisiteProceduresFormatter } from "../mcp-capabilities/tools/formatters/prerequisite-procedures-formatter.js";
+import { ProcedureComparisonFormatter } from "../mcp-capabilities/tools/formatters/procedure-comparison-formatter.js";
+import { ProcedureCostFormatter } from "../mcp-capabilities/tools/formatters/procedure-cost-formatter.js";
+import { ProcedureFormatter } from "../mcp-capabilities/tools/formatters/procedure-formatter.js";
+import { ProcedureListFormatter } from "../mcp-capabilities/tools/formatters/procedure-list-formatter.js";
+import { ProcedureProgressFormatter } from "../mcp-capabilities/tools/formatters/procedure-progress-formatter.js";
+import { ProcedureSearchResultsFormatter } from "../mcp-capabilities/tools/formatters/procedure-search-results-formatter.js";
+import { ProcedureSummaryFormatter } from "../mcp-capabilities/tools/formatters/procedure-summary-formatter.js";
+import { ProcedureTimelineFormatter } from "../mcp-capabilities/tools/formatters/procedure-timeline-formatter.js";
+import { RequirementsChecklistFormatter } from "../mcp-capabilities/tools/formatters/requirements-checklist-formatter.js";
+import { SearchProceduresFormatter } from "../mcp-capabilities/tools/formatters/search-procedures-formatter.js";
+import { SemanticSearchResultsFormatter } from "../mcp-capabilities/tools/formatters/semantic-search-results-formatter.js";
+import { StepFormatter } from "../mcp-capabilities/tools/formatters/step-formatter.js";
+import { UnitFormatter } from "../mcp-capabilities/tools/formatters/unit-formatter.js";
+import {
+  BrowseObjectivesOutputSchema,
+  CalculateProcedureCostOutputSchema,
+  CompareProceduresOutputSchema,
+  GetDocumentCostOutputSchema,
+  GetFormOutputSchema,
+  GetInstitutionOutputSchema,
+  GetLawOutputSchema,
+  GetPersonOutputSchema,
+  GetPortalInfoOutputSchema,
+  GetPrerequisiteProceduresOutputSchema,
+  GetProcedureAdministrativeBurdenOutputSchema,
+  GetProcedureDetailsOutputSchema,
+  GetProcedureProgressOutputSchema,
+  GetProcedureStepOutputSchema,
+  GetProcedureSummaryOutputSchema,
+  GetProcedureTimelineOutputSchema,
+  GetRequirementsChecklistOutputSchema,
+  GetUnitOutputSchema,
+  ListFiltersOutputSchema,
+  ListFormsOutputSchema,
+  ListInstitutionsOutputSchema,
+  ListLawsOutputSchema,
+  ListPortalsOutputSchema,
+  ListProceduresOutputSchema,
+  SearchProceduresByFiltersOutputSchema,
+  SearchProceduresOutputSchema,
+  SemanticSearchProceduresOutputSchema,
+} from "../mcp-capabilities/tools/output-schemas.js";
+
+/**
+ * Parse structured content as sent to the client. The schemas strip the
+ * fields they do not declare, which clients reject, so a valid payload comes
+ * back unchanged
+ */
+function parseSent(schema: z.AnyZodObject, data: unknown) {
+  return schema.parse(JSON.parse(JSON.stringify(data)));
+}
+
+function expectValid(schema: z.AnyZodObject, data: unknown) {
+  expect(parseSent(schema, data)).toEqual(JSON.parse(JSON.stringify(data)));
+}
+
+// Step of a procedure as linked from laws, forms, units and people
+const linkedStep = {
+  id: 1,
+  name: "Get a permit",
+  links: [{ rel: "procedure", href: "/Procedures/725" }],
+};
+
+describe("output schemas", () => {
+  it("describe the data of listProcedures", () => {
+    const procedures = new ProcedureListFormatter().format([
+      { id: 725, name: "Buying cloves", parentName: "Trade", menuId: 3 },
+      { id: 726, name: "Selling cloves", parentName: null },
+    ] as any).data;
+
+    expectValid(ListProceduresOutputSchema, { procedures });
+  });
+
+  it("describe the data of getProcedureDetails", () => {
+    const procedure = new ProcedureFormatter().format({
+      id: 725,
+      menuId: 3,
+      name: "Buying cloves",
+      isOnline: false,
+      data: {
+        blocks: [
+          {
+            steps: [
+              {
+                id: 1,
+                name: "Get a permit",
+                contact: { entityInCharge: { name: "Clove Board" } },
+              },
+            ],
+          },
+        ],
+      },
+    } as any).data;
+
+    expectValid(GetProcedureDetailsOutputSchema, procedure);
+  });
+
+  it("accept the empty details of missing data", () => {
+    expect(parseSent(GetProcedureDetailsOutputSchema, {})).toEqual({});
+    expect(new ProcedureFormatter().format(undefined as any).data).toEqual({});
+  });
+
+  it("describe the data of getProcedureStep", () => {
+    const step = new StepFormatter().format({
+      id: 1,
+      name: "Get a permit",
+      procedureId: 725,
+      online: { url: "https://permits.example.com" },
+      requirements: [{ id: 51, name: "ID card" }, { name: "Photo" }],
+      costs: [],
+    } as any).data;
+    const unlinkedStep = new StepFormatter().format({
+      id: 2,
+      name: "Pay the fee",
+      procedureId: null,
+    } as any).data;
+
+    expectValid(GetProcedureStepOutputSchema, step);
+    expectValid(GetProcedureStepOutputSchema, unlinkedStep);
+    expect(step.requirementDocuments).toEqual([{ id: 51, name: "ID card" }]);
+  });
+
+  it("describe the data of searchProcedures in both modes", () => {
+    const portalResults = new SearchProceduresFormatter().format(
+      [
+        { id: 725, name: "Buying cloves", description: "Buy from farmers" },
+        { id: 726, name: "Selling cloves" },
+      ],
+      "cloves"
+    ).data;
+    const localResults = new ProcedureSearchResultsFormatter().format({
+      query: "cloves",
+      total: 1,
+      indexedCount: 40,
+      corrections: {},
+      hits: [
+        {
+          id: 725,
+          name: "Buying cloves",
+          menuId: 3,
+          score: 2.5,
+          snippets: [{ field: "name", text: "Buying **cloves**" }],
+        },
+      ],
+    } as any).data;
+
+    expectValid(SearchProceduresOutputSchema, { procedures: portalResults });
+    expectValid(SearchProceduresOutputSchema, { procedures: localResults });
+  });
+
+  it("describe the data of listFilters", () => {
+    const filters = new FilterListFormatter().format([
+      {
+        id: 1,
+        name: "sector",
+        label: "Sector",
+        options: [{ id: 10, name: "Agriculture" }],
+      },
+      { id: 2, name: "Region" },
+    ]).data;
+
+    expectValid(ListFiltersOutputSchema, { filters });
+  });
+
+  it("describe the data of searchProceduresByFilters", () => {
+    const procedures = new FilteredProceduresFormatter().format([
+      {
+        procedures: [
+          {
+            id: 1,
+            name: "Trade",
+            isProcedure: false,
+            childs: [
+              {
+                id: 725,
+                name: "Buying cloves",
+                isProcedure: true,
+                explanatoryText: "Buy from farmers",
+              },
+            ],
+          },
+        ],
+      },
+    ]).data;
+
+    expectValid(SearchProceduresByFiltersOutputSchema, { procedures });
+  });
+
+  it("describe the data of getProcedureAdministrativeBurden", () => {
+    const formatter = new AdministrativeBurdenFormatter();
+    const procedureBurden = formatter.format({
+      procedureId: 725,
+      abc: {
+        adminBurdenTable: {
+          total: 120.5,
+          numberOfUsers: null,
+          humanInPersonCost: { reachOffice: 10, waitingInLine: null },
+          humanPreparationCost: { understand: 5 },
+        },
+        steps: [
+          { stepId: 1, staffLevel: { id: 1, levelText: "Senior" } },
+          { stepId: 2, staffLevel: { id: 2, level: null, hourlyCost: null } },
+        ],
+        institutions: [{ contactId: 8, zone: { id: 1, name: "Urban" } }],
+      },
+    } as any).data;
+    const stepBurden = formatter.format({
+      procedureId: 725,
+      step: {
+        id: 1,
+        name: "Get a permit",
+        abc: {
+          adminBurdenTable: { total: null },
+          zone: { id: 1, name: "Urban" },
+        },
+      },
+    } as any).data;
+
+    expectValid(GetProcedureAdministrativeBurdenOutputSchema, procedureBurden);
+    expectValid(GetProcedureAdministrativeBurdenOutputSchema, stepBurden);
+  });
+
+  it("describe the data of getProcedureSummary", () => {
+    const summary = new ProcedureSummaryFormatter().format({
+      procedureId: 725,
+      resume: {
+        id: 725,
+        name: "Buying cloves",
+        results: null,
+        laws: null,
+        costs: [{ cost: 15000, unit: "TZS", isFixed: true }],
+      },
+      totals: {
+        steps: [{ id: 1 }],
+        institutionCount: 1,
+        requirementCount: null,
+        timeframe: { cost: 3, unit: "days" },
+      },
+    } as any).data;
+
+    expectValid(GetProcedureSummaryOutputSchema, summary);
+  });
+
+  it("describe the data of listLaws", () => {
+    const laws = new LawListFormatter().format([
+      {
+        id: 4,
+        name: "Trade Act",
+        attachments: [{ url: "https://example.com/act.pdf" }, { url: null }],
+      },
+      { id: 5, name: "Customs Act" },
+    ] as any).data;
+
+    expectValid(ListLawsOutputSchema, { laws });
+  });
+
+  it("describe the data of getLaw", () => {
+    const law = new LawFormatter().format({
+      id: 4,
+      name: "Trade Act",
+      attachments: [
+        { name: "Trade Act", url: "https://example.com/act.pdf" },
+        { filename: "amendment.pdf" },
+      ],
+      steps: [linkedStep, { id: 2, name: "Register" }],
+    } as any).data;
+
+    expectValid(GetLawOutputSchema, law);
+  });
+
+  it("describe the data of listForms", () => {
+    const forms = new FormListFormatter().format([
+      {
+        id: 51,
+        name: "Export permit application",
+        type: "Form",
+        url: "https://example.com/form.pdf",
+      },
+      { id: 52, name: "ID card" },
+    ] as any).data;
+
+    expectValid(ListFormsOutputSchema, { forms });
+  });
+
+  it("describe the data of getForm", () => {
+    const form = new FormFormatter().format({
+      id: 51,
+      name: "Export permit application",
+      type: "Form",
+      steps: [linkedStep],
+      cost: { price: 5000, currency: "TZS", isFree: false, comments: null },
+    } as any).data;
+
+    expectValid(GetFormOutputSchema, form);
+  });
+
+  it("describe the data of getDocumentCost", () => {
+    const cost = new DocumentCostFormatter().format({
+      documentId: 51,
+      cost: {
+        price: 5000,
+        currency: "TZS",
+        isFree: false,
+        validity: { duration: 12, unit: "months" },
+        comments: null,
+      },
+    } as any).data;
+    // The cost fields are sent next to the ID of the document
+    const { documentId, ...costFields } = cost;
+
+    expectValid(GetDocumentCostOutputSchema, { documentId, cost: costFields });
+  });
+
+  it("describe the data of listInstitutions", () => {
+    const institutions = new InstitutionListFormatter().format([
+      { id: 8, name: "Port Authority", city: "Dar es Salaam" },
+      { id: 9, name: "Clove Board", city: null },
+    ] as any).data;
+
+    expectValid(ListInstitutionsOutputSchema, { institutions });
+  });
+
+  it("describe the data of getInstitution", () => {
+    const institution = new InstitutionFormatter().format({
+      id: 8,
+      name: "Port Authority",
+      address: "1 Harbour Road",
+      city: "Dar es Salaam",
+      firstPhone: "+255 22 000",
+      secondPhone: null,
+      firstEmail: "info@port.example.com",
+      units: [{ id: 3, name: "Permits desk" }],
+      steps: [{ ...linkedStep, procedureId: 725 }],
+      procedureNames: { 725: "Buying cloves" },
+    } as any).data;
+
+    expectValid(GetInstitutionOutputSchema, institution);
+  });
+
+  it("describe the data of getUnit", () => {
+    const unit = new UnitFormatter().format({
+      id: 3,
+      name: "Permits desk",
+      people: [
+        { id: 12, name: "Jane Doe", profession: "Officer" },
+        { id: 13, name: "John Doe", profession: null },
+      ],
+      steps: null,
+    } as any).data;
+
+    expectValid(GetUnitOutputSchema, unit);
+  });
+
+  it("describe the data of getPerson", () => {
+    const person = new PersonFormatter().format({
+      id: 12,
+      name: "Jane Doe",
+      profession: "Officer",
+      firstPhone: "+255 22 000",
+      firstEmail: null,
+      steps: [linkedStep],
+    } as any).data;
+
+    expectValid(GetPersonOutputSchema, person);
+  });
+
+  it("describe the data of getPortalInfo", () => {
+    const portal = new PortalInfoFormatter().format({
+      details: { id: 1, name: "Tanzania", currency: "TZS" },
+      contact: { phone: "+255 22 000" },
+      parameters: { showAbc: true },
+    } as any).data;
+
+    expectValid(GetPortalInfoOutputSchema, portal);
+  });
+
+  it("describe the data of getProcedureProgress in both modes", () => {
+    const formatter = new ProcedureProgressFormatter();
+    const procedureProgress = formatter.format({
+      procedureId: 725,
+      progress: {
+        steps: 4,
+        certifiedSteps: 2,
+        statusA: 2,
+        statusB: null,
+        statusC: null,
+        statusD: null,
+        openedTickets: null,
+        archivedTickets: 1,
+      },
+    } as any).data;
+    const portalProgress = formatter.format({
+      progress: { steps: 6, certifiedSteps: 2 },
+      procedures: [
+        { id: 725, name: "Buying cloves", progress: { steps: 4 } },
+        {
+          id: 726,
+          name: "Selling cloves",
+          progress: { steps: 2, certifiedSteps: 2 },
+        },
+      ],
+      failedProcedureIds: [727],
+    } as any).data;
+
+    expectValid(GetProcedureProgressOutputSchema, procedureProgress);
+    expectValid(GetProcedureProgressOutputSchema, portalProgress);
+  });
+
+  it("describe the data of browseObjectives", () => {
+    const formatter = new ObjectiveLevelFormatter();
+    const topLevel = formatter.format({
+      children: [
+        {
+          id: 1,
+          name: "Trade",
+          isProcedure: false,
+          childCount: 2,
+          procedureCount: 5,
+        },
+      ],
+    }).data;
+    const menu = formatter.format({
+      id: 1,
+      name: "Trade",
+      children: [
+        {
+          id: 725,
+          name: "Buying cloves",
+          isProcedure: true,
+          childCount: 0,
+          procedureCount: 0,
+        },
+      ],
+    }).data;
+
+    expectValid(BrowseObjectivesOutputSchema, topLevel);
+    expectValid(BrowseObjectivesOutputSchema, menu);
+  });
+
+  it("describe the data of listPortals", () => {
+    const portals = new PortalListFormatter().format([
+      { name: "tanzania", isDefault: true, currency: "TZS" },
+      { name: "kenya", isDefault: false },
+    ]).data;
+
+    expectValid(ListPortalsOutputSchema, { portals });
+  });
+
+  it("describe the data of compareProcedures", () => {
+    const comparison = new ProcedureComparisonFormatter().format({
+      targetCurrency: "USD",
+      exchangeRates: { TZS: 0.0004 },
+      entries: [
+        {
+          portal: "tanzania",
+          currency: "TZS",
+          procedureId: 725,
+          procedure: {
+            id: 725,
+            name: "Buying cloves",
+            totals: {
+              institutionCount: 2,
+              timeframe: { cost: 3, unit: "days" },
+              costs: [{ cost: 15000, unit: "TZS" }],
+            },
+          },
+        },
+        { portal: "kenya", procedureId: 12, error: "Procedure not found" },
+      ],
+    } as any).data;
+
+    expectValid(CompareProceduresOutputSchema, comparison);
+  });
+
+  it("describe the data of semanticSearchProcedures", () => {
+    const procedures = new SemanticSearchResultsFormatter().format({
+      query: "selling fish abroad",
+      model: "hashing-512",
+      indexedCount: 40,
+      hits: [
+        {
+          id: 725,
+          name: "Export of fishery products",
+          menuId: 3,
+          similarity: 0.62,
+          score: 0.8,
+          source: "both",
+        },
+        { id: 726, name: "Fishing licence", score: 0.1, source: "keyword" },
+      ],
+    } as any).data;
+
+    expectValid(SemanticSearchProceduresOutputSchema, { procedures });
+  });
+
+  it("describe the data of getRequirementsChecklist", () => {
+    const checklist = new RequirementsChecklistFormatter().format({
+      procedureId: 725,
+      procedureName: "Buying cloves",
+      menuId: 3,
+      steps: [
+        {
+          id: 1,
+          name: "Get a permit",
+          contact: { entityInCharge: { name: "Clove Board" } },
+          requirements: [
+            {
+              id: 51,
+              name: "ID card",
+              nbOriginal: 1,
+              nbCopy: null,
+              nbAuthenticated: null,
+            },
+          ],
+          results: [{ name: "Permit", isFinalResult: true }],
+        },
+        {
+          id: 2,
+          name: "Pay the fee",
+          requirements: [{ name: "Permit", nbOriginal: null, nbCopy: 2 }],
+        },
+      ],
+      incompleteStepIds: [3],
+    } as any).data;
+
+    expectValid(GetRequirementsChecklistOutputSchema, checklist);
+  });
+
+  it("describe the data of getPrerequisiteProcedures", () => {
+    const prerequisites = new PrerequisiteProceduresFormatter().format({
+      procedure: { id: 2, name: "Open a bank account" },
+      path: [
+        {
+          id: 1,
+          name: "Register a company",
+          menuId: 5,
+          depth: 1,
+          provides: [
+            {
+              requirement: { name: "Company certificate", stepId: 20 },
+              result: { name: "Company certificate", stepId: 10 },
+              procedureId: 2,
+              similarity: 1,
+            },
+          ],
+        },
+      ],
+      alternatives: [
+        {
+          requirement: "Company certificate",
+          procedureId: 2,
+          procedures: [{ id: 3, name: "Register a branch" }],
+        },
+      ],
+      unmatchedRequirements: ["ID card"],
+      indexedCount: 40,
+    }).data;
+
+    expectValid(GetPrerequisiteProceduresOutputSchema, prerequisites);
+  });
+
+  it("describe the data of getProcedureTimeline", () => {
+    const timeline = new ProcedureTimelineFormatter().format({
+      procedureId: 725,
+      procedureName: "Buying cloves",
+      blocks: [
+        {
+          steps: [
+            {
+              id: 1,
+              name: "Get a permit",
+              timeframe: {
+                timeSpentAtTheCounter: { minutes: { max: 30 } },
+                waitingTimeUntilNextStep: { days: { max: 2 } },
+              },
+            },
+            { id: 2, name: "Pay the fee", isOptional: true },
+          ],
+        },
+      ],
+    }).data;
+
+    expectValid(GetProcedureTimelineOutputSchema, timeline);
+  });
+
+  it("describe the data of calculateProcedureCost", () => {
+    const cost = new ProcedureCostFormatter().format({
+      procedureId: 725,
+      parameters: { "FOB value": 10000 },
+      bill: {
+        items: [
+          {
+            stepId: 1,
+            stepNumber: 1,
+            kind: "percentage",
+            rate: 2,
+            parameter: "% of FOB value",
+            parameterName: "FOB value",
+            parameterValue: 10000,
+            amount: 200,
+            currency: "TZS",
+          },
+        ],
+        groups: [{ currency: "TZS", amount: 200, itemCount: 1 }],
+        totals: [{ currency: "TZS", amount: 200 }],
+        unresolved: [],
+        unusedParameters: [],
+      },
+    }).data;
+
+    expectValid(CalculateProcedureCostOutputSchema, cost);
+  });
+});
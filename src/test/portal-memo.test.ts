@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ERegulationsApi } from "../services/eregulations-api.js";
+import { PortalMemo } from "../services/portal-memo.js";
+
+describe("PortalMemo", () => {
+  const api = {} as unknown as ERegulationsApi;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("builds a value once per portal and key until it expires", async () => {
+    vi.useFakeTimers();
+    const build = vi.fn(async (_api: ERegulationsApi, key: string) => key);
+    const memo = new PortalMemo(build, 1000);
+
+    expect(await memo.get(api, "en")).toBe("en");
+    expect(await memo.get(api, "en")).toBe("en");
+    expect(build).toHaveBeenCalledTimes(1);
+
+    expect(await memo.get(api, "fr")).toBe("fr");
+    vi.advanceTimersByTime(1001);
+    await memo.get(api, "fr");
+    memo.clear();
+    await memo.get(api, "fr");
+    expect(build).toHaveBeenCalledTimes(4);
+  });
+
+  it("builds the value again after a failed build", async () => {
+    const build = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Timeout"))
+      .mockResolvedValue("index");
+    const memo = new PortalMemo<string>(build, 1000);
+
+    await expect(memo.get(api)).rejects.toThrow("Timeout");
+    expect(await memo.get(api)).toBe("index");
+    expect(build).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps a newer value when an older build fails", async () => {
+    let failBuild: (error: Error) => void = () => undefined;
+    const build = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise((_, reject) => {
+            failBuild = reject;
+          })
+      )
+      .mockResolvedValue("fr index");
+    const memo = new PortalMemo<string, string>(build, 1000);
+
+    const failed = memo.get(api, "en");
+    const value = await memo.get(api, "fr");
+    failBuild(new Error("Timeout"));
+    await expect(failed).rejects.toThrow("Timeout");
+
+    expect(await memo.get(api, "fr")).toBe(value);
+    expect(build).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createPortalRegistry,
+  parsePortalArg,
+  PortalRegistry,
+} from "../services/portal-registry.js";
+import { ERegulationsApi } from "../services/eregulations-api.js";
+import { ResponseCache } from "../services/response-cache.js";
+
+// Give each portal its own mock client
+vi.mock("../services/eregulations-api.js", () => ({
+  ERegulationsApi: vi.fn().mockImplementation(() => ({
+    setBaseUrl: vi.fn(),
+    getPortalLocale: vi.fn().mockResolvedValue({ currency: "TZS" }),
+  })),
+}));
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("PortalRegistry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("serves a default portal from EREGULATIONS_API_URL when none is configured", () => {
+    const registry = new PortalRegistry();
+
+    expect(registry.getPortals()).toEqual([{ name: "default" }]);
+    expect(registry.getDefaultPortal()).toBe("default");
+    expect(registry.getApi().setBaseUrl).not.toHaveBeenCalled();
+  });
+
+  it("gives each portal its own client", () => {
+    const registry = new PortalRegistry([
+      { name: "Tanzania", url: "https://api-tanzania.example.com" },
+      { name: "kenya", url: "https://api-kenya.example.com" },
+    ]);
+
+    const tanzania = registry.getApi("tanzania");
+    const kenya = registry.getApi("KENYA");
+
+    expect(ERegulationsApi).toHaveBeenCalledTimes(2);
+    expect(tanzania).not.toBe(kenya);
+    expect(tanzania.setBaseUrl).toHaveBeenCalledWith(
+      "https://api-tanzania.example.com"
+    );
+    expect(registry.getApi()).toBe(tanzania);
+  });
+
+  it("gives each portal its own response cache", () => {
+    new PortalRegistry(
+      [
+        { name: "tanzania", url: "https://api-tanzania.example.com" },
+        { name: "kenya", url: "https://api-kenya.example.com" },
+      ],
+      undefined,
+      { directory: "/tmp/cache" }
+    );
+
+    const [[tanzaniaCache], [kenyaCache]] = vi.mocked(ERegulationsApi).mock
+      .calls as unknown as [ResponseCache][];
+    expect(tanzaniaCache).toBeInstanceOf(ResponseCache);
+    expect(tanzaniaCache).not.toBe(kenyaCache);
+    expect((tanzaniaCache as any).disk.directory).toBe(
+      join("/tmp/cache", "tanzania")
+    );
+  });
+
+  it("uses the configured default portal", () => {
+    const registry = new PortalRegistry(
+      [
+        { name: "tanzania", url: "https://api-tanzania.example.com" },
+        { name: "kenya", url: "https://api-kenya.example.com" },
+      ],
+      "kenya"
+    );
+
+    expect(registry.getDefaultPortal()).toBe("kenya");
+  });
+
+  it("rejects unknown portals", () => {
+    const registry = new PortalRegistry([
+      { name: "tanzania", url: "https://api-tanzania.example.com" },
+    ]);
+
+    expect(() => registry.getApi("lesotho")).toThrow(
+      'Unknown portal "lesotho". Available portals: tanzania'
+    );
+  });
+
+  it("finds the portal serving an API URL", () => {
+    const registry = new PortalRegistry([
+      { name: "tanzania", url: "https://api-tanzania.example.com" },
+    ]);
+
+    expect(registry.findPortalByUrl("API-Tanzania.example.com/")).toBe(
+      "tanzania"
+    );
+    expect(registry.findPortalByUrl("https://api-kenya.example.com")).toBe(
+      undefined
+    );
+  });
+
+  it("loads the locale of each portal once and tolerates failures", async () => {
+    const registry = new PortalRegistry([
+      { name: "tanzania", url: "https://api-tanzania.example.com" },
+      { name: "kenya", url: "https://api-kenya.example.com" },
+    ]);
+    vi.mocked(registry.getApi("kenya").getPortalLocale).mockRejectedValue(
+      new Error("API Down")
+    );
+
+    await registry.getLocale("tanzania");
+    expect(await registry.getLocale("tanzania")).toEqual({ currency: "TZS" });
+    expect(await registry.getLocale("kenya")).toEqual({});
+    expect(registry.getApi("tanzania").getPortalLocale).toHaveBeenCalledTimes(
+      1
+    );
+  });
+
+  it("loads the locale again after a failure", async () => {
+    const registry = new PortalRegistry([
+      { name: "tanzania", url: "https://api-tanzania.example.com" },
+    ]);
+    vi.mocked(registry.getApi().getPortalLocale).mockRejectedValueOnce(
+      new Error("API Down")
+    );
+
+    expect(await registry.getLocale()).toEqual({});
+    expect(await registry.getLocale()).toEqual({ currency: "TZS" });
+    expect(await registry.getLocale()).toEqual({ currency: "TZS" });
+    expect(registry.getApi().getPortalLocale).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("portal configuration", () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), "portals-"));
+  });
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("parses named and plain API URLs", () => {
+    expect(parsePortalArg("kenya=https://api-kenya.example.com")).toEqual({
+      name: "kenya",
+      url: "https://api-kenya.example.com",
+    });
+    expect(parsePortalArg("https://api.example.com/?lang=en")).toEqual({
+      name: "default",
+      url: "https://api.example.com/?lang=en",
+    });
+  });
+
+  it("merges the configuration file with command-line portals", () => {
+    const configFile = join(configDir, "portals.json");
+    writeFileSync(
+      configFile,
+      JSON.stringify({
+        default: "kenya",
+        portals: {
+          tanzania: "https://api-tanzania.example.com",
+          kenya: "https://api-kenya.example.com",
+        },
+      })
+    );
+
+    const registry = createPortalRegistry({
+      configFile,
+      apiUrls: ["lesotho=https://api-lesotho.example.com"],
+    });
+
+    expect(registry.getPortals().map((portal) => portal.name)).toEqual([
+      "tanzania",
+      "kenya",
+      "lesotho",
+    ]);
+    expect(registry.getDefaultPortal()).toBe("kenya");
+  });
+
+  it("rejects configuration files without portals", () => {
+    const configFile = join(configDir, "portals.json");
+    writeFileSync(configFile, JSON.stringify({ default: "kenya" }));
+
+    expect(() => createPortalRegistry({ configFile })).toThrow(
+      `No portals defined in ${configFile}`
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createHandlers,
+  createPortalHandlers,
+} from "../mcp-capabilities/tools/handlers/index.js";
+import { PortalRegistry } from "../services/portal-registry.js";
+import {
+  assertSnapshotTarget,
+  createSnapshotRegistry,
+  exportSnapshot,
+  loadSnapshotManifest,
+} from "../services/portal-snapshot.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const baseUrl = "https://api-tanzania.example.com";
+
+// Step of the procedure, with its documents and the people handling it
+const step = {
+  id: 100,
+  name: "Reserve a name",
+  contact: {
+    entityInCharge: { id: 8, name: "Business Registry" },
+    unitInCharge: { id: 3, name: "Registration desk" },
+    personInCharge: { id: 12, name: "Jane Doe" },
+  },
+  requirements: [
+    { id: 51, name: "Application form", nbOriginal: 1 },
+    { id: 52, name: "ID card", nbCopy: 1 },
+  ],
+  results: [{ name: "Name reservation", isFinalResult: true }],
+  timeframe: { timeSpentAtTheCounter: { minutes: { max: 30 } } },
+  costs: [{ value: 10000, unit: "TZS", paymentDetails: "Cash" }],
+};
+const procedure = {
+  id: 10,
+  name: "Register a company",
+  data: { blocks: [{ steps: [step] }] },
+};
+
+// Responses of the portal API by URL
+const responses: Record<string, unknown> = {
+  [`${baseUrl}/Country/Details`]: { name: "Tanzania", currency: "TZS" },
+  [`${baseUrl}/Country/About`]: { description: "Trade portal team" },
+  [`${baseUrl}/Country/Contact`]: { email: "info@example.com" },
+  [`${baseUrl}/Country/Data`]: { procedures: 1 },
+  [`${baseUrl}/CountryParameters`]: { showAbc: true },
+  [`${baseUrl}/Filters`]: [{ id: 2, name: "Sector" }],
+  [`${baseUrl}/Filters/2/Options`]: [{ id: 20, name: "Services" }],
+  [`${baseUrl}/Objectives/1`]: {
+    id: 1,
+    name: "Start a business",
+    subMenus: [
+      {
+        id: 10,
+        name: "Register a company",
+        links: [{ rel: "procedure", href: "/Procedures/10" }],
+      },
+    ],
+  },
+  [`${baseUrl}/Laws`]: [{ id: 4, name: "Companies Act" }],
+  [`${baseUrl}/Laws/4`]: { id: 4, name: "Companies Act" },
+  [`${baseUrl}/Forms`]: [{ id: 51, name: "Application form" }],
+  [`${baseUrl}/Forms/51`]: { id: 51, name: "Application form" },
+  [`${baseUrl}/DocumentCosts/51`]: { price: 5000, currency: "TZS" },
+  [`${baseUrl}/Contacts`]: [{ id: 8, name: "Business Registry" }],
+  [`${baseUrl}/Contacts/8`]: {
+    id: 8,
+    name: "Business Registry",
+    units: [{ id: 3, name: "Registration desk" }],
+  },
+  [`${baseUrl}/Units/3`]: {
+    id: 3,
+    name: "Registration desk",
+    people: [{ id: 12, name: "Jane Doe" }],
+  },
+  [`${baseUrl}/People/12`]: { id: 12, name: "Jane Doe" },
+  [`${baseUrl}/Country/Progress/10`]: { steps: 1, certifiedSteps: 1 },
+  [`${baseUrl}/Procedures/10/ABC/Full`]: {
+    adminBurdenTable: { total: 12.5 },
+  },
+  [`${baseUrl}/Procedures/10/Steps/100/ABC/Full`]: {
+    adminBurdenTable: { total: 12.5 },
+  },
+  [`${baseUrl}/Objectives`]: [
+    {
+      id: 1,
+      name: "Start a business",
+      links: [],
+      subMenus: [
+        {
+          id: 10,
+          name: "Register a company",
+          links: [{ rel: "procedure", href: "/Procedures/10" }],
+        },
+      ],
+    },
+  ],
+  [`${baseUrl}/Procedures/10`]: procedure,
+  [`${baseUrl}/Procedures/10/1`]: procedure,
+  [`${baseUrl}/Procedures/10/Totals`]: { institutionCount: 1 },
+  [`${baseUrl}/Procedures/10/Resume`]: { id: 10 },
+  [`${baseUrl}/Procedures/10/1/Resume`]: { id: 10 },
+  [`${baseUrl}/Procedures/10/Steps/100`]: { data: step },
+  [`${baseUrl}/Procedures/10/1/Steps/100`]: { data: step },
+};
+
+describe("portal snapshots", () => {
+  let directory: string;
+
+  // Answer the API requests of a registry from the responses above
+  const mockRequests = (registry: PortalRegistry) => {
+    const request = vi.fn(async (url: string) => {
+      if (!(url in responses)) {
+        throw new Error(`Not found: ${url}`);
+      }
+      return { data: responses[url] };
+    });
+    (registry.getApi() as any).requestWithRetries = request;
+    return request;
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "eregulations-snapshot-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("crawls the procedures and steps of each portal", async () => {
+    const registry = new PortalRegistry(
+      [{ name: "tanzania", url: baseUrl }],
+      undefined,
+      { directory }
+    );
+    mockRequests(registry);
+
+    const manifest = await exportSnapshot(registry, directory);
+
+    expect(manifest).toMatchObject({
+      version: 1,
+      default: "tanzania",
+      portals: [
+        {
+          name: "tanzania",
+          url: baseUrl,
+          procedureCount: 1,
+          stepCount: 1,
+        },
+      ],
+    });
+    // Pages the portal does not have are recorded as errors
+    expect(manifest.portals[0].errors).toEqual([
+      `cost of document 52: Not found: ${baseUrl}/DocumentCosts/52`,
+    ]);
+    expect(loadSnapshotManifest(directory)).toEqual(manifest);
+  });
+
+  it("serves a snapshot without calling the API", async () => {
+    const crawlRegistry = new PortalRegistry(
+      [{ name: "tanzania", url: baseUrl }],
+      undefined,
+      { directory }
+    );
+    mockRequests(crawlRegistry);
+    await exportSnapshot(crawlRegistry, directory);
+
+    const registry = createSnapshotRegistry(directory);
+    const request = mockRequests(registry);
+    const api = registry.getApi("tanzania");
+
+    expect((await api.getProcedureById(10, 1)).name).toBe("Register a company");
+    expect((await api.getProcedureStep(10, 100)).name).toBe("Reserve a name");
+    expect(await registry.getLocale()).toEqual({ currency: "TZS" });
+    await expect(api.getProcedureById(11)).rejects.toThrow(
+      `Not in the snapshot of ${
+        loadSnapshotManifest(directory).createdAt
+      }: no saved response for ${baseUrl}/Procedures/11`
+    );
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("answers every tool from a snapshot", async () => {
+    const crawlRegistry = new PortalRegistry(
+      [{ name: "tanzania", url: baseUrl }],
+      undefined,
+      { directory }
+    );
+    mockRequests(crawlRegistry);
+    await exportSnapshot(crawlRegistry, directory);
+
+    const registry = createSnapshotRegistry(directory);
+    const request = mockRequests(registry);
+    const handlers = [
+      ...createHandlers(registry.getApi()),
+      ...createPortalHandlers(registry),
+    ];
+    const call = (name: string, args: Record<string, unknown> = {}) =>
+      handlers.find((handler) => handler.name === name)!.handler(args);
+
+    const calls: [string, Record<string, unknown>][] = [
+      ["listProcedures", {}],
+      ["getProcedureDetails", { procedureId: 10, menuId: 1 }],
+      ["getProcedureStep", { procedureId: 10, stepId: 100 }],
+      ["searchProcedures", { keyword: "company", mode: "local" }],
+      ["listFilters", {}],
+      ["getProcedureAdministrativeBurden", { procedureId: 10 }],
+      ["getProcedureAdministrativeBurden", { procedureId: 10, stepId: 100 }],
+      ["getProcedureSummary", { procedureId: 10 }],
+      ["listLaws", {}],
+      ["getLaw", { lawId: 4 }],
+      ["listForms", {}],
+      ["getForm", { formId: 51 }],
+      ["getDocumentCost", { documentId: 51 }],
+      ["listInstitutions", {}],
+      ["getInstitution", { institutionId: 8 }],
+      ["getUnit", { unitId: 3 }],
+      ["getPerson", { personId: 12 }],
+      ["getPortalInfo", {}],
+      ["getProcedureProgress", { procedureId: 10 }],
+      ["getProcedureProgress", {}],
+      ["browseObjectives", {}],
+      ["browseObjectives", { objectiveId: 1 }],
+      ["semanticSearchProcedures", { query: "register a company" }],
+      ["getRequirementsChecklist", { procedureId: 10 }],
+      ["getPrerequisiteProcedures", { procedureId: 10 }],
+      ["getProcedureTimeline", { procedureId: 10 }],
+      ["calculateProcedureCost", { procedureId: 10 }],
+      ["listPortals", {}],
+      ["compareProcedures", { procedures: [{ procedureId: 10 }] }],
+    ];
+    for (const [name, args] of calls) {
+      const result = await call(name, args);
+      expect(result.isError, `${name}: ${result.content[0].text}`).toBeFalsy();
+    }
+    // Every tool but the filter search is answered, and the searches of
+    // the portal API tell what a snapshot cannot answer
+    expect(new Set(calls.map(([name]) => name)).size).toBe(handlers.length - 1);
+    for (const [name, args] of [
+      ["searchProcedures", { keyword: "company" }],
+      [
+        "searchProceduresByFilters",
+        { filters: [{ filterId: 2, optionId: 20 }] },
+      ],
+    ] as const) {
+      const result = await call(name, args);
+      expect(result.isError, name).toBe(true);
+      expect(result.content[0].text).toContain("Not in the snapshot of");
+    }
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("rejects missing, newer and non-empty snapshot directories", () => {
+    expect(() => loadSnapshotManifest(directory)).toThrow(
+      `No snapshot found in ${directory}`
+    );
+
+    writeFileSync(
+      join(directory, "snapshot.json"),
+      JSON.stringify({ version: 99, portals: [] })
+    );
+
+    expect(() => loadSnapshotManifest(directory)).toThrow(
+      "Unsupported snapshot version 99"
+    );
+    expect(() => assertSnapshotTarget(directory)).toThrow(
+      `Snapshot directory ${directory} is not empty`
+    );
+  });
+});
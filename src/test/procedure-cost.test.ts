@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateProcedureCost,
+  getCostKind,
+  matchParameter,
+} from "../services/procedure-cost.js";
+
+describe("getCostKind", () => {
+  it("tells how a fee is charged", () => {
+    expect(getCostKind({ value: 100, operator: "fixed" })).toBe("fixed");
+    expect(getCostKind({ value: 100 })).toBe("fixed");
+    expect(
+      getCostKind({ value: 2, operator: "percentage", parameter: "of value" })
+    ).toBe("percentage");
+    expect(getCostKind({ value: 5, operator: "Per unit" })).toBe("perUnit");
+    expect(getCostKind({ value: 5, parameter: "per container" })).toBe(
+      "perUnit"
+    );
+  });
+});
+
+describe("matchParameter", () => {
+  it("matches the parameters given by their words", () => {
+    const names = ["value", "FOB value", "capital"];
+
+    expect(matchParameter("% of FOB value", names)).toBe("FOB value");
+    expect(matchParameter("of the declared value", names)).toBe("value");
+    expect(matchParameter("of the share capital", names)).toBe("capital");
+    expect(matchParameter("per container", names)).toBeUndefined();
+    expect(matchParameter("per container", ["containers"])).toBe("containers");
+  });
+});
+
+describe("calculateProcedureCost", () => {
+  const blocks = [
+    {
+      steps: [
+        {
+          id: 1,
+          name: "Submit application",
+          costs: [
+            {
+              value: 100,
+              unit: "TZS",
+              operator: "fixed",
+              comments: "Application fee",
+              paymentDetails: "Pay at counter",
+            },
+            {
+              value: "2",
+              unit: "%",
+              operator: "percentage",
+              parameter: "% of FOB value",
+              comments: "Export levy",
+              paymentDetails: "Pay at counter",
+            },
+          ],
+        },
+        { id: 2, name: "Inspect goods" },
+      ],
+    },
+    {
+      steps: [
+        {
+          id: 3,
+          name: "Load containers",
+          costs: [
+            {
+              value: 50,
+              unit: "USD",
+              parameter: "per container",
+              comments: "Handling fee",
+            },
+            {
+              value: 0.5,
+              unit: "USD",
+              operator: "percentage",
+              parameter: "of CIF value",
+              comments: "Port fee",
+            },
+            // Free
+            { value: 0, unit: "USD" },
+          ],
+        },
+      ],
+    },
+  ];
+
+  it("evaluates the fees with the parameters given", () => {
+    const bill = calculateProcedureCost(
+      blocks,
+      { "FOB value": 10000, quantity: 3, capital: 5000 },
+      { currency: "TZS" }
+    );
+
+    expect(
+      bill.items.map(({ stepNumber, kind, amount, currency }) => ({
+        stepNumber,
+        kind,
+        amount,
+        currency,
+      }))
+    ).toEqual([
+      { stepNumber: 1, kind: "fixed", amount: 100, currency: "TZS" },
+      { stepNumber: 1, kind: "percentage", amount: 200, currency: "TZS" },
+      { stepNumber: 3, kind: "perUnit", amount: 150, currency: "USD" },
+    ]);
+    expect(bill.items[1]).toMatchObject({
+      rate: 2,
+      parameterName: "FOB value",
+      parameterValue: 10000,
+    });
+    // Per-unit fees fall back to the quantity
+    expect(bill.items[2].parameterName).toBe("quantity");
+    expect(bill.unresolved).toEqual([
+      expect.objectContaining({
+        stepId: 3,
+        description: "Port fee",
+        parameter: "of CIF value",
+        currency: "USD",
+      }),
+    ]);
+    expect(bill.unusedParameters).toEqual(["capital"]);
+  });
+
+  it("groups the amounts by currency and payment details", () => {
+    const bill = calculateProcedureCost(
+      blocks,
+      { "FOB value": 10000, quantity: 3, "CIF value": 20000 },
+      { currency: "TZS" }
+    );
+
+    expect(bill.groups).toEqual([
+      {
+        currency: "TZS",
+        paymentDetails: "Pay at counter",
+        amount: 300,
+        itemCount: 2,
+      },
+      { currency: "USD", amount: 250, itemCount: 2 },
+    ]);
+    expect(bill.totals).toEqual([
+      { currency: "TZS", amount: 300 },
+      { currency: "USD", amount: 250 },
+    ]);
+    expect(bill.unresolved).toEqual([]);
+  });
+
+  it("charges only the percentages in the currency of the parameters", () => {
+    const bill = calculateProcedureCost(
+      [
+        {
+          steps: [
+            {
+              costs: [
+                { value: 50000 },
+                {
+                  value: 2,
+                  unit: "%",
+                  operator: "percentage",
+                  parameter: "% of FOB value",
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      { "FOB value": 10000 },
+      { currency: "TZS", parameterCurrency: "USD" }
+    );
+
+    expect(bill.totals).toEqual([
+      { currency: "TZS", amount: 50000 },
+      { currency: "USD", amount: 200 },
+    ]);
+  });
+
+  it("leaves the fees needing parameters out of the totals", () => {
+    const bill = calculateProcedureCost(blocks);
+
+    expect(bill.items).toHaveLength(1);
+    expect(bill.totals).toEqual([{ currency: "TZS", amount: 100 }]);
+    expect(bill.unresolved.map((item) => item.description)).toEqual([
+      "Export levy",
+      "Handling fee",
+      "Port fee",
+    ]);
+    // Without a default currency, a percentage has no currency
+    expect(bill.unresolved[0]).not.toHaveProperty("currency");
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, vi } from "vitest";
+import { ERegulationsApi } from "../services/eregulations-api.js";
+import {
+  ProcedureDocuments,
+  ProcedureGraph,
+  collectAcronyms,
+  findPrerequisiteProcedures,
+  getDocumentSimilarity,
+  getDocumentTerms,
+  getProcedureGraph,
+} from "../services/procedure-graph.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Procedure with one step requiring and producing the given documents
+ */
+const procedure = (
+  id: number,
+  name: string,
+  requirements: string[],
+  results: string[]
+): ProcedureDocuments => ({
+  id,
+  name,
+  requirements: requirements.map((document) => ({
+    name: document,
+    stepId: id * 10,
+    stepName: `Step of ${name}`,
+  })),
+  results: results.map((document) => ({
+    name: document,
+    stepId: id * 10 + 1,
+    stepName: `Last step of ${name}`,
+  })),
+});
+
+describe("document matching", () => {
+  it("spells out the acronyms defined by the portal", () => {
+    const acronyms = collectAcronyms([
+      "Tax Identification Number (TIN) certificate",
+      "Certificate of Origin (COO)",
+      // Initials that do not match
+      "Business licence (XYZ)",
+    ]);
+
+    expect([...acronyms]).toEqual([
+      ["TIN", "Tax Identification Number"],
+      ["COO", "Certificate of Origin"],
+    ]);
+    expect(getDocumentTerms("TIN certificate", acronyms)).toEqual(
+      getDocumentTerms("Tax Identification Number (TIN) certificate", acronyms)
+    );
+  });
+
+  it("tolerates word forms, accents and typos", () => {
+    const terms = (name: string) => getDocumentTerms(name, new Map());
+
+    expect(
+      getDocumentSimilarity(
+        terms("Business licence"),
+        terms("business license")
+      )
+    ).toBe(1);
+    expect(
+      getDocumentSimilarity(
+        terms("Déclaration en douane"),
+        terms("Declaration en douanne")
+      )
+    ).toBe(1);
+    expect(
+      getDocumentSimilarity(
+        terms("Certificate of incorporation"),
+        terms("Certificate of registration")
+      )
+    ).toBe(0.5);
+    expect(getDocumentSimilarity([], terms("Passport"))).toBe(0);
+  });
+});
+
+describe("ProcedureGraph", () => {
+  const graph = new ProcedureGraph([
+    procedure(
+      1,
+      "Register a company",
+      ["Passport"],
+      ["Certificate of incorporation"]
+    ),
+    procedure(
+      2,
+      "Register for taxes",
+      ["Certificate of incorporation"],
+      ["Tax Identification Number (TIN) certificate"]
+    ),
+    procedure(
+      3,
+      "Get an export licence",
+      ["TIN certificate", "Passport"],
+      ["Export licence"]
+    ),
+    procedure(
+      4,
+      "Export fish",
+      [
+        "Export licences",
+        "Certificate of incorporation",
+        "Veterinary certificate",
+      ],
+      ["Bill of lading"]
+    ),
+    // Another producer of the certificate
+    procedure(5, "Register a branch", [], ["Certificate of incorporation"]),
+  ]);
+
+  it("orders the prerequisites of a procedure before it", () => {
+    const result = graph.getPrerequisites(graph.getProcedure(4)!);
+
+    expect(result.path.map(({ id, depth }) => ({ id, depth }))).toEqual([
+      { id: 1, depth: 3 },
+      { id: 2, depth: 2 },
+      { id: 3, depth: 1 },
+    ]);
+    expect(result.path[2].provides).toEqual([
+      expect.objectContaining({
+        requirement: expect.objectContaining({ name: "Export licences" }),
+        result: expect.objectContaining({ name: "Export licence", stepId: 31 }),
+        procedureId: 4,
+        similarity: 1,
+      }),
+    ]);
+    // The company registration provides the certificate to both procedures
+    expect(result.path[0].provides.map((link) => link.procedureId)).toEqual([
+      2, 4,
+    ]);
+    expect(result.alternatives).toEqual([
+      {
+        requirement: "Certificate of incorporation",
+        procedureId: 2,
+        procedures: [{ id: 5, name: "Register a branch" }],
+      },
+      {
+        requirement: "Certificate of incorporation",
+        procedureId: 4,
+        procedures: [{ id: 5, name: "Register a branch" }],
+      },
+    ]);
+    expect(result.unmatchedRequirements).toEqual(["Veterinary certificate"]);
+    expect(result.indexedCount).toBe(5);
+  });
+
+  it("leaves out the documents produced by the procedure itself", () => {
+    const result = graph.getPrerequisites(
+      procedure(6, "Ship fish", ["Bill of lading"], ["Bill of lading"])
+    );
+
+    expect(result.path).toEqual([]);
+    expect(result.unmatchedRequirements).toEqual([]);
+  });
+
+  it("breaks cycles between procedures", () => {
+    const cyclic = new ProcedureGraph([
+      procedure(1, "A", ["Export permit"], ["Import permit"]),
+      procedure(2, "B", ["Import permit"], ["Export permit"]),
+    ]);
+
+    const result = cyclic.getPrerequisites(cyclic.getProcedure(1)!);
+
+    expect(result.path.map(({ id }) => id)).toEqual([2]);
+  });
+
+  it("does not link generic documents produced by many procedures", () => {
+    const generic = new ProcedureGraph([
+      ...[1, 2, 3, 4, 5, 6].map((id) =>
+        procedure(id, `Pay fee ${id}`, [], ["Payment receipt"])
+      ),
+      procedure(7, "Collect permit", ["Payment receipt"], []),
+    ]);
+
+    const result = generic.getPrerequisites(generic.getProcedure(7)!);
+
+    expect(result.path).toEqual([]);
+    expect(result.unmatchedRequirements).toEqual(["Payment receipt"]);
+  });
+});
+
+describe("findPrerequisiteProcedures", () => {
+  const step = (id: number, requirements: string[], results: string[]) => ({
+    id,
+    name: `Step ${id}`,
+    requirements: requirements.map((name) => ({ name })),
+    results: results.map((name) => ({ name })),
+  });
+  const procedures: Record<number, any> = {
+    1: {
+      id: 1,
+      name: "Register a company",
+      data: { blocks: [{ steps: [step(10, [], ["Company certificate"])] }] },
+    },
+    2: {
+      id: 2,
+      name: "Open a bank account",
+      data: { blocks: [{ steps: [step(20, ["Company certificate"], [])] }] },
+    },
+    // Only reachable from a menu
+    3: {
+      id: 3,
+      name: "Import goods",
+      fullName: "Import > Import goods",
+      data: { blocks: [{ steps: [step(30, ["Company certificate"], [])] }] },
+    },
+  };
+  const createApi = () =>
+    ({
+      getProceduresList: vi.fn().mockResolvedValue([
+        { id: 1, name: "Register a company", isProcedure: true, menuId: 5 },
+        { id: 1, name: "Register a company", isProcedure: true, menuId: 6 },
+        { id: 2, name: "Open a bank account", isProcedure: true },
+        { id: 4, name: "Broken procedure", isProcedure: true },
+        { id: 9, name: "Start a business", isProcedure: false },
+      ]),
+      getProcedureById: vi.fn().mockImplementation(async (id: number) => {
+        if (!procedures[id]) {
+          throw new Error("Timeout");
+        }
+        return procedures[id];
+      }),
+    } as unknown as ERegulationsApi);
+
+  it("crawls the procedures of the portal once", async () => {
+    const api = createApi();
+
+    const result = await findPrerequisiteProcedures(api, 2);
+    await findPrerequisiteProcedures(api, 2);
+
+    // Once per listed procedure, the broken one included
+    expect(api.getProcedureById).toHaveBeenCalledTimes(3);
+    expect(result.path).toEqual([
+      expect.objectContaining({ id: 1, name: "Register a company", menuId: 5 }),
+    ]);
+    expect(result.indexedCount).toBe(2);
+  });
+
+  it("fetches the procedures missing from the graph", async () => {
+    const api = createApi();
+
+    const result = await findPrerequisiteProcedures(api, 3);
+
+    expect(api.getProcedureById).toHaveBeenCalledWith(3);
+    expect(result.procedure).toEqual({
+      id: 3,
+      name: "Import goods",
+      fullName: "Import > Import goods",
+    });
+    expect(result.path.map(({ id }) => id)).toEqual([1]);
+  });
+
+  it("builds the graph again when the procedures could not be listed", async () => {
+    const api = createApi();
+    // The API client returns an empty list when the portal cannot be reached
+    vi.mocked(api.getProceduresList).mockResolvedValueOnce([]);
+
+    await expect(findPrerequisiteProcedures(api, 2)).rejects.toThrow(
+      "No procedures could be listed"
+    );
+    const result = await findPrerequisiteProcedures(api, 2);
+
+    expect(result.path.map(({ id }) => id)).toEqual([1]);
+    expect(api.getProceduresList).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps a newer graph when an older build fails", async () => {
+    const api = createApi();
+    let failBuild: (error: Error) => void = () => undefined;
+    vi.mocked(api.getProceduresList).mockImplementationOnce(
+      () =>
+        new Promise((_, reject) => {
+          failBuild = reject;
+        })
+    );
+
+    const failed = getProcedureGraph(api, "en");
+    // A change of language replaces the graph being built
+    const graph = await getProcedureGraph(api, "fr");
+    failBuild(new Error("Timeout"));
+    await expect(failed).rejects.toThrow("Timeout");
+
+    expect(await getProcedureGraph(api, "fr")).toBe(graph);
+    expect(api.getProceduresList).toHaveBeenCalledTimes(2);
+  });
+});
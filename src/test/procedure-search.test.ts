@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import { ERegulationsApi } from "../services/eregulations-api.js";
+import { searchProceduresLocally } from "../services/procedure-search.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("searchProceduresLocally", () => {
+  const createApi = () =>
+    ({
+      getProceduresList: vi.fn().mockResolvedValue([
+        {
+          id: 10,
+          name: "Register a company",
+          fullName: "Start a business > Register a company",
+          menuId: 1,
+          isProcedure: true,
+        },
+        {
+          id: 10,
+          name: "Register a company",
+          fullName: "Invest > Register a company",
+          menuId: 2,
+          isProcedure: true,
+        },
+        { id: 1, name: "Start a business", isProcedure: false },
+        {
+          id: 20,
+          name: "Get a work permit",
+          fullName: "Work > Get a work permit",
+          menuId: 3,
+          isProcedure: true,
+        },
+      ]),
+      getProcedureById: vi.fn().mockImplementation(async (id: number) => {
+        if (id === 20) {
+          throw new Error("Timeout");
+        }
+        return {
+          id,
+          name: "Register a company",
+          data: {
+            blocks: [
+              {
+                steps: [
+                  {
+                    id: 100,
+                    name: "Pay the registration fee",
+                    requirements: [{ name: "Memorandum of association" }],
+                    contact: {
+                      entityInCharge: { name: "Business Registrations Agency" },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        };
+      }),
+    } as unknown as ERegulationsApi);
+
+  it("indexes each procedure once with its steps, requirements and institutions", async () => {
+    const api = createApi();
+
+    const results = await searchProceduresLocally(api, "memorandum agency");
+
+    expect(api.getProcedureById).toHaveBeenCalledTimes(2);
+    expect(results).toMatchObject({
+      query: "memorandum agency",
+      total: 1,
+      indexedCount: 2,
+      hits: [
+        {
+          id: 10,
+          name: "Register a company",
+          fullName: "Start a business > Register a company",
+          menuId: 1,
+        },
+      ],
+    });
+    expect(results.hits[0].snippets.map((snippet) => snippet.field)).toEqual(
+      expect.arrayContaining(["requirements", "institutions"])
+    );
+  });
+
+  it("finds procedures by all their paths and reuses the index", async () => {
+    const api = createApi();
+
+    expect((await searchProceduresLocally(api, "invest")).hits[0].id).toBe(10);
+    // Procedures whose details failed are still found by name
+    expect((await searchProceduresLocally(api, "work permit")).hits[0].id).toBe(
+      20
+    );
+    expect(api.getProceduresList).toHaveBeenCalledTimes(1);
+  });
+
+  it("builds the index again when the procedures could not be listed", async () => {
+    const api = createApi();
+    // The API client returns an empty list when the portal cannot be reached
+    vi.mocked(api.getProceduresList).mockResolvedValueOnce([]);
+
+    await expect(searchProceduresLocally(api, "invest")).rejects.toThrow(
+      "No procedures could be listed"
+    );
+    expect((await searchProceduresLocally(api, "invest")).hits[0].id).toBe(10);
+    expect(api.getProceduresList).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+import { ERegulationsApi } from "../services/eregulations-api.js";
+import { completeProcedureSteps } from "../services/procedure-steps.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("completeProcedureSteps", () => {
+  const procedure = {
+    id: 725,
+    name: "Buying cloves",
+    data: {
+      blocks: [
+        {
+          isOptional: true,
+          steps: [
+            { id: 1, name: "Submit application", costs: [] },
+            { id: 2, name: "Pay for cloves" },
+          ],
+        },
+        { steps: [{ id: 3, name: "Load containers" }] },
+      ],
+    },
+  };
+
+  it("completes the steps lacking details with their step page", async () => {
+    const api = {
+      getProcedureStep: vi.fn().mockImplementation(async (_, stepId) => {
+        if (stepId === 3) {
+          throw new Error("Step not found");
+        }
+        return { id: stepId, costs: [{ value: 100 }] };
+      }),
+    } as unknown as ERegulationsApi;
+
+    const { blocks, incompleteStepIds } = await completeProcedureSteps(
+      api,
+      725,
+      procedure,
+      (step) => !step.costs,
+      12
+    );
+
+    expect(api.getProcedureStep).toHaveBeenCalledTimes(2);
+    expect(api.getProcedureStep).toHaveBeenCalledWith(725, 2, 12);
+    expect(blocks).toEqual([
+      {
+        isOptional: true,
+        steps: [
+          { id: 1, name: "Submit application", costs: [] },
+          { id: 2, name: "Pay for cloves", costs: [{ value: 100 }] },
+        ],
+      },
+      { steps: [{ id: 3, name: "Load containers" }] },
+    ]);
+    expect(incompleteStepIds).toEqual([3]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  TimelineStepInput,
+  buildProcedureTimeline,
+} from "../services/procedure-timeline.js";
+
+/**
+ * Step waiting the given days until the next step
+ */
+const step = (
+  id: number,
+  days: number,
+  options: Partial<TimelineStepInput> = {}
+): TimelineStepInput => ({
+  id,
+  name: `Step ${id}`,
+  timeframe: { waitingTimeUntilNextStep: { days: { max: days } } },
+  ...options,
+});
+
+describe("buildProcedureTimeline", () => {
+  it("runs sequential steps one after the other", () => {
+    const timeline = buildProcedureTimeline([
+      { steps: [step(1, 2), step(2, 3)] },
+      { steps: [step(3, 1)] },
+    ]);
+
+    expect(
+      timeline.steps.map(({ id, start, end }) => ({ id, start, end }))
+    ).toEqual([
+      { id: 1, start: 0, end: 2 },
+      { id: 2, start: 2, end: 5 },
+      { id: 3, start: 5, end: 6 },
+    ]);
+    expect(timeline.criticalPathDays).toBe(6);
+    expect(timeline.minimumDays).toBe(6);
+    expect(timeline.maximumDays).toBe(6);
+    expect(timeline.criticalPathStepIds).toEqual([1, 2, 3]);
+  });
+
+  it("runs parallel steps along with the step before them", () => {
+    const timeline = buildProcedureTimeline([
+      {
+        steps: [
+          step(1, 2),
+          step(2, 3),
+          step(3, 5, { isParallel: true }),
+          step(4, 1, { isParallel: true }),
+          step(5, 1),
+        ],
+      },
+    ]);
+
+    expect(
+      timeline.steps.map(({ id, start, end, groupIndex }) => ({
+        id,
+        start,
+        end,
+        groupIndex,
+      }))
+    ).toEqual([
+      { id: 1, start: 0, end: 2, groupIndex: 0 },
+      { id: 2, start: 2, end: 5, groupIndex: 1 },
+      { id: 3, start: 2, end: 7, groupIndex: 1 },
+      { id: 4, start: 2, end: 3, groupIndex: 1 },
+      { id: 5, start: 7, end: 8, groupIndex: 2 },
+    ]);
+    expect(timeline.criticalPathDays).toBe(8);
+    expect(timeline.maximumDays).toBe(12);
+    expect(timeline.criticalPathStepIds).toEqual([1, 3, 5]);
+  });
+
+  it("starts a new group at the first step of a block", () => {
+    const timeline = buildProcedureTimeline([
+      { steps: [step(1, 2)] },
+      { steps: [step(2, 3, { isParallel: true })] },
+    ]);
+
+    expect(timeline.steps[1].start).toBe(2);
+    expect(timeline.criticalPathDays).toBe(5);
+  });
+
+  it("leaves out the optional steps from the minimum", () => {
+    const timeline = buildProcedureTimeline([
+      {
+        steps: [
+          step(1, 2),
+          step(2, 4, { isOptional: true }),
+          step(3, 1, { isParallel: true }),
+          step(4, 3, { isOptional: true }),
+        ],
+      },
+    ]);
+
+    // The longest step of the group is optional, the step along with it is not
+    expect(timeline.minimumDays).toBe(3);
+    expect(timeline.criticalPathDays).toBe(9);
+    expect(timeline.maximumDays).toBe(10);
+  });
+
+  it("leaves out the steps of optional blocks from the minimum", () => {
+    const timeline = buildProcedureTimeline([
+      { steps: [step(1, 2)] },
+      { isOptional: true, steps: [step(2, 4), step(3, 1)] },
+      { steps: [step(4, 3)] },
+    ]);
+
+    expect(
+      timeline.steps.filter((s) => s.isOptional).map(({ id }) => id)
+    ).toEqual([2, 3]);
+    expect(timeline.minimumDays).toBe(5);
+    expect(timeline.criticalPathDays).toBe(10);
+    expect(timeline.maximumDays).toBe(10);
+  });
+
+  it("adds the counter and queue times to the days", () => {
+    const timeline = buildProcedureTimeline([
+      {
+        steps: [
+          {
+            id: 1,
+            timeframe: {
+              timeSpentAtTheCounter: { minutes: { max: 600 } },
+              waitingTimeInLine: { minutes: { max: 120 } },
+              waitingTimeUntilNextStep: { days: { max: 1 } },
+            },
+          },
+          { id: 2 },
+        ],
+      },
+    ]);
+
+    expect(timeline.steps[0]).toMatchObject({
+      minutes: 720,
+      days: 1,
+      duration: 1.5,
+      hasTimeframe: true,
+    });
+    expect(timeline.criticalPathMinutes).toBe(720);
+    expect(timeline.criticalPathDays).toBe(1.5);
+    expect(timeline.stepsWithoutTimeframe).toEqual([2]);
+  });
+
+  it("handles procedures without steps", () => {
+    const timeline = buildProcedureTimeline(undefined);
+
+    expect(timeline.steps).toEqual([]);
+    expect(timeline.criticalPathDays).toBe(0);
+    expect(timeline.minimumDays).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  WORKFLOW_PROMPTS,
+  WorkflowPromptName,
+} from "../../mcp-capabilities/prompts/workflows.js";
+import { ToolName } from "../../mcp-capabilities/tools/schemas.js";
+
+const getPrompt = (name: WorkflowPromptName) =>
+  WORKFLOW_PROMPTS.find((prompt) => prompt.name === name)!;
+
+const getText = (name: WorkflowPromptName, args: Record<string, string>) => {
+  const messages = getPrompt(name).getMessages(args);
+  expect(messages).toHaveLength(1);
+  expect(messages[0].role).toBe("user");
+  return (messages[0].content as { text: string }).text;
+};
+
+describe("Workflow prompts", () => {
+  it("defines a prompt for each workflow", () => {
+    expect(WORKFLOW_PROMPTS.map((prompt) => prompt.name)).toEqual(
+      Object.values(WorkflowPromptName)
+    );
+  });
+
+  it("plans the export of a commodity with the search tools", () => {
+    const text = getText(WorkflowPromptName.PLAN_EXPORT, {
+      commodity: "cloves",
+    });
+
+    expect(text).toContain("I want to export cloves.");
+    expect(text).toContain(`\`${ToolName.BROWSE_OBJECTIVES}\``);
+    expect(text).toContain(`\`${ToolName.SEMANTIC_SEARCH_PROCEDURES}\``);
+    expect(text).toContain(`\`${ToolName.GET_PROCEDURE_SUMMARY}\``);
+    expect(text).toContain("Query the default portal");
+  });
+
+  it("explains the costs of a procedure of a given portal", () => {
+    const text = getText(WorkflowPromptName.EXPLAIN_PROCEDURE_COSTS, {
+      procedureId: "725",
+      portal: "tanzania",
+    });
+
+    expect(text).toContain("Explain the costs of procedure 725");
+    expect(text).toContain(
+      `\`${ToolName.GET_PROCEDURE_ADMINISTRATIVE_BURDEN}\``
+    );
+    expect(text).toContain('pass `portal: "tanzania"` to every tool');
+  });
+
+  it("makes a checklist for a step", () => {
+    const text = getText(WorkflowPromptName.STEP_CHECKLIST, {
+      procedureId: "725",
+      stepId: "2791",
+    });
+
+    expect(text).toContain(
+      `\`${ToolName.GET_PROCEDURE_STEP}\` with procedureId 725 and stepId 2791`
+    );
+    expect(text).toContain(`\`${ToolName.GET_FORM}\``);
+  });
+
+  it("requires numeric IDs", () => {
+    const schema = z.object(
+      getPrompt(WorkflowPromptName.STEP_CHECKLIST).argsSchema!
+    );
+
+    expect(
+      schema.safeParse({ procedureId: "725", stepId: "2791" }).success
+    ).toBe(true);
+    expect(
+      schema.safeParse({ procedureId: "725", stepId: "abc" }).success
+    ).toBe(false);
+    expect(schema.safeParse({ procedureId: "725" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createObjectiveResource } from "../../mcp-capabilities/resources/objective.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+
+// Mock dependencies
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    objectiveLevel: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("ObjectiveResource", () => {
+  let mockApi: ERegulationsApi;
+  let resource: ReturnType<typeof createObjectiveResource>;
+
+  const mockLevel = {
+    id: 1,
+    name: "Export",
+    children: [
+      {
+        id: 10,
+        name: "Zanzibar",
+        isProcedure: false,
+        childCount: 3,
+        procedureCount: 12,
+      },
+      {
+        id: 725,
+        name: "Buying cloves",
+        isProcedure: true,
+        childCount: 0,
+        procedureCount: 0,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getObjectiveLevel: vi.fn().mockResolvedValue(mockLevel),
+    } as unknown as ERegulationsApi;
+    const mockRegistry = {
+      getPortals: vi.fn().mockReturnValue([{ name: "tanzania" }]),
+      resolvePortal: vi.fn().mockReturnValue("tanzania"),
+      getApi: vi.fn().mockReturnValue(mockApi),
+      getLocale: vi.fn().mockResolvedValue({}),
+    } as unknown as PortalRegistry;
+
+    vi.mocked(formatters.objectiveLevel.format).mockReturnValue({
+      text: "Test formatted objective",
+      data: {},
+    });
+
+    resource = createObjectiveResource(mockRegistry);
+  });
+
+  it("lists the top-level objectives", async () => {
+    const result = await resource.list!();
+
+    expect(mockApi.getObjectiveLevel).toHaveBeenCalledWith();
+    expect(result.resources).toEqual([
+      {
+        uri: "eregulations://tanzania/objectives/10",
+        name: "Zanzibar",
+        mimeType: "text/plain",
+      },
+    ]);
+  });
+
+  it("reads an objective with its children", async () => {
+    const uri = new URL("eregulations://tanzania/objectives/1");
+
+    const result = await resource.read(uri, {
+      portal: "tanzania",
+      objectiveId: "1",
+    });
+
+    expect(mockApi.getObjectiveLevel).toHaveBeenCalledWith(1);
+    expect(formatters.objectiveLevel.format).toHaveBeenCalledWith(mockLevel);
+    expect(result.contents[0].text).toBe("Test formatted objective");
+  });
+
+  it("depends on the objective tree", () => {
+    expect(resource.dependsOn({ objectiveId: "1" }, "/Objectives")).toBe(true);
+    expect(resource.dependsOn({ objectiveId: "1" }, "/Procedures/1")).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createProcedureResource } from "../../mcp-capabilities/resources/procedure.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+import { getFormattingLocale } from "../../mcp-capabilities/tools/formatters/locale.js";
+
+// Mock dependencies
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    procedure: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("ProcedureResource", () => {
+  let mockApis: Record<string, ERegulationsApi>;
+  let mockRegistry: PortalRegistry;
+  let resource: ReturnType<typeof createProcedureResource>;
+
+  const mockProcedure = { id: 725, name: "Buying cloves" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApis = {
+      tanzania: {
+        getProceduresList: vi.fn().mockResolvedValue([
+          {
+            id: 725,
+            name: "Buying cloves",
+            fullName: "Export > Buying cloves",
+            menuId: 1,
+            isProcedure: true,
+          },
+          // Listed under another menu
+          { id: 725, name: "Buying cloves", menuId: 2, isProcedure: true },
+          { id: 794, name: "Clearance through port", isProcedure: true },
+        ]),
+        getProcedureById: vi.fn().mockResolvedValue(mockProcedure),
+        getProcedureTotals: vi.fn().mockResolvedValue({ institutionCount: 2 }),
+      } as unknown as ERegulationsApi,
+      kenya: {
+        getProceduresList: vi.fn().mockRejectedValue(new Error("API Down")),
+      } as unknown as ERegulationsApi,
+    };
+    mockRegistry = {
+      getPortals: vi
+        .fn()
+        .mockReturnValue([{ name: "tanzania" }, { name: "kenya" }]),
+      resolvePortal: vi.fn().mockImplementation((name: string) => {
+        if (!mockApis[name.toLowerCase()]) {
+          throw new Error(`Unknown portal "${name}"`);
+        }
+        return name.toLowerCase();
+      }),
+      getApi: vi.fn().mockImplementation((name: string) => mockApis[name]),
+      getLocale: vi.fn().mockResolvedValue({ currency: "TZS", locale: "en" }),
+    } as unknown as PortalRegistry;
+
+    vi.mocked(formatters.procedure.format).mockReturnValue({
+      text: "Test formatted procedure",
+      data: {},
+    });
+
+    resource = createProcedureResource(mockRegistry);
+  });
+
+  it("has the URI template of the procedures", () => {
+    expect(resource.name).toBe("procedure");
+    expect(resource.uriTemplate).toBe(
+      "eregulations://{portal}/procedures/{procedureId}"
+    );
+  });
+
+  it("lists the procedures of the portals that can be reached", async () => {
+    const result = await resource.list!();
+
+    expect(result.resources).toEqual([
+      {
+        uri: "eregulations://tanzania/procedures/725",
+        name: "Export > Buying cloves",
+        mimeType: "text/plain",
+      },
+      {
+        uri: "eregulations://tanzania/procedures/794",
+        name: "Clearance through port",
+        mimeType: "text/plain",
+      },
+    ]);
+  });
+
+  it("leaves out the objectives and menus of the tree", async () => {
+    vi.mocked(mockApis.tanzania.getProceduresList).mockResolvedValue([
+      { id: 1, name: "Export", isProcedure: false },
+      {
+        id: 3,
+        name: "Zanzibar",
+        fullName: "Export > Zanzibar",
+        isProcedure: false,
+      },
+      {
+        id: 725,
+        name: "Buying cloves",
+        fullName: "Export > Zanzibar > Buying cloves",
+        menuId: 3,
+        isProcedure: true,
+      },
+    ]);
+
+    const result = await resource.list!();
+
+    expect(result.resources).toEqual([
+      {
+        uri: "eregulations://tanzania/procedures/725",
+        name: "Export > Zanzibar > Buying cloves",
+        mimeType: "text/plain",
+      },
+    ]);
+  });
+
+  it("reads a procedure with its totals in the locale of its portal", async () => {
+    let locale;
+    vi.mocked(formatters.procedure.format).mockImplementationOnce(() => {
+      locale = getFormattingLocale();
+      return { text: "Test formatted procedure", data: {} };
+    });
+    const uri = new URL("eregulations://tanzania/procedures/725");
+
+    const result = await resource.read(uri, {
+      portal: "tanzania",
+      procedureId: "725",
+    });
+
+    expect(mockApis.tanzania.getProcedureById).toHaveBeenCalledWith(725);
+    expect(formatters.procedure.format).toHaveBeenCalledWith({
+      ...mockProcedure,
+      totals: { institutionCount: 2 },
+    });
+    expect(locale).toEqual({ currency: "TZS", locale: "en" });
+    expect(result).toEqual({
+      contents: [
+        {
+          uri: "eregulations://tanzania/procedures/725",
+          mimeType: "text/plain",
+          text: "Test formatted procedure",
+        },
+      ],
+    });
+  });
+
+  it("rejects unknown portals and invalid IDs", async () => {
+    await expect(
+      resource.read(new URL("eregulations://lesotho/procedures/725"), {
+        portal: "lesotho",
+        procedureId: "725",
+      })
+    ).rejects.toThrow('Unknown portal "lesotho"');
+    await expect(
+      resource.read(new URL("eregulations://tanzania/procedures/abc"), {
+        portal: "tanzania",
+        procedureId: "abc",
+      })
+    ).rejects.toThrow('Invalid procedureId "abc"');
+  });
+
+  it("depends on the procedure and its totals", () => {
+    const variables = { portal: "tanzania", procedureId: "725" };
+
+    expect(resource.dependsOn(variables, "/Procedures/725")).toBe(true);
+    expect(resource.dependsOn(variables, "/Procedures/725/Totals")).toBe(true);
+    expect(resource.dependsOn(variables, "/Procedures/7250")).toBe(false);
+    expect(resource.dependsOn(variables, "/Procedures/725/Steps/1")).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createStepResource } from "../../mcp-capabilities/resources/step.js";
+import { ERegulationsApi } from "../../services/eregulations-api.js";
+import { PortalRegistry } from "../../services/portal-registry.js";
+import { formatters } from "../../mcp-capabilities/tools/formatters/index.js";
+
+// Mock dependencies
+vi.mock("../../mcp-capabilities/tools/formatters/index.js", () => ({
+  formatters: {
+    step: {
+      format: vi.fn(),
+    },
+  },
+}));
+vi.mock("../../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("StepResource", () => {
+  let mockApi: ERegulationsApi;
+  let resource: ReturnType<typeof createStepResource>;
+
+  const mockStep = { id: 2787, name: "Submit application", procedureId: 725 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApi = {
+      getProcedureStep: vi.fn().mockResolvedValue(mockStep),
+    } as unknown as ERegulationsApi;
+    const mockRegistry = {
+      resolvePortal: vi.fn().mockReturnValue("tanzania"),
+      getApi: vi.fn().mockReturnValue(mockApi),
+      getLocale: vi.fn().mockResolvedValue({}),
+    } as unknown as PortalRegistry;
+
+    vi.mocked(formatters.step.format).mockReturnValue({
+      text: "Test formatted step",
+      data: {},
+    });
+
+    resource = createStepResource(mockRegistry);
+  });
+
+  it("is not listed", () => {
+    expect(resource.uriTemplate).toBe(
+      "eregulations://{portal}/procedures/{procedureId}/steps/{stepId}"
+    );
+    expect(resource.list).toBeUndefined();
+  });
+
+  it("reads a step of a procedure", async () => {
+    const uri = new URL("eregulations://tanzania/procedures/725/steps/2787");
+
+    const result = await resource.read(uri, {
+      portal: "tanzania",
+      procedureId: "725",
+      stepId: "2787",
+    });
+
+    expect(mockApi.getProcedureStep).toHaveBeenCalledWith(725, 2787);
+    expect(formatters.step.format).toHaveBeenCalledWith(mockStep);
+    expect(result.contents).toEqual([
+      { uri: uri.href, mimeType: "text/plain", text: "Test formatted step" },
+    ]);
+  });
+
+  it("depends on the step only", () => {
+    const variables = {
+      portal: "tanzania",
+      procedureId: "725",
+      stepId: "2787",
+    };
+
+    expect(resource.dependsOn(variables, "/Procedures/725/Steps/2787")).toBe(
+      true
+    );
+    expect(resource.dependsOn(variables, "/Procedures/725")).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryCacheStore, ResponseCache } from "../services/response-cache.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+describe("MemoryCacheStore", () => {
+  it("evicts the least recently used entries", async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set("a", { data: 1, storedAt: 0 });
+    await store.set("b", { data: 2, storedAt: 0 });
+    await store.get("a");
+    await store.set("c", { data: 3, storedAt: 0 });
+
+    expect(await store.get("a")).toBeDefined();
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBeDefined();
+  });
+});
+
+describe("ResponseCache", () => {
+  const url = "https://api.example.com/Procedures/1";
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves fresh responses without fetching again", async () => {
+    const cache = new ResponseCache();
+    const fetcher = vi.fn().mockResolvedValue({ id: 1 });
+
+    expect(await cache.get(url, fetcher)).toEqual({ id: 1 });
+    expect(await cache.get(url, fetcher)).toEqual({ id: 1 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares concurrent requests for the same key", async () => {
+    const cache = new ResponseCache();
+    const fetcher = vi.fn().mockResolvedValue({ id: 1 });
+
+    await Promise.all([cache.get(url, fetcher), cache.get(url, fetcher)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves expired responses while refreshing them", async () => {
+    const cache = new ResponseCache({ defaultTtl: HOUR });
+    await cache.get(url, async () => "old");
+    vi.advanceTimersByTime(2 * HOUR);
+    const fetcher = vi.fn().mockResolvedValue("new");
+
+    expect(await cache.get(url, fetcher)).toBe("old");
+    await vi.runAllTimersAsync();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(await cache.get(url, fetcher)).toBe("new");
+  });
+
+  it("fetches responses past the stale window, falling back on errors", async () => {
+    const cache = new ResponseCache({ defaultTtl: HOUR, staleTtl: HOUR });
+    await cache.get(url, async () => "old");
+    vi.advanceTimersByTime(3 * HOUR);
+
+    expect(await cache.get(url, async () => "new")).toBe("new");
+
+    vi.advanceTimersByTime(3 * HOUR);
+    expect(
+      await cache.get(url, () => Promise.reject(new Error("Timeout")))
+    ).toBe("new");
+  });
+
+  it("tells listeners about the responses changed when refreshed", async () => {
+    const cache = new ResponseCache({ defaultTtl: HOUR, staleTtl: HOUR });
+    const listener = vi.fn();
+    const removeListener = cache.onChange(listener);
+
+    await cache.get(url, async () => ({ id: 1, name: "Old" }));
+    vi.advanceTimersByTime(3 * HOUR);
+    await cache.get(url, async () => ({ id: 1, name: "Old" }));
+    expect(listener).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(3 * HOUR);
+    await cache.get(url, async () => ({ id: 1, name: "New" }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(url);
+
+    removeListener();
+    vi.advanceTimersByTime(3 * HOUR);
+    await cache.get(url, async () => ({ id: 1, name: "Newer" }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies per-endpoint TTLs", () => {
+    const cache = new ResponseCache({
+      defaultTtl: HOUR,
+      ttlRules: [{ pattern: /\/Procedures\//, ttl: 2 * HOUR }],
+    });
+
+    expect(cache.getTtl(url)).toBe(2 * HOUR);
+    expect(cache.getTtl("https://api.example.com/Country/Details")).toBe(
+      24 * HOUR
+    );
+    // Institutions are served by the contacts endpoint
+    expect(cache.getTtl("https://api.example.com/Contacts/8")).toBe(24 * HOUR);
+    expect(cache.getTtl("https://api.example.com/Objectives")).toBe(HOUR);
+  });
+
+  describe("on disk", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), "eregulations-cache-"));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("persists responses across cache instances", async () => {
+      await new ResponseCache({ directory }).get(url, async () => ({ id: 1 }));
+      const fetcher = vi.fn();
+
+      const cached = await new ResponseCache({ directory }).get(url, fetcher);
+
+      expect(cached).toEqual({ id: 1 });
+      expect(fetcher).not.toHaveBeenCalled();
+      expect(readdirSync(directory)).toHaveLength(1);
+    });
+
+    it("serves only cached responses in offline mode", async () => {
+      await new ResponseCache({ directory }).get(url, async () => ({ id: 1 }));
+      vi.advanceTimersByTime(365 * 24 * HOUR);
+      const cache = new ResponseCache({ directory, offline: true });
+      const fetcher = vi.fn();
+
+      expect(await cache.get(url, fetcher)).toEqual({ id: 1 });
+      await expect(
+        cache.get("https://api.example.com/Procedures/2", fetcher)
+      ).rejects.toThrow("Offline mode: no cached response");
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  editDistance,
+  parseQuery,
+  SearchIndex,
+  stem,
+  tokenize,
+} from "../services/search-index.js";
+
+describe("text analysis", () => {
+  it("normalizes, stems and drops stop words", () => {
+    expect(tokenize("Registering the Companies of Côte d'Ivoire")).toEqual([
+      "register",
+      "company",
+      "cote",
+      "d",
+      "ivoire",
+    ]);
+    expect(stem("permits")).toBe("permit");
+    expect(stem("business")).toBe("business");
+    expect(stem("registered")).toBe("register");
+  });
+
+  it("stems French, Spanish and Portuguese words", () => {
+    expect(tokenize("Création des entreprises", "fr")).toEqual(
+      tokenize("creation d'une entreprise", "fr")
+    );
+    expect(stem("immatriculees", "fr")).toBe(stem("immatricule", "fr"));
+    expect(stem("bureaux", "fr")).toBe("bureau");
+    expect(stem("licencias", "es")).toBe(stem("licencia", "es"));
+    expect(stem("inscripciones", "es")).toBe("inscripcion");
+    expect(stem("certidoes", "pt")).toBe(stem("certidao", "pt"));
+    expect(stem("nacionais", "pt")).toBe("nacional");
+  });
+
+  it("measures typos with transpositions", () => {
+    expect(editDistance("permit", "premit", 2)).toBe(1);
+    expect(editDistance("licence", "license", 2)).toBe(1);
+    expect(editDistance("import", "export", 1)).toBe(2);
+  });
+
+  it("parses quoted phrases", () => {
+    expect(parseQuery('"work permit" foreign')).toEqual({
+      terms: ["work", "permit", "foreign"],
+      phrases: [["work", "permit"]],
+    });
+  });
+});
+
+describe("SearchIndex", () => {
+  const createIndex = () => {
+    const index = new SearchIndex({
+      fieldWeights: { name: 3 },
+      titleFields: ["name"],
+    });
+    index.add({
+      id: "1",
+      fields: {
+        name: ["Register a company"],
+        steps: ["Reserve a company name", "Submit the registration form"],
+      },
+    });
+    index.add({
+      id: "2",
+      fields: {
+        name: ["Apply for a work permit"],
+        steps: ["Get a permit from the Immigration Department"],
+      },
+    });
+    index.add({
+      id: "3",
+      fields: {
+        name: ["Import goods"],
+        steps: [
+          "Apply for an import permit at the port, then work with a clearing agent",
+        ],
+      },
+    });
+    return index;
+  };
+
+  it("ranks documents with all the query words", () => {
+    const results = createIndex().search("permit apply");
+
+    expect(results.matches.map((match) => match.id)).toEqual(["2", "3"]);
+    expect(results.matches[0].score).toBeGreaterThan(results.matches[1].score);
+    expect(results.total).toBe(2);
+  });
+
+  it("matches quoted phrases as is", () => {
+    const results = createIndex().search('"work permit"');
+
+    expect(results.matches.map((match) => match.id)).toEqual(["2"]);
+  });
+
+  it("tolerates typos and reports them", () => {
+    const results = createIndex().search("compnay");
+
+    expect(results.matches.map((match) => match.id)).toEqual(["1"]);
+    expect(results.corrections).toEqual({ compnay: ["company"] });
+  });
+
+  it("highlights the matched words in snippets", () => {
+    const results = createIndex().search("reserve company");
+
+    expect(results.matches[0].snippets).toEqual([
+      { field: "steps", text: "**Reserve** a **company** name" },
+    ]);
+  });
+
+  it("cuts long snippets around the first match", () => {
+    const index = new SearchIndex();
+    const filler = "The applicant completes the general information form. ";
+    index.add({
+      id: "1",
+      fields: {
+        description: [
+          `${filler.repeat(3)}A stamp duty is paid. ${filler.repeat(3)}`,
+        ],
+      },
+    });
+
+    const [snippet] = index.search("stamp").matches[0].snippets;
+
+    expect(snippet.text).toMatch(/^\.\.\.\S.*\*\*stamp\*\* duty.*\S\.\.\.$/);
+    expect(snippet.text.length).toBeLessThanOrEqual(170);
+  });
+
+  it("matches words with or without accents in the index language", () => {
+    const index = new SearchIndex({ language: "fr" });
+    index.add({ id: "1", fields: { name: ["Création d'entreprise"] } });
+    index.add({ id: "2", fields: { name: ["Permis de construire"] } });
+
+    const results = index.search("creation des entreprises");
+
+    expect(results.matches.map((match) => match.id)).toEqual(["1"]);
+    expect(results.corrections).toEqual({});
+  });
+
+  it("replaces documents with the same ID", () => {
+    const index = createIndex();
+    index.add({ id: "1", fields: { name: ["Close a company"] } });
+
+    expect(index.size).toBe(3);
+    expect(index.search("register").matches).toEqual([]);
+  });
+});
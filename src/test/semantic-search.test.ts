@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ERegulationsApi } from "../services/eregulations-api.js";
+import type { EmbeddingProvider } from "../services/embeddings.js";
+import {
+  configureSemanticSearch,
+  searchProceduresSemantically,
+} from "../services/semantic-search.js";
+
+vi.mock("../utils/logger.js", () => ({
+  logger: {
+    log: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Concepts of the fake model: texts are close when they share one
+const CONCEPTS = [
+  ["fish", "fishery", "seafood"],
+  ["abroad", "export", "selling"],
+  ["company", "business", "register"],
+];
+
+const createProvider = () =>
+  ({
+    id: "fake-model",
+    embed: vi.fn(async (texts: string[]) =>
+      texts.map((text) =>
+        CONCEPTS.map((words) =>
+          words.some((word) => text.toLowerCase().includes(word)) ? 1 : 0
+        )
+      )
+    ),
+  } satisfies EmbeddingProvider);
+
+describe("searchProceduresSemantically", () => {
+  let provider: ReturnType<typeof createProvider>;
+
+  const createApi = () =>
+    ({
+      getProceduresList: vi.fn().mockResolvedValue([
+        {
+          id: 10,
+          name: "Export of fishery products",
+          fullName: "Export > Export of fishery products",
+          menuId: 1,
+          isProcedure: true,
+        },
+        { id: 20, name: "Register a company", isProcedure: true },
+        { id: 30, name: "Get a building permit", isProcedure: true },
+      ]),
+      getProcedureById: vi.fn().mockImplementation(async (id: number) => ({
+        id,
+        data: {
+          blocks: [
+            {
+              steps:
+                id === 30
+                  ? [{ id: 300, name: "Sell seafood at the harbour" }]
+                  : [],
+            },
+          ],
+        },
+      })),
+      searchProcedures: vi.fn().mockResolvedValue([
+        { id: 20, name: "Register a company", links: [{ rel: "procedure" }] },
+        { id: 5, name: "Fishing objective", links: [{ rel: "objective" }] },
+        { id: 40, name: "Fishing licence", links: [{ rel: "procedure" }] },
+      ]),
+    } as unknown as ERegulationsApi);
+
+  beforeEach(() => {
+    provider = createProvider();
+    configureSemanticSearch({ provider });
+  });
+
+  afterEach(() => {
+    configureSemanticSearch();
+  });
+
+  it("ranks procedures by meaning and merges the keyword search", async () => {
+    const api = createApi();
+
+    const results = await searchProceduresSemantically(
+      api,
+      "how do I start selling fish abroad?"
+    );
+
+    expect(results).toMatchObject({ model: "fake-model", indexedCount: 3 });
+    expect(results.hits.map((hit) => [hit.id, hit.source])).toEqual([
+      [10, "semantic"],
+      [30, "semantic"],
+      [20, "both"],
+      [40, "keyword"],
+    ]);
+    expect(results.hits[0]).toMatchObject({ similarity: 1, menuId: 1 });
+    // Procedures matching through a step say which one
+    expect(results.hits[1].matchedStep).toBe("Sell seafood at the harbour");
+    expect(results.hits[2].similarity).toBe(0);
+  });
+
+  it("reuses the index and the stored vectors", async () => {
+    const api = createApi();
+
+    await searchProceduresSemantically(api, "fish");
+    await searchProceduresSemantically(api, "export", 1);
+
+    expect(api.getProceduresList).toHaveBeenCalledTimes(1);
+    // The texts of the procedures once, then each query
+    expect(provider.embed).toHaveBeenCalledTimes(3);
+    expect(provider.embed.mock.calls[0][0]).toHaveLength(4);
+  });
+
+  it("persists the vectors in a directory", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "eregulations-vectors-"));
+    try {
+      configureSemanticSearch({ provider, directory });
+      await searchProceduresSemantically(createApi(), "fish");
+
+      const restarted = createProvider();
+      configureSemanticSearch({ provider: restarted, directory });
+      await searchProceduresSemantically(createApi(), "fish");
+
+      // Only the query is embedded after a restart
+      expect(restarted.embed).toHaveBeenCalledTimes(1);
+      expect(restarted.embed).toHaveBeenCalledWith(["fish"]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("falls back to the keyword search when the index cannot be built", async () => {
+    provider.embed.mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+    const results = await searchProceduresSemantically(createApi(), "fish");
+
+    expect(results.fallbackReason).toBe("connect ECONNREFUSED");
+    expect(results.hits).toEqual([
+      { id: 20, name: "Register a company", score: 2, source: "keyword" },
+      { id: 40, name: "Fishing licence", score: 1, source: "keyword" },
+    ]);
+  });
+
+  it("falls back to the keyword search until the procedures can be listed", async () => {
+    const api = createApi();
+    // The API client returns an empty list when the portal cannot be reached
+    vi.mocked(api.getProceduresList).mockResolvedValueOnce([]);
+
+    const fallback = await searchProceduresSemantically(api, "fish");
+    const results = await searchProceduresSemantically(api, "fish");
+
+    expect(fallback.fallbackReason).toBe("No procedures could be listed");
+    expect(results.fallbackReason).toBeUndefined();
+    expect(results.indexedCount).toBe(3);
+    expect(api.getProceduresList).toHaveBeenCalledTimes(2);
+  });
+
+  it("tells when the model is lexical", async () => {
+    configureSemanticSearch();
+
+    const results = await searchProceduresSemantically(createApi(), "fishery");
+
+    expect(results).toMatchObject({ model: "hashing-512", lexical: true });
+    expect(results.hits[0].id).toBe(10);
+  });
+
+  it("fails when both searches fail", async () => {
+    const api = createApi();
+    vi.mocked(api.getProceduresList).mockRejectedValue(new Error("API Down"));
+    vi.mocked(api.searchProcedures).mockRejectedValue(new Error("API Down"));
+
+    await expect(searchProceduresSemantically(api, "fish")).rejects.toThrow(
+      "API Down"
+    );
+  });
+});